@@ -7,9 +7,17 @@ import ClientsPage from "@/pages/clients-page";
 import TechniciansPage from "@/pages/technicians-page";
 import OrdersPage from "@/pages/orders-page";
 import EquipmentPage from "@/pages/equipment-page";
+import EquipmentDetailPage from "@/pages/equipment-detail-page";
+import InventoryPage from "@/pages/inventory-page";
 import UsersPage from "@/pages/users-page";
 import AdminPage from "@/pages/admin-page";
 import FinancePage from "@/pages/finance-page";
+import SchedulePage from "@/pages/schedule-page";
+import MyOrdersPage from "@/pages/my-orders-page";
+import ProfilePage from "@/pages/profile-page";
+import SlaPage from "@/pages/sla-page";
+import ContractsPage from "@/pages/contracts-page";
+import ApprovalPage from "@/pages/approval-page";
 import { Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -47,9 +55,19 @@ function AppRoutes() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/approve/:token" component={ApprovalPage} />
       <Route path="/">
         {() => <ProtectedRoute component={DashboardPage} />}
       </Route>
+      <Route path="/my-orders">
+        {() => <ProtectedRoute component={MyOrdersPage} />}
+      </Route>
+      <Route path="/schedule">
+        {() => <ProtectedRoute component={SchedulePage} />}
+      </Route>
+      <Route path="/sla">
+        {() => <ProtectedRoute component={SlaPage} />}
+      </Route>
       <Route path="/clients">
         {() => <ProtectedRoute component={ClientsPage} />}
       </Route>
@@ -62,6 +80,15 @@ function AppRoutes() {
       <Route path="/equipment">
         {() => <ProtectedRoute component={EquipmentPage} />}
       </Route>
+      <Route path="/equipment/:id">
+        {() => <ProtectedRoute component={EquipmentDetailPage} />}
+      </Route>
+      <Route path="/contracts">
+        {() => <ProtectedRoute component={ContractsPage} />}
+      </Route>
+      <Route path="/inventory">
+        {() => <ProtectedRoute component={InventoryPage} />}
+      </Route>
       <Route path="/users">
         {() => <ProtectedRoute component={UsersPage} />}
       </Route>
@@ -71,6 +98,9 @@ function AppRoutes() {
       <Route path="/finance">
         {() => <ProtectedRoute component={FinancePage} />}
       </Route>
+      <Route path="/profile">
+        {() => <ProtectedRoute component={ProfilePage} />}
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,355 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { AppointmentWithDetails, InsertAppointment, ServiceOrder, Technician } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Loader2, Trash2 } from "lucide-react";
+
+type TechnicianWithName = Technician & { fullName?: string };
+
+const appointmentFormSchema = z.object({
+  serviceOrderId: z.coerce.number().int().positive("Seleccione una orden"),
+  technicianId: z.coerce.number().int().positive("Seleccione un técnico"),
+  date: z.string().min(1, "Indique la fecha"),
+  startTime: z.string().min(1, "Indique la hora de inicio"),
+  endTime: z.string().min(1, "Indique la hora de fin"),
+  location: z.enum(["on_site", "in_shop"]),
+  notes: z.string().max(500).optional(),
+}).refine((values) => values.endTime > values.startTime, {
+  message: "La cita debe terminar después de su inicio",
+  path: ["endTime"],
+});
+
+type AppointmentFormValues = z.infer<typeof appointmentFormSchema>;
+
+// Valores iniciales de una cita nueva (desde una celda del calendario)
+export interface AppointmentDraft {
+  startsAt: Date;
+  endsAt: Date;
+  technicianId?: number;
+}
+
+interface AppointmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Cita a editar; si no se indica se crea una nueva a partir de draft
+  appointment?: AppointmentWithDetails | null;
+  draft?: AppointmentDraft | null;
+  technicians: TechnicianWithName[];
+}
+
+const toDateTime = (date: string, time: string) => new Date(`${date}T${time}`);
+
+function initialValues(appointment?: AppointmentWithDetails | null, draft?: AppointmentDraft | null): AppointmentFormValues {
+  const startsAt = appointment ? new Date(appointment.startsAt) : draft?.startsAt ?? new Date();
+  const endsAt = appointment ? new Date(appointment.endsAt) : draft?.endsAt ?? new Date(startsAt.getTime() + 60 * 60 * 1000);
+  return {
+    serviceOrderId: appointment?.serviceOrderId ?? 0,
+    technicianId: appointment?.technicianId ?? draft?.technicianId ?? 0,
+    date: format(startsAt, "yyyy-MM-dd"),
+    startTime: format(startsAt, "HH:mm"),
+    endTime: format(endsAt, "HH:mm"),
+    location: appointment?.location ?? "in_shop",
+    notes: appointment?.notes ?? "",
+  };
+}
+
+// Alta y edición de una cita con aviso de traslapes con la agenda del técnico
+export function AppointmentDialog({ open, onOpenChange, appointment, draft, technicians }: AppointmentDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<AppointmentFormValues>({
+    resolver: zodResolver(appointmentFormSchema),
+    defaultValues: initialValues(appointment, draft),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(initialValues(appointment, draft));
+  }, [open, appointment, draft]);
+
+  // Órdenes que todavía se pueden agendar
+  const { data: orders } = useQuery<ServiceOrder[]>({
+    queryKey: ["/api/service-orders"],
+    enabled: open,
+  });
+  const schedulableOrders = (orders || []).filter(
+    (order) => (order.status !== "completed" && order.status !== "cancelled") || order.id === appointment?.serviceOrderId
+  );
+
+  const [technicianId, date, startTime, endTime] = form.watch(["technicianId", "date", "startTime", "endTime"]);
+  const hasValidRange = Boolean(technicianId && date && startTime && endTime && endTime > startTime);
+
+  // Revisa la agenda del técnico mientras se elige el horario
+  const conflictParams = new URLSearchParams(hasValidRange ? {
+    technicianId: String(technicianId),
+    from: toDateTime(date, startTime).toISOString(),
+    to: toDateTime(date, endTime).toISOString(),
+    ...(appointment ? { excludeId: String(appointment.id) } : {}),
+  } : {});
+  const { data: conflicts } = useQuery<AppointmentWithDetails[]>({
+    queryKey: [`/api/appointments/conflicts?${conflictParams.toString()}`],
+    enabled: open && hasValidRange,
+    staleTime: 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertAppointment) => {
+      const res = appointment
+        ? await apiRequest("PUT", `/api/appointments/${appointment.id}`, data)
+        : await apiRequest("POST", "/api/appointments", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/technicians"] });
+      toast({
+        title: appointment ? "Cita actualizada" : "Cita agendada",
+        description: "La agenda del técnico se actualizó correctamente",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo guardar la cita: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/appointments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/technicians"] });
+      toast({ title: "Cita eliminada", description: "La cita se quitó de la agenda" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo eliminar la cita: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: AppointmentFormValues) => {
+    saveMutation.mutate({
+      serviceOrderId: values.serviceOrderId,
+      technicianId: values.technicianId,
+      startsAt: toDateTime(values.date, values.startTime),
+      endsAt: toDateTime(values.date, values.endTime),
+      location: values.location,
+      notes: values.notes?.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-screen overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{appointment ? "Editar Cita" : "Nueva Cita"}</DialogTitle>
+          <DialogDescription>
+            {appointment?.orderNumber
+              ? `Orden ${appointment.orderNumber}${appointment.clientName ? ` · ${appointment.clientName}` : ""}`
+              : "Agende el trabajo de un técnico en una orden de servicio."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="serviceOrderId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Orden de Servicio</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value ? field.value.toString() : ""}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccionar orden" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {schedulableOrders.map((order) => (
+                        <SelectItem key={order.id} value={order.id.toString()}>
+                          {order.orderNumber} - {order.description.slice(0, 60)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="technicianId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Técnico</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value ? field.value.toString() : ""}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleccionar técnico" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {technicians.map((technician) => (
+                        <SelectItem key={technician.id} value={technician.id.toString()}>
+                          {technician.fullName ?? `Técnico ${technician.id}`} - {technician.specialization}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fecha</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Inicio</FormLabel>
+                    <FormControl>
+                      <Input type="time" step={1800} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fin</FormLabel>
+                    <FormControl>
+                      <Input type="time" step={1800} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lugar</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="in_shop">En taller</SelectItem>
+                      <SelectItem value="on_site">En sitio del cliente</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notas</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} placeholder="Indicaciones para el técnico (opcional)" rows={2} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {conflicts && conflicts.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <p className="flex items-center font-medium">
+                  <AlertTriangle className="mr-2 h-4 w-4" /> El técnico ya tiene citas en ese horario
+                </p>
+                <ul className="mt-1 list-disc pl-6">
+                  {conflicts.map((conflict) => (
+                    <li key={conflict.id}>
+                      {format(new Date(conflict.startsAt), "HH:mm")} - {format(new Date(conflict.endsAt), "HH:mm")}
+                      {conflict.orderNumber && ` · ${conflict.orderNumber}`}
+                      {conflict.clientName && ` · ${conflict.clientName}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter className="gap-2">
+              {appointment && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="mr-auto text-red-600"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => {
+                    if (confirm("¿Eliminar esta cita de la agenda?")) {
+                      deleteMutation.mutate(appointment.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" /> Eliminar
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending || (conflicts?.length ?? 0) > 0}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {appointment ? "Actualizar" : "Agendar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
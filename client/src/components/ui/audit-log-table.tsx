@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AuditLogEntry, auditEntityTypes } from "@shared/schema";
+import { DataTable } from "@/components/ui/data-table";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+
+type AuditRow = AuditLogEntry & { actorName: string };
+
+const entityLabels: Record<string, string> = {
+  user: "Usuario",
+  client: "Cliente",
+  technician: "Técnico",
+  equipment: "Equipo",
+  service_order: "Orden de servicio",
+  part: "Refacción",
+  company_settings: "Configuración",
+  backup_settings: "Respaldos",
+  email_template: "Plantilla de correo",
+  notification_settings: "Avisos al cliente",
+  attachment: "Adjunto",
+  appointment: "Cita",
+  sla_policy: "Política SLA",
+  business_calendar: "Calendario laboral",
+  maintenance_contract: "Contrato de mantenimiento",
+};
+
+const actionDisplay: Record<string, { label: string; className: string }> = {
+  create: { label: "Creación", className: "bg-green-100 text-green-800" },
+  update: { label: "Modificación", className: "bg-blue-100 text-blue-800" },
+  delete: { label: "Eliminación", className: "bg-red-100 text-red-800" },
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Resumen de los campos afectados por una operación
+function ChangesSummary({ entry }: { entry: AuditRow }) {
+  const { before, after } = entry.changes;
+  const fields = Object.keys(after ?? before ?? {});
+
+  return (
+    <div className="max-w-md space-y-0.5 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="truncate" title={`${formatValue(before?.[field])} → ${formatValue(after?.[field])}`}>
+          <span className="font-medium">{field}:</span>{" "}
+          {entry.action === "update" && (
+            <>
+              <span className="text-muted-foreground line-through">{formatValue(before?.[field])}</span>{" → "}
+            </>
+          )}
+          <span>{formatValue(entry.action === "delete" ? before?.[field] : after?.[field])}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Registro de auditoría con filtros por entidad y acción
+export function AuditLogTable() {
+  const [entityType, setEntityType] = useState("all");
+  const [action, setAction] = useState("all");
+
+  const { items, isLoading, serverSide } = usePaginatedQuery<AuditRow>(
+    "/api/audit",
+    {
+      entityType: entityType === "all" ? undefined : entityType,
+      action: action === "all" ? undefined : action,
+    },
+    20
+  );
+
+  const columns = [
+    {
+      header: "Fecha",
+      accessorKey: "createdAt" as keyof AuditRow,
+      cell: (row: AuditRow) => format(new Date(row.createdAt), "dd/MM/yyyy HH:mm", { locale: es }),
+    },
+    {
+      header: "Usuario",
+      accessorKey: "actorName" as keyof AuditRow,
+    },
+    {
+      header: "Entidad",
+      accessorKey: "entityType" as keyof AuditRow,
+      cell: (row: AuditRow) => `${entityLabels[row.entityType] || row.entityType} #${row.entityId}`,
+    },
+    {
+      header: "Acción",
+      accessorKey: "action" as keyof AuditRow,
+      cell: (row: AuditRow) => (
+        <Badge variant="outline" className={actionDisplay[row.action]?.className}>
+          {actionDisplay[row.action]?.label || row.action}
+        </Badge>
+      ),
+    },
+    {
+      header: "Cambios",
+      accessorKey: "changes" as keyof AuditRow,
+      cell: (row: AuditRow) => <ChangesSummary entry={row} />,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select value={entityType} onValueChange={setEntityType}>
+          <SelectTrigger className="w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas las entidades</SelectItem>
+            {auditEntityTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {entityLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas las acciones</SelectItem>
+            {Object.entries(actionDisplay).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DataTable
+        data={items}
+        columns={columns}
+        loading={isLoading}
+        searchable={false}
+        pageSize={20}
+        serverSide={serverSide}
+      />
+    </div>
+  );
+}
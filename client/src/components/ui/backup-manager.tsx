@@ -0,0 +1,421 @@
+import { ChangeEvent, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { BackupFileInfo, BackupFrequency, BackupSettings, RestorePreview } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, HardDrive, Loader2, RefreshCw, Save, Upload as UploadIcon } from "lucide-react";
+
+type BackupSettingsResponse = BackupSettings & { nextRunAt: string | null };
+
+const formatDate = (value: string | Date) => format(new Date(value), "dd/MM/yyyy HH:mm", { locale: es });
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const downloadBackup = (filename: string) => {
+  window.location.href = `/api/backups/${filename}`;
+};
+
+// Sube el archivo de respaldo al servidor. La respuesta trae la comparación de registros
+// también cuando el archivo no es válido (400), por eso no se usa uploadFiles.
+async function sendRestore(file: File, dryRun: boolean): Promise<RestorePreview> {
+  const formData = new FormData();
+  formData.append("files", file);
+  const res = await fetch(`/api/backups/restore${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const body = await res.json();
+  if (!res.ok && !body.tables) {
+    throw new Error(body.message || res.statusText);
+  }
+  return body;
+}
+
+// Respaldo manual, restauración con vista previa y programación de respaldos automáticos
+export function BackupManager() {
+  const { toast } = useToast();
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [frequency, setFrequency] = useState<BackupFrequency>("daily");
+  const [time, setTime] = useState("02:00");
+  const [retentionDays, setRetentionDays] = useState(30);
+
+  const { data: backups, isLoading: isLoadingBackups } = useQuery<BackupFileInfo[]>({
+    queryKey: ["/api/backups"],
+    staleTime: 0,
+  });
+
+  const { data: settings } = useQuery<BackupSettingsResponse>({
+    queryKey: ["/api/backups/settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setEnabled(settings.enabled);
+      setFrequency(settings.frequency);
+      setTime(settings.time);
+      setRetentionDays(settings.retentionDays);
+    }
+  }, [settings]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/backups");
+      return (await res.json()) as BackupFileInfo;
+    },
+    onSuccess: (backup) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backups"] });
+      toast({
+        title: "Respaldo generado",
+        description: `Se generó el respaldo ${backup.filename}`,
+      });
+      downloadBackup(backup.filename);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo generar el respaldo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (file: File) => sendRestore(file, true),
+    onSuccess: setPreview,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo validar el respaldo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: () => sendRestore(backupFile!, false),
+    onSuccess: (result) => {
+      setIsConfirmOpen(false);
+      if (!result.valid) {
+        setPreview(result);
+        return;
+      }
+      setBackupFile(null);
+      setPreview(null);
+      // Todos los datos cambiaron: se descartan las consultas en caché
+      queryClient.invalidateQueries();
+      toast({
+        title: "Sistema restaurado",
+        description: "Los datos fueron restaurados desde el respaldo",
+      });
+    },
+    onError: (error) => {
+      setIsConfirmOpen(false);
+      toast({
+        title: "Error",
+        description: `No se pudo restaurar el respaldo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/backups/settings", { enabled, frequency, time, retentionDays });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backups/settings"] });
+      toast({
+        title: "Programación guardada",
+        description: "La programación de respaldos ha sido actualizada",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo guardar la programación: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sube el archivo seleccionado y solicita la vista previa de la restauración
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setPreview(null);
+    setBackupFile(file);
+    previewMutation.mutate(file);
+  };
+
+  const lastBackup = backups?.[0];
+
+  return (
+    <div className="space-y-6">
+      <Alert>
+        <HardDrive className="h-4 w-4" />
+        <AlertTitle>Información importante</AlertTitle>
+        <AlertDescription>
+          Es recomendable realizar respaldos periódicos para proteger la información de su empresa.
+        </AlertDescription>
+      </Alert>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Respaldo Manual</CardTitle>
+            <CardDescription>
+              Crea una copia de seguridad de la base de datos
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="text-sm text-muted-foreground">
+                Última copia:{" "}
+                <span className="font-semibold">
+                  {isLoadingBackups ? "..." : lastBackup ? formatDate(lastBackup.createdAt) : "Ninguna"}
+                </span>
+              </div>
+              <Button className="w-full" onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                {createMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Generar Respaldo Ahora
+              </Button>
+              {backups && backups.length > 0 && (
+                <div className="max-h-40 overflow-y-auto divide-y text-sm">
+                  {backups.map((backup) => (
+                    <div key={backup.filename} className="flex items-center justify-between py-1.5">
+                      <span>
+                        {formatDate(backup.createdAt)}
+                        <span className="text-xs text-muted-foreground"> · {formatSize(backup.size)}</span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => downloadBackup(backup.filename)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Restaurar Copia</CardTitle>
+            <CardDescription>
+              Restaura el sistema desde una copia de seguridad
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="relative">
+                <Input
+                  type="file"
+                  className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10"
+                  accept=".json,application/json"
+                  onChange={handleFileChange}
+                  disabled={previewMutation.isPending || restoreMutation.isPending}
+                />
+                <Button variant="outline" className="w-full relative">
+                  {previewMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <UploadIcon className="h-4 w-4 mr-2" />
+                  )}
+                  Seleccionar Archivo
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="space-y-2 text-sm">
+                  {preview.createdAt && (
+                    <div className="text-muted-foreground">
+                      Respaldo del <span className="font-semibold">{formatDate(preview.createdAt)}</span>
+                    </div>
+                  )}
+                  {preview.errors.length > 0 && (
+                    <ul className="list-disc pl-5 text-destructive space-y-0.5 max-h-32 overflow-y-auto">
+                      {preview.errors.map((error, index) => (
+                        <li key={index}>{error}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {preview.tables.length > 0 && (
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-xs text-muted-foreground text-left">
+                          <th className="font-medium py-1">Tabla</th>
+                          <th className="font-medium py-1 text-right">Actual</th>
+                          <th className="font-medium py-1 text-right">Respaldo</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.tables.map((entry) => (
+                          <tr key={entry.table} className="border-t">
+                            <td className="py-1">{entry.table}</td>
+                            <td className="py-1 text-right">{entry.current}</td>
+                            <td className="py-1 text-right">{entry.incoming}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+
+              <Button
+                className="w-full"
+                variant="destructive"
+                disabled={!preview?.valid || restoreMutation.isPending}
+                onClick={() => setIsConfirmOpen(true)}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Restaurar Sistema
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Programación de Respaldos</CardTitle>
+          <CardDescription>
+            Configura respaldos automáticos de la base de datos
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="autoBackup"
+                className="h-4 w-4"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+              />
+              <label htmlFor="autoBackup" className="text-sm">Habilitar respaldos automáticos</label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="frequency" className="text-sm font-medium">Frecuencia</label>
+                <select
+                  id="frequency"
+                  className="mt-1 block w-full p-2 border border-input rounded-md bg-background"
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as BackupFrequency)}
+                >
+                  <option value="daily">Diario</option>
+                  <option value="weekly">Semanal</option>
+                  <option value="monthly">Mensual</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="time" className="text-sm font-medium">Hora</label>
+                <Input
+                  id="time"
+                  type="time"
+                  className="mt-1"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="retention" className="text-sm font-medium">Retención</label>
+                <select
+                  id="retention"
+                  className="mt-1 block w-full p-2 border border-input rounded-md bg-background"
+                  value={retentionDays}
+                  onChange={(e) => setRetentionDays(Number(e.target.value))}
+                >
+                  <option value="7">7 días</option>
+                  <option value="14">14 días</option>
+                  <option value="30">30 días</option>
+                  <option value="90">90 días</option>
+                </select>
+              </div>
+            </div>
+
+            {settings && (
+              <div className="text-sm text-muted-foreground space-y-0.5">
+                <div>
+                  Última ejecución automática:{" "}
+                  <span className="font-semibold">{settings.lastRunAt ? formatDate(settings.lastRunAt) : "Nunca"}</span>
+                </div>
+                {settings.nextRunAt && (
+                  <div>
+                    Próxima ejecución: <span className="font-semibold">{formatDate(settings.nextRunAt)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Button className="mt-2" onClick={() => settingsMutation.mutate()} disabled={settingsMutation.isPending}>
+              {settingsMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Guardar Configuración
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Restaurar el sistema?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todos los datos actuales serán reemplazados por los del respaldo. Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoreMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                restoreMutation.mutate();
+              }}
+              disabled={restoreMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {restoreMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restaurar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
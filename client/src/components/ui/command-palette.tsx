@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { SearchResults } from "@shared/schema";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Clipboard, Users, Monitor, Loader2 } from "lucide-react";
+
+const statusLabels: Record<string, string> = {
+  pending: "Pendiente",
+  waiting_approval: "Esperando Aprobación",
+  approved: "Aprobado",
+  in_progress: "En Proceso",
+  completed: "Completado",
+  cancelled: "Cancelado",
+  warranty: "Garantía",
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Paleta de búsqueda global sobre órdenes, clientes y equipos (Ctrl+K)
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [, navigate] = useLocation();
+  const [input, setInput] = useState("");
+  const [term, setTerm] = useState("");
+
+  // Esperar a que el usuario deje de escribir antes de consultar la API
+  useEffect(() => {
+    const timeout = setTimeout(() => setTerm(input.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  useEffect(() => {
+    if (!open) setInput("");
+  }, [open]);
+
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: [`/api/search?q=${encodeURIComponent(term)}`],
+    enabled: open && term.length >= 2,
+  });
+
+  const goTo = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  const hasResults = !!results && (
+    results.orders.length > 0 || results.clients.length > 0 || results.equipment.length > 0
+  );
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        placeholder="Buscar órdenes, clientes o equipos..."
+      />
+      <CommandList>
+        {isFetching && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!isFetching && term.length >= 2 && !hasResults && (
+          <CommandEmpty>No se encontraron resultados.</CommandEmpty>
+        )}
+        {results && results.orders.length > 0 && (
+          <CommandGroup heading="Órdenes de servicio">
+            {results.orders.map((order) => (
+              <CommandItem
+                key={`order-${order.id}`}
+                value={`order-${order.id}`}
+                onSelect={() => goTo(`/orders?id=${order.id}`)}
+              >
+                <Clipboard className="mr-2" />
+                <div className="flex flex-col min-w-0">
+                  <span className="font-medium">
+                    #{order.orderNumber} · {statusLabels[order.status] || order.status}
+                  </span>
+                  <span className="text-xs text-muted-foreground truncate">{order.description}</span>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {results && results.clients.length > 0 && (
+          <CommandGroup heading="Clientes">
+            {results.clients.map((client) => (
+              <CommandItem
+                key={`client-${client.id}`}
+                value={`client-${client.id}`}
+                onSelect={() => goTo(`/clients?id=${client.id}`)}
+              >
+                <Users className="mr-2" />
+                <div className="flex flex-col min-w-0">
+                  <span className="font-medium">{client.name}</span>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {client.contactName} · {client.email}
+                  </span>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+        {results && results.equipment.length > 0 && (
+          <CommandGroup heading="Equipos">
+            {results.equipment.map((item) => (
+              <CommandItem
+                key={`equipment-${item.id}`}
+                value={`equipment-${item.id}`}
+                onSelect={() => goTo(`/equipment?id=${item.id}`)}
+              >
+                <Monitor className="mr-2" />
+                <div className="flex flex-col min-w-0">
+                  <span className="font-medium">{item.brand} {item.model}</span>
+                  <span className="text-xs text-muted-foreground truncate">S/N: {item.serialNumber}</span>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -1,6 +1,7 @@
-import { ReactNode, useState } from "react";
+import { ReactNode, useState, useEffect } from "react";
+import { Link } from "wouter";
 import { Sidebar } from "./sidebar";
-import { Bell, Menu } from "lucide-react";
+import { Bell, Menu, Search } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import {
   Sheet,
@@ -12,6 +13,7 @@ import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { CompanySettings } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
+import { CommandPalette } from "@/components/ui/command-palette";
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -21,6 +23,19 @@ interface DashboardLayoutProps {
 export function DashboardLayout({ children, title }: DashboardLayoutProps) {
   const { user } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  
+  // Atajo de teclado Ctrl+K (Cmd+K en Mac) para la búsqueda global
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
   
   const { data: companySettings } = useQuery<CompanySettings>({
     queryKey: ["/api/company-settings"],
@@ -71,6 +86,17 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
             </div>
             
             <div className="flex items-center space-x-4">
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-muted-foreground"
+                onClick={() => setSearchOpen(true)}
+              >
+                <Search className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Buscar</span>
+                <kbd className="hidden sm:inline ml-2 text-xs bg-muted px-1.5 rounded">Ctrl K</kbd>
+              </Button>
+              
               <div className="relative">
                 <Button variant="ghost" size="icon" className="relative">
                   <Bell className="h-5 w-5 text-gray-500" />
@@ -80,7 +106,7 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
                 </Button>
               </div>
               
-              <div className="flex items-center">
+              <Link href="/profile" className="flex items-center rounded-md px-1 py-1 hover:bg-gray-100" title="Mi perfil">
                 <Avatar className="h-8 w-8">
                   <AvatarImage src="" alt={user?.fullName} />
                   <AvatarFallback>{initials}</AvatarFallback>
@@ -88,7 +114,7 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
                 <span className="ml-2 text-sm font-medium text-gray-700 hidden sm:inline-block">
                   {user?.fullName || "Usuario"}
                 </span>
-              </div>
+              </Link>
             </div>
           </div>
         </header>
@@ -98,6 +124,8 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
           {children}
         </main>
       </div>
+      
+      <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
     </div>
   );
 }
@@ -1,13 +1,26 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useState, ReactNode } from "react";
-import { Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState, useEffect, ReactNode } from "react";
+import { Search, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from "lucide-react";
 
 interface Column<T> {
   header: string;
   accessorKey: keyof T;
   cell?: (row: T) => ReactNode;
+  // Campo por el que ordena la API al pulsar el encabezado (solo en modo servidor)
+  sortKey?: string;
+}
+
+// Modo servidor: la API resuelve la búsqueda, el orden y la paginación,
+// y la tabla solo muestra la página recibida.
+export interface ServerSideOptions {
+  total: number;
+  page: number;
+  onPageChange: (page: number) => void;
+  onSearchChange?: (term: string) => void;
+  sort?: string;
+  onSortChange?: (sort: string | undefined) => void;
 }
 
 interface DataTableProps<T> {
@@ -20,6 +33,7 @@ interface DataTableProps<T> {
   onRowClick?: (row: T) => void;
   searchColumn?: string;
   searchPlaceholder?: string;
+  serverSide?: ServerSideOptions;
 }
 
 export function DataTable<T>({
@@ -32,12 +46,35 @@ export function DataTable<T>({
   onRowClick,
   searchColumn,
   searchPlaceholder = "Buscar...",
+  serverSide,
 }: DataTableProps<T>) {
   const [searchTerm, setSearchTerm] = useState("");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [localPage, setLocalPage] = useState(1);
+  const currentPage = serverSide ? serverSide.page : localPage;
+  const setCurrentPage = serverSide ? serverSide.onPageChange : setLocalPage;
+
+  // En modo servidor la búsqueda se envía a la API tras una breve pausa al escribir
+  const onSearchChange = serverSide?.onSearchChange;
+  useEffect(() => {
+    if (!onSearchChange) return;
+    const timeout = setTimeout(() => onSearchChange(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Alterna el orden del encabezado: ascendente, descendente y sin orden
+  const handleSort = (sortKey: string) => {
+    if (!serverSide?.onSortChange) return;
+    if (serverSide.sort === sortKey) {
+      serverSide.onSortChange(`-${sortKey}`);
+    } else if (serverSide.sort === `-${sortKey}`) {
+      serverSide.onSortChange(undefined);
+    } else {
+      serverSide.onSortChange(sortKey);
+    }
+  };
 
   // Filter data based on search term
-  const filteredData = searchable && searchTerm
+  const filteredData = !serverSide && searchable && searchTerm
     ? data.filter((row) => {
         // Si hay una columna específica para buscar, solo buscamos en esa columna
         if (searchColumn) {
@@ -67,8 +104,10 @@ export function DataTable<T>({
     : data;
 
   // Calculate pagination
-  const totalPages = pagination ? Math.ceil(filteredData.length / pageSize) : 1;
-  const paginatedData = pagination
+  const totalPages = serverSide
+    ? Math.ceil(serverSide.total / pageSize)
+    : pagination ? Math.ceil(filteredData.length / pageSize) : 1;
+  const paginatedData = pagination && !serverSide
     ? filteredData.slice((currentPage - 1) * pageSize, currentPage * pageSize)
     : filteredData;
 
@@ -100,7 +139,19 @@ export function DataTable<T>({
             <TableRow>
               {columns.map((column, i) => (
                 <TableHead key={i}>
-                  {column.header}
+                  {serverSide?.onSortChange && column.sortKey ? (
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-foreground"
+                      onClick={() => handleSort(column.sortKey!)}
+                    >
+                      {column.header}
+                      {serverSide.sort === column.sortKey && <ArrowUp className="h-3 w-3" />}
+                      {serverSide.sort === `-${column.sortKey}` && <ArrowDown className="h-3 w-3" />}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
                 </TableHead>
               ))}
             </TableRow>
@@ -140,6 +191,11 @@ export function DataTable<T>({
       {/* Pagination */}
       {pagination && totalPages > 1 && (
         <div className="flex items-center justify-end space-x-2">
+          {serverSide && (
+            <span className="text-sm text-muted-foreground mr-auto">
+              {serverSide.total} registros
+            </span>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { EmailOutboxSummary, EmailStatus, emailStatusEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { DataTable } from "@/components/ui/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Loader2, RotateCw } from "lucide-react";
+
+const statusDisplay: Record<EmailStatus, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "bg-yellow-100 text-yellow-800" },
+  sending: { label: "Enviando", className: "bg-blue-100 text-blue-800" },
+  sent: { label: "Enviado", className: "bg-green-100 text-green-800" },
+  failed: { label: "Fallido", className: "bg-red-100 text-red-800" },
+};
+
+const formatDate = (value: string | Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: es }) : "—";
+
+// Cola de correos salientes con su estado de entrega; permite revisar y reenviar
+export function EmailOutboxTable() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("all");
+  const [selected, setSelected] = useState<EmailOutboxSummary | null>(null);
+
+  const { items, isLoading, serverSide } = usePaginatedQuery<EmailOutboxSummary>(
+    "/api/email-outbox",
+    { status: status === "all" ? undefined : status },
+    20
+  );
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/email-outbox/${id}/resend`);
+      return res.json() as Promise<EmailOutboxSummary>;
+    },
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-outbox"] });
+      toast({
+        title: "Correo en cola",
+        description: `El correo para ${message.to} se enviará nuevamente`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo reenviar el correo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columns = [
+    {
+      header: "Fecha",
+      accessorKey: "createdAt" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => formatDate(row.createdAt),
+    },
+    {
+      header: "Destinatario",
+      accessorKey: "to" as keyof EmailOutboxSummary,
+    },
+    {
+      header: "Asunto",
+      accessorKey: "subject" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => (
+        <div className="max-w-xs truncate" title={row.subject}>
+          {row.subject}
+        </div>
+      ),
+    },
+    {
+      header: "Estado",
+      accessorKey: "status" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => (
+        <Badge variant="outline" className={statusDisplay[row.status].className}>
+          {statusDisplay[row.status].label}
+        </Badge>
+      ),
+    },
+    {
+      header: "Intentos",
+      accessorKey: "attempts" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => `${row.attempts}/${row.maxAttempts}`,
+    },
+    {
+      header: "Detalle",
+      accessorKey: "lastError" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => {
+        if (row.status === "sent") return `Entregado: ${formatDate(row.sentAt)}`;
+        if (row.status === "pending" && row.attempts > 0) {
+          return `Próximo intento: ${formatDate(row.nextAttemptAt)}`;
+        }
+        return row.lastError ? (
+          <div className="max-w-xs truncate text-xs text-red-600" title={row.lastError}>
+            {row.lastError}
+          </div>
+        ) : "—";
+      },
+    },
+    {
+      header: "Acciones",
+      accessorKey: "id" as keyof EmailOutboxSummary,
+      cell: (row: EmailOutboxSummary) => (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="icon" title="Ver correo" onClick={() => setSelected(row)}>
+            <Eye className="h-4 w-4" />
+          </Button>
+          {(row.status === "failed" || row.status === "sent") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Reenviar"
+              disabled={resendMutation.isPending}
+              onClick={() => resendMutation.mutate(row.id)}
+            >
+              {resendMutation.isPending && resendMutation.variables === row.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCw className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Select value={status} onValueChange={setStatus}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Todos los estados</SelectItem>
+          {emailStatusEnum.enumValues.map((value) => (
+            <SelectItem key={value} value={value}>
+              {statusDisplay[value].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DataTable
+        data={items}
+        columns={columns}
+        loading={isLoading}
+        searchable={false}
+        pageSize={20}
+        serverSide={serverSide}
+      />
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.subject}</DialogTitle>
+                <DialogDescription>
+                  Para {selected.to} · {statusDisplay[selected.status].label}
+                  {selected.attachments.length > 0 && ` · Adjuntos: ${selected.attachments.join(", ")}`}
+                </DialogDescription>
+              </DialogHeader>
+              {selected.lastError && (
+                <p className="text-sm text-red-600 break-all">Último error: {selected.lastError}</p>
+              )}
+              {selected.html ? (
+                <iframe
+                  title="Contenido del correo"
+                  sandbox=""
+                  srcDoc={selected.html}
+                  className="h-[60vh] w-full rounded-md border bg-white"
+                />
+              ) : (
+                <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap text-sm">{selected.text}</pre>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
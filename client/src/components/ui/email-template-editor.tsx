@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { EmailTemplateEvent, EmailTemplateInfo, EmailTemplatePreview } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Loader2, RotateCcw, Save } from "lucide-react";
+
+const eventLabels: Record<EmailTemplateEvent, string> = {
+  order_created: "Orden creada",
+  status_changed: "Cambio de estado",
+  waiting_approval: "Esperando aprobación",
+  order_completed: "Orden completada",
+  warranty_opened: "Garantía abierta",
+};
+
+// Editor de las plantillas de correo de cada evento con vista previa sobre datos de ejemplo
+export function EmailTemplateEditor() {
+  const { toast } = useToast();
+  const [event, setEvent] = useState<EmailTemplateEvent>("order_created");
+  const [subject, setSubject] = useState("");
+  const [html, setHtml] = useState("");
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const htmlRef = useRef<HTMLTextAreaElement>(null);
+
+  const { data: templates, isLoading } = useQuery<EmailTemplateInfo[]>({
+    queryKey: ["/api/email-templates"],
+  });
+  const template = templates?.find((entry) => entry.event === event);
+
+  // Cargar la plantilla guardada al cambiar de evento o después de guardar
+  useEffect(() => {
+    if (template) {
+      setSubject(template.subject);
+      setHtml(template.html);
+      setPreview(null);
+    }
+  }, [template]);
+
+  const onSaved = (saved: EmailTemplateInfo, title: string) => {
+    queryClient.setQueryData<EmailTemplateInfo[]>(["/api/email-templates"], (current) =>
+      current?.map((entry) => (entry.event === saved.event ? saved : entry))
+    );
+    toast({ title, description: `Plantilla "${eventLabels[saved.event]}"` });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/email-templates/${event}`, { subject, html });
+      return res.json() as Promise<EmailTemplateInfo>;
+    },
+    onSuccess: (saved) => onSaved(saved, "Plantilla guardada"),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/email-templates/${event}`);
+      return res.json() as Promise<EmailTemplateInfo>;
+    },
+    onSuccess: (saved) => onSaved(saved, "Plantilla restablecida"),
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/email-templates/${event}/preview`, { subject, html });
+      return res.json() as Promise<EmailTemplatePreview>;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  // Inserta la variable en la posición del cursor del contenido
+  const insertPlaceholder = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = htmlRef.current;
+    if (!textarea) {
+      setHtml((current) => current + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setHtml(html.slice(0, selectionStart) + placeholder + html.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  if (isLoading || !template) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const isDirty = subject !== template.subject || html !== template.html;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={event} onValueChange={(value) => setEvent(value as EmailTemplateEvent)}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {templates?.map((entry) => (
+              <SelectItem key={entry.event} value={entry.event}>
+                {eventLabels[entry.event]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {template.customized ? (
+          <Badge variant="outline">
+            Personalizada
+            {template.updatedAt && ` · ${format(new Date(template.updatedAt), "dd/MM/yyyy HH:mm", { locale: es })}`}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Predeterminada</Badge>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Asunto</label>
+        <Input value={subject} onChange={(e) => setSubject(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Contenido HTML</label>
+        <Textarea
+          ref={htmlRef}
+          value={html}
+          onChange={(e) => setHtml(e.target.value)}
+          rows={16}
+          className="font-mono text-xs"
+        />
+        <div className="flex flex-wrap gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Variables:</span>
+          {template.placeholders.map((name) => (
+            <Badge
+              key={name}
+              variant="outline"
+              className="cursor-pointer font-mono text-xs"
+              onClick={() => insertPlaceholder(name)}
+            >
+              {`{{${name}}}`}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+          {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Guardar
+        </Button>
+        <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+          {previewMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+          Vista previa
+        </Button>
+        {template.customized && (
+          <Button variant="outline" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restablecer predeterminada
+          </Button>
+        )}
+      </div>
+
+      {preview && (
+        <div className="space-y-2 rounded-md border p-4">
+          <p className="text-sm">
+            <span className="font-medium">Asunto:</span> {preview.subject}
+          </p>
+          <iframe
+            title="Vista previa del correo"
+            sandbox=""
+            srcDoc={preview.html}
+            className="h-[60vh] w-full rounded-md border bg-white"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,22 @@ import { Button } from './button';
 import { Input } from './input';
 import { X, Image as ImageIcon, Upload } from 'lucide-react';
 import { ScrollArea } from './scroll-area';
+import { Progress } from './progress';
+import { uploadFiles } from '@/lib/queryClient';
+import { ATTACHMENT_MIME_TYPES, MAX_UPLOAD_SIZE_BYTES, isImageMimeType, thumbnailUrl } from '@shared/uploads';
 
 interface ImageUploadProps {
   value: string[];
   onChange: (value: string[]) => void;
   maxImages?: number;
+  // Permite abrir directamente la cámara en dispositivos móviles
+  capture?: 'user' | 'environment';
 }
 
-export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUploadProps) {
+export function ImageUpload({ value = [], onChange, maxImages = 5, capture }: ImageUploadProps) {
   const [images, setImages] = useState<string[]>(value);
+  // Porcentaje de la subida en curso; null cuando no se está subiendo nada
+  const [progress, setProgress] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Actualizar el estado local cuando cambien los props
@@ -25,9 +32,13 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Limpiar el input para permitir seleccionar el mismo archivo nuevamente
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
 
     // Verificar si añadiendo nuevas imágenes excederíamos el máximo
     if (images.length + files.length > maxImages) {
@@ -35,27 +46,29 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
       return;
     }
 
-    Array.from(files).forEach(file => {
-      if (!file.type.startsWith('image/')) {
-        alert('Por favor, seleccione solo archivos de imagen.');
-        return;
-      }
+    if (files.some(file => !isImageMimeType(file.type) || !(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type))) {
+      alert('Por favor, seleccione solo imágenes JPG, PNG o WebP.');
+      return;
+    }
 
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        setImages(prev => {
-          const newImages = [...prev, base64String];
-          onChange(newImages);
-          return newImages;
-        });
-      };
-      reader.readAsDataURL(file);
-    });
+    if (files.some(file => file.size > MAX_UPLOAD_SIZE_BYTES)) {
+      alert(`Cada imagen puede pesar como máximo ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
 
-    // Limpiar el input para permitir seleccionar el mismo archivo nuevamente
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    // Las imágenes se suben al servidor y el campo guarda solo sus URLs
+    setProgress(0);
+    try {
+      const { urls } = await uploadFiles<{ urls: string[] }>('/api/uploads/images', files, {}, setProgress);
+      setImages(prev => {
+        const newImages = [...prev, ...urls];
+        onChange(newImages);
+        return newImages;
+      });
+    } catch (error) {
+      alert(`No se pudieron subir las imágenes: ${(error as Error).message}`);
+    } finally {
+      setProgress(null);
     }
   };
 
@@ -75,7 +88,7 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
               {images.map((img, index) => (
                 <div key={index} className="relative h-24 w-24 rounded-md overflow-hidden border">
                   <img
-                    src={img}
+                    src={thumbnailUrl(img)}
                     alt={`Imagen ${index + 1}`}
                     className="h-full w-full object-cover"
                   />
@@ -101,6 +114,13 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
           </div>
         )}
       </div>
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <Progress value={progress} />
+          <p className="text-xs text-muted-foreground">Subiendo imágenes... {progress}%</p>
+        </div>
+      )}
       
       <div className="flex items-center justify-between">
         <Input
@@ -108,7 +128,8 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
           className="hidden"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept="image/*"
+          accept="image/jpeg,image/png,image/webp"
+          capture={capture}
           multiple
         />
         <div className="text-sm text-muted-foreground">
@@ -119,7 +140,7 @@ export function ImageUpload({ value = [], onChange, maxImages = 5 }: ImageUpload
           variant="outline" 
           size="sm" 
           onClick={handleClick}
-          disabled={images.length >= maxImages}
+          disabled={images.length >= maxImages || progress !== null}
         >
           <Upload className="h-4 w-4 mr-2" />
           Subir imágenes
@@ -0,0 +1,386 @@
+import { ChangeEvent, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Client,
+  ImportEntity,
+  ImportParseResult,
+  ImportPreview,
+  ImportReport,
+  ImportRequest,
+  ImportRowResult,
+} from "@shared/schema";
+import { importFields, suggestImportMapping } from "@shared/imports";
+import { apiRequest, queryClient, uploadFiles } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2 } from "lucide-react";
+
+type ImportStep = "upload" | "mapping" | "preview" | "report";
+
+const entityLabels: Record<ImportEntity, string> = {
+  clients: "clientes",
+  equipment: "equipos",
+};
+
+const rowStatusDisplay: Record<ImportRowResult["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  valid: { label: "Válida", variant: "secondary" },
+  invalid: { label: "Con errores", variant: "destructive" },
+  duplicate: { label: "Duplicado", variant: "outline" },
+  created: { label: "Importada", variant: "default" },
+};
+
+const UNMAPPED = "none";
+const NO_CLIENT = "none";
+
+const rowDetail = (row: ImportRowResult, entity: ImportEntity) => {
+  if (row.duplicateOf) return row.duplicateOf;
+  const labels = Object.fromEntries(importFields[entity].map((field) => [field.key, field.label]));
+  return row.errors.map((issue) => `${labels[issue.field] ?? issue.field}: ${issue.message}`).join("; ");
+};
+
+// Reporte de la importación en CSV (separado por ";" para que Excel en español lo abra en columnas)
+const downloadReport = (report: ImportReport) => {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  const lines = [
+    ["Fila", "Registro", "Estado", "Detalle"].join(";"),
+    ...report.rows.map((row) =>
+      [row.rowNumber, row.label, rowStatusDisplay[row.status].label, rowDetail(row, report.entity)].map(escape).join(";")
+    ),
+  ];
+  const blob = new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `importacion-${report.entity}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function ImportRowsTable({ rows, entity }: { rows: ImportRowResult[]; entity: ImportEntity }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No hay filas que mostrar</p>;
+  }
+  return (
+    <div className="max-h-80 overflow-y-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Fila</TableHead>
+            <TableHead>Registro</TableHead>
+            <TableHead className="w-32">Estado</TableHead>
+            <TableHead>Detalle</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.rowNumber}>
+              <TableCell>{row.rowNumber}</TableCell>
+              <TableCell>{row.label}</TableCell>
+              <TableCell>
+                <Badge variant={rowStatusDisplay[row.status].variant}>{rowStatusDisplay[row.status].label}</Badge>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">{rowDetail(row, entity)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+interface ImportWizardProps {
+  entity: ImportEntity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Asistente de importación desde CSV/XLSX: archivo, asignación de columnas, vista previa
+// con los errores de cada fila y reporte de lo importado
+export function ImportWizard({ entity, open, onOpenChange }: ImportWizardProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [file, setFile] = useState<ImportParseResult | null>(null);
+  const [mapping, setMapping] = useState<ImportRequest["mapping"]>({});
+  const [defaultClientId, setDefaultClientId] = useState<string>(NO_CLIENT);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [showAllRows, setShowAllRows] = useState(false);
+
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: open && entity === "equipment",
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setMapping({});
+    setDefaultClientId(NO_CLIENT);
+    setPreview(null);
+    setReport(null);
+    setShowAllRows(false);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  // Solo se envían las columnas asignadas, con la asignación renumerada a esas columnas
+  const buildRequest = (): ImportRequest => {
+    const columns = Array.from(new Set(Object.values(mapping).filter((column): column is number => column !== null && column !== undefined)))
+      .sort((a, b) => a - b);
+    return {
+      mapping: Object.fromEntries(Object.entries(mapping).map(([field, column]) => [
+        field,
+        column !== null && column !== undefined ? columns.indexOf(column) : null,
+      ])),
+      rows: (file?.rows ?? []).map((row) => columns.map((column) => row[column] ?? "")),
+      defaultClientId: defaultClientId !== NO_CLIENT ? parseInt(defaultClientId) : null,
+    };
+  };
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `${action}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const parseMutation = useMutation({
+    mutationFn: (selected: File) => uploadFiles<ImportParseResult>(`/api/imports/${entity}/parse`, [selected]),
+    onSuccess: (result) => {
+      setFile(result);
+      setMapping(suggestImportMapping(entity, result.headers));
+      setStep("mapping");
+    },
+    onError: showError("No se pudo leer el archivo"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/imports/${entity}/preview`, buildRequest());
+      return (await res.json()) as ImportPreview;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setShowAllRows(false);
+      setStep("preview");
+    },
+    onError: showError("No se pudo validar el archivo"),
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/imports/${entity}/commit`, buildRequest());
+      return (await res.json()) as ImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      setStep("report");
+      queryClient.invalidateQueries({ queryKey: [entity === "clients" ? "/api/clients" : "/api/equipment"] });
+      toast({
+        title: "Importación completada",
+        description: `Se importaron ${result.created} ${entityLabels[entity]}`,
+      });
+    },
+    onError: showError("No se pudo completar la importación"),
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (selected) parseMutation.mutate(selected);
+  };
+
+  const missingRequired = importFields[entity].filter(
+    (field) => field.required && (mapping[field.key] === null || mapping[field.key] === undefined)
+  );
+  const previewRows = preview
+    ? showAllRows ? preview.rows : preview.rows.filter((row) => row.status !== "valid")
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-screen overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar {entityLabels[entity]}</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Seleccione un archivo CSV o Excel (.xlsx). La primera fila debe tener los encabezados."}
+            {step === "mapping" && `${file?.filename}: ${file?.rows.length} filas. Indique qué columna corresponde a cada campo.`}
+            {step === "preview" && "Revise el resultado de la validación. Solo se importarán las filas válidas."}
+            {step === "report" && "Resultado de la importación."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2 py-4">
+            <Input type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={parseMutation.isPending} />
+            {parseMutation.isPending && (
+              <p className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Leyendo archivo...
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "mapping" && file && (
+          <div className="space-y-4 py-2">
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campo</TableHead>
+                    <TableHead>Columna del archivo</TableHead>
+                    <TableHead>Ejemplo (fila 2)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importFields[entity].map((field) => {
+                    const column = mapping[field.key];
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell>
+                          {field.label}
+                          {field.required && <span className="text-destructive"> *</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={column !== null && column !== undefined ? String(column) : UNMAPPED}
+                            onValueChange={(value) =>
+                              setMapping((current) => ({ ...current, [field.key]: value === UNMAPPED ? null : parseInt(value) }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNMAPPED}>Sin asignar</SelectItem>
+                              {file.headers.map((header, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {header || `Columna ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {column !== null && column !== undefined ? file.rows[0]?.[column] ?? "" : ""}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {entity === "equipment" && (
+              <div className="space-y-2">
+                <Label>Cliente para las filas sin cliente</Label>
+                <Select value={defaultClientId} onValueChange={setDefaultClientId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CLIENT}>Sin asignar</SelectItem>
+                    {clients?.map((client) => (
+                      <SelectItem key={client.id} value={String(client.id)}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Falta asignar: {missingRequired.map((field) => field.label).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{preview.valid} válidas</Badge>
+              <Badge variant="destructive">{preview.invalid} con errores</Badge>
+              <Badge variant="outline">{preview.duplicates} duplicadas</Badge>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {showAllRows ? "Todas las filas" : "Filas que no se importarán"}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setShowAllRows(!showAllRows)}>
+                {showAllRows ? "Ver solo las omitidas" : "Ver todas las filas"}
+              </Button>
+            </div>
+            <ImportRowsTable rows={previewRows} entity={entity} />
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap gap-2">
+              <Badge>{report.created} importadas</Badge>
+              <Badge variant="destructive">{report.invalid} con errores</Badge>
+              <Badge variant="outline">{report.duplicates} duplicadas</Badge>
+            </div>
+            <ImportRowsTable rows={report.rows.filter((row) => row.status !== "created")} entity={entity} />
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Cambiar archivo
+              </Button>
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={missingRequired.length > 0 || previewMutation.isPending}
+              >
+                {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validar
+              </Button>
+            </>
+          )}
+          {step === "preview" && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")}>
+                Volver
+              </Button>
+              <Button onClick={() => commitMutation.mutate()} disabled={preview.valid === 0 || commitMutation.isPending}>
+                {commitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importar {preview.valid} filas
+              </Button>
+            </>
+          )}
+          {step === "report" && report && (
+            <>
+              <Button variant="outline" onClick={() => downloadReport(report)}>
+                <Download className="mr-2 h-4 w-4" /> Descargar reporte
+              </Button>
+              <Button onClick={() => handleOpenChange(false)}>Cerrar</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+import { ChangeEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LineItemInput, LineItemType, Part } from "@shared/schema";
+import { calculateLineItem, calculateTotals, formatMoney, fromCents } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePermissions } from "@/hooks/use-auth";
+import { Plus, Trash2 } from "lucide-react";
+
+const typeLabels: Record<LineItemType, string> = {
+  labor: "Mano de obra",
+  part: "Refacción",
+};
+
+// Partida tal como llega de la API (importes decimales como string)
+interface LineItemRow {
+  type: LineItemType;
+  description: string;
+  quantity: string | number;
+  unitPrice: string | number;
+  taxRate: string | number;
+  partId?: number | null;
+}
+
+export const emptyLineItem = (): LineItemInput => ({
+  type: "labor",
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  taxRate: 16,
+});
+
+// Convierte las partidas guardadas al formato del editor
+export const toLineItemInputs = (items: LineItemRow[]): LineItemInput[] =>
+  items.map((item) => ({
+    type: item.type,
+    description: item.description,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unitPrice),
+    taxRate: Number(item.taxRate),
+    partId: item.partId ?? null,
+  }));
+
+interface LineItemsEditorProps {
+  value: LineItemInput[];
+  onChange: (items: LineItemInput[]) => void;
+  disabled?: boolean;
+}
+
+// Valor del selector de refacción para las partidas que no descuentan inventario
+const NO_PART = "none";
+
+// Editor de partidas de la cotización con totales calculados al vuelo
+export function LineItemsEditor({ value, onChange, disabled }: LineItemsEditorProps) {
+  const can = usePermissions();
+  const totals = calculateTotals(value);
+
+  const { data: parts } = useQuery<Part[]>({
+    queryKey: ["/api/parts"],
+    enabled: can("inventory:read"),
+    staleTime: 0,
+  });
+
+  const updateItem = (index: number, changes: Partial<LineItemInput>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Al elegir una refacción se toman su nombre y precio de venta
+  const selectPart = (index: number, partId: string) => {
+    const part = parts?.find((p) => p.id.toString() === partId);
+    updateItem(index, part
+      ? { partId: part.id, description: part.name, unitPrice: Number(part.salePrice) }
+      : { partId: null });
+  };
+
+  const numberHandler = (index: number, field: "quantity" | "unitPrice" | "taxRate") =>
+    (e: ChangeEvent<HTMLInputElement>) => updateItem(index, { [field]: e.target.value === "" ? 0 : Number(e.target.value) });
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="hidden md:grid grid-cols-[8rem_1fr_5rem_7rem_5rem_6rem_2.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Tipo</span>
+          <span>Descripción</span>
+          <span>Cantidad</span>
+          <span>P. Unitario</span>
+          <span>IVA %</span>
+          <span className="text-right">Importe</span>
+          <span />
+        </div>
+      )}
+      {value.map((item, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-2 md:grid-cols-[8rem_1fr_5rem_7rem_5rem_6rem_2.5rem] gap-2 items-center"
+        >
+          <Select
+            value={item.type}
+            onValueChange={(type) => updateItem(index, { type: type as LineItemType, partId: type === "part" ? item.partId : null })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(typeLabels).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={item.description}
+            onChange={(e) => updateItem(index, { description: e.target.value })}
+            placeholder="Descripción"
+            disabled={disabled}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={item.quantity}
+            onChange={numberHandler(index, "quantity")}
+            disabled={disabled}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={item.unitPrice}
+            onChange={numberHandler(index, "unitPrice")}
+            disabled={disabled}
+          />
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={item.taxRate}
+            onChange={numberHandler(index, "taxRate")}
+            disabled={disabled}
+          />
+          <span className="text-sm text-right">{formatMoney(fromCents(calculateLineItem(item).subtotal))}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          {item.type === "part" && parts && parts.length > 0 && (
+            <div className="col-span-full">
+              <Select
+                value={item.partId ? item.partId.toString() : NO_PART}
+                onValueChange={(partId) => selectPart(index, partId)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PART}>Sin descontar del inventario</SelectItem>
+                  {parts.map((part) => (
+                    <SelectItem key={part.id} value={part.id.toString()}>
+                      {part.sku} · {part.name} (existencia: {part.stockQuantity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-between items-start">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, emptyLineItem()])}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Agregar partida
+        </Button>
+        {value.length > 0 && <TotalsSummary {...totals} />}
+      </div>
+    </div>
+  );
+}
+
+interface TotalsSummaryProps {
+  subtotal: string | null;
+  taxAmount: string | null;
+  total: string | null;
+}
+
+function TotalsSummary({ subtotal, taxAmount, total }: TotalsSummaryProps) {
+  return (
+    <div className="text-sm space-y-0.5 text-right">
+      <div>Subtotal: {formatMoney(subtotal)}</div>
+      <div>IVA: {formatMoney(taxAmount)}</div>
+      <div className="font-semibold">Total: {formatMoney(total)}</div>
+    </div>
+  );
+}
+
+interface LineItemsSummaryProps extends TotalsSummaryProps {
+  items: LineItemRow[];
+}
+
+// Desglose de solo lectura de las partidas y totales de una orden
+export function LineItemsSummary({ items, ...totals }: LineItemsSummaryProps) {
+  if (items.length === 0) {
+    return <p className="text-sm font-semibold">{totals.total !== null ? formatMoney(totals.total) : "No especificado"}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground text-left">
+            <th className="font-medium py-1">Concepto</th>
+            <th className="font-medium py-1 text-right">Cant.</th>
+            <th className="font-medium py-1 text-right">P. Unitario</th>
+            <th className="font-medium py-1 text-right">Importe</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index} className="border-t">
+              <td className="py-1">
+                {item.description}
+                <span className="text-xs text-muted-foreground"> · {typeLabels[item.type]}</span>
+              </td>
+              <td className="py-1 text-right">{Number(item.quantity)}</td>
+              <td className="py-1 text-right">{formatMoney(item.unitPrice)}</td>
+              <td className="py-1 text-right">{formatMoney(fromCents(calculateLineItem(item).subtotal))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-end">
+        <TotalsSummary {...totals} />
+      </div>
+    </div>
+  );
+}
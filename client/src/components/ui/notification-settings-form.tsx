@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { NotificationSettings, OrderStatus, UpdateNotificationSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Save } from "lucide-react";
+
+type NotifiableStatus = UpdateNotificationSettings["notifyStatuses"][number];
+
+// Estados que pueden generar aviso; "Esperando Aprobación" siempre envía el enlace de aprobación
+const statusOptions: { value: NotifiableStatus; label: string }[] = [
+  { value: "pending", label: "Pendiente" },
+  { value: "approved", label: "Aprobado" },
+  { value: "in_progress", label: "En Progreso" },
+  { value: "completed", label: "Completado" },
+  { value: "cancelled", label: "Cancelado" },
+  { value: "warranty", label: "En Garantía" },
+];
+
+// Configuración de los avisos automáticos al cliente por cambio de estado
+export function NotificationSettingsForm() {
+  const { toast } = useToast();
+  const [notifyStatuses, setNotifyStatuses] = useState<OrderStatus[]>([]);
+  const [attachPdfOnCompletion, setAttachPdfOnCompletion] = useState(true);
+
+  const { data: settings, isLoading } = useQuery<NotificationSettings>({
+    queryKey: ["/api/notification-settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setNotifyStatuses(settings.notifyStatuses);
+      setAttachPdfOnCompletion(settings.attachPdfOnCompletion);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        notifyStatuses: notifyStatuses.filter((status) => status !== "waiting_approval"),
+        attachPdfOnCompletion,
+      };
+      const res = await apiRequest("PUT", "/api/notification-settings", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-settings"] });
+      toast({
+        title: "Configuración guardada",
+        description: "Los avisos automáticos se actualizaron correctamente",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo guardar la configuración: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleStatus = (status: OrderStatus, checked: boolean) => {
+    setNotifyStatuses((current) =>
+      checked ? [...current, status] : current.filter((value) => value !== status)
+    );
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium mb-2">Avisar al cliente cuando la orden cambie a:</p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {statusOptions.map(({ value, label }) => (
+            <div key={value} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id={`notify-${value}`}
+                className="h-4 w-4"
+                checked={notifyStatuses.includes(value)}
+                onChange={(e) => toggleStatus(value, e.target.checked)}
+              />
+              <label htmlFor={`notify-${value}`} className="text-sm">{label}</label>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          El enlace de aprobación se envía siempre que la orden pasa a "Esperando Aprobación".
+          Los clientes pueden quedar excluidos de los avisos desde su ficha.
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="attachPdfOnCompletion"
+          className="h-4 w-4"
+          checked={attachPdfOnCompletion}
+          onChange={(e) => setAttachPdfOnCompletion(e.target.checked)}
+        />
+        <label htmlFor="attachPdfOnCompletion" className="text-sm">
+          Adjuntar la orden en PDF al avisar que está completada
+        </label>
+      </div>
+
+      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+        {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+        Guardar
+      </Button>
+    </div>
+  );
+}
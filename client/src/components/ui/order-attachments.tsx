@@ -0,0 +1,194 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AttachmentWithUploader } from "@shared/schema";
+import { ATTACHMENT_MIME_TYPES, MAX_FILES_PER_UPLOAD, MAX_UPLOAD_SIZE_BYTES, isImageMimeType, thumbnailUrl } from "@shared/uploads";
+import { apiRequest, queryClient, uploadFiles } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { FileText, Loader2, Trash2, Upload } from "lucide-react";
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+interface OrderAttachmentsProps {
+  serviceOrderId: number;
+}
+
+// Adjuntos de una orden: fotos y documentos PDF con pie de foto, subidos con barra de avance
+export function OrderAttachments({ serviceOrderId }: OrderAttachmentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState("");
+  // Porcentaje de la subida en curso; null cuando no se está subiendo nada
+  const [progress, setProgress] = useState<number | null>(null);
+  const queryKey = [`/api/service-orders/${serviceOrderId}/attachments`];
+
+  const { data: attachments, isLoading } = useQuery<AttachmentWithUploader[]>({ queryKey });
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) =>
+      uploadFiles<AttachmentWithUploader[]>(
+        `/api/service-orders/${serviceOrderId}/attachments`,
+        files,
+        caption.trim() ? { caption: caption.trim() } : {},
+        setProgress
+      ),
+    onSuccess: (created) => {
+      queryClient.setQueryData<AttachmentWithUploader[]>(queryKey, (current) => [...(current ?? []), ...created]);
+      setCaption("");
+      toast({
+        title: "Adjuntos guardados",
+        description: `${created.length} archivo(s) agregado(s) a la orden`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudieron subir los archivos: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => setProgress(null),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachmentId: number) => {
+      await apiRequest("DELETE", `/api/service-orders/${serviceOrderId}/attachments/${attachmentId}`);
+      return attachmentId;
+    },
+    onSuccess: (attachmentId) => {
+      queryClient.setQueryData<AttachmentWithUploader[]>(queryKey, (current) =>
+        current?.filter((attachment) => attachment.id !== attachmentId)
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo eliminar el adjunto: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (files.length === 0) return;
+
+    let problem: string | null = null;
+    if (files.length > MAX_FILES_PER_UPLOAD) {
+      problem = `Solo se pueden subir ${MAX_FILES_PER_UPLOAD} archivos a la vez`;
+    } else if (files.some((file) => !(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type))) {
+      problem = "Solo se aceptan imágenes JPG, PNG o WebP y documentos PDF";
+    } else if (files.some((file) => file.size > MAX_UPLOAD_SIZE_BYTES)) {
+      problem = `Cada archivo puede pesar como máximo ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)} MB`;
+    }
+    if (problem) {
+      toast({ title: "Archivos no válidos", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setProgress(0);
+    uploadMutation.mutate(files);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Cargando adjuntos...</p>
+      ) : !attachments || attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">La orden no tiene archivos adjuntos</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 text-sm">
+              <a href={attachment.url} target="_blank" rel="noreferrer" className="shrink-0">
+                {isImageMimeType(attachment.mimeType) ? (
+                  <img
+                    src={thumbnailUrl(attachment.url)}
+                    alt={attachment.caption ?? attachment.filename}
+                    className="h-12 w-12 rounded-md border object-cover"
+                  />
+                ) : (
+                  <div className="flex h-12 w-12 items-center justify-center rounded-md border">
+                    <FileText className="h-6 w-6 text-muted-foreground" />
+                  </div>
+                )}
+              </a>
+              <div className="min-w-0 flex-1">
+                <a href={attachment.url} target="_blank" rel="noreferrer" className="block truncate hover:underline">
+                  {attachment.caption || attachment.filename}
+                </a>
+                <p className="text-xs text-muted-foreground truncate">
+                  {attachment.caption && `${attachment.filename} · `}
+                  {formatSize(attachment.size)}
+                  {" · "}
+                  {format(new Date(attachment.createdAt), "PPP p", { locale: es })}
+                  {attachment.uploaderName && ` · ${attachment.uploaderName}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="shrink-0"
+                title="Eliminar adjunto"
+                onClick={() => {
+                  if (confirm(`¿Eliminar "${attachment.filename}"?`)) {
+                    deleteMutation.mutate(attachment.id);
+                  }
+                }}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <Progress value={progress} />
+          <p className="text-xs text-muted-foreground">
+            {progress < 100 ? `Subiendo archivos... ${progress}%` : "Procesando archivos..."}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Descripción (opcional)"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          maxLength={200}
+          disabled={uploadMutation.isPending}
+        />
+        <input
+          type="file"
+          className="hidden"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept={ATTACHMENT_MIME_TYPES.join(",")}
+          multiple
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="shrink-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+        >
+          {uploadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Adjuntar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Equipment, insertEquipmentSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus } from "lucide-react";
+
+const quickEquipmentSchema = insertEquipmentSchema.pick({ type: true, brand: true, model: true, serialNumber: true });
+type QuickEquipmentValues = z.infer<typeof quickEquipmentSchema>;
+
+const emptyValues: QuickEquipmentValues = { type: "desktop", brand: "", model: "", serialNumber: "" };
+
+interface QuickEquipmentDialogProps {
+  clientId: number | null;
+  clientName?: string;
+  onCreated: (equipment: Equipment) => void;
+}
+
+// Alta rápida de un equipo del cliente sin salir del formulario de la orden
+export function QuickEquipmentDialog({ clientId, clientName, onCreated }: QuickEquipmentDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const form = useForm<QuickEquipmentValues>({
+    resolver: zodResolver(quickEquipmentSchema),
+    defaultValues: emptyValues,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: QuickEquipmentValues) => {
+      const res = await apiRequest("POST", "/api/equipment", { ...data, clientId });
+      return (await res.json()) as Equipment;
+    },
+    onSuccess: (equipment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/equipment"] });
+      toast({
+        title: "Equipo creado",
+        description: `${equipment.brand} ${equipment.model} quedó asignado a ${clientName ?? "el cliente"}`,
+      });
+      onCreated(equipment);
+      setOpen(false);
+      form.reset(emptyValues);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo crear el equipo: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="shrink-0"
+        title={clientId ? "Registrar equipo nuevo del cliente" : "Seleccione un cliente para registrar un equipo"}
+        disabled={!clientId}
+        onClick={() => setOpen(true)}
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nuevo Equipo</DialogTitle>
+            <DialogDescription>
+              El equipo se registrará a nombre de {clientName ?? "el cliente seleccionado"}.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              // El diálogo se renderiza dentro del formulario de la orden; el submit no debe llegar a él
+              onSubmit={(e) => {
+                e.stopPropagation();
+                form.handleSubmit((data) => createMutation.mutate(data))(e);
+              }}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de Equipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="desktop">PC Escritorio</SelectItem>
+                        <SelectItem value="laptop">Portátil</SelectItem>
+                        <SelectItem value="server">Servidor</SelectItem>
+                        <SelectItem value="printer">Impresora</SelectItem>
+                        <SelectItem value="network">Equipo de Red</SelectItem>
+                        <SelectItem value="other">Otro</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="brand"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Marca</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="model"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Modelo</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="serialNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Número de Serie</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Crear Equipo
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 import {
   LayoutDashboard,
   Clipboard,
@@ -12,7 +12,12 @@ import {
   Settings,
   LogOut,
   Laptop,
-  DollarSign
+  DollarSign,
+  ClipboardCheck,
+  Package,
+  CalendarDays,
+  Timer,
+  FileText
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
@@ -52,7 +57,8 @@ function SidebarItem({ href, icon, children, onClick }: SidebarItemProps) {
 }
 
 export function Sidebar({ onLinkClick }: SidebarProps) {
-  const { logoutMutation, user } = useAuth();
+  const { user, logoutMutation } = useAuth();
+  const can = usePermissions();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   
@@ -86,34 +92,70 @@ export function Sidebar({ onLinkClick }: SidebarProps) {
       </div>
 
       <nav className="mt-4 px-2 flex-1 overflow-y-auto">
-        <SidebarItem href="/" icon={<LayoutDashboard className="h-5 w-5" />} onClick={onLinkClick}>
-          Panel
-        </SidebarItem>
-        <SidebarItem href="/orders" icon={<Clipboard className="h-5 w-5" />} onClick={onLinkClick}>
-          Órdenes de Servicio
-        </SidebarItem>
-        <SidebarItem href="/clients" icon={<Users className="h-5 w-5" />} onClick={onLinkClick}>
-          Clientes
-        </SidebarItem>
-        <SidebarItem href="/technicians" icon={<Wrench className="h-5 w-5" />} onClick={onLinkClick}>
-          Técnicos
-        </SidebarItem>
-        <SidebarItem href="/equipment" icon={<Monitor className="h-5 w-5" />} onClick={onLinkClick}>
-          Equipos
-        </SidebarItem>
-        
-        {user?.role === "admin" && (
-          <>
-            <SidebarItem href="/finance" icon={<DollarSign className="h-5 w-5" />} onClick={onLinkClick}>
-              Finanzas
-            </SidebarItem>
-            <SidebarItem href="/users" icon={<UserCog className="h-5 w-5" />} onClick={onLinkClick}>
-              Usuarios
-            </SidebarItem>
-            <SidebarItem href="/admin" icon={<Settings className="h-5 w-5" />} onClick={onLinkClick}>
-              Administración
-            </SidebarItem>
-          </>
+        {can("dashboard:read") && (
+          <SidebarItem href="/" icon={<LayoutDashboard className="h-5 w-5" />} onClick={onLinkClick}>
+            Panel
+          </SidebarItem>
+        )}
+        {can("orders:read") && (
+          <SidebarItem href="/orders" icon={<Clipboard className="h-5 w-5" />} onClick={onLinkClick}>
+            Órdenes de Servicio
+          </SidebarItem>
+        )}
+        {can("orders:read") && (
+          <SidebarItem href="/schedule" icon={<CalendarDays className="h-5 w-5" />} onClick={onLinkClick}>
+            Agenda
+          </SidebarItem>
+        )}
+        {can("orders:read") && (
+          <SidebarItem href="/sla" icon={<Timer className="h-5 w-5" />} onClick={onLinkClick}>
+            Cumplimiento SLA
+          </SidebarItem>
+        )}
+        {user?.role === "technician" && (
+          <SidebarItem href="/my-orders" icon={<ClipboardCheck className="h-5 w-5" />} onClick={onLinkClick}>
+            Mis Órdenes
+          </SidebarItem>
+        )}
+        {can("clients:read") && (
+          <SidebarItem href="/clients" icon={<Users className="h-5 w-5" />} onClick={onLinkClick}>
+            Clientes
+          </SidebarItem>
+        )}
+        {can("technicians:read") && (
+          <SidebarItem href="/technicians" icon={<Wrench className="h-5 w-5" />} onClick={onLinkClick}>
+            Técnicos
+          </SidebarItem>
+        )}
+        {can("equipment:read") && (
+          <SidebarItem href="/equipment" icon={<Monitor className="h-5 w-5" />} onClick={onLinkClick}>
+            Equipos
+          </SidebarItem>
+        )}
+        {can("inventory:read") && (
+          <SidebarItem href="/inventory" icon={<Package className="h-5 w-5" />} onClick={onLinkClick}>
+            Inventario
+          </SidebarItem>
+        )}
+        {can("contracts:read") && (
+          <SidebarItem href="/contracts" icon={<FileText className="h-5 w-5" />} onClick={onLinkClick}>
+            Contratos
+          </SidebarItem>
+        )}
+        {can("finance:read") && (
+          <SidebarItem href="/finance" icon={<DollarSign className="h-5 w-5" />} onClick={onLinkClick}>
+            Finanzas
+          </SidebarItem>
+        )}
+        {can("users:manage") && (
+          <SidebarItem href="/users" icon={<UserCog className="h-5 w-5" />} onClick={onLinkClick}>
+            Usuarios
+          </SidebarItem>
+        )}
+        {can("settings:write") && (
+          <SidebarItem href="/admin" icon={<Settings className="h-5 w-5" />} onClick={onLinkClick}>
+            Administración
+          </SidebarItem>
         )}
       </nav>
 
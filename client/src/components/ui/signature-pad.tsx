@@ -2,6 +2,7 @@ import React, { useRef, useState, useEffect } from 'react';
 import SignatureCanvas from 'react-signature-canvas';
 import { Button } from './button';
 import { cn } from '@/lib/utils';
+import { uploadFiles } from '@/lib/queryClient';
 
 interface SignaturePadProps {
   value: string;
@@ -11,6 +12,17 @@ interface SignaturePadProps {
   className?: string;
 }
 
+// El pad entrega la firma como data URL; las órdenes guardan la URL de la imagen subida.
+// Las firmas ya subidas (o vacías) se devuelven sin cambios.
+export async function uploadSignature(value: string): Promise<string> {
+  if (!value.startsWith('data:')) return value;
+
+  const blob = await (await fetch(value)).blob();
+  const file = new File([blob], 'firma.png', { type: blob.type });
+  const { urls } = await uploadFiles<{ urls: string[] }>('/api/uploads/images', [file]);
+  return urls[0];
+}
+
 export function SignaturePad({
   value,
   onChange,
@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './button';
 import { Input } from './input';
 import { X, Image as ImageIcon, Upload, RefreshCw } from 'lucide-react';
+import { uploadFiles } from '@/lib/queryClient';
+import { ATTACHMENT_MIME_TYPES, MAX_UPLOAD_SIZE_BYTES, isImageMimeType } from '@shared/uploads';
 
 interface SingleImageUploadProps {
   value: string;
@@ -11,6 +13,7 @@ interface SingleImageUploadProps {
 
 export function SingleImageUpload({ value = "", onChange, label = "Imagen" }: SingleImageUploadProps) {
   const [image, setImage] = useState<string>(value);
+  const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Actualizar el estado local cuando cambien los props
@@ -24,27 +27,36 @@ export function SingleImageUpload({ value = "", onChange, label = "Imagen" }: Si
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
 
     const file = files[0];
-    if (!file.type.startsWith('image/')) {
-      alert('Por favor, seleccione solo archivos de imagen.');
+    // Limpiar el input para permitir seleccionar el mismo archivo nuevamente
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+
+    if (!isImageMimeType(file.type) || !(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+      alert('Por favor, seleccione solo imágenes JPG, PNG o WebP.');
       return;
     }
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      setImage(base64String);
-      onChange(base64String);
-    };
-    reader.readAsDataURL(file);
+    if (file.size > MAX_UPLOAD_SIZE_BYTES) {
+      alert(`La imagen puede pesar como máximo ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
 
-    // Limpiar el input para permitir seleccionar el mismo archivo nuevamente
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    // La imagen se sube al servidor y el campo guarda solo su URL
+    setUploading(true);
+    try {
+      const { urls } = await uploadFiles<{ urls: string[] }>('/api/uploads/images', [file]);
+      setImage(urls[0]);
+      onChange(urls[0]);
+    } catch (error) {
+      alert(`No se pudo subir la imagen: ${(error as Error).message}`);
+    } finally {
+      setUploading(false);
     }
   };
 
@@ -99,6 +111,7 @@ export function SingleImageUpload({ value = "", onChange, label = "Imagen" }: Si
             variant="outline" 
             size="sm" 
             onClick={handleClick}
+            disabled={uploading}
           >
             <RefreshCw className="h-4 w-4 mr-2" />
             Cambiar imagen
@@ -109,6 +122,7 @@ export function SingleImageUpload({ value = "", onChange, label = "Imagen" }: Si
             variant="outline" 
             size="sm" 
             onClick={handleClick}
+            disabled={uploading}
           >
             <Upload className="h-4 w-4 mr-2" />
             Subir imagen
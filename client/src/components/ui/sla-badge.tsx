@@ -0,0 +1,57 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { OrderPriority, OrderSlaStatus, ServiceOrder, SlaState } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+export const priorityDisplay: Record<OrderPriority, { label: string; className: string }> = {
+  low: { label: "Baja", className: "bg-gray-100 text-gray-800" },
+  normal: { label: "Normal", className: "bg-blue-100 text-blue-800" },
+  high: { label: "Alta", className: "bg-orange-100 text-orange-800" },
+  urgent: { label: "Urgente", className: "bg-red-100 text-red-800" },
+};
+
+export const slaStateDisplay: Record<SlaState, { label: string; className: string }> = {
+  on_track: { label: "En tiempo", className: "bg-green-100 text-green-800" },
+  at_risk: { label: "En riesgo", className: "bg-yellow-100 text-yellow-800" },
+  breached: { label: "Incumplido", className: "bg-red-100 text-red-800" },
+  met: { label: "Cumplido", className: "bg-green-100 text-green-800" },
+};
+
+// Gravedad con la que se elige el estado que resume ambos compromisos
+const severity: Record<SlaState, number> = { met: 0, on_track: 1, at_risk: 2, breached: 3 };
+
+const formatDue = (value: Date | string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: es }) : "-";
+
+export function PriorityBadge({ priority }: { priority: OrderPriority }) {
+  const { label, className } = priorityDisplay[priority];
+  return (
+    <Badge variant="outline" className={className}>
+      {label}
+    </Badge>
+  );
+}
+
+interface SlaBadgeProps {
+  order: ServiceOrder & { sla?: OrderSlaStatus };
+}
+
+// Situación SLA de una orden: muestra el peor de sus compromisos y los vencimientos al pasar el cursor
+export function SlaBadge({ order }: SlaBadgeProps) {
+  const states = [order.sla?.response, order.sla?.resolution].filter((state): state is SlaState => !!state);
+  if (states.length === 0) {
+    return <span className="text-xs text-muted-foreground">Sin SLA</span>;
+  }
+
+  const worst = states.reduce((a, b) => (severity[b] > severity[a] ? b : a));
+  const { label, className } = slaStateDisplay[worst];
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      title={`Respuesta: ${formatDue(order.responseDueAt)} · Resolución: ${formatDue(order.resolutionDueAt)}`}
+    >
+      {label}
+    </Badge>
+  );
+}
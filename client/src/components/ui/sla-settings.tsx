@@ -0,0 +1,582 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  BusinessCalendar, BusinessHoursWindow, Client, InsertSlaPolicy, SlaPolicy,
+  insertBusinessCalendarSchema, insertSlaPolicySchema, orderPriorityEnum,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { priorityDisplay } from "@/components/ui/sla-badge";
+import { Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+const dayNames = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"];
+
+// Lunes a viernes de 9:00 a 18:00
+const defaultHours: BusinessHoursWindow[] = [1, 2, 3, 4, 5].map((day) => ({ day, start: "09:00", end: "18:00" }));
+
+const emptyPolicy: InsertSlaPolicy = {
+  name: "",
+  clientId: null,
+  priority: null,
+  responseHours: 4,
+  resolutionHours: 24,
+  businessCalendarId: null,
+  active: true,
+};
+
+// Los selects usan "any"/"none" para representar null
+const toSelectValue = (value: number | string | null | undefined, empty: string) =>
+  value === null || value === undefined ? empty : String(value);
+
+function useSlaMutationToasts(entity: string) {
+  const { toast } = useToast();
+  return (error: Error) => {
+    toast({
+      title: "Error",
+      description: `No se pudo guardar ${entity}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+}
+
+// Políticas SLA: tiempos comprometidos por cliente, por prioridad o generales
+export function SlaPolicyManager() {
+  const { toast } = useToast();
+  const onError = useSlaMutationToasts("la política");
+  const [formOpen, setFormOpen] = useState(false);
+  const [policyToEdit, setPolicyToEdit] = useState<SlaPolicy | null>(null);
+  const [policyToDelete, setPolicyToDelete] = useState<SlaPolicy | null>(null);
+
+  const { data: policies, isLoading } = useQuery<SlaPolicy[]>({ queryKey: ["/api/sla-policies"] });
+  const { data: clients } = useQuery<Client[]>({ queryKey: ["/api/clients"] });
+  const { data: calendars } = useQuery<BusinessCalendar[]>({ queryKey: ["/api/business-calendars"] });
+
+  const form = useForm<InsertSlaPolicy>({
+    resolver: zodResolver(insertSlaPolicySchema),
+    defaultValues: emptyPolicy,
+  });
+
+  const openForm = (policy: SlaPolicy | null) => {
+    setPolicyToEdit(policy);
+    form.reset(policy ? {
+      name: policy.name,
+      clientId: policy.clientId,
+      priority: policy.priority,
+      responseHours: policy.responseHours,
+      resolutionHours: policy.resolutionHours,
+      businessCalendarId: policy.businessCalendarId,
+      active: policy.active,
+    } : emptyPolicy);
+    setFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertSlaPolicy) => {
+      const res = policyToEdit
+        ? await apiRequest("PUT", `/api/sla-policies/${policyToEdit.id}`, data)
+        : await apiRequest("POST", "/api/sla-policies", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+      setFormOpen(false);
+      toast({
+        title: policyToEdit ? "Política actualizada" : "Política creada",
+        description: "Se aplicará a las órdenes que se creen a partir de ahora",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sla-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+      setPolicyToDelete(null);
+      toast({ title: "Política eliminada" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: `No se pudo eliminar la política: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const clientName = (id: number | null) =>
+    id === null ? "Todos" : clients?.find((client) => client.id === id)?.name ?? `Cliente #${id}`;
+  const calendarName = (id: number | null) =>
+    id === null ? "24 horas" : calendars?.find((calendar) => calendar.id === id)?.name ?? "-";
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nueva política
+        </Button>
+      </div>
+
+      {!policies || policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No hay políticas SLA. Sin política las órdenes no tienen plazos comprometidos.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nombre</TableHead>
+              <TableHead>Cliente</TableHead>
+              <TableHead>Prioridad</TableHead>
+              <TableHead className="text-right">Respuesta</TableHead>
+              <TableHead className="text-right">Resolución</TableHead>
+              <TableHead>Horario</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map((policy) => (
+              <TableRow key={policy.id} className={policy.active ? undefined : "opacity-60"}>
+                <TableCell className="font-medium">
+                  {policy.name}
+                  {!policy.active && <Badge variant="outline" className="ml-2">Inactiva</Badge>}
+                </TableCell>
+                <TableCell>{clientName(policy.clientId)}</TableCell>
+                <TableCell>{policy.priority ? priorityDisplay[policy.priority].label : "Todas"}</TableCell>
+                <TableCell className="text-right">{policy.responseHours} h</TableCell>
+                <TableCell className="text-right">{policy.resolutionHours} h</TableCell>
+                <TableCell>{calendarName(policy.businessCalendarId)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" title="Editar" onClick={() => openForm(policy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Eliminar" onClick={() => setPolicyToDelete(policy)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{policyToEdit ? "Editar política SLA" : "Nueva política SLA"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Contrato estándar" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="clientId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cliente</FormLabel>
+                      <Select
+                        value={toSelectValue(field.value, "any")}
+                        onValueChange={(value) => field.onChange(value === "any" ? null : Number(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">Todos los clientes</SelectItem>
+                          {clients?.map((client) => (
+                            <SelectItem key={client.id} value={String(client.id)}>{client.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prioridad</FormLabel>
+                      <Select
+                        value={toSelectValue(field.value, "any")}
+                        onValueChange={(value) => field.onChange(value === "any" ? null : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">Todas las prioridades</SelectItem>
+                          {orderPriorityEnum.enumValues.map((priority) => (
+                            <SelectItem key={priority} value={priority}>{priorityDisplay[priority].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="responseHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Respuesta (horas)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="resolutionHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Resolución (horas)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="businessCalendarId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Horario laboral</FormLabel>
+                    <Select
+                      value={toSelectValue(field.value, "none")}
+                      onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">24 horas, todos los días</SelectItem>
+                        {calendars?.map((calendar) => (
+                          <SelectItem key={calendar.id} value={String(calendar.id)}>{calendar.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Las horas de la política se cuentan solo dentro de este horario</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value ?? true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Activa</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!policyToDelete} onOpenChange={(open) => !open && setPolicyToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar la política "{policyToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Las órdenes existentes conservan sus plazos. Las nuevas órdenes usarán la siguiente política aplicable.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => policyToDelete && deleteMutation.mutate(policyToDelete.id)}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// Calendarios laborales con sus horarios por día y días feriados
+export function BusinessCalendarManager() {
+  const { toast } = useToast();
+  const onError = useSlaMutationToasts("el calendario");
+  const [formOpen, setFormOpen] = useState(false);
+  const [calendarToEdit, setCalendarToEdit] = useState<BusinessCalendar | null>(null);
+  const [calendarToDelete, setCalendarToDelete] = useState<BusinessCalendar | null>(null);
+  const [name, setName] = useState("");
+  const [hours, setHours] = useState<BusinessHoursWindow[]>(defaultHours);
+  const [holidays, setHolidays] = useState("");
+
+  const { data: calendars, isLoading } = useQuery<BusinessCalendar[]>({ queryKey: ["/api/business-calendars"] });
+
+  const openForm = (calendar: BusinessCalendar | null) => {
+    setCalendarToEdit(calendar);
+    setName(calendar?.name ?? "");
+    setHours(calendar?.hours ?? defaultHours);
+    setHolidays(calendar?.holidays.join("\n") ?? "");
+    setFormOpen(true);
+  };
+
+  const updateWindow = (index: number, changes: Partial<BusinessHoursWindow>) => {
+    setHours((current) => current.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = insertBusinessCalendarSchema.safeParse({
+        name,
+        hours: [...hours].sort((a, b) => a.day - b.day || a.start.localeCompare(b.start)),
+        holidays: holidays.split(/[\s,]+/).filter(Boolean),
+      });
+      if (!parsed.success) {
+        throw new Error(parsed.error.errors[0].message);
+      }
+      const res = calendarToEdit
+        ? await apiRequest("PUT", `/api/business-calendars/${calendarToEdit.id}`, parsed.data)
+        : await apiRequest("POST", "/api/business-calendars", parsed.data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business-calendars"] });
+      setFormOpen(false);
+      toast({ title: calendarToEdit ? "Calendario actualizado" : "Calendario creado" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/business-calendars/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/business-calendars"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+      setCalendarToDelete(null);
+      toast({ title: "Calendario eliminado" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: `No se pudo eliminar el calendario: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  // Resumen legible del horario: "Lunes 09:00–18:00, Martes 09:00–18:00..."
+  const describeHours = (calendar: BusinessCalendar) =>
+    [...calendar.hours]
+      .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start))
+      .map((window) => `${dayNames[window.day].slice(0, 3)} ${window.start}–${window.end}`)
+      .join(", ");
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nuevo calendario
+        </Button>
+      </div>
+
+      {!calendars || calendars.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No hay calendarios laborales. Las políticas sin calendario cuentan los plazos las 24 horas.
+        </p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {calendars.map((calendar) => (
+            <div key={calendar.id} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className="font-medium">{calendar.name}</p>
+                <p className="text-xs text-muted-foreground">{describeHours(calendar)}</p>
+                {calendar.holidays.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{calendar.holidays.length} días feriados</p>
+                )}
+              </div>
+              <div className="whitespace-nowrap">
+                <Button variant="ghost" size="icon" title="Editar" onClick={() => openForm(calendar)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Eliminar" onClick={() => setCalendarToDelete(calendar)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{calendarToEdit ? "Editar calendario laboral" : "Nuevo calendario laboral"}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="calendar-name">Nombre</Label>
+              <Input id="calendar-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Horario de oficina" />
+            </div>
+            <div className="space-y-2">
+              <Label>Horario</Label>
+              {hours.map((window, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={String(window.day)} onValueChange={(value) => updateWindow(index, { day: Number(value) })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dayNames.map((dayName, day) => (
+                        <SelectItem key={day} value={String(day)}>{dayName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input type="time" value={window.start} onChange={(e) => updateWindow(index, { start: e.target.value })} />
+                  <Input type="time" value={window.end} onChange={(e) => updateWindow(index, { end: e.target.value })} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Quitar"
+                    onClick={() => setHours((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setHours((current) => [...current, { day: 1, start: "09:00", end: "18:00" }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Agregar horario
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calendar-holidays">Días feriados</Label>
+              <Textarea
+                id="calendar-holidays"
+                rows={3}
+                value={holidays}
+                onChange={(e) => setHolidays(e.target.value)}
+                placeholder={"2026-12-25\n2027-01-01"}
+              />
+              <p className="text-xs text-muted-foreground">Una fecha por línea con el formato AAAA-MM-DD</p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!calendarToDelete} onOpenChange={(open) => !open && setCalendarToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar el calendario "{calendarToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Las políticas que lo usan pasarán a contar sus plazos las 24 horas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => calendarToDelete && deleteMutation.mutate(calendarToDelete.id)}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { SystemInfo } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Activity, Clock, Database, FileText, Mail, Server } from "lucide-react";
+
+// Intervalo de actualización del panel mientras está visible
+const REFRESH_INTERVAL_MS = 10000;
+
+const formatUptime = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days} días, ${hours} horas`;
+  if (hours > 0) return `${hours} horas, ${minutes} minutos`;
+  return `${minutes} minutos`;
+};
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return "—";
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatMs = (value: number | null) => (value === null ? "—" : `${value}ms`);
+
+const formatDate = (value: string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: es }) : "—";
+
+function InfoRow({ label, value, className }: { label: ReactNode; value: ReactNode; className?: string }) {
+  return (
+    <div className="flex justify-between border-b last:border-b-0 pb-2 last:pb-0 gap-4">
+      <span className="text-sm">{label}:</span>
+      <span className={`text-sm font-medium text-right ${className ?? ""}`}>{value}</span>
+    </div>
+  );
+}
+
+function StatusText({ ok, okLabel, errorLabel }: { ok: boolean; okLabel: string; errorLabel: string }) {
+  return <span className={ok ? "text-green-500" : "text-red-500"}>{ok ? okLabel : errorLabel}</span>;
+}
+
+// Estado del servidor y sus subsistemas, actualizado periódicamente
+export function SystemInfoPanel() {
+  const { data: info, isLoading, isError } = useQuery<SystemInfo>({
+    queryKey: ["/api/admin/system-info"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !info) {
+    return (
+      <Alert variant="destructive">
+        <Server className="h-4 w-4" />
+        <AlertTitle>Sin información del servidor</AlertTitle>
+        <AlertDescription>No se pudo obtener el estado del sistema.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { server, database, latency, email, pdf } = info;
+  const pdfAvailable = pdf.templateAvailable && (pdf.pdfshiftConfigured || pdf.chromiumAvailable);
+  const healthy = database.connected && email.configured && pdfAvailable;
+
+  return (
+    <div className="space-y-6">
+      <Alert variant={healthy ? "default" : "destructive"}>
+        <Server className="h-4 w-4" />
+        <AlertTitle>Información del servidor</AlertTitle>
+        <AlertDescription>
+          {healthy
+            ? `El sistema está funcionando correctamente en modo ${server.environment === "production" ? "producción" : "desarrollo"}.`
+            : "Uno o más servicios requieren atención. Revisa los detalles a continuación."}
+          {" "}Actualizado: {formatDate(info.generatedAt)}
+        </AlertDescription>
+      </Alert>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Estado del Servidor</CardTitle>
+            <CardDescription>
+              Monitorea el estado actual del sistema
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <InfoRow label="Node.js" value={server.nodeVersion} />
+              <InfoRow label="Plataforma" value={server.platform} />
+              <InfoRow label="Tiempo activo" value={formatUptime(server.uptimeSeconds)} />
+              <InfoRow label="Iniciado" value={formatDate(server.startedAt)} />
+              <InfoRow label="Memoria" value={formatBytes(server.memoryRssBytes)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Base de Datos</CardTitle>
+            <CardDescription>
+              Información de la base de datos
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <InfoRow label="Tipo" value="PostgreSQL" />
+              <InfoRow
+                label="Estado"
+                value={<StatusText ok={database.connected} okLabel="Conectado" errorLabel={database.error || "Sin conexión"} />}
+              />
+              <InfoRow label="Tamaño" value={formatBytes(database.sizeBytes)} />
+              <InfoRow label="Registros totales" value={database.totalRows.toLocaleString("es-MX")} />
+              <InfoRow label="Sesiones activas" value={database.activeSessions ?? "—"} />
+            </div>
+            {database.tables.length > 0 && (
+              <details className="mt-3 text-sm">
+                <summary className="cursor-pointer text-muted-foreground">Registros por tabla</summary>
+                <div className="mt-2 space-y-1">
+                  {database.tables.map(({ table, rows }) => (
+                    <div key={table} className="flex justify-between">
+                      <span>{table}</span>
+                      <span className="font-medium">{rows.toLocaleString("es-MX")}</span>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center">
+              <Clock className="h-4 w-4 mr-2" />
+              Respuesta
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center mb-3">
+              <p className="text-2xl font-bold">{formatMs(latency.p50Ms)}</p>
+              <p className="text-xs text-muted-foreground">
+                Mediana de las últimas {latency.sampleSize} peticiones
+              </p>
+            </div>
+            <div className="space-y-2">
+              <InfoRow label="Promedio" value={formatMs(latency.averageMs)} />
+              <InfoRow label="p95" value={formatMs(latency.p95Ms)} />
+              <InfoRow label="p99" value={formatMs(latency.p99Ms)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center">
+              <Activity className="h-4 w-4 mr-2" />
+              Peticiones
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center mb-3">
+              <p className="text-2xl font-bold">{latency.totalRequests.toLocaleString("es-MX")}</p>
+              <p className="text-xs text-muted-foreground">Desde el inicio del servidor</p>
+            </div>
+            <div className="space-y-2">
+              <InfoRow
+                label="Errores del servidor"
+                value={latency.serverErrors}
+                className={latency.serverErrors > 0 ? "text-red-500" : undefined}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center">
+              <Database className="h-4 w-4 mr-2" />
+              Servicios
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <InfoRow
+                label={<span className="inline-flex items-center"><Mail className="h-3 w-3 mr-1" />Correo</span>}
+                value={<StatusText ok={email.configured} okLabel={email.host || "Configurado"} errorLabel="Sin configurar" />}
+              />
+              <InfoRow label="Último envío" value={formatDate(email.lastSuccessAt)} />
+              {email.lastError && (
+                <InfoRow
+                  label={`Último error (${formatDate(email.lastFailureAt)})`}
+                  value={email.lastError}
+                  className="text-red-500 break-all"
+                />
+              )}
+              <InfoRow
+                label={<span className="inline-flex items-center"><FileText className="h-3 w-3 mr-1" />PDF</span>}
+                value={
+                  <StatusText
+                    ok={pdfAvailable}
+                    okLabel={pdf.pdfshiftConfigured ? "PDFShift" : "Puppeteer"}
+                    errorLabel={pdf.templateAvailable ? "Sin motor disponible" : "Falta la plantilla"}
+                  />
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
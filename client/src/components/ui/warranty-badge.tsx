@@ -0,0 +1,28 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { WarrantyStatus, getWarrantyStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+
+const warrantyDisplay: Record<WarrantyStatus, { label: string; className: string }> = {
+  active: { label: "Vigente", className: "bg-green-100 text-green-800" },
+  expiring: { label: "Por vencer", className: "bg-yellow-100 text-yellow-800" },
+  expired: { label: "Vencida", className: "bg-red-100 text-red-800" },
+  none: { label: "Sin garantía", className: "bg-gray-100 text-gray-800" },
+};
+
+interface WarrantyBadgeProps {
+  expiresAt: Date | string | null;
+  // Muestra la fecha de vencimiento junto al estado
+  showDate?: boolean;
+}
+
+// Estado de una garantía según su fecha de vencimiento
+export function WarrantyBadge({ expiresAt, showDate = false }: WarrantyBadgeProps) {
+  const { label, className } = warrantyDisplay[getWarrantyStatus(expiresAt)];
+  return (
+    <Badge variant="outline" className={className}>
+      {label}
+      {showDate && expiresAt && ` · ${format(new Date(expiresAt), "dd/MM/yyyy", { locale: es })}`}
+    </Badge>
+  );
+}
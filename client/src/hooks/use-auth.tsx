@@ -11,6 +11,7 @@ import {
   loginUserSchema, 
   LoginUser 
 } from "@shared/schema";
+import { hasPermission, Permission } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -153,3 +154,9 @@ export function useAuth() {
   }
   return context;
 }
+
+// Devuelve una función para comprobar si el usuario actual tiene un permiso
+export function usePermissions() {
+  const { user } = useAuth();
+  return (permission: Permission) => hasPermission(user?.role, permission);
+}
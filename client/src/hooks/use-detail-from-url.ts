@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+import { useSearch } from "wouter";
+
+// Abre el detalle del registro indicado en la URL (?id=), por ejemplo al
+// llegar desde la búsqueda global. `endpoint` es la ruta base de la API.
+export function useDetailFromUrl<T>(endpoint: string, onOpen: (record: T) => void) {
+  const search = useSearch();
+
+  useEffect(() => {
+    const id = new URLSearchParams(search).get("id");
+    if (!id) return;
+
+    fetch(`${endpoint}/${id}`, { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((record: T | null) => {
+        if (record) onOpen(record);
+      });
+  }, [search, endpoint]);
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { PaginatedResult } from "@shared/schema";
+import type { ServerSideOptions } from "@/components/ui/data-table";
+
+type Filters = Record<string, string | number | null | undefined>;
+
+// Consulta un listado paginado de la API ({ items, total, page, pageSize }).
+// La clave de la consulta empieza por la URL, así que invalidar la URL base
+// también refresca todas las páginas.
+export function usePaginatedQuery<T>(url: string, filters: Filters = {}, pageSize = 10) {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<string | undefined>(undefined);
+
+  // Volver a la primera página cuando cambian los filtros
+  const filtersKey = JSON.stringify(filters);
+  useEffect(() => {
+    setPage(1);
+  }, [filtersKey]);
+
+  const params: Filters = { page, pageSize, sort, q: search || undefined, ...filters };
+
+  const query = useQuery<PaginatedResult<T>>({
+    queryKey: [url, params],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== "") {
+          searchParams.set(key, String(value));
+        }
+      });
+
+      const res = await fetch(`${url}?${searchParams.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const serverSide: ServerSideOptions = {
+    total: query.data?.total ?? 0,
+    page,
+    onPageChange: setPage,
+    onSearchChange: (term) => {
+      setSearch(term);
+      setPage(1);
+    },
+    sort,
+    onSortChange: setSort,
+  };
+
+  return {
+    ...query,
+    items: query.data?.items ?? [],
+    serverSide,
+  };
+}
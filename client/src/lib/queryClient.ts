@@ -23,6 +23,39 @@ export async function apiRequest(
   return res;
 }
 
+// Sube archivos como multipart/form-data. Usa XMLHttpRequest porque fetch no informa
+// el avance de la subida; onProgress recibe el porcentaje enviado (0-100).
+export function uploadFiles<T>(
+  url: string,
+  files: File[],
+  fields: Record<string, string> = {},
+  onProgress?: (percent: number) => void,
+): Promise<T> {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+  files.forEach((file) => formData.append("files", file));
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText) as T);
+      } else {
+        reject(new Error(`${xhr.status}: ${xhr.responseText || xhr.statusText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Error de red al subir los archivos"));
+    xhr.send(formData);
+  });
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
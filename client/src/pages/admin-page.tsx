@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { CompanySettings, insertCompanySettingsSchema } from "@shared/schema";
+import { CompanySettings, insertCompanySettingsSchema, SmtpDiagnostic, SmtpTestResult } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { 
   Building2, 
@@ -11,20 +11,17 @@ import {
   Globe, 
   FileText, 
   Save, 
-  HardDrive, 
-  Download, 
-  Upload as UploadIcon, 
   RefreshCw,
   Server,
-  Activity,
-  Database,
-  Clock,
   Lock,
   Send,
   Key,
   Cog,
   Mail,
-  Loader2
+  Loader2,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -40,18 +37,43 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Shield } from "lucide-react";
 import { SingleImageUpload } from "@/components/ui/single-image-upload";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AuditLogTable } from "@/components/ui/audit-log-table";
+import { BackupManager } from "@/components/ui/backup-manager";
+import { SystemInfoPanel } from "@/components/ui/system-info-panel";
+import { EmailOutboxTable } from "@/components/ui/email-outbox-table";
+import { EmailTemplateEditor } from "@/components/ui/email-template-editor";
+import { NotificationSettingsForm } from "@/components/ui/notification-settings-form";
+import { BusinessCalendarManager, SlaPolicyManager } from "@/components/ui/sla-settings";
+
+// Nombre de cada paso del diagnóstico SMTP
+const smtpStepLabels: Record<SmtpDiagnostic["step"], string> = {
+  config: "Configuración",
+  dns: "Resolución DNS",
+  connection: "Conexión",
+  tls: "Cifrado TLS",
+  auth: "Autenticación",
+  send: "Envío de prueba",
+};
+
+const smtpStatusIcons: Record<SmtpDiagnostic["status"], JSX.Element> = {
+  ok: <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />,
+  warning: <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0" />,
+  error: <XCircle className="h-4 w-4 text-red-500 shrink-0" />,
+};
 
 export default function AdminPage() {
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
+  const can = usePermissions();
   const [activeTab, setActiveTab] = useState("company");
   const [testEmail, setTestEmail] = useState("");
   const [testingConnection, setTestingConnection] = useState(false);
+  const [smtpDiagnostics, setSmtpDiagnostics] = useState<SmtpDiagnostic[]>([]);
   
   // Fetch company settings
   const { data: settings, isLoading } = useQuery<CompanySettings>({
@@ -127,8 +149,10 @@ export default function AdminPage() {
 
     try {
       setTestingConnection(true);
+      setSmtpDiagnostics([]);
       const res = await apiRequest("POST", "/api/email/test-connection", { testEmail });
-      const result = await res.json();
+      const result: SmtpTestResult = await res.json();
+      setSmtpDiagnostics(result.diagnostics);
       
       if (result.success) {
         toast({
@@ -163,8 +187,8 @@ export default function AdminPage() {
     }
   };
   
-  // Check if user is admin, redirect otherwise
-  if (currentUser?.role !== "admin") {
+  // Check if user has permission, show restricted view otherwise
+  if (!can("settings:write")) {
     return (
       <DashboardLayout title="Administración">
         <div className="flex items-center justify-center h-96 flex-col space-y-4">
@@ -202,6 +226,9 @@ export default function AdminPage() {
           <TabsTrigger value="company">Empresa</TabsTrigger>
           <TabsTrigger value="backup">Respaldos</TabsTrigger>
           <TabsTrigger value="system">Sistema</TabsTrigger>
+          <TabsTrigger value="emails">Correos</TabsTrigger>
+          <TabsTrigger value="sla">SLA</TabsTrigger>
+          {can("audit:read") && <TabsTrigger value="audit">Auditoría</TabsTrigger>}
         </TabsList>
         
         {/* Pestaña de la Empresa */}
@@ -379,127 +406,8 @@ export default function AdminPage() {
                 Realiza copias de seguridad de la base de datos y configura respaldos automáticos
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-6">
-              <Alert>
-                <HardDrive className="h-4 w-4" />
-                <AlertTitle>Información importante</AlertTitle>
-                <AlertDescription>
-                  Es recomendable realizar respaldos periódicos para proteger la información de su empresa.
-                </AlertDescription>
-              </Alert>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-base">Respaldo Manual</CardTitle>
-                    <CardDescription>
-                      Crea una copia de seguridad de la base de datos
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <div className="text-sm text-muted-foreground">
-                        Última copia: <span className="font-semibold">12/04/2025 14:30</span>
-                      </div>
-                      <Button className="w-full">
-                        <Download className="h-4 w-4 mr-2" />
-                        Generar Respaldo Ahora
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-base">Restaurar Copia</CardTitle>
-                    <CardDescription>
-                      Restaura el sistema desde una copia de seguridad
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <div className="relative">
-                        <Input 
-                          type="file" 
-                          className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10" 
-                          accept=".sql,.backup"
-                        />
-                        <Button variant="outline" className="w-full relative">
-                          <UploadIcon className="h-4 w-4 mr-2" />
-                          Seleccionar Archivo
-                        </Button>
-                      </div>
-                      <Button className="w-full" variant="destructive" disabled>
-                        <RefreshCw className="h-4 w-4 mr-2" />
-                        Restaurar Sistema
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
-              
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-base">Programación de Respaldos</CardTitle>
-                  <CardDescription>
-                    Configura respaldos automáticos de la base de datos
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex items-center space-x-2">
-                      <input type="checkbox" id="autoBackup" className="h-4 w-4" />
-                      <label htmlFor="autoBackup" className="text-sm">Habilitar respaldos automáticos</label>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div>
-                        <label htmlFor="frequency" className="text-sm font-medium">Frecuencia</label>
-                        <select 
-                          id="frequency" 
-                          className="mt-1 block w-full p-2 border border-input rounded-md bg-background"
-                        >
-                          <option value="daily">Diario</option>
-                          <option value="weekly">Semanal</option>
-                          <option value="monthly">Mensual</option>
-                        </select>
-                      </div>
-                      
-                      <div>
-                        <label htmlFor="time" className="text-sm font-medium">Hora</label>
-                        <select 
-                          id="time" 
-                          className="mt-1 block w-full p-2 border border-input rounded-md bg-background"
-                        >
-                          <option value="00:00">00:00</option>
-                          <option value="01:00">01:00</option>
-                          <option value="02:00">02:00</option>
-                          <option value="03:00">03:00</option>
-                          <option value="04:00">04:00</option>
-                        </select>
-                      </div>
-                      
-                      <div>
-                        <label htmlFor="retention" className="text-sm font-medium">Retención</label>
-                        <select 
-                          id="retention" 
-                          className="mt-1 block w-full p-2 border border-input rounded-md bg-background"
-                        >
-                          <option value="7">7 días</option>
-                          <option value="14">14 días</option>
-                          <option value="30">30 días</option>
-                          <option value="90">90 días</option>
-                        </select>
-                      </div>
-                    </div>
-                    
-                    <Button className="mt-2">
-                      <Save className="h-4 w-4 mr-2" />
-                      Guardar Configuración
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
+            <CardContent>
+              <BackupManager />
             </CardContent>
           </Card>
         </TabsContent>
@@ -744,6 +652,21 @@ export default function AdminPage() {
                           )}
                         </Button>
                       </div>
+
+                      {smtpDiagnostics.length > 0 && (
+                        <ul className="space-y-2 text-sm">
+                          {smtpDiagnostics.map((diagnostic) => (
+                            <li key={diagnostic.step} className="flex items-start gap-2">
+                              {smtpStatusIcons[diagnostic.status]}
+                              <div className="flex-1">
+                                <span className="font-medium">{smtpStepLabels[diagnostic.step]}:</span>{" "}
+                                <span className="text-muted-foreground break-all">{diagnostic.message}</span>
+                              </div>
+                              <span className="text-xs text-muted-foreground">{diagnostic.durationMs}ms</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                     
                     <Button 
@@ -773,126 +696,7 @@ export default function AdminPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                <Alert>
-                  <Server className="h-4 w-4" />
-                  <AlertTitle>Información del servidor</AlertTitle>
-                  <AlertDescription>
-                    El sistema está funcionando correctamente en modo producción.
-                  </AlertDescription>
-                </Alert>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base">Estado del Servidor</CardTitle>
-                      <CardDescription>
-                        Monitorea el estado actual del sistema
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Versión:</span>
-                          <span className="text-sm font-medium">v1.0.0</span>
-                        </div>
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Estado:</span>
-                          <span className="text-sm font-medium text-green-500">En línea</span>
-                        </div>
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Tiempo activo:</span>
-                          <span className="text-sm font-medium">7 días, 3 horas</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-sm">Última actualización:</span>
-                          <span className="text-sm font-medium">02/04/2025</span>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base">Base de Datos</CardTitle>
-                      <CardDescription>
-                        Información de la base de datos
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Tipo:</span>
-                          <span className="text-sm font-medium">PostgreSQL</span>
-                        </div>
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Estado:</span>
-                          <span className="text-sm font-medium text-green-500">Conectado</span>
-                        </div>
-                        <div className="flex justify-between border-b pb-2">
-                          <span className="text-sm">Tamaño:</span>
-                          <span className="text-sm font-medium">12.4 MB</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-sm">Registros totales:</span>
-                          <span className="text-sm font-medium">1,247</span>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
-                
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base flex items-center">
-                        <Activity className="h-4 w-4 mr-2" />
-                        Rendimiento
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="h-24 flex items-center justify-center">
-                        <div className="text-center">
-                          <p className="text-2xl font-bold">92%</p>
-                          <p className="text-xs text-muted-foreground">Rendimiento</p>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                  
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base flex items-center">
-                        <Database className="h-4 w-4 mr-2" />
-                        Uso de CPU
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="h-24 flex items-center justify-center">
-                        <div className="text-center">
-                          <p className="text-2xl font-bold">15%</p>
-                          <p className="text-xs text-muted-foreground">Promedio</p>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                  
-                  <Card>
-                    <CardHeader className="pb-2">
-                      <CardTitle className="text-base flex items-center">
-                        <Clock className="h-4 w-4 mr-2" />
-                        Respuesta
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="h-24 flex items-center justify-center">
-                        <div className="text-center">
-                          <p className="text-2xl font-bold">217ms</p>
-                          <p className="text-xs text-muted-foreground">Tiempo promedio</p>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
+                <SystemInfoPanel />
                 
                 <Card>
                   <CardHeader className="pb-2">
@@ -922,6 +726,86 @@ export default function AdminPage() {
             </Card>
           </div>
         </TabsContent>
+        
+        {/* Pestaña de Correos */}
+        <TabsContent value="emails" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Avisos automáticos</CardTitle>
+              <CardDescription>
+                Correos que se envían al cliente cuando cambia el estado de su orden
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <NotificationSettingsForm />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Plantillas de correo</CardTitle>
+              <CardDescription>
+                Personaliza el asunto y el contenido de los correos que se envían a los clientes en cada evento
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailTemplateEditor />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Correos enviados</CardTitle>
+              <CardDescription>
+                Estado de entrega de los correos a clientes; los fallidos se pueden reenviar
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailOutboxTable />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Pestaña de SLA */}
+        <TabsContent value="sla" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Políticas SLA</CardTitle>
+              <CardDescription>
+                Tiempos de respuesta y resolución comprometidos por cliente y prioridad
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SlaPolicyManager />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Calendarios laborales</CardTitle>
+              <CardDescription>
+                Horarios y días feriados en los que corren los plazos de las políticas
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BusinessCalendarManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        {/* Pestaña de Auditoría */}
+        {can("audit:read") && (
+          <TabsContent value="audit">
+            <Card>
+              <CardHeader>
+                <CardTitle>Auditoría</CardTitle>
+                <CardDescription>
+                  Registro de altas, modificaciones y eliminaciones realizadas por los usuarios
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AuditLogTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </DashboardLayout>
   );
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { apiRequest } from "@/lib/queryClient";
+import { ClientApprovalResponse, ServiceOrderLineItem } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { SignaturePad } from "@/components/ui/signature-pad";
+import { LineItemsSummary } from "@/components/ui/line-items";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, AlertCircle, CheckCircle, XCircle } from "lucide-react";
+
+interface ApprovalDetails {
+  orderNumber: string;
+  status: string;
+  description: string;
+  notes: string | null;
+  cost: number | null;
+  subtotal: string | null;
+  taxAmount: string | null;
+  total: string | null;
+  lineItems: ServiceOrderLineItem[];
+  photos: string[];
+  requestDate: string;
+  expectedDeliveryDate: string | null;
+  clientApproval: boolean | null;
+  clientApprovalDate: string | null;
+  clientName: string;
+  equipment: {
+    type: string;
+    brand: string;
+    model: string;
+    serialNumber: string;
+  } | null;
+  company: {
+    name: string;
+    logoUrl: string | null;
+    address: string;
+    phone: string;
+    email: string;
+  };
+  canRespond: boolean;
+  expiresAt: string;
+}
+
+export default function ApprovalPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [signature, setSignature] = useState("");
+  const [reason, setReason] = useState("");
+  const [result, setResult] = useState<{ status: string; message: string } | null>(null);
+
+  const { data: details, isLoading, error } = useQuery<ApprovalDetails>({
+    queryKey: [`/api/public/approvals/${token}`],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (data: ClientApprovalResponse) => {
+      const res = await apiRequest("POST", `/api/public/approvals/${token}`, data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setResult({ status: data.status, message: data.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo registrar la respuesta: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleApprove = () => {
+    if (!signature) {
+      toast({
+        title: "Firma requerida",
+        description: "Por favor firme para aprobar la orden",
+        variant: "destructive",
+      });
+      return;
+    }
+    respondMutation.mutate({ decision: "approve", signature });
+  };
+
+  const handleReject = () => {
+    respondMutation.mutate({ decision: "reject", reason: reason || undefined });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex justify-center items-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Enlace no válido</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              El enlace de aprobación no es válido o ha expirado. Comuníquese con nosotros para recibir uno nuevo.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 bg-gray-50">
+      <Card className="w-full max-w-2xl">
+        <CardContent className="pt-6 space-y-4">
+          {/* Encabezado con datos de la empresa */}
+          <div className="flex justify-between items-center border-b pb-2">
+            <div className="flex items-center gap-2">
+              {details.company.logoUrl && (
+                <img src={details.company.logoUrl} alt={details.company.name} className="w-12 h-12 object-contain" />
+              )}
+              <div>
+                <h2 className="text-lg font-bold text-blue-900">{details.company.name}</h2>
+                <p className="text-xs">{details.company.address}</p>
+                <p className="text-xs">Tel: {details.company.phone}</p>
+              </div>
+            </div>
+            <div className="text-right">
+              <h3 className="font-bold text-base">ORDEN DE SERVICIO</h3>
+              <p className="text-lg font-bold text-blue-900">#{details.orderNumber}</p>
+              <p className="text-xs">Fecha: {format(new Date(details.requestDate), "PPP", { locale: es })}</p>
+            </div>
+          </div>
+
+          <p>Estimado(a) <strong>{details.clientName}</strong>, revise la cotización de su orden de servicio.</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {details.equipment && (
+              <div>
+                <h3 className="text-xs font-medium text-muted-foreground">Equipo</h3>
+                <p className="text-sm">
+                  {details.equipment.brand} {details.equipment.model} ({details.equipment.serialNumber})
+                </p>
+              </div>
+            )}
+            <div>
+              <h3 className="text-xs font-medium text-muted-foreground">Fecha Estimada de Entrega</h3>
+              <p className="text-sm">
+                {details.expectedDeliveryDate
+                  ? format(new Date(details.expectedDeliveryDate), "PPP", { locale: es })
+                  : "No especificada"}
+              </p>
+            </div>
+            <div className="md:col-span-2">
+              <h3 className="text-xs font-medium text-muted-foreground">Descripción</h3>
+              <p className="text-sm">{details.description}</p>
+            </div>
+            <div className="md:col-span-2">
+              <h3 className="text-xs font-medium text-muted-foreground">Costo del Servicio</h3>
+              {details.total !== null ? (
+                <LineItemsSummary
+                  items={details.lineItems}
+                  subtotal={details.subtotal}
+                  taxAmount={details.taxAmount}
+                  total={details.total}
+                />
+              ) : (
+                <p className="text-xl font-semibold">Por definir</p>
+              )}
+            </div>
+          </div>
+
+          {details.photos.length > 0 && (
+            <div>
+              <h3 className="text-xs font-medium text-muted-foreground mb-2">Fotografías</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {details.photos.map((photo, index) => (
+                  <div key={index} className="border rounded-md overflow-hidden">
+                    <img src={photo} alt={`Foto ${index + 1}`} className="w-full h-auto" />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result ? (
+            <div className="flex items-center gap-2 border rounded-md p-4 bg-white">
+              {result.status === "approved" ? (
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              ) : (
+                <XCircle className="h-6 w-6 text-red-600" />
+              )}
+              <p className="font-medium">{result.message}</p>
+            </div>
+          ) : details.canRespond ? (
+            <div className="space-y-4 border-t pt-4">
+              <div>
+                <h3 className="text-sm font-medium mb-2">Firma de aprobación</h3>
+                <SignaturePad value={signature} onChange={setSignature} width={350} height={150} />
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-2">Comentarios (solo en caso de rechazo)</h3>
+                <Textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Motivo del rechazo"
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleReject} disabled={respondMutation.isPending}>
+                  Rechazar
+                </Button>
+                <Button onClick={handleApprove} disabled={respondMutation.isPending}>
+                  {respondMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Aprobar
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Este enlace vence el {format(new Date(details.expiresAt), "PPP", { locale: es })}.
+              </p>
+            </div>
+          ) : (
+            <div className="border rounded-md p-4 bg-white text-sm">
+              {details.clientApproval
+                ? `Esta orden fue aprobada el ${details.clientApprovalDate ? format(new Date(details.clientApprovalDate), "PPP", { locale: es }) : ""}.`
+                : "Esta orden ya no está esperando aprobación."}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState } from "react";
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { DataTable } from "@/components/ui/data-table";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useDetailFromUrl } from "@/hooks/use-detail-from-url";
 import { Client, InsertClient, insertClientSchema } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, Eye } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import { ImportWizard } from "@/components/ui/import-wizard";
 import {
   Dialog,
   DialogContent,
@@ -41,8 +45,10 @@ import {
 
 export default function ClientsPage() {
   const { toast } = useToast();
+  const can = usePermissions();
   const [clientToEdit, setClientToEdit] = useState<Client | null>(null);
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
@@ -56,6 +62,7 @@ export default function ClientsPage() {
       email: "",
       phone: "",
       address: "",
+      emailNotifications: true,
     },
   });
   
@@ -68,6 +75,7 @@ export default function ClientsPage() {
       email: "",
       phone: "",
       address: "",
+      emailNotifications: true,
     });
     setIsEditOpen(true);
   };
@@ -81,14 +89,13 @@ export default function ClientsPage() {
       email: client.email,
       phone: client.phone,
       address: client.address,
+      emailNotifications: client.emailNotifications,
     });
     setIsEditOpen(true);
   };
   
   // Fetch clients
-  const { data: clients, isLoading } = useQuery<Client[]>({
-    queryKey: ["/api/clients"],
-  });
+  const { items: clients, isLoading, serverSide } = usePaginatedQuery<Client>("/api/clients");
   
   // Create client mutation
   const createMutation = useMutation({
@@ -173,19 +180,24 @@ export default function ClientsPage() {
     setIsDetailsOpen(true);
   };
   
+  useDetailFromUrl<Client>("/api/clients", handleViewClient);
+  
   // Columns for client table
   const columns = [
     {
       header: "Nombre",
       accessorKey: "name" as keyof Client,
+      sortKey: "name",
     },
     {
       header: "Contacto",
       accessorKey: "contactName" as keyof Client,
+      sortKey: "contactName",
     },
     {
       header: "Email",
       accessorKey: "email" as keyof Client,
+      sortKey: "email",
     },
     {
       header: "Teléfono",
@@ -206,26 +218,30 @@ export default function ClientsPage() {
           >
             <Eye className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleEditClient(row);
-            }}
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              setClientToDelete(row);
-            }}
-          >
-            <Trash2 className="h-4 w-4 text-red-500" />
-          </Button>
+          {can("clients:write") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleEditClient(row);
+              }}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {can("clients:delete") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                setClientToDelete(row);
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
         </div>
       ),
     },
@@ -241,105 +257,131 @@ export default function ClientsPage() {
           </p>
         </div>
         
-        <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleAddClient}>
-              <Plus className="mr-2 h-4 w-4" /> Agregar Cliente
+        <div className="flex gap-2">
+          {can("clients:write") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" /> Importar
             </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {clientToEdit ? "Editar Cliente" : "Agregar Cliente"}
-              </DialogTitle>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nombre de la Empresa</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="contactName"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nombre de Contacto</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input {...field} type="email" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="phone"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Teléfono</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="address"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Dirección</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <DialogClose asChild>
-                    <Button variant="outline" type="button">
-                      Cancelar
+          )}
+          <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+            {can("clients:write") && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAddClient}>
+                  <Plus className="mr-2 h-4 w-4" /> Agregar Cliente
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {clientToEdit ? "Editar Cliente" : "Agregar Cliente"}
+                </DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre de la Empresa</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="contactName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre de Contacto</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="email" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Teléfono</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Dirección</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="emailNotifications"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            checked={field.value ?? true}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal">Enviar avisos por correo cuando cambie el estado de sus órdenes</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <DialogClose asChild>
+                      <Button variant="outline" type="button">
+                        Cancelar
+                      </Button>
+                    </DialogClose>
+                    <Button
+                      type="submit"
+                      disabled={createMutation.isPending || updateMutation.isPending}
+                    >
+                      {clientToEdit ? "Actualizar" : "Guardar"}
                     </Button>
-                  </DialogClose>
-                  <Button
-                    type="submit"
-                    disabled={createMutation.isPending || updateMutation.isPending}
-                  >
-                    {clientToEdit ? "Actualizar" : "Guardar"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
       
-      <DataTable data={clients || []} columns={columns} loading={isLoading} />
+      <DataTable data={clients} columns={columns} loading={isLoading} serverSide={serverSide} />
       
       {/* Client Details Dialog */}
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
@@ -370,6 +412,10 @@ export default function ClientsPage() {
                   <p className="text-sm font-medium text-muted-foreground">Dirección</p>
                   <p>{selectedClient.address}</p>
                 </div>
+                <div className="col-span-2">
+                  <p className="text-sm font-medium text-muted-foreground">Avisos por correo</p>
+                  <p>{selectedClient.emailNotifications ? "Activados" : "Desactivados"}</p>
+                </div>
                 <div className="col-span-2">
                   <p className="text-sm font-medium text-muted-foreground">Fecha de Registro</p>
                   <p>{new Date(selectedClient.createdAt).toLocaleDateString()}</p>
@@ -405,6 +451,8 @@ export default function ClientsPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImportWizard entity="clients" open={isImportOpen} onOpenChange={setIsImportOpen} />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,695 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  Client, ContractFrequency, Equipment, InsertMaintenanceContract, MaintenanceContract, OrderStatus, ServiceOrder,
+  Technician, UpcomingMaintenanceVisit, contractFrequencyEnum, insertMaintenanceContractSchema,
+} from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Edit, List, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface TechnicianWithUser extends Technician {
+  fullName?: string;
+}
+
+const statusDisplay: Record<OrderStatus, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "bg-yellow-100 text-yellow-800" },
+  waiting_approval: { label: "Esperando Aprobación", className: "bg-orange-100 text-orange-800" },
+  approved: { label: "Aprobado", className: "bg-indigo-100 text-indigo-800" },
+  in_progress: { label: "En Proceso", className: "bg-blue-100 text-blue-800" },
+  completed: { label: "Completado", className: "bg-green-100 text-green-800" },
+  cancelled: { label: "Cancelado", className: "bg-red-100 text-red-800" },
+  warranty: { label: "Garantía", className: "bg-purple-100 text-purple-800" },
+};
+
+// Unidad de la recurrencia en singular y plural
+const frequencyUnits: Record<ContractFrequency, [string, string]> = {
+  weekly: ["semana", "semanas"],
+  monthly: ["mes", "meses"],
+  yearly: ["año", "años"],
+};
+
+function describeRecurrence(contract: Pick<MaintenanceContract, "frequency" | "interval">) {
+  const [singular, plural] = frequencyUnits[contract.frequency];
+  return contract.interval === 1 ? `Cada ${singular}` : `Cada ${contract.interval} ${plural}`;
+}
+
+const formatDate = (value: Date | string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy", { locale: es }) : "-";
+
+// Las fechas del contrato se capturan como días locales (sin hora)
+const toInputDate = (value: Date | string | null | undefined) => (value ? format(new Date(value), "yyyy-MM-dd") : "");
+const fromInputDate = (value: string) => (value ? new Date(`${value}T00:00:00`) : null);
+
+const emptyContract = (): InsertMaintenanceContract => ({
+  name: "",
+  clientId: 0,
+  equipmentIds: [],
+  frequency: "monthly",
+  interval: 3,
+  description: "Mantenimiento preventivo",
+  technicianId: null,
+  value: null,
+  startDate: fromInputDate(toInputDate(new Date()))!,
+  endDate: null,
+  active: true,
+});
+
+function UpcomingVisits() {
+  const [days, setDays] = useState("60");
+  const { data: visits, isLoading } = useQuery<UpcomingMaintenanceVisit[]>({
+    queryKey: ["/api/maintenance-contracts/upcoming", days],
+    queryFn: async () => {
+      const res = await fetch(`/api/maintenance-contracts/upcoming?${new URLSearchParams({ days }).toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Próximas visitas
+          </CardTitle>
+          <CardDescription>En cada visita se genera una orden pendiente por cada equipo del contrato</CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Próximos 30 días</SelectItem>
+            <SelectItem value="60">Próximos 60 días</SelectItem>
+            <SelectItem value="90">Próximos 90 días</SelectItem>
+            <SelectItem value="365">Próximo año</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !visits || visits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay visitas programadas en el periodo.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Contrato</TableHead>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Técnico</TableHead>
+                <TableHead className="text-right">Equipos</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visits.map((visit) => (
+                <TableRow key={`${visit.contractId}-${visit.dueAt}`}>
+                  <TableCell>{format(new Date(visit.dueAt), "EEE dd/MM/yyyy", { locale: es })}</TableCell>
+                  <TableCell className="font-medium">{visit.contractName}</TableCell>
+                  <TableCell>{visit.clientName}</TableCell>
+                  <TableCell>{visit.technicianName ?? <span className="text-muted-foreground">Sin asignar</span>}</TableCell>
+                  <TableCell className="text-right">{visit.equipmentCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ContractOrdersDialog({ contract, onClose }: { contract: MaintenanceContract | null; onClose: () => void }) {
+  const { data: orders, isLoading } = useQuery<ServiceOrder[]>({
+    queryKey: [`/api/maintenance-contracts/${contract?.id}/orders`],
+    enabled: !!contract,
+  });
+
+  return (
+    <Dialog open={!!contract} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Órdenes generadas · {contract?.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !orders || orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">El contrato todavía no ha generado órdenes.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Orden</TableHead>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Estado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <Link href={`/orders?id=${order.id}`} className="text-primary hover:underline">
+                        {order.orderNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{formatDate(order.requestDate)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={statusDisplay[order.status].className}>
+                        {statusDisplay[order.status].label}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Contratos de mantenimiento preventivo y sus próximas visitas
+export default function ContractsPage() {
+  const { toast } = useToast();
+  const can = usePermissions();
+  const [formOpen, setFormOpen] = useState(false);
+  const [contractToEdit, setContractToEdit] = useState<MaintenanceContract | null>(null);
+  const [contractToDelete, setContractToDelete] = useState<MaintenanceContract | null>(null);
+  const [contractOrders, setContractOrders] = useState<MaintenanceContract | null>(null);
+
+  const { data: contracts, isLoading } = useQuery<MaintenanceContract[]>({ queryKey: ["/api/maintenance-contracts"] });
+  const { data: clients } = useQuery<Client[]>({ queryKey: ["/api/clients"] });
+  const { data: equipment } = useQuery<Equipment[]>({ queryKey: ["/api/equipment"] });
+  const { data: technicians } = useQuery<TechnicianWithUser[]>({ queryKey: ["/api/technicians"] });
+
+  const form = useForm<InsertMaintenanceContract>({
+    resolver: zodResolver(insertMaintenanceContractSchema),
+    defaultValues: emptyContract(),
+  });
+  const selectedClientId = form.watch("clientId");
+  const clientEquipment = equipment?.filter((item) => item.clientId === selectedClientId) ?? [];
+
+  const openForm = (contract: MaintenanceContract | null) => {
+    setContractToEdit(contract);
+    form.reset(contract ? {
+      name: contract.name,
+      clientId: contract.clientId,
+      equipmentIds: contract.equipmentIds,
+      frequency: contract.frequency,
+      interval: contract.interval,
+      description: contract.description,
+      technicianId: contract.technicianId,
+      value: contract.value,
+      startDate: new Date(contract.startDate),
+      endDate: contract.endDate ? new Date(contract.endDate) : null,
+      active: contract.active,
+    } : emptyContract());
+    setFormOpen(true);
+  };
+
+  const invalidateContracts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-contracts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance-contracts/upcoming"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertMaintenanceContract) => {
+      const res = contractToEdit
+        ? await apiRequest("PUT", `/api/maintenance-contracts/${contractToEdit.id}`, data)
+        : await apiRequest("POST", "/api/maintenance-contracts", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateContracts();
+      setFormOpen(false);
+      toast({
+        title: contractToEdit ? "Contrato actualizado" : "Contrato creado",
+        description: "Las órdenes se generarán automáticamente en cada visita",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo guardar el contrato: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/maintenance-contracts/${id}`);
+    },
+    onSuccess: () => {
+      invalidateContracts();
+      setContractToDelete(null);
+      toast({
+        title: "Contrato eliminado",
+        description: "Las órdenes ya generadas se conservan",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo eliminar el contrato: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getClientName = (clientId: number) =>
+    clients?.find((client) => client.id === clientId)?.name ?? "Cliente desconocido";
+
+  const columns = [
+    {
+      header: "Contrato",
+      accessorKey: "name" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => (
+        <div>
+          <p className="font-medium">{row.name}</p>
+          <p className="text-xs text-muted-foreground">{getClientName(row.clientId)}</p>
+        </div>
+      ),
+    },
+    {
+      header: "Equipos",
+      accessorKey: "equipmentIds" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => row.equipmentIds.length,
+    },
+    {
+      header: "Recurrencia",
+      accessorKey: "frequency" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => describeRecurrence(row),
+    },
+    {
+      header: "Vigencia",
+      accessorKey: "startDate" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) =>
+        `${formatDate(row.startDate)} – ${row.endDate ? formatDate(row.endDate) : "Indefinida"}`,
+    },
+    {
+      header: "Próxima visita",
+      accessorKey: "nextVisitAt" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => {
+        if (!row.active) {
+          return <Badge variant="outline" className="bg-gray-100 text-gray-800">Inactivo</Badge>;
+        }
+        if (!row.nextVisitAt) {
+          return <Badge variant="outline" className="bg-gray-100 text-gray-800">Finalizado</Badge>;
+        }
+        return formatDate(row.nextVisitAt);
+      },
+    },
+    // El valor del contrato solo lo ven quienes tienen acceso a finanzas
+    ...(can("finance:read") ? [{
+      header: "Valor",
+      accessorKey: "value" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => (row.value ? formatMoney(row.value) : "-"),
+    }] : []),
+    {
+      header: "Acciones",
+      accessorKey: "id" as keyof MaintenanceContract,
+      cell: (row: MaintenanceContract) => (
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Órdenes generadas"
+            onClick={(e) => {
+              e.stopPropagation();
+              setContractOrders(row);
+            }}
+          >
+            <List className="h-4 w-4" />
+          </Button>
+          {can("contracts:write") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Editar"
+              onClick={(e) => {
+                e.stopPropagation();
+                openForm(row);
+              }}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {can("contracts:delete") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Eliminar"
+              onClick={(e) => {
+                e.stopPropagation();
+                setContractToDelete(row);
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <DashboardLayout title="Contratos">
+      <div className="mb-4 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">Contratos de mantenimiento</h2>
+          <p className="text-muted-foreground">
+            Visitas preventivas periódicas que generan sus órdenes de servicio automáticamente
+          </p>
+        </div>
+        {can("contracts:write") && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" /> Nuevo contrato
+          </Button>
+        )}
+      </div>
+
+      <UpcomingVisits />
+
+      <DataTable data={contracts || []} columns={columns} loading={isLoading} />
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{contractToEdit ? "Editar contrato" : "Nuevo contrato"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nombre</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Mantenimiento trimestral" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="clientId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cliente</FormLabel>
+                      <Select
+                        value={field.value ? String(field.value) : undefined}
+                        onValueChange={(value) => {
+                          field.onChange(Number(value));
+                          // Los equipos seleccionados eran del cliente anterior
+                          form.setValue("equipmentIds", []);
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Seleccionar cliente" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {clients?.map((client) => (
+                            <SelectItem key={client.id} value={String(client.id)}>{client.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="equipmentIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Equipos</FormLabel>
+                    {!selectedClientId ? (
+                      <p className="text-sm text-muted-foreground">Seleccione primero el cliente.</p>
+                    ) : clientEquipment.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">El cliente no tiene equipos registrados.</p>
+                    ) : (
+                      <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+                        {clientEquipment.map((item) => (
+                          <label key={item.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(item.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(checked
+                                  ? [...field.value, item.id]
+                                  : field.value.filter((id) => id !== item.id))
+                              }
+                            />
+                            {item.brand} {item.model}
+                            <span className="text-muted-foreground">({item.serialNumber})</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cada</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={52} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Periodo</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {contractFrequencyEnum.enumValues.map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>{frequencyUnits[frequency][1]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Primera visita</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={toInputDate(field.value)}
+                          onChange={(e) => field.onChange(fromInputDate(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fin del contrato</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={toInputDate(field.value)}
+                          onChange={(e) => field.onChange(fromInputDate(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>Vacío si no tiene fecha de fin</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descripción de las órdenes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="technicianId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Técnico asignado</FormLabel>
+                      <Select
+                        value={field.value ? String(field.value) : "none"}
+                        onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Sin asignar</SelectItem>
+                          {technicians?.map((technician) => (
+                            <SelectItem key={technician.id} value={String(technician.id)}>
+                              {technician.fullName ?? `Técnico #${technician.id}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {can("finance:read") && (
+                  <FormField
+                    control={form.control}
+                    name="value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valor del contrato</FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="0.00"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value || null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value ?? true} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Activo (genera órdenes en cada visita)</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Guardar
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ContractOrdersDialog contract={contractOrders} onClose={() => setContractOrders(null)} />
+
+      <AlertDialog open={!!contractToDelete} onOpenChange={(open) => !open && setContractToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar el contrato "{contractToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No se generarán más visitas. Las órdenes ya generadas se conservan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => contractToDelete && deleteMutation.mutate(contractToDelete.id)}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -1,7 +1,11 @@
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { StatsCard } from "@/components/ui/stats-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { LayoutDashboard, CheckCircle, Clock, Users, ClipboardList, DollarSign, BarChart } from "lucide-react";
+import { LayoutDashboard, CheckCircle, Clock, Users, ClipboardList, DollarSign, BarChart, AlertTriangle, Timer } from "lucide-react";
+import { Part, ServiceOrderWithSla } from "@shared/schema";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { SlaBadge, PriorityBadge } from "@/components/ui/sla-badge";
 import { useQuery } from "@tanstack/react-query";
 import { DataTable } from "@/components/ui/data-table";
 import { Badge } from "@/components/ui/badge";
@@ -10,6 +14,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { usePermissions } from "@/hooks/use-auth";
 
 // Types for dashboard data
 interface DashboardStats {
@@ -36,6 +41,11 @@ interface ServiceOrder {
   technicianName: string;
 }
 
+type SlaAlert = ServiceOrderWithSla & {
+  clientName: string;
+  nextDueAt: string | null;
+};
+
 interface TechnicianStatus {
   id: number;
   name: string;
@@ -44,6 +54,7 @@ interface TechnicianStatus {
 }
 
 export default function DashboardPage() {
+  const can = usePermissions();
   const [, setLocation] = useLocation();
   
   // Fetch dashboard stats
@@ -64,7 +75,21 @@ export default function DashboardPage() {
   // Fetch current month revenue
   const { data: currentMonthRevenue, isLoading: isLoadingRevenue } = useQuery({
     queryKey: ["/api/monthly-revenue/current"],
-    enabled: true,
+    enabled: can("finance:read"),
+  });
+  
+  // Fetch parts at or below their minimum stock
+  const { data: lowStockParts } = useQuery<Part[]>({
+    queryKey: ["/api/parts/low-stock"],
+    enabled: can("inventory:read"),
+    staleTime: 0,
+  });
+  
+  // Órdenes abiertas con compromisos SLA en riesgo o incumplidos
+  const { data: slaAlerts } = useQuery<SlaAlert[]>({
+    queryKey: ["/api/dashboard/sla-alerts"],
+    staleTime: 0,
+    refetchInterval: 60 * 1000,
   });
   
   // Columns for recent orders table
@@ -209,68 +234,149 @@ export default function DashboardPage() {
         )}
       </div>
       
-      {/* Financial Stats */}
-      <div className="mb-8">
-        <Card>
+      {/* SLA Alerts */}
+      {slaAlerts && slaAlerts.length > 0 && (
+        <Card className="mb-8 border-red-200 bg-red-50">
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg font-semibold">Resumen Financiero del Mes</CardTitle>
+            <CardTitle className="text-lg font-semibold flex items-center text-red-900">
+              <Timer className="h-5 w-5 mr-2 text-red-600" />
+              Órdenes con SLA en riesgo ({slaAlerts.length})
+            </CardTitle>
           </CardHeader>
           <CardContent>
-            {isLoadingRevenue ? (
-              <div className="flex flex-col md:flex-row justify-between gap-4">
-                <Skeleton className="h-24 w-full md:w-1/3" />
-                <Skeleton className="h-24 w-full md:w-1/3" />
-                <Skeleton className="h-24 w-full md:w-1/3" />
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="flex flex-col items-center justify-center p-6 bg-blue-50 rounded-lg border border-blue-100">
-                  <div className="p-3 rounded-full bg-blue-100 mb-3">
-                    <DollarSign className="h-6 w-6 text-primary" />
-                  </div>
-                  <h3 className="text-lg font-semibold text-blue-900">Ingresos Totales</h3>
-                  <p className="text-3xl font-bold text-primary">
-                    ${parseFloat((currentMonthRevenue as any)?.totalAmount || "0").toLocaleString('es-MX', { minimumFractionDigits: 2 })}
-                  </p>
-                  <p className="text-sm text-gray-500">Mes actual</p>
-                </div>
-                
-                <div className="flex flex-col items-center justify-center p-6 bg-green-50 rounded-lg border border-green-100">
-                  <div className="p-3 rounded-full bg-green-100 mb-3">
-                    <CheckCircle className="h-6 w-6 text-green-600" />
-                  </div>
-                  <h3 className="text-lg font-semibold text-green-900">Órdenes Completadas</h3>
-                  <p className="text-3xl font-bold text-green-600">
-                    {(currentMonthRevenue as any)?.orderCount || 0}
-                  </p>
-                  <p className="text-sm text-gray-500">Servicios facturados</p>
-                </div>
-                
-                <div className="flex flex-col items-center justify-center p-6 bg-amber-50 rounded-lg border border-amber-100">
-                  <div className="p-3 rounded-full bg-amber-100 mb-3">
-                    <BarChart className="h-6 w-6 text-amber-600" />
-                  </div>
-                  <h3 className="text-lg font-semibold text-amber-900">Valor Promedio</h3>
-                  <p className="text-3xl font-bold text-amber-600">
-                    ${parseFloat((currentMonthRevenue as any)?.averageOrderValue || "0").toLocaleString('es-MX', { minimumFractionDigits: 2 })}
-                  </p>
-                  <p className="text-sm text-gray-500">Por orden de servicio</p>
+            <div className="space-y-2">
+              {slaAlerts.slice(0, 5).map((order) => (
+                <button
+                  key={order.id}
+                  type="button"
+                  className="flex w-full items-center justify-between gap-4 rounded-md px-2 py-1 text-left text-sm hover:bg-red-100"
+                  onClick={() => setLocation(`/orders?id=${order.id}`)}
+                >
+                  <span className="min-w-0 truncate">
+                    <span className="font-medium">{order.orderNumber}</span> · {order.clientName}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-2">
+                    <PriorityBadge priority={order.priority} />
+                    <SlaBadge order={order} />
+                    {order.nextDueAt && (
+                      <span className="text-xs text-gray-600">
+                        Vence {format(new Date(order.nextDueAt), "dd/MM HH:mm", { locale: es })}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="mt-4 flex justify-end">
+              <Button
+                variant="outline"
+                className="text-primary"
+                onClick={() => setLocation('/sla')}
+              >
+                Ver cumplimiento de SLA →
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      
+      {/* Low Stock Alert */}
+      {lowStockParts && lowStockParts.length > 0 && (
+        <Card className="mb-8 border-amber-300 bg-amber-50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-semibold flex items-center text-amber-900">
+              <AlertTriangle className="h-5 w-5 mr-2 text-amber-600" />
+              Refacciones con existencia baja ({lowStockParts.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lowStockParts.slice(0, 5).map((part) => (
+                <div key={part.id} className="flex justify-between text-sm">
+                  <span>{part.sku} · {part.name}</span>
+                  <span className={cn("font-medium", part.stockQuantity <= 0 ? "text-red-600" : "text-amber-700")}>
+                    {part.stockQuantity} / mín. {part.minStock}
+                  </span>
                 </div>
-              </div>
-            )}
-            
+              ))}
+            </div>
             <div className="mt-4 flex justify-end">
               <Button
                 variant="outline"
                 className="text-primary"
-                onClick={() => setLocation('/finance')}
+                onClick={() => setLocation('/inventory')}
               >
-                Ver historial financiero →
+                Ver inventario →
               </Button>
             </div>
           </CardContent>
         </Card>
-      </div>
+      )}
+      
+      {/* Financial Stats */}
+      {can("finance:read") && (
+        <div className="mb-8">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg font-semibold">Resumen Financiero del Mes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingRevenue ? (
+                <div className="flex flex-col md:flex-row justify-between gap-4">
+                  <Skeleton className="h-24 w-full md:w-1/3" />
+                  <Skeleton className="h-24 w-full md:w-1/3" />
+                  <Skeleton className="h-24 w-full md:w-1/3" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="flex flex-col items-center justify-center p-6 bg-blue-50 rounded-lg border border-blue-100">
+                    <div className="p-3 rounded-full bg-blue-100 mb-3">
+                      <DollarSign className="h-6 w-6 text-primary" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-blue-900">Ingresos Totales</h3>
+                    <p className="text-3xl font-bold text-primary">
+                      ${parseFloat((currentMonthRevenue as any)?.totalAmount || "0").toLocaleString('es-MX', { minimumFractionDigits: 2 })}
+                    </p>
+                    <p className="text-sm text-gray-500">Mes actual</p>
+                  </div>
+                
+                  <div className="flex flex-col items-center justify-center p-6 bg-green-50 rounded-lg border border-green-100">
+                    <div className="p-3 rounded-full bg-green-100 mb-3">
+                      <CheckCircle className="h-6 w-6 text-green-600" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-green-900">Órdenes Completadas</h3>
+                    <p className="text-3xl font-bold text-green-600">
+                      {(currentMonthRevenue as any)?.orderCount || 0}
+                    </p>
+                    <p className="text-sm text-gray-500">Servicios facturados</p>
+                  </div>
+                
+                  <div className="flex flex-col items-center justify-center p-6 bg-amber-50 rounded-lg border border-amber-100">
+                    <div className="p-3 rounded-full bg-amber-100 mb-3">
+                      <BarChart className="h-6 w-6 text-amber-600" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-amber-900">Valor Promedio</h3>
+                    <p className="text-3xl font-bold text-amber-600">
+                      ${parseFloat((currentMonthRevenue as any)?.averageOrderValue || "0").toLocaleString('es-MX', { minimumFractionDigits: 2 })}
+                    </p>
+                    <p className="text-sm text-gray-500">Por orden de servicio</p>
+                  </div>
+                </div>
+              )}
+            
+              <div className="mt-4 flex justify-end">
+                <Button
+                  variant="outline"
+                  className="text-primary"
+                  onClick={() => setLocation('/finance')}
+                >
+                  Ver historial financiero →
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
       
       {/* Recent Orders and Technician Status */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
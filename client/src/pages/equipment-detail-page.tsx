@@ -0,0 +1,253 @@
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { EquipmentHistory, EquipmentOwnershipChangeWithNames, OrderStatus, SERVICE_WARRANTY_DAYS } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WarrantyBadge } from "@/components/ui/warranty-badge";
+import { ArrowLeft, Repeat, ShieldCheck, UserCheck, Wrench } from "lucide-react";
+
+const statusDisplay: Record<OrderStatus, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "bg-yellow-100 text-yellow-800" },
+  waiting_approval: { label: "Esperando Aprobación", className: "bg-orange-100 text-orange-800" },
+  approved: { label: "Aprobado", className: "bg-indigo-100 text-indigo-800" },
+  in_progress: { label: "En Proceso", className: "bg-blue-100 text-blue-800" },
+  completed: { label: "Completado", className: "bg-green-100 text-green-800" },
+  cancelled: { label: "Cancelado", className: "bg-red-100 text-red-800" },
+  warranty: { label: "Garantía", className: "bg-purple-100 text-purple-800" },
+};
+
+const equipmentTypeLabels: Record<string, string> = {
+  desktop: "PC Escritorio",
+  laptop: "Portátil",
+  server: "Servidor",
+  printer: "Impresora",
+  network: "Equipo de Red",
+  other: "Otro",
+};
+
+const formatDate = (value: string | Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy", { locale: es }) : "-";
+
+// Ficha de un equipo con su historial de servicio, gasto acumulado y garantías
+export default function EquipmentDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: history, isLoading, error } = useQuery<EquipmentHistory>({
+    queryKey: [`/api/equipment/${id}/history`],
+    staleTime: 0,
+  });
+  const { data: ownership } = useQuery<EquipmentOwnershipChangeWithNames[]>({
+    queryKey: [`/api/equipment/${id}/ownership`],
+    staleTime: 0,
+  });
+
+  const equipment = history?.equipment;
+  // El nombre del propietario actual sale del último cambio que lo asignó
+  const ownerName = equipment?.clientId != null
+    ? ownership?.filter((change) => change.toClientId === equipment.clientId).pop()?.toClientName ?? null
+    : null;
+  // Las órdenes más recientes primero
+  const orders = history ? [...history.orders].reverse() : [];
+
+  return (
+    <DashboardLayout title="Equipos">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold">
+            {equipment ? `${equipment.brand} ${equipment.model}` : "Historial del Equipo"}
+          </h2>
+          {equipment && (
+            <p className="text-muted-foreground">
+              {equipmentTypeLabels[equipment.type] ?? equipment.type} · Nº de serie {equipment.serialNumber}
+            </p>
+          )}
+        </div>
+        <Link href="/equipment">
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Volver a Equipos
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : error || !history || !equipment ? (
+        <p className="text-muted-foreground">No se encontró el equipo</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Órdenes de servicio</p>
+                <p className="text-2xl font-semibold">{history.orders.length}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Gasto total (órdenes completadas)</p>
+                <p className="text-2xl font-semibold">{formatMoney(history.totalSpent)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Cobertura de garantía</p>
+                <div className="mt-1">
+                  <WarrantyBadge expiresAt={history.warrantyEndsAt} showDate />
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Fallas recurrentes</p>
+                <p className="text-2xl font-semibold">{history.recurringFailures.length}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <Wrench className="mr-2 h-5 w-5" /> Historial de Servicio
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {orders.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">El equipo no tiene órdenes de servicio</p>
+                ) : (
+                  <ol className="relative space-y-4 border-l pl-6">
+                    {orders.map((order) => {
+                      const status = statusDisplay[order.status];
+                      return (
+                        <li key={order.id} className="relative">
+                          <span className="absolute -left-[1.85rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Link href={`/orders?id=${order.id}`} className="font-medium hover:underline">
+                              {order.orderNumber}
+                            </Link>
+                            <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                            <span className="text-sm text-muted-foreground">
+                              {formatDate(order.requestDate)}
+                              {order.completionDate && ` → ${formatDate(order.completionDate)}`}
+                            </span>
+                          </div>
+                          <p className="mt-1 text-sm">{order.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {order.clientName ?? "Cliente desconocido"}
+                            {" · "}
+                            {order.technicianName ?? "Sin técnico"}
+                            {order.total !== null && ` · ${formatMoney(order.total)}`}
+                          </p>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center">
+                    <ShieldCheck className="mr-2 h-5 w-5" /> Garantías
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {history.warrantyPeriods.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Sin garantías registradas</p>
+                  ) : (
+                    history.warrantyPeriods.map((period, index) => (
+                      <div key={index} className="flex items-start justify-between gap-2 text-sm">
+                        <div>
+                          <p className="font-medium">
+                            {period.source === "manufacturer" ? "Fabricante" : `Servicio ${period.orderNumber}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {period.startsAt ? `${formatDate(period.startsAt)} - ` : "Hasta "}
+                            {formatDate(period.endsAt)}
+                          </p>
+                        </div>
+                        <WarrantyBadge expiresAt={period.endsAt} />
+                      </div>
+                    ))
+                  )}
+                  <p className="text-xs text-muted-foreground pt-2">
+                    Cada servicio completado tiene {SERVICE_WARRANTY_DAYS} días de garantía.
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center">
+                    <Repeat className="mr-2 h-5 w-5" /> Fallas Recurrentes
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {history.recurringFailures.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No se detectaron fallas repetidas</p>
+                  ) : (
+                    history.recurringFailures.map((failure) => (
+                      <div key={failure.keyword} className="text-sm">
+                        <p className="font-medium">
+                          "{failure.keyword}" <span className="text-muted-foreground">× {failure.orderNumbers.length}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">{failure.orderNumbers.join(", ")}</p>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center">
+                    <UserCheck className="mr-2 h-5 w-5" /> Propietarios
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {!ownership || ownership.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">El equipo nunca ha tenido un cliente asignado</p>
+                  ) : (
+                    [...ownership].reverse().map((change) => (
+                      <div key={change.id} className="text-sm">
+                        <p className="font-medium">
+                          {change.fromClientName ?? "Sin asignar"} → {change.toClientName ?? "Sin asignar"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDate(change.changedAt)}
+                          {change.changedByName && ` · ${change.changedByName}`}
+                          {change.note && ` · ${change.note}`}
+                        </p>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Datos del Equipo</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  <p><span className="text-muted-foreground">Cliente:</span> {equipment.clientId !== null ? ownerName ?? "-" : "Sin asignar"}</p>
+                  <p><span className="text-muted-foreground">Empresa:</span> {equipment.company || "-"}</p>
+                  <p><span className="text-muted-foreground">Ubicación:</span> {equipment.location || "-"}</p>
+                  <p><span className="text-muted-foreground">Garantía del fabricante:</span> {formatDate(equipment.warrantyExpiresAt)}</p>
+                  <p><span className="text-muted-foreground">Registrado:</span> {formatDate(equipment.createdAt)}</p>
+                  <p className="pt-1">{equipment.description || "Sin descripción"}</p>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
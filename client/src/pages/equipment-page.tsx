@@ -1,12 +1,17 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { DataTable } from "@/components/ui/data-table";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useDetailFromUrl } from "@/hooks/use-detail-from-url";
 import { Equipment, InsertEquipment, insertEquipmentSchema, Client } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, Eye } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Upload, Calendar } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import { ImportWizard } from "@/components/ui/import-wizard";
 import {
   Dialog,
   DialogContent,
@@ -47,13 +52,20 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { WarrantyBadge } from "@/components/ui/warranty-badge";
+import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
 
 export default function EquipmentPage() {
   const { toast } = useToast();
+  const can = usePermissions();
   const [equipmentToEdit, setEquipmentToEdit] = useState<Equipment | null>(null);
   const [equipmentToDelete, setEquipmentToDelete] = useState<Equipment | null>(null);
-  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
-  const [selectedEquipment, setSelectedEquipment] = useState<Equipment | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [, navigate] = useLocation();
   
   // Form for adding/editing equipment
   const form = useForm<z.infer<typeof insertEquipmentSchema>>({
@@ -66,6 +78,8 @@ export default function EquipmentPage() {
       description: "",
       location: "",
       company: "",
+      clientId: null,
+      warrantyExpiresAt: null,
     },
   });
   
@@ -80,6 +94,8 @@ export default function EquipmentPage() {
       description: "",
       location: "",
       company: "",
+      clientId: null,
+      warrantyExpiresAt: null,
     });
   };
   
@@ -94,13 +110,20 @@ export default function EquipmentPage() {
       description: equipment.description || "",
       location: equipment.location || "",
       company: equipment.company || "",
+      clientId: equipment.clientId,
+      warrantyExpiresAt: equipment.warrantyExpiresAt ? new Date(equipment.warrantyExpiresAt) : null,
     });
   };
   
   // Fetch equipment
-  const { data: equipmentList, isLoading } = useQuery<Equipment[]>({
-    queryKey: ["/api/equipment"],
+  const { items: equipmentList, isLoading, serverSide } = usePaginatedQuery<Equipment>("/api/equipment");
+  
+  // Fetch clients to choose and show the owner of each equipment
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
   });
+  const getClientName = (clientId: number | null) =>
+    clientId !== null ? clients?.find((client) => client.id === clientId)?.name ?? "-" : "Sin asignar";
   
   // Create equipment mutation
   const createMutation = useMutation({
@@ -179,12 +202,13 @@ export default function EquipmentPage() {
     }
   };
   
-  // View equipment details
+  // View equipment details and service history
   const handleViewEquipment = (equipment: Equipment) => {
-    setSelectedEquipment(equipment);
-    setIsDetailsOpen(true);
+    navigate(`/equipment/${equipment.id}`);
   };
   
+  useDetailFromUrl<Equipment>("/api/equipment", handleViewEquipment);
+  
 
   
   // Equipment type display
@@ -202,6 +226,11 @@ export default function EquipmentPage() {
   
   // Columns for equipment table
   const columns = [
+    {
+      header: "Cliente",
+      accessorKey: "clientId" as keyof Equipment,
+      cell: (row: Equipment) => getClientName(row.clientId),
+    },
     {
       header: "Empresa",
       accessorKey: "company" as keyof Equipment,
@@ -215,6 +244,7 @@ export default function EquipmentPage() {
     {
       header: "Tipo",
       accessorKey: "type" as keyof Equipment,
+      sortKey: "type",
       cell: (row: Equipment) => (
         <Badge variant="outline" className="bg-blue-50 text-blue-700">
           {getEquipmentTypeLabel(row.type)}
@@ -224,14 +254,23 @@ export default function EquipmentPage() {
     {
       header: "Marca",
       accessorKey: "brand" as keyof Equipment,
+      sortKey: "brand",
     },
     {
       header: "Modelo",
       accessorKey: "model" as keyof Equipment,
+      sortKey: "model",
     },
     {
       header: "Nº de Serie",
       accessorKey: "serialNumber" as keyof Equipment,
+      sortKey: "serialNumber",
+    },
+    {
+      header: "Garantía",
+      accessorKey: "warrantyExpiresAt" as keyof Equipment,
+      sortKey: "warrantyExpiresAt",
+      cell: (row: Equipment) => <WarrantyBadge expiresAt={row.warrantyExpiresAt} showDate />,
     },
     {
       header: "Acciones",
@@ -248,26 +287,30 @@ export default function EquipmentPage() {
           >
             <Eye className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleEditEquipment(row);
-            }}
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              setEquipmentToDelete(row);
-            }}
-          >
-            <Trash2 className="h-4 w-4 text-red-500" />
-          </Button>
+          {can("equipment:write") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleEditEquipment(row);
+              }}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {can("equipment:delete") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                setEquipmentToDelete(row);
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
         </div>
       ),
     },
@@ -283,201 +326,229 @@ export default function EquipmentPage() {
           </p>
         </div>
         
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button onClick={handleAddEquipment}>
-              <Plus className="mr-2 h-4 w-4" /> Agregar Equipo
+        <div className="flex gap-2">
+          {can("equipment:write") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" /> Importar
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-h-screen overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>
-                {equipmentToEdit ? "Editar Equipo" : "Agregar Equipo"}
-              </DialogTitle>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
-                <FormField
-                  control={form.control}
-                  name="company"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Empresa</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="Nombre de la empresa (opcional)" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="location"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Ubicación</FormLabel>
-                      <FormControl>
-                        <Input {...field} placeholder="Ubicación física del equipo (opcional)" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="type"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Tipo de Equipo</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                      >
+          )}
+          <Dialog>
+            {can("equipment:write") && (
+              <DialogTrigger asChild>
+                <Button onClick={handleAddEquipment}>
+                  <Plus className="mr-2 h-4 w-4" /> Agregar Equipo
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-h-screen overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {equipmentToEdit ? "Editar Equipo" : "Agregar Equipo"}
+                </DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+                  <FormField
+                    control={form.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cliente</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                          value={field.value != null ? field.value.toString() : "none"}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none">Sin asignar</SelectItem>
+                            {clients?.map((client) => (
+                              <SelectItem key={client.id} value={client.id.toString()}>
+                                {client.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="company"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Empresa</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Nombre de la empresa (opcional)" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ubicación</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Ubicación física del equipo (opcional)" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tipo de Equipo</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="desktop">PC Escritorio</SelectItem>
+                            <SelectItem value="laptop">Portátil</SelectItem>
+                            <SelectItem value="server">Servidor</SelectItem>
+                            <SelectItem value="printer">Impresora</SelectItem>
+                            <SelectItem value="network">Equipo de Red</SelectItem>
+                            <SelectItem value="other">Otro</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="brand"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Marca</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
+                          <Input {...field} />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="desktop">PC Escritorio</SelectItem>
-                          <SelectItem value="laptop">Portátil</SelectItem>
-                          <SelectItem value="server">Servidor</SelectItem>
-                          <SelectItem value="printer">Impresora</SelectItem>
-                          <SelectItem value="network">Equipo de Red</SelectItem>
-                          <SelectItem value="other">Otro</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="brand"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Marca</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="model"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Modelo</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="serialNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Número de Serie</FormLabel>
-                      <FormControl>
-                        <Input {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Descripción</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          {...field} 
-                          value={field.value || ""}
-                          placeholder="Características adicionales del equipo"
-                          rows={3}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <DialogClose asChild>
-                    <Button variant="outline" type="button">
-                      Cancelar
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="model"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Modelo</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="serialNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número de Serie</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="warrantyExpiresAt"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Vencimiento de Garantía del Fabricante</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant={"outline"}
+                                className={cn(
+                                  "w-full pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? (
+                                  format(field.value, "PPP", { locale: es })
+                                ) : (
+                                  <span>Sin garantía registrada</span>
+                                )}
+                                <Calendar className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <CalendarComponent
+                              mode="single"
+                              selected={field.value || undefined}
+                              onSelect={(date) => field.onChange(date ?? null)}
+                              captionLayout="dropdown-buttons"
+                              fromYear={new Date().getFullYear() - 10}
+                              toYear={new Date().getFullYear() + 10}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Descripción</FormLabel>
+                        <FormControl>
+                          <Textarea 
+                            {...field} 
+                            value={field.value || ""}
+                            placeholder="Características adicionales del equipo"
+                            rows={3}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <DialogClose asChild>
+                      <Button variant="outline" type="button">
+                        Cancelar
+                      </Button>
+                    </DialogClose>
+                    <Button
+                      type="submit"
+                      disabled={createMutation.isPending || updateMutation.isPending}
+                    >
+                      {equipmentToEdit ? "Actualizar" : "Guardar"}
                     </Button>
-                  </DialogClose>
-                  <Button
-                    type="submit"
-                    disabled={createMutation.isPending || updateMutation.isPending}
-                  >
-                    {equipmentToEdit ? "Actualizar" : "Guardar"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
       
-      <DataTable data={equipmentList || []} columns={columns} loading={isLoading} />
-      
-      {/* Equipment Details Dialog */}
-      <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Detalles del Equipo</DialogTitle>
-          </DialogHeader>
-          {selectedEquipment && (
-            <div className="space-y-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Empresa</p>
-                  <p className="text-lg font-semibold">{selectedEquipment.company || "-"}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Ubicación</p>
-                  <p className="text-lg font-semibold">{selectedEquipment.location || "-"}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Tipo</p>
-                  <p className="text-lg font-semibold">{getEquipmentTypeLabel(selectedEquipment.type)}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Marca</p>
-                  <p>{selectedEquipment.brand}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Modelo</p>
-                  <p>{selectedEquipment.model}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Número de Serie</p>
-                  <p>{selectedEquipment.serialNumber}</p>
-                </div>
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Fecha de Registro</p>
-                  <p>{new Date(selectedEquipment.createdAt).toLocaleDateString()}</p>
-                </div>
-                <div className="col-span-2">
-                  <p className="text-sm font-medium text-muted-foreground">Descripción</p>
-                  <p className="mt-1">{selectedEquipment.description || "Sin descripción"}</p>
-                </div>
-              </div>
-            </div>
-          )}
-          <DialogFooter>
-            <Button onClick={() => setIsDetailsOpen(false)}>Cerrar</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <DataTable data={equipmentList} columns={columns} loading={isLoading} serverSide={serverSide} />
       
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!equipmentToDelete} onOpenChange={(open) => !open && setEquipmentToDelete(null)}>
@@ -502,6 +573,8 @@ export default function EquipmentPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImportWizard entity="equipment" open={isImportOpen} onOpenChange={setIsImportOpen} />
     </DashboardLayout>
   );
 }
@@ -1,9 +1,9 @@
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
-import { BarChart, Calendar, DollarSign, TrendingUp } from "lucide-react";
+import { BarChart, Calendar, DollarSign, TrendingUp, Shield } from "lucide-react";
 import {
   ResponsiveContainer,
   BarChart as RechartsBarChart,
@@ -17,6 +17,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { usePermissions } from "@/hooks/use-auth";
 
 interface MonthlyRevenue {
   id: number;
@@ -40,6 +41,7 @@ const getMonthName = (month: number): string => {
 
 export default function FinancePage() {
   const { toast } = useToast();
+  const can = usePermissions();
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
   
   // Obtener los datos de ingresos actuales
@@ -99,6 +101,29 @@ export default function FinancePage() {
     }
   };
   
+  // Reconstruir los ingresos de todos los meses a partir de las órdenes cerradas
+  const rebuildRevenueHistory = async () => {
+    try {
+      const res = await apiRequest("POST", "/api/monthly-revenue/rebuild");
+      const { months } = await res.json();
+      
+      toast({
+        title: "Historial reconstruido",
+        description: `Se recalcularon los ingresos de ${months} meses.`,
+      });
+      
+      await queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/monthly-revenue'),
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "No se pudo reconstruir el historial de ingresos.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   // Preparar datos para la gráfica de barras
   const chartData = yearlyData ? yearlyData.map(item => ({
     month: getMonthName(item.month),
@@ -112,6 +137,20 @@ export default function FinancePage() {
   const currentYear = new Date().getFullYear();
   const availableYears = Array.from({ length: currentYear - 2019 }, (_, i) => currentYear - i);
 
+  if (!can("finance:read")) {
+    return (
+      <DashboardLayout title="Finanzas">
+        <div className="flex items-center justify-center h-96 flex-col space-y-4">
+          <Shield className="h-16 w-16 text-muted-foreground" />
+          <h2 className="text-2xl font-semibold">Acceso Restringido</h2>
+          <p className="text-muted-foreground">
+            No tienes permisos para consultar la información financiera.
+          </p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
   return (
     <DashboardLayout title="Finanzas">
       <div className="space-y-6">
@@ -173,7 +212,12 @@ export default function FinancePage() {
               </div>
             )}
             
-            <div className="mt-6 flex justify-end">
+            <div className="mt-6 flex justify-end gap-2">
+              {can("settings:write") && (
+                <Button variant="outline" onClick={rebuildRevenueHistory}>
+                  Reconstruir historial
+                </Button>
+              )}
               <Button 
                 onClick={calculateCurrentRevenue} 
                 className="bg-primary hover:bg-primary/90"
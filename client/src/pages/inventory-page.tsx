@@ -0,0 +1,606 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { DataTable } from "@/components/ui/data-table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { Part, InsertPart, insertPartSchema, PartStockMovement, StockMovementInput } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2, History, PackagePlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type MovementEntry = PartStockMovement & { createdByName: string | null; orderNumber: string | null };
+
+const movementLabels: Record<string, string> = {
+  purchase: "Compra",
+  consumption: "Consumo en orden",
+  return: "Devolución de orden",
+  adjustment: "Ajuste",
+};
+
+const emptyPart: InsertPart = {
+  sku: "",
+  name: "",
+  description: "",
+  unitCost: "0",
+  salePrice: "0",
+  minStock: 0,
+};
+
+export default function InventoryPage() {
+  const { toast } = useToast();
+  const can = usePermissions();
+  const [partToEdit, setPartToEdit] = useState<Part | null>(null);
+  const [partToDelete, setPartToDelete] = useState<Part | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [movementPart, setMovementPart] = useState<Part | null>(null);
+  const [movementType, setMovementType] = useState<StockMovementInput["type"]>("purchase");
+  const [movementQuantity, setMovementQuantity] = useState("");
+  const [movementNote, setMovementNote] = useState("");
+  const [historyPart, setHistoryPart] = useState<Part | null>(null);
+
+  // Form for adding/editing parts
+  const form = useForm<InsertPart>({
+    resolver: zodResolver(insertPartSchema),
+    defaultValues: emptyPart,
+  });
+
+  const handleAddPart = () => {
+    setPartToEdit(null);
+    form.reset(emptyPart);
+    setIsEditOpen(true);
+  };
+
+  const handleEditPart = (part: Part) => {
+    setPartToEdit(part);
+    form.reset({
+      sku: part.sku,
+      name: part.name,
+      description: part.description || "",
+      unitCost: part.unitCost,
+      salePrice: part.salePrice,
+      minStock: part.minStock,
+    });
+    setIsEditOpen(true);
+  };
+
+  const openMovement = (part: Part) => {
+    setMovementPart(part);
+    setMovementType("purchase");
+    setMovementQuantity("");
+    setMovementNote("");
+  };
+
+  // Fetch parts
+  const { items: parts, isLoading, serverSide } = usePaginatedQuery<Part>("/api/parts");
+
+  // Movimientos de la refacción seleccionada (se recargan en cada apertura)
+  const { data: movements, isLoading: isMovementsLoading } = useQuery<MovementEntry[]>({
+    queryKey: [`/api/parts/${historyPart?.id}/movements`],
+    enabled: !!historyPart,
+    staleTime: 0,
+  });
+
+  const invalidateParts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/parts/low-stock"] });
+  };
+
+  // Create part mutation
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertPart) => {
+      const res = await apiRequest("POST", "/api/parts", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateParts();
+      toast({
+        title: "Refacción creada",
+        description: "La refacción ha sido agregada al inventario",
+      });
+      setIsEditOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo crear la refacción: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Update part mutation
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: InsertPart }) => {
+      const res = await apiRequest("PUT", `/api/parts/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateParts();
+      toast({
+        title: "Refacción actualizada",
+        description: "La refacción ha sido actualizada correctamente",
+      });
+      setPartToEdit(null);
+      setIsEditOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo actualizar la refacción: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete part mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/parts/${id}`);
+    },
+    onSuccess: () => {
+      invalidateParts();
+      toast({
+        title: "Refacción eliminada",
+        description: "La refacción ha sido eliminada del inventario",
+      });
+      setPartToDelete(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo eliminar la refacción: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Stock movement mutation
+  const movementMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: StockMovementInput }) => {
+      const res = await apiRequest("POST", `/api/parts/${id}/movements`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateParts();
+      toast({
+        title: "Movimiento registrado",
+        description: "La existencia ha sido actualizada",
+      });
+      setMovementPart(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo registrar el movimiento: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: InsertPart) => {
+    if (partToEdit) {
+      updateMutation.mutate({ id: partToEdit.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleSaveMovement = () => {
+    if (!movementPart) return;
+    movementMutation.mutate({
+      id: movementPart.id,
+      data: {
+        type: movementType,
+        quantity: parseInt(movementQuantity, 10),
+        note: movementNote || undefined,
+      },
+    });
+  };
+
+  // Columns for parts table
+  const columns = [
+    {
+      header: "SKU",
+      accessorKey: "sku" as keyof Part,
+      sortKey: "sku",
+      cell: (row: Part) => <span className="font-medium">{row.sku}</span>,
+    },
+    {
+      header: "Nombre",
+      accessorKey: "name" as keyof Part,
+      sortKey: "name",
+    },
+    {
+      header: "Costo",
+      accessorKey: "unitCost" as keyof Part,
+      cell: (row: Part) => formatMoney(row.unitCost),
+    },
+    {
+      header: "Precio de Venta",
+      accessorKey: "salePrice" as keyof Part,
+      sortKey: "salePrice",
+      cell: (row: Part) => formatMoney(row.salePrice),
+    },
+    {
+      header: "Existencia",
+      accessorKey: "stockQuantity" as keyof Part,
+      sortKey: "stockQuantity",
+      cell: (row: Part) => (
+        <Badge
+          variant="outline"
+          className={row.stockQuantity <= row.minStock ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}
+        >
+          {row.stockQuantity} (mín. {row.minStock})
+        </Badge>
+      ),
+    },
+    {
+      header: "Acciones",
+      accessorKey: "id" as keyof Part,
+      cell: (row: Part) => (
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Movimientos"
+            onClick={(e) => {
+              e.stopPropagation();
+              setHistoryPart(row);
+            }}
+          >
+            <History className="h-4 w-4" />
+          </Button>
+          {can("inventory:write") && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Registrar movimiento"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openMovement(row);
+                }}
+              >
+                <PackagePlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEditPart(row);
+                }}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setPartToDelete(row);
+                }}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <DashboardLayout title="Inventario">
+      <div className="mb-4 flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">Inventario de Refacciones</h2>
+          <p className="text-muted-foreground">
+            Refacciones y consumibles utilizados en las órdenes de servicio
+          </p>
+        </div>
+
+        <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+          {can("inventory:write") && (
+            <DialogTrigger asChild>
+              <Button onClick={handleAddPart}>
+                <Plus className="mr-2 h-4 w-4" /> Agregar Refacción
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {partToEdit ? "Editar Refacción" : "Agregar Refacción"}
+              </DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="sku"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SKU</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nombre</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Descripción</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="unitCost"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Costo</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="0" step="0.01" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="salePrice"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Precio de Venta</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="0" step="0.01" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="minStock"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Existencia Mínima</FormLabel>
+                        <FormControl>
+                          <Input {...field} type="number" min="0" step="1" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {!partToEdit && (
+                  <FormDescription>
+                    La existencia inicial se registra después como un movimiento de compra.
+                  </FormDescription>
+                )}
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button variant="outline" type="button">
+                      Cancelar
+                    </Button>
+                  </DialogClose>
+                  <Button
+                    type="submit"
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                  >
+                    {partToEdit ? "Actualizar" : "Guardar"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <DataTable data={parts} columns={columns} loading={isLoading} serverSide={serverSide} />
+
+      {/* Stock Movement Dialog */}
+      <Dialog open={!!movementPart} onOpenChange={(open) => !open && setMovementPart(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registrar movimiento · {movementPart?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">
+              Existencia actual: {movementPart?.stockQuantity}
+            </p>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={movementType}
+                onValueChange={(type) => setMovementType(type as StockMovementInput["type"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="purchase">Compra (entrada)</SelectItem>
+                  <SelectItem value="adjustment">Ajuste de inventario</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cantidad</Label>
+              <Input
+                type="number"
+                step="1"
+                value={movementQuantity}
+                onChange={(e) => setMovementQuantity(e.target.value)}
+                placeholder={movementType === "adjustment" ? "Negativa para dar de baja" : "Unidades recibidas"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Nota</Label>
+              <Input
+                value={movementNote}
+                onChange={(e) => setMovementNote(e.target.value)}
+                placeholder="Factura, proveedor o motivo del ajuste"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementPart(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSaveMovement}
+              disabled={!movementQuantity || movementMutation.isPending}
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Movement History Dialog */}
+      <Dialog open={!!historyPart} onOpenChange={(open) => !open && setHistoryPart(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Movimientos · {historyPart?.sku} {historyPart?.name}</DialogTitle>
+          </DialogHeader>
+          {isMovementsLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : !movements || movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">Sin movimientos registrados.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground text-left">
+                  <th className="font-medium py-1">Fecha</th>
+                  <th className="font-medium py-1">Tipo</th>
+                  <th className="font-medium py-1 text-right">Cantidad</th>
+                  <th className="font-medium py-1">Detalle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map((movement) => (
+                  <tr key={movement.id} className="border-t">
+                    <td className="py-1">
+                      {format(new Date(movement.createdAt), "dd/MM/yyyy HH:mm", { locale: es })}
+                    </td>
+                    <td className="py-1">{movementLabels[movement.type] || movement.type}</td>
+                    <td className={`py-1 text-right font-medium ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </td>
+                    <td className="py-1 text-muted-foreground">
+                      {[
+                        movement.orderNumber && `Orden #${movement.orderNumber}`,
+                        movement.note,
+                        movement.createdByName,
+                      ].filter(Boolean).join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setHistoryPart(null)}>Cerrar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!partToDelete} onOpenChange={(open) => !open && setPartToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta acción eliminará la refacción{" "}
+              <span className="font-semibold">{partToDelete?.name}</span> y su historial de movimientos.
+              Las órdenes que la usan conservan sus partidas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => partToDelete && deleteMutation.mutate(partToDelete.id)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ImageUpload } from "@/components/ui/image-upload";
+import { SignaturePad, uploadSignature } from "@/components/ui/signature-pad";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ServiceOrder, Technician, TechnicianOrderUpdate } from "@shared/schema";
+import {
+  Loader2,
+  Play,
+  Pause,
+  CheckCircle,
+  ClipboardEdit,
+  MapPin,
+  Phone,
+  Monitor,
+  Shield,
+} from "lucide-react";
+
+interface MyOrder extends ServiceOrder {
+  clientName: string;
+  clientPhone: string;
+  clientAddress: string;
+  equipmentName: string;
+  equipmentLocation: string | null;
+  isWorking: boolean;
+}
+
+interface MyOrdersResponse {
+  technician: Technician;
+  orders: MyOrder[];
+}
+
+// Estados que el técnico puede ver en su lista de trabajo
+const activeStatuses = ["approved", "in_progress", "warranty"];
+
+const getStatusDisplay = (status: string) => {
+  const statusMap = {
+    pending: { label: "Pendiente", className: "bg-yellow-100 text-yellow-800" },
+    waiting_approval: { label: "Esperando Aprobación", className: "bg-orange-100 text-orange-800" },
+    approved: { label: "Aprobado", className: "bg-indigo-100 text-indigo-800" },
+    in_progress: { label: "En Proceso", className: "bg-blue-100 text-blue-800" },
+    completed: { label: "Completado", className: "bg-green-100 text-green-800" },
+    cancelled: { label: "Cancelado", className: "bg-red-100 text-red-800" },
+    warranty: { label: "Garantía", className: "bg-purple-100 text-purple-800" },
+  };
+
+  return statusMap[status as keyof typeof statusMap] || { label: status, className: "bg-gray-100 text-gray-800" };
+};
+
+export default function MyOrdersPage() {
+  const { toast } = useToast();
+  const [editingOrder, setEditingOrder] = useState<MyOrder | null>(null);
+  const [materialsUsed, setMaterialsUsed] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [clientSignature, setClientSignature] = useState("");
+
+  const { data, isLoading, error } = useQuery<MyOrdersResponse>({
+    queryKey: ["/api/my-orders"],
+    staleTime: 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/my-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/service-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/technicians"] });
+  };
+
+  // Acciones de campo: iniciar/reanudar, pausar y completar
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "start" | "pause" | "complete" }) => {
+      const res = await apiRequest("POST", `/api/my-orders/${id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (_, { action }) => {
+      invalidate();
+      const messages = {
+        start: "Trabajo iniciado",
+        pause: "Trabajo pausado",
+        complete: "Orden completada",
+      };
+      toast({ title: messages[action] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: TechnicianOrderUpdate }) => {
+      const clientSignature = data.clientSignature && await uploadSignature(data.clientSignature);
+      const res = await apiRequest("PUT", `/api/my-orders/${id}`, { ...data, clientSignature });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingOrder(null);
+      toast({ title: "Orden actualizada" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo actualizar la orden: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (order: MyOrder) => {
+    setEditingOrder(order);
+    setMaterialsUsed(order.materialsUsed || "");
+    setNotes(order.notes || "");
+    setPhotos(order.photos || []);
+    setClientSignature(order.clientSignature || "");
+  };
+
+  const handleSave = () => {
+    if (!editingOrder) return;
+    updateMutation.mutate({
+      id: editingOrder.id,
+      data: {
+        materialsUsed: materialsUsed || null,
+        notes: notes || null,
+        photos,
+        clientSignature: clientSignature || undefined,
+      },
+    });
+  };
+
+  if (error) {
+    return (
+      <DashboardLayout title="Mis Órdenes">
+        <div className="flex items-center justify-center h-96 flex-col space-y-4">
+          <Shield className="h-16 w-16 text-muted-foreground" />
+          <h2 className="text-2xl font-semibold">Sin perfil de técnico</h2>
+          <p className="text-muted-foreground text-center">
+            Tu usuario no está asociado a ningún técnico.
+          </p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const orders = (data?.orders || [])
+    .filter((order) => activeStatuses.includes(order.status))
+    .sort((a, b) => Number(b.isWorking) - Number(a.isWorking));
+
+  return (
+    <DashboardLayout title="Mis Órdenes">
+      <div className="space-y-4 max-w-3xl mx-auto">
+        {isLoading ? (
+          Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)
+        ) : orders.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              No tienes órdenes asignadas pendientes.
+            </CardContent>
+          </Card>
+        ) : (
+          orders.map((order) => {
+            const status = getStatusDisplay(order.status);
+            const isPending = actionMutation.isPending && actionMutation.variables?.id === order.id;
+
+            return (
+              <Card key={order.id} className={order.isWorking ? "border-blue-500" : undefined}>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <CardTitle className="text-base">#{order.orderNumber}</CardTitle>
+                    <div className="flex gap-1">
+                      {order.isWorking && (
+                        <Badge className="bg-blue-600 text-white">Trabajando</Badge>
+                      )}
+                      <Badge variant="outline" className={status.className}>
+                        {status.label}
+                      </Badge>
+                    </div>
+                  </div>
+                  <p className="text-sm font-medium">{order.clientName}</p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    <p className="flex items-center gap-2">
+                      <Monitor className="h-4 w-4" />
+                      {order.equipmentName}
+                    </p>
+                    {(order.equipmentLocation || order.clientAddress) && (
+                      <p className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4" />
+                        {order.equipmentLocation || order.clientAddress}
+                      </p>
+                    )}
+                    {order.clientPhone && (
+                      <a href={`tel:${order.clientPhone}`} className="flex items-center gap-2 text-primary">
+                        <Phone className="h-4 w-4" />
+                        {order.clientPhone}
+                      </a>
+                    )}
+                    {order.expectedDeliveryDate && (
+                      <p>
+                        Entrega: {format(new Date(order.expectedDeliveryDate), "PPP", { locale: es })}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-sm">{order.description}</p>
+
+                  <div className="grid grid-cols-2 gap-2 sm:flex sm:justify-end">
+                    {order.status === "approved" && (
+                      <Button
+                        onClick={() => actionMutation.mutate({ id: order.id, action: "start" })}
+                        disabled={isPending}
+                      >
+                        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                        Iniciar
+                      </Button>
+                    )}
+                    {order.status === "in_progress" && !order.isWorking && (
+                      <Button
+                        onClick={() => actionMutation.mutate({ id: order.id, action: "start" })}
+                        disabled={isPending}
+                      >
+                        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                        Reanudar
+                      </Button>
+                    )}
+                    {order.isWorking && (
+                      <Button
+                        variant="outline"
+                        onClick={() => actionMutation.mutate({ id: order.id, action: "pause" })}
+                        disabled={isPending}
+                      >
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pausar
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => openEditor(order)}>
+                      <ClipboardEdit className="mr-2 h-4 w-4" />
+                      Registrar
+                    </Button>
+                    {order.status === "in_progress" && (
+                      <Button
+                        className="bg-green-600 hover:bg-green-700"
+                        onClick={() => actionMutation.mutate({ id: order.id, action: "complete" })}
+                        disabled={isPending}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Completar
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <Dialog open={!!editingOrder} onOpenChange={(open) => !open && setEditingOrder(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Registro de trabajo #{editingOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Materiales utilizados</Label>
+              <Textarea
+                value={materialsUsed}
+                onChange={(e) => setMaterialsUsed(e.target.value)}
+                placeholder="Repuestos y materiales empleados"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Notas</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Observaciones del trabajo realizado"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fotografías</Label>
+              <ImageUpload value={photos} onChange={setPhotos} maxImages={5} capture="environment" />
+            </div>
+            <div className="space-y-2">
+              <Label>Firma del cliente</Label>
+              <SignaturePad value={clientSignature} onChange={setClientSignature} width={300} height={150} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingOrder(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={updateMutation.isPending}>
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -1,8 +1,10 @@
-import React, { useState, useEffect, type ChangeEvent } from "react";
+import React, { useState, useEffect, useRef, type ChangeEvent } from "react";
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { DataTable } from "@/components/ui/data-table";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { useDetailFromUrl } from "@/hooks/use-detail-from-url";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
@@ -23,8 +25,20 @@ import {
   Technician, 
   UpdateServiceOrder, 
   updateServiceOrderSchema,
-  CompanySettings
+  CompanySettings,
+  ServiceOrderStatusHistory,
+  orderStatusEnum,
+  OrderStatus,
+  orderPriorityEnum,
+  canTransitionOrderStatus,
+  LineItemInput,
+  ServiceOrderLineItem,
+  EmailOutboxSummary,
+  EmailStatus,
+  EmailTemplateEvent
 } from "@shared/schema";
+import { calculateTotals, formatMoney, toCents } from "@shared/money";
+import { thumbnailUrl } from "@shared/uploads";
 import { extendedServiceOrderSchema, ExtendedServiceOrder } from "@/schema/service-order";
 import { Button } from "@/components/ui/button";
 import { 
@@ -38,9 +52,13 @@ import {
   Printer,
   Wrench,
   Mail,
-  Download
+  Download,
+  History,
+  Link as LinkIcon,
+  Paperclip
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
 import {
   Dialog,
   DialogContent,
@@ -61,7 +79,11 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { ImageUpload } from "@/components/ui/image-upload";
-import { SignaturePad } from "@/components/ui/signature-pad";
+import { OrderAttachments } from "@/components/ui/order-attachments";
+import { QuickEquipmentDialog } from "@/components/ui/quick-equipment-dialog";
+import { PriorityBadge, SlaBadge, priorityDisplay } from "@/components/ui/sla-badge";
+import { SignaturePad, uploadSignature } from "@/components/ui/signature-pad";
+import { LineItemsEditor, LineItemsSummary, toLineItemInputs } from "@/components/ui/line-items";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -90,8 +112,29 @@ import {
   TabsTrigger 
 } from "@/components/ui/tabs";
 
+type StatusHistoryEntry = ServiceOrderStatusHistory & { changedByName: string | null };
+
+const notificationEventLabels: Record<EmailTemplateEvent, string> = {
+  order_created: "Orden creada",
+  status_changed: "Cambio de estado",
+  waiting_approval: "Solicitud de aprobación",
+  order_completed: "Orden completada",
+  warranty_opened: "Garantía abierta",
+};
+
+const notificationStatusDisplay: Record<EmailStatus, { label: string; className: string }> = {
+  pending: { label: "Pendiente", className: "bg-yellow-100 text-yellow-800" },
+  sending: { label: "Enviando", className: "bg-blue-100 text-blue-800" },
+  sent: { label: "Enviado", className: "bg-green-100 text-green-800" },
+  failed: { label: "Fallido", className: "bg-red-100 text-red-800" },
+};
+// Al crear el servidor solo acepta "pending"; al editar, cualquier transición permitida
+// Sin `lineItems` el servidor conserva las partidas actuales de la orden
+type ServiceOrderPayload = Omit<InsertServiceOrder, "status"> & { status: OrderStatus; lineItems?: LineItemInput[] };
+
 export default function OrdersPage() {
   const { toast } = useToast();
+  const can = usePermissions();
   const [orderToEdit, setOrderToEdit] = useState<ServiceOrder | null>(null);
   const [orderToDelete, setOrderToDelete] = useState<ServiceOrder | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
@@ -101,6 +144,9 @@ export default function OrdersPage() {
   const [sendingEmail, setSendingEmail] = useState(false);
   const [selectedOrderIds, setSelectedOrderIds] = useState<number[]>([]);
   const [descargandoPDF, setDescargandoPDF] = useState(false);
+  // Al editar, las partidas quedan sin definir hasta que llegan las de la orden abierta
+  const [lineItems, setLineItems] = useState<LineItemInput[] | undefined>([]);
+  const editingOrderId = useRef<number | null>(null);
   
   // Form for adding/editing service orders
   const form = useForm<ExtendedServiceOrder>({
@@ -111,6 +157,7 @@ export default function OrdersPage() {
       technicianId: null,
       description: "",
       status: "pending",
+      priority: "normal",
       notes: "",
       materialsUsed: "",
       expectedDeliveryDate: null,
@@ -128,6 +175,8 @@ export default function OrdersPage() {
   const handleAddOrder = () => {
     setOrderToEdit(null);
     setSelectedClientId(null);
+    editingOrderId.current = null;
+    setLineItems([]);
     setIsFormOpen(true);
     form.reset({
       clientId: undefined,
@@ -135,6 +184,7 @@ export default function OrdersPage() {
       technicianId: null,
       description: "",
       status: "pending",
+      priority: "normal",
       notes: "",
       materialsUsed: "",
       expectedDeliveryDate: null,
@@ -151,12 +201,31 @@ export default function OrdersPage() {
     setOrderToEdit(order);
     setIsFormOpen(true);
     setSelectedClientId(order.clientId);
+    editingOrderId.current = order.id;
+    setLineItems(undefined);
+    apiRequest("GET", `/api/service-orders/${order.id}/line-items`)
+      .then((res) => res.json())
+      .then((items: ServiceOrderLineItem[]) => {
+        // Una respuesta lenta no debe llegar a otra orden que se abrió después
+        if (editingOrderId.current === order.id) {
+          setLineItems(toLineItemInputs(items));
+        }
+      })
+      .catch(() => {
+        if (editingOrderId.current !== order.id) return;
+        toast({
+          title: "Error",
+          description: "No se pudieron cargar las partidas de la orden",
+          variant: "destructive",
+        });
+      });
     form.reset({
       clientId: order.clientId,
       equipmentId: order.equipmentId,
       technicianId: order.technicianId,
       description: order.description,
       status: order.status,
+      priority: order.priority,
       notes: order.notes || "",
       materialsUsed: order.materialsUsed || "",
       expectedDeliveryDate: order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate) : null,
@@ -174,29 +243,15 @@ export default function OrdersPage() {
     setIsDetailsOpen(true);
   };
   
-  // Fetch service orders
-  const getOrdersQueryKey = () => {
-    if (selectedStatus === "all") return ["/api/service-orders"];
-    return ["/api/service-orders/status", selectedStatus];
-  };
+  useDetailFromUrl<ServiceOrder>("/api/service-orders", handleViewOrder);
   
-  const { data: orders, isLoading } = useQuery<ServiceOrder[]>({
-    queryKey: getOrdersQueryKey(),
-    queryFn: async ({ queryKey }) => {
-      if (queryKey[1]) {
-        const res = await fetch(`${queryKey[0]}/${queryKey[1]}`, {
-          credentials: "include"
-        });
-        if (!res.ok) throw new Error("Error fetching orders by status");
-        return res.json();
-      } else {
-        const res = await fetch(queryKey[0] as string, {
-          credentials: "include"
-        });
-        if (!res.ok) throw new Error("Error fetching all orders");
-        return res.json();
-      }
-    }
+  // Fetch service orders (paginadas y filtradas en el servidor)
+  const {
+    items: orders,
+    isLoading,
+    serverSide: ordersServerSide,
+  } = usePaginatedQuery<ServiceOrder>("/api/service-orders", {
+    status: selectedStatus === "all" ? undefined : selectedStatus,
   });
   
   // Fetch clients for the dropdown
@@ -219,6 +274,27 @@ export default function OrdersPage() {
     queryKey: ["/api/company-settings"],
   });
   
+  // Historial de estados de la orden seleccionada (se recarga en cada apertura)
+  const { data: statusHistory, isLoading: isHistoryLoading } = useQuery<StatusHistoryEntry[]>({
+    queryKey: [`/api/service-orders/${selectedOrder?.id}/history`],
+    enabled: !!selectedOrder && isDetailsOpen,
+    staleTime: 0,
+  });
+  
+  // Correos enviados al cliente sobre la orden seleccionada
+  const { data: notifications } = useQuery<EmailOutboxSummary[]>({
+    queryKey: [`/api/service-orders/${selectedOrder?.id}/notifications`],
+    enabled: !!selectedOrder && isDetailsOpen,
+    staleTime: 0,
+  });
+  
+  // Partidas de la orden seleccionada para el desglose de costos
+  const { data: selectedLineItems } = useQuery<ServiceOrderLineItem[]>({
+    queryKey: [`/api/service-orders/${selectedOrder?.id}/line-items`],
+    enabled: !!selectedOrder && isDetailsOpen,
+    staleTime: 0,
+  });
+  
   // Get client equipment based on selected client
   const [selectedClientId, setSelectedClientId] = useState<number | null>(null);
   
@@ -227,18 +303,26 @@ export default function OrdersPage() {
     ? clients?.find(client => client.id === selectedClientId) 
     : null;
     
-  // Filtramos los equipos por el nombre de la empresa (si coincide con el nombre del cliente)
-  // o mostramos todos si no hay filtro
-  const filteredEquipment = allEquipment || [];
+  // Con un cliente seleccionado se ofrecen sus equipos y los que aún no tienen propietario;
+  // el equipo ya asignado a la orden se conserva aunque pertenezca a otro cliente
+  const selectedEquipmentId = form.watch("equipmentId");
+  const filteredEquipment = (allEquipment || []).filter(equipment =>
+    !selectedClientId ||
+    equipment.clientId === null ||
+    equipment.clientId === selectedClientId ||
+    equipment.id === selectedEquipmentId
+  );
   
   // Create service order mutation
   const createMutation = useMutation({
-    mutationFn: async (data: InsertServiceOrder) => {
-      const res = await apiRequest("POST", "/api/service-orders", data);
+    mutationFn: async (data: ServiceOrderPayload) => {
+      const clientSignature = data.clientSignature && await uploadSignature(data.clientSignature);
+      const res = await apiRequest("POST", "/api/service-orders", { ...data, clientSignature });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/service-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
       toast({
         title: "Orden creada",
         description: "La orden de servicio ha sido creada correctamente",
@@ -257,12 +341,14 @@ export default function OrdersPage() {
   
   // Update service order mutation
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: InsertServiceOrder }) => {
-      const res = await apiRequest("PUT", `/api/service-orders/${id}`, data);
+    mutationFn: async ({ id, data }: { id: number; data: ServiceOrderPayload }) => {
+      const clientSignature = data.clientSignature && await uploadSignature(data.clientSignature);
+      const res = await apiRequest("PUT", `/api/service-orders/${id}`, { ...data, clientSignature });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/service-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
       toast({
         title: "Orden actualizada",
         description: "La orden de servicio ha sido actualizada correctamente",
@@ -310,6 +396,7 @@ export default function OrdersPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/service-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
       toast({
         title: "Orden eliminada",
         description: "La orden de servicio ha sido eliminada correctamente",
@@ -335,8 +422,8 @@ export default function OrdersPage() {
     onSuccess: (data) => {
       setSendingEmail(false);
       toast({
-        title: "Correo enviado",
-        description: data.message || "Correo enviado correctamente",
+        title: "Correo en cola",
+        description: data.message || "El correo se enviará en unos momentos",
       });
     },
     onError: (error) => {
@@ -349,6 +436,27 @@ export default function OrdersPage() {
     },
   });
   
+  // Send approval link mutation
+  const sendApprovalLinkMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/service-orders/${id}/approval-link`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Enlace enviado",
+        description: data.message || "Enlace de aprobación enviado correctamente",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo enviar el enlace de aprobación: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Handle form submission for creating/updating orders
   const onSubmit = (data: ExtendedServiceOrder) => {
     // Antes de enviar, verificamos que tenemos valores válidos para los campos requeridos
@@ -362,13 +470,16 @@ export default function OrdersPage() {
     }
     
     // Convertimos el ExtendedServiceOrder a InsertServiceOrder para la mutación
-    // Si el estado es "warranty" (garantía), establecemos el costo automáticamente a 0
-    const insertData: InsertServiceOrder = {
+    // Si el estado es "warranty" (garantía), establecemos el costo automáticamente a 0.
+    // Con partidas, el costo es el total calculado (el servidor lo vuelve a calcular).
+    const itemsTotal = lineItems && lineItems.length > 0 ? Math.round(toCents(calculateTotals(lineItems).total) / 100) : null;
+    const insertData: ServiceOrderPayload = {
       clientId: Number(data.clientId),
       equipmentId: Number(data.equipmentId),
       technicianId: data.technicianId ? Number(data.technicianId) : null,
       description: data.description,
       status: data.status,
+      priority: data.priority,
       notes: data.notes,
       materialsUsed: data.materialsUsed,
       expectedDeliveryDate: data.expectedDeliveryDate,
@@ -377,7 +488,8 @@ export default function OrdersPage() {
       clientApproval: data.clientApproval,
       clientApprovalDate: data.clientApprovalDate,
       // En caso de garantía, el costo siempre es 0
-      cost: data.status === 'warranty' ? 0 : data.cost,
+      cost: data.status === 'warranty' ? 0 : itemsTotal ?? data.cost,
+      lineItems,
     };
     
     if (orderToEdit) {
@@ -449,6 +561,7 @@ export default function OrdersPage() {
     {
       header: "Nº de Orden",
       accessorKey: "orderNumber" as keyof ServiceOrder,
+      sortKey: "orderNumber",
       cell: (row: ServiceOrder) => <span className="font-medium">{row.orderNumber}</span>,
     },
     {
@@ -473,6 +586,7 @@ export default function OrdersPage() {
     {
       header: "Estado",
       accessorKey: "status" as keyof ServiceOrder,
+      sortKey: "status",
       cell: (row: ServiceOrder) => {
         const status = getStatusDisplay(row.status);
         return (
@@ -482,6 +596,18 @@ export default function OrdersPage() {
         );
       },
     },
+    {
+      header: "Prioridad",
+      accessorKey: "priority" as keyof ServiceOrder,
+      sortKey: "priority",
+      cell: (row: ServiceOrder) => <PriorityBadge priority={row.priority} />,
+    },
+    {
+      header: "SLA",
+      accessorKey: "resolutionDueAt" as keyof ServiceOrder,
+      sortKey: "resolutionDueAt",
+      cell: (row: ServiceOrder) => <SlaBadge order={row} />,
+    },
     {
       header: "Técnico",
       accessorKey: "technicianId" as keyof ServiceOrder,
@@ -490,7 +616,8 @@ export default function OrdersPage() {
     {
       header: "Costo",
       accessorKey: "cost" as keyof ServiceOrder,
-      cell: (row: ServiceOrder) => row.cost ? `$${row.cost.toLocaleString()}` : "N/A",
+      sortKey: "cost",
+      cell: (row: ServiceOrder) => row.total !== null ? formatMoney(row.total) : "N/A",
     },
     {
       header: "Acciones",
@@ -512,17 +639,19 @@ export default function OrdersPage() {
             >
               <Eye className="h-4 w-4" />
             </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={(e) => {
-                e.stopPropagation();
-                handleEditOrder(row);
-              }}
-            >
-              <Edit className="h-4 w-4" />
-            </Button>
-            {hasEmail && (
+            {can("orders:write") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleEditOrder(row);
+                }}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+            )}
+            {hasEmail && can("orders:write") && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -536,16 +665,32 @@ export default function OrdersPage() {
                 <Mail className={`h-4 w-4 ${sendEmailMutation.isPending ? "animate-pulse" : "text-blue-500"}`} />
               </Button>
             )}
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={(e) => {
-                e.stopPropagation();
-                setOrderToDelete(row);
-              }}
-            >
-              <Trash2 className="h-4 w-4 text-red-500" />
-            </Button>
+            {hasEmail && can("orders:write") && row.status === "waiting_approval" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  sendApprovalLinkMutation.mutate(row.id);
+                }}
+                disabled={sendApprovalLinkMutation.isPending}
+                title="Enviar enlace de aprobación al cliente"
+              >
+                <LinkIcon className={`h-4 w-4 ${sendApprovalLinkMutation.isPending ? "animate-pulse" : "text-orange-500"}`} />
+              </Button>
+            )}
+            {can("orders:delete") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOrderToDelete(row);
+                }}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            )}
           </div>
         );
       },
@@ -563,7 +708,6 @@ export default function OrdersPage() {
 
   // Manejar selección/deselección de todos
   const handleSelectAll = () => {
-    if (!orders) return;
     if (selectedOrderIds.length === orders.length) {
       setSelectedOrderIds([]);
     } else {
@@ -618,7 +762,7 @@ export default function OrdersPage() {
     header: (
       <input
         type="checkbox"
-        checked={orders && selectedOrderIds.length === orders.length && orders.length > 0}
+        checked={selectedOrderIds.length === orders.length && orders.length > 0}
         onChange={handleSelectAll}
         aria-label="Seleccionar todas"
       />
@@ -684,13 +828,15 @@ export default function OrdersPage() {
               `}</style>
             </div>
           )}
-          <Button onClick={handleAddOrder}>
-            <Plus className="mr-2 h-4 w-4" /> Nueva Orden
-          </Button>
+          {can("orders:write") && (
+            <Button onClick={handleAddOrder}>
+              <Plus className="mr-2 h-4 w-4" /> Nueva Orden
+            </Button>
+          )}
         </div>
         
         <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {orderToEdit ? "Editar Orden de Servicio" : "Nueva Orden de Servicio"}
@@ -736,31 +882,41 @@ export default function OrdersPage() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Equipo</FormLabel>
-                        <Select
-                          onValueChange={(value) => field.onChange(parseInt(value))}
-                          defaultValue={field.value ? field.value.toString() : undefined}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Seleccionar equipo" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {filteredEquipment?.length === 0 ? (
-                              <SelectItem value="0" disabled>
-                                No hay equipos disponibles
-                              </SelectItem>
-                            ) : (
-                              filteredEquipment?.map(equipment => (
-                                <SelectItem key={equipment.id} value={equipment.id.toString()}>
-                                  {equipment.brand} {equipment.model} ({getEquipmentTypeLabel(equipment.type)})
-                                  {equipment.company && ` - ${equipment.company}`}
-                                  {equipment.location && ` | ${equipment.location}`}
+                        <div className="flex gap-2">
+                          <Select
+                            onValueChange={(value) => field.onChange(parseInt(value))}
+                            value={field.value ? field.value.toString() : ""}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Seleccionar equipo" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {filteredEquipment?.length === 0 ? (
+                                <SelectItem value="0" disabled>
+                                  No hay equipos disponibles
                                 </SelectItem>
-                              ))
-                            )}
-                          </SelectContent>
-                        </Select>
+                              ) : (
+                                filteredEquipment?.map(equipment => (
+                                  <SelectItem key={equipment.id} value={equipment.id.toString()}>
+                                    {equipment.brand} {equipment.model} ({getEquipmentTypeLabel(equipment.type)})
+                                    {equipment.company && ` - ${equipment.company}`}
+                                    {equipment.location && ` | ${equipment.location}`}
+                                    {equipment.clientId === null && " (sin propietario)"}
+                                  </SelectItem>
+                                ))
+                              )}
+                            </SelectContent>
+                          </Select>
+                          {can("equipment:write") && (
+                            <QuickEquipmentDialog
+                              clientId={selectedClientId}
+                              clientName={selectedClient?.name}
+                              onCreated={(equipment) => field.onChange(equipment.id)}
+                            />
+                          )}
+                        </div>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -831,13 +987,16 @@ export default function OrdersPage() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="pending">Pendiente</SelectItem>
-                            <SelectItem value="waiting_approval">Esperando Aprobación</SelectItem>
-                            <SelectItem value="approved">Aprobado</SelectItem>
-                            <SelectItem value="in_progress">En Proceso</SelectItem>
-                            <SelectItem value="completed">Completado</SelectItem>
-                            <SelectItem value="cancelled">Cancelado</SelectItem>
-                            <SelectItem value="warranty">Garantía</SelectItem>
+                            {orderStatusEnum.enumValues.map(status => (
+                              <SelectItem
+                                key={status}
+                                value={status}
+                                // Las órdenes nuevas empiezan pendientes; al editar solo se ofrecen las transiciones permitidas
+                                disabled={orderToEdit ? !canTransitionOrderStatus(orderToEdit.status, status) : status !== "pending"}
+                              >
+                                {getStatusDisplay(status).label}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -846,6 +1005,34 @@ export default function OrdersPage() {
                   />
                 </div>
                 
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Prioridad</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {orderPriorityEnum.enumValues.map(priority => (
+                            <SelectItem key={priority} value={priority}>
+                              {priorityDisplay[priority].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Junto con el cliente determina la política SLA y los plazos de respuesta y resolución
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="notes"
@@ -908,13 +1095,15 @@ export default function OrdersPage() {
                             placeholder={isWarranty ? "0" : "Monto en pesos"}
                             value={isWarranty ? "0" : field.value || ""}
                             onChange={(e: ChangeEvent<HTMLInputElement>) => field.onChange(e.target.value ? parseInt(e.target.value, 10) : null)}
-                            disabled={isWarranty}
+                            disabled={isWarranty || !!lineItems?.length}
                           />
                         </FormControl>
                         <FormDescription>
                           {isWarranty 
                             ? "Servicios en garantía tienen costo cero automáticamente" 
-                            : "Ingrese el costo total del servicio sin usar puntos ni comas"}
+                            : lineItems?.length
+                              ? "El costo se calcula a partir de las partidas"
+                              : "Ingrese el costo total del servicio sin usar puntos ni comas"}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -922,6 +1111,20 @@ export default function OrdersPage() {
                   }}
                 />
                 
+                <div className="space-y-2">
+                  <FormLabel>Partidas</FormLabel>
+                  {lineItems ? (
+                    <LineItemsEditor value={lineItems} onChange={setLineItems} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Cargando partidas... Si guarda antes de que carguen se conservan las actuales.
+                    </p>
+                  )}
+                  <FormDescription>
+                    Mano de obra y refacciones de la cotización. Si no hay partidas se usa el costo capturado.
+                  </FormDescription>
+                </div>
+                
                 <FormField
                   control={form.control}
                   name="expectedDeliveryDate"
@@ -1041,15 +1244,10 @@ export default function OrdersPage() {
       
       <DataTable 
         columns={columnsWithSelection} 
-        data={(orders || []).slice().sort((a, b) => {
-          // Extraer el número real de la orden (asumiendo formato ORD-YYYY-NNNN)
-          const numA = parseInt((a.orderNumber || '').split('-').pop() || '0', 10);
-          const numB = parseInt((b.orderNumber || '').split('-').pop() || '0', 10);
-          return numA - numB;
-        })} 
+        data={orders} 
         loading={isLoading}
-        searchColumn="orderNumber"
-        searchPlaceholder="Buscar por número de orden..."
+        serverSide={ordersServerSide}
+        searchPlaceholder="Buscar por número, cliente o descripción..."
       />
       
       {/* Order details dialog */}
@@ -1118,6 +1316,21 @@ export default function OrdersPage() {
                   <h3 className="text-xs font-medium text-muted-foreground">Técnico</h3>
                   <p className="text-sm">{getTechnicianName(selectedOrder.technicianId)}</p>
                 </div>
+                <div>
+                  <h3 className="text-xs font-medium text-muted-foreground">Prioridad</h3>
+                  <PriorityBadge priority={selectedOrder.priority} />
+                </div>
+                <div>
+                  <h3 className="text-xs font-medium text-muted-foreground">SLA</h3>
+                  <div className="flex items-center gap-2">
+                    <SlaBadge order={selectedOrder} />
+                    {selectedOrder.resolutionDueAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Resolver antes del {format(new Date(selectedOrder.resolutionDueAt), "dd/MM/yyyy HH:mm", { locale: es })}
+                      </span>
+                    )}
+                  </div>
+                </div>
                 <div>
                   <h3 className="text-xs font-medium text-muted-foreground">Fecha de Solicitud</h3>
                   <p className="text-sm">{format(new Date(selectedOrder.requestDate), "PPP", { locale: es })}</p>
@@ -1145,13 +1358,16 @@ export default function OrdersPage() {
 
                 <div className="col-span-2">
                   <h3 className="text-xs font-medium text-muted-foreground">Costo del Servicio</h3>
-                  <p className="text-sm font-semibold">
-                    {selectedOrder.status === "warranty" 
-                      ? "Garantía (Sin Costo)" 
-                      : selectedOrder.cost 
-                        ? `$${selectedOrder.cost.toLocaleString()}` 
-                        : "No especificado"}
-                  </p>
+                  {selectedOrder.status === "warranty" ? (
+                    <p className="text-sm font-semibold">Garantía (Sin Costo)</p>
+                  ) : (
+                    <LineItemsSummary
+                      items={selectedLineItems || []}
+                      subtotal={selectedOrder.subtotal}
+                      taxAmount={selectedOrder.taxAmount}
+                      total={selectedOrder.total}
+                    />
+                  )}
                 </div>
                 
                 {selectedOrder.photos && selectedOrder.photos.length > 0 && (
@@ -1159,9 +1375,9 @@ export default function OrdersPage() {
                     <h3 className="text-xs font-medium text-muted-foreground mb-2">Fotografías</h3>
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                       {selectedOrder.photos.map((photo, index) => (
-                        <div key={index} className="border rounded-md overflow-hidden">
-                          <img src={photo} alt={`Foto ${index + 1}`} className="w-full h-auto" />
-                        </div>
+                        <a key={index} href={photo} target="_blank" rel="noreferrer" className="border rounded-md overflow-hidden">
+                          <img src={thumbnailUrl(photo)} alt={`Foto ${index + 1}`} className="w-full h-auto" />
+                        </a>
                       ))}
                     </div>
                   </div>
@@ -1189,6 +1405,87 @@ export default function OrdersPage() {
                 </div>
               </div>
               
+              <div className="print:hidden border-t pt-4">
+                <h3 className="text-xs font-medium text-muted-foreground mb-2 flex items-center">
+                  <History className="h-4 w-4 mr-1" /> Historial de Estados
+                </h3>
+                {isHistoryLoading ? (
+                  <p className="text-sm text-muted-foreground">Cargando historial...</p>
+                ) : !statusHistory || statusHistory.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Sin cambios de estado registrados</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2">
+                    {statusHistory.map(entry => {
+                      const toStatus = getStatusDisplay(entry.toStatus);
+                      return (
+                        <li key={entry.id} className="mb-3 ml-4">
+                          <div className="absolute w-2 h-2 bg-blue-900 rounded-full -left-1 mt-1.5" />
+                          <div className="flex items-center gap-2 text-sm">
+                            {entry.fromStatus ? (
+                              <>
+                                <span className="text-muted-foreground">{getStatusDisplay(entry.fromStatus).label}</span>
+                                <span className="text-muted-foreground">→</span>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">Creada como</span>
+                            )}
+                            <Badge variant="outline" className={toStatus.className + " text-xs"}>
+                              {toStatus.label}
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(entry.changedAt), "PPP p", { locale: es })}
+                            {" · "}
+                            {entry.changedByName || "Sistema"}
+                          </p>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+              
+              <div className="print:hidden border-t pt-4">
+                <h3 className="text-xs font-medium text-muted-foreground mb-2 flex items-center">
+                  <Paperclip className="h-4 w-4 mr-1" /> Archivos Adjuntos
+                </h3>
+                <OrderAttachments serviceOrderId={selectedOrder.id} />
+              </div>
+              
+              <div className="print:hidden border-t pt-4">
+                <h3 className="text-xs font-medium text-muted-foreground mb-2 flex items-center">
+                  <Mail className="h-4 w-4 mr-1" /> Avisos al Cliente
+                </h3>
+                {!notifications || notifications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No se han enviado correos sobre esta orden</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {notifications.map(notification => {
+                      const status = notificationStatusDisplay[notification.status];
+                      return (
+                        <li key={notification.id} className="flex items-start justify-between gap-2 text-sm">
+                          <div className="min-w-0">
+                            <p className="truncate">
+                              {notification.event ? notificationEventLabels[notification.event] : "Envío manual"}
+                              <span className="text-muted-foreground"> · {notification.subject}</span>
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(notification.sentAt ?? notification.createdAt), "PPP p", { locale: es })}
+                              {" · "}
+                              {notification.to}
+                              {notification.attachments.length > 0 && ` · ${notification.attachments.join(", ")}`}
+                            </p>
+                          </div>
+                          <Badge variant="outline" className={status.className + " text-xs shrink-0"} title={notification.lastError ?? undefined}>
+                            {status.label}
+                          </Badge>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+              
               <div className="print:hidden border-t pt-4">
                 <div className="flex justify-end space-x-2">
                   <DialogClose asChild>
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CalendarFeedScope, CalendarFeedSummary, Client, Technician } from "@shared/schema";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, Loader2, Trash2 } from "lucide-react";
+
+interface TechnicianWithUser extends Technician {
+  fullName?: string;
+}
+
+interface CreatedFeed {
+  feed: CalendarFeedSummary;
+  url: string;
+}
+
+const roleNames: Record<string, string> = {
+  admin: "Administrador",
+  manager: "Gerente",
+  technician: "Técnico",
+  user: "Usuario",
+};
+
+const scopeLabels: Record<CalendarFeedScope, string> = {
+  technician: "Técnico",
+  client: "Cliente",
+};
+
+const formatDateTime = (value: string | Date | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy HH:mm", { locale: es }) : "Nunca";
+
+// Perfil del usuario con la gestión de sus suscripciones de calendario (iCalendar)
+export default function ProfilePage() {
+  const { user } = useAuth();
+  const can = usePermissions();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<CalendarFeedScope>("technician");
+  const [targetId, setTargetId] = useState<string>("");
+  const [createdFeed, setCreatedFeed] = useState<CreatedFeed | null>(null);
+  const [feedToRevoke, setFeedToRevoke] = useState<CalendarFeedSummary | null>(null);
+
+  const { data: feeds, isLoading } = useQuery<CalendarFeedSummary[]>({
+    queryKey: ["/api/calendar-feeds"],
+    staleTime: 0,
+  });
+  const { data: technicians } = useQuery<TechnicianWithUser[]>({
+    queryKey: ["/api/technicians"],
+    enabled: can("technicians:read"),
+  });
+  const { data: clients } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+    enabled: can("clients:read"),
+  });
+
+  // Sin permiso de gestión de técnicos solo se ofrece la agenda propia
+  const ownTechnician = technicians?.find((technician) => technician.userId === user?.id);
+  const technicianOptions = can("technicians:write")
+    ? technicians ?? []
+    : ownTechnician ? [ownTechnician] : [];
+  const selectedTargetId = targetId || (scope === "technician" && ownTechnician ? String(ownTechnician.id) : "");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const body = scope === "technician"
+        ? { scope, technicianId: Number(selectedTargetId) }
+        : { scope, clientId: Number(selectedTargetId) };
+      const res = await apiRequest("POST", "/api/calendar-feeds", body);
+      return (await res.json()) as CreatedFeed;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      setCreatedFeed(created);
+      setTargetId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo crear la suscripción: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/calendar-feeds/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+      if (createdFeed?.feed.id === id) setCreatedFeed(null);
+      setFeedToRevoke(null);
+      toast({ title: "Suscripción revocada", description: "El enlace dejó de funcionar." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `No se pudo revocar la suscripción: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Enlace copiado" });
+    } catch {
+      toast({ title: "Error", description: "No se pudo copiar el enlace", variant: "destructive" });
+    }
+  };
+
+  return (
+    <DashboardLayout title="Mi Perfil">
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Datos del usuario</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div>
+              <p className="text-gray-500">Nombre</p>
+              <p className="font-medium">{user?.fullName}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Usuario</p>
+              <p className="font-medium">{user?.username}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Correo electrónico</p>
+              <p className="font-medium">{user?.email}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Rol</p>
+              <Badge variant="outline">{user ? roleNames[user.role] ?? user.role : ""}</Badge>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Calendarios</CardTitle>
+            <CardDescription>
+              Suscríbase a la agenda de un técnico o de un cliente desde Google Calendar, Outlook o el
+              calendario del teléfono. Cada enlace es personal y puede revocarse en cualquier momento.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-[160px_1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label>Agenda de</Label>
+                <Select
+                  value={scope}
+                  onValueChange={(value) => {
+                    setScope(value as CalendarFeedScope);
+                    setTargetId("");
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="technician">Técnico</SelectItem>
+                    {can("clients:read") && <SelectItem value="client">Cliente</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{scope === "technician" ? "Técnico" : "Cliente"}</Label>
+                <Select value={selectedTargetId} onValueChange={setTargetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={scope === "technician" ? "Seleccione un técnico" : "Seleccione un cliente"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scope === "technician"
+                      ? technicianOptions.map((technician) => (
+                          <SelectItem key={technician.id} value={String(technician.id)}>
+                            {technician.fullName ?? `Técnico #${technician.id}`}
+                          </SelectItem>
+                        ))
+                      : clients?.map((client) => (
+                          <SelectItem key={client.id} value={String(client.id)}>
+                            {client.name}
+                          </SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!selectedTargetId || createMutation.isPending}
+              >
+                {createMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <CalendarPlus className="mr-2 h-4 w-4" />}
+                Crear enlace
+              </Button>
+            </div>
+
+            {createdFeed && (
+              <div className="rounded-md border border-green-200 bg-green-50 p-4 space-y-2">
+                <p className="text-sm font-medium text-green-900">
+                  Enlace de suscripción para {createdFeed.feed.targetName ?? "la agenda"}
+                </p>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdFeed.url} onFocus={(e) => e.target.select()} className="bg-white" />
+                  <Button variant="outline" size="icon" title="Copiar enlace" onClick={() => copyUrl(createdFeed.url)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-green-800">
+                  Copie el enlace ahora: por seguridad no volverá a mostrarse. En los calendarios que lo
+                  requieran, reemplace <code>https://</code> por <code>webcal://</code>.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-gray-700">Suscripciones activas</h3>
+              {isLoading ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : !feeds || feeds.length === 0 ? (
+                <p className="text-sm text-gray-500">No tiene suscripciones de calendario.</p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {feeds.map((feed) => (
+                    <div key={feed.id} className="flex items-center justify-between gap-4 p-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">{scopeLabels[feed.scope]}</Badge>
+                          <span className="truncate font-medium">{feed.targetName ?? "Sin nombre"}</span>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Creado el {formatDateTime(feed.createdAt)} · Último uso: {formatDateTime(feed.lastUsedAt)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Revocar enlace"
+                        onClick={() => setFeedToRevoke(feed)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!feedToRevoke} onOpenChange={(open) => !open && setFeedToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Revocar la suscripción?</AlertDialogTitle>
+            <AlertDialogDescription>
+              El calendario de {feedToRevoke?.targetName ?? "esta agenda"} dejará de actualizarse en los
+              dispositivos que usen este enlace. Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => feedToRevoke && revokeMutation.mutate(feedToRevoke.id)}
+            >
+              Revocar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, addMinutes, differenceInMinutes, format, isSameDay, startOfDay, startOfWeek } from "date-fns";
+import { es } from "date-fns/locale";
+import { AppointmentWithDetails, Technician, UpdateAppointment } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { AppointmentDialog, AppointmentDraft } from "@/components/ui/appointment-dialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, MapPin, Plus, Store } from "lucide-react";
+
+type TechnicianWithName = Technician & { fullName?: string };
+type CalendarView = "week" | "day";
+
+// Horario visible del calendario, en bloques de media hora
+const START_HOUR = 7;
+const END_HOUR = 21;
+const SLOT_MINUTES = 30;
+const SLOT_HEIGHT = 24;
+const slots = Array.from({ length: ((END_HOUR - START_HOUR) * 60) / SLOT_MINUTES }, (_, index) => index * SLOT_MINUTES);
+
+// Una columna del calendario: un día (vista semanal) o un técnico en el día (vista diaria)
+interface CalendarColumn {
+  key: string;
+  label: string;
+  day: Date;
+  technicianId?: number;
+}
+
+const overlaps = (startsA: Date, endsA: Date, startsB: Date, endsB: Date) => startsA < endsB && endsA > startsB;
+
+// Reparte las citas de una columna en carriles para que las simultáneas no se encimen
+function assignLanes(appointments: AppointmentWithDetails[]) {
+  const lanes: Date[] = [];
+  const laneOf = new Map<number, number>();
+  for (const appointment of appointments) {
+    const startsAt = new Date(appointment.startsAt);
+    let lane = lanes.findIndex((endsAt) => endsAt <= startsAt);
+    if (lane === -1) {
+      lane = lanes.length;
+      lanes.push(new Date(appointment.endsAt));
+    } else {
+      lanes[lane] = new Date(appointment.endsAt);
+    }
+    laneOf.set(appointment.id, lane);
+  }
+  return { laneOf, laneCount: Math.max(lanes.length, 1) };
+}
+
+// Agenda semanal y diaria de los técnicos con reprogramación arrastrando las citas
+export default function SchedulePage() {
+  const { toast } = useToast();
+  const can = usePermissions();
+  const canEdit = can("orders:write");
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [technicianFilter, setTechnicianFilter] = useState("all");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AppointmentWithDetails | null>(null);
+  const [draft, setDraft] = useState<AppointmentDraft | null>(null);
+  const [dragging, setDragging] = useState<AppointmentWithDetails | null>(null);
+  // Celda sobre la que se arrastra una cita ("columna|minuto")
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rangeStart = view === "week" ? startOfWeek(anchor, { weekStartsOn: 1 }) : anchor;
+  const rangeEnd = addDays(rangeStart, view === "week" ? 7 : 1);
+  const selectedTechnicianId = technicianFilter === "all" ? undefined : parseInt(technicianFilter);
+
+  const { data: technicians } = useQuery<TechnicianWithName[]>({
+    queryKey: ["/api/technicians"],
+  });
+
+  const params = {
+    from: rangeStart.toISOString(),
+    to: rangeEnd.toISOString(),
+    ...(selectedTechnicianId ? { technicianId: String(selectedTechnicianId) } : {}),
+  };
+  const { data: appointments, isLoading } = useQuery<AppointmentWithDetails[]>({
+    queryKey: ["/api/appointments", params],
+    queryFn: async () => {
+      const res = await fetch(`/api/appointments?${new URLSearchParams(params).toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    staleTime: 0,
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateAppointment }) => {
+      const res = await apiRequest("PUT", `/api/appointments/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Cita reprogramada", description: "La agenda se actualizó correctamente" });
+    },
+    onError: (error) => {
+      toast({
+        title: "No se pudo reprogramar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/technicians"] });
+    },
+  });
+
+  const visibleTechnicians = (technicians || []).filter(
+    (technician) => !selectedTechnicianId || technician.id === selectedTechnicianId
+  );
+  const columns: CalendarColumn[] = view === "week"
+    ? Array.from({ length: 7 }, (_, index) => {
+        const day = addDays(rangeStart, index);
+        return { key: day.toISOString(), label: format(day, "EEE d", { locale: es }), day };
+      })
+    : visibleTechnicians.map((technician) => ({
+        key: `tech-${technician.id}`,
+        label: technician.fullName ?? `Técnico ${technician.id}`,
+        day: rangeStart,
+        technicianId: technician.id,
+      }));
+
+  const columnAppointments = (column: CalendarColumn) =>
+    (appointments || []).filter((appointment) =>
+      isSameDay(new Date(appointment.startsAt), column.day) &&
+      (column.technicianId === undefined || appointment.technicianId === column.technicianId)
+    );
+
+  const slotStart = (column: CalendarColumn, minute: number) =>
+    addMinutes(column.day, START_HOUR * 60 + minute);
+
+  // Aviso inmediato al arrastrar: ¿la cita chocaría con otra del mismo técnico ya cargada?
+  const wouldConflict = (appointment: AppointmentWithDetails, startsAt: Date, technicianId: number) => {
+    const endsAt = addMinutes(startsAt, differenceInMinutes(new Date(appointment.endsAt), new Date(appointment.startsAt)));
+    return (appointments || []).some((other) =>
+      other.id !== appointment.id &&
+      other.technicianId === technicianId &&
+      overlaps(startsAt, endsAt, new Date(other.startsAt), new Date(other.endsAt))
+    );
+  };
+
+  const handleDrop = (column: CalendarColumn, minute: number) => {
+    const appointment = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!appointment) return;
+
+    const startsAt = slotStart(column, minute);
+    const duration = differenceInMinutes(new Date(appointment.endsAt), new Date(appointment.startsAt));
+    const technicianId = column.technicianId ?? appointment.technicianId;
+    if (startsAt.getTime() === new Date(appointment.startsAt).getTime() && technicianId === appointment.technicianId) return;
+
+    rescheduleMutation.mutate({
+      id: appointment.id,
+      data: { startsAt, endsAt: addMinutes(startsAt, duration), technicianId },
+    });
+  };
+
+  const openNew = (startsAt: Date, technicianId?: number) => {
+    setEditing(null);
+    setDraft({ startsAt, endsAt: addMinutes(startsAt, 60), technicianId: technicianId ?? selectedTechnicianId });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (appointment: AppointmentWithDetails) => {
+    setDraft(null);
+    setEditing(appointment);
+    setDialogOpen(true);
+  };
+
+  const step = view === "week" ? 7 : 1;
+  const title = view === "week"
+    ? `${format(rangeStart, "d MMM", { locale: es })} - ${format(addDays(rangeEnd, -1), "d MMM yyyy", { locale: es })}`
+    : format(rangeStart, "EEEE d 'de' MMMM yyyy", { locale: es });
+
+  return (
+    <DashboardLayout title="Agenda">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-xl font-semibold">Agenda de Técnicos</h2>
+          <p className="text-muted-foreground capitalize">{title}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="week">Semana</TabsTrigger>
+              <TabsTrigger value="day">Día</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Select value={technicianFilter} onValueChange={setTechnicianFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos los técnicos</SelectItem>
+              {technicians?.map((technician) => (
+                <SelectItem key={technician.id} value={technician.id.toString()}>
+                  {technician.fullName ?? `Técnico ${technician.id}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => setAnchor(addDays(anchor, -step))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(startOfDay(new Date()))}>
+            Hoy
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setAnchor(addDays(anchor, step))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {canEdit && (
+            <Button onClick={() => openNew(addMinutes(rangeStart, 9 * 60))}>
+              <Plus className="mr-2 h-4 w-4" /> Nueva Cita
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {view === "day" && columns.length === 0 ? (
+        <p className="text-muted-foreground">No hay técnicos registrados</p>
+      ) : (
+        <div className={cn("overflow-x-auto rounded-md border bg-white", isLoading && "opacity-60")}>
+          <div className="flex min-w-[720px]">
+            <div className="w-14 shrink-0 border-r">
+              <div className="h-10 border-b" />
+              {slots.map((minute) => (
+                <div key={minute} className="pr-1 text-right text-xs text-muted-foreground" style={{ height: SLOT_HEIGHT }}>
+                  {minute % 60 === 0 && `${String(START_HOUR + minute / 60).padStart(2, "0")}:00`}
+                </div>
+              ))}
+            </div>
+
+            {columns.map((column) => {
+              const items = columnAppointments(column);
+              const { laneOf, laneCount } = assignLanes(items);
+              const isToday = isSameDay(column.day, new Date());
+              return (
+                <div key={column.key} className="min-w-[96px] flex-1 border-r last:border-r-0">
+                  <div className={cn(
+                    "flex h-10 items-center justify-center border-b text-sm font-medium capitalize",
+                    view === "week" && isToday && "bg-blue-50 text-blue-700"
+                  )}>
+                    {column.label}
+                  </div>
+                  <div className="relative">
+                    {slots.map((minute) => {
+                      const cellKey = `${column.key}|${minute}`;
+                      const startsAt = slotStart(column, minute);
+                      const conflict = dragging && dropTarget === cellKey &&
+                        wouldConflict(dragging, startsAt, column.technicianId ?? dragging.technicianId);
+                      return (
+                        <div
+                          key={minute}
+                          className={cn(
+                            "border-b border-dashed border-gray-100",
+                            minute % 60 === 0 && "border-solid border-gray-200",
+                            dropTarget === cellKey && (conflict ? "bg-red-100" : "bg-blue-100"),
+                            canEdit && "cursor-pointer hover:bg-gray-50"
+                          )}
+                          style={{ height: SLOT_HEIGHT }}
+                          onClick={() => canEdit && openNew(startsAt, column.technicianId)}
+                          onDragOver={(e) => {
+                            if (!dragging) return;
+                            e.preventDefault();
+                            setDropTarget(cellKey);
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            handleDrop(column, minute);
+                          }}
+                        />
+                      );
+                    })}
+
+                    {items.map((appointment) => {
+                      const startsAt = new Date(appointment.startsAt);
+                      const endsAt = new Date(appointment.endsAt);
+                      const dayStart = addMinutes(column.day, START_HOUR * 60);
+                      const top = Math.max(differenceInMinutes(startsAt, dayStart), 0);
+                      const bottom = Math.min(differenceInMinutes(endsAt, dayStart), (END_HOUR - START_HOUR) * 60);
+                      if (bottom <= 0 || top >= (END_HOUR - START_HOUR) * 60) return null;
+                      const lane = laneOf.get(appointment.id) ?? 0;
+                      return (
+                        <div
+                          key={appointment.id}
+                          draggable={canEdit}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = "move";
+                            e.dataTransfer.setData("text/plain", String(appointment.id));
+                            setDragging(appointment);
+                          }}
+                          onDragEnd={() => {
+                            setDragging(null);
+                            setDropTarget(null);
+                          }}
+                          onClick={() => canEdit && openEdit(appointment)}
+                          className={cn(
+                            "absolute overflow-hidden rounded border px-1 py-0.5 text-xs shadow-sm",
+                            appointment.location === "on_site"
+                              ? "border-orange-300 bg-orange-100 text-orange-900"
+                              : "border-blue-300 bg-blue-100 text-blue-900",
+                            canEdit ? "cursor-move" : "cursor-pointer",
+                            dragging?.id === appointment.id && "opacity-50"
+                          )}
+                          style={{
+                            top: (top / SLOT_MINUTES) * SLOT_HEIGHT,
+                            height: Math.max(((bottom - top) / SLOT_MINUTES) * SLOT_HEIGHT - 2, 16),
+                            left: `${(lane / laneCount) * 100}%`,
+                            width: `${100 / laneCount}%`,
+                          }}
+                          title={appointment.orderDescription ?? undefined}
+                        >
+                          <p className="flex items-center font-medium">
+                            {appointment.location === "on_site"
+                              ? <MapPin className="mr-1 h-3 w-3 shrink-0" />
+                              : <Store className="mr-1 h-3 w-3 shrink-0" />}
+                            {format(startsAt, "HH:mm")} {appointment.orderNumber}
+                          </p>
+                          <p className="truncate">{appointment.clientName}</p>
+                          {view === "week" && <p className="truncate opacity-75">{appointment.technicianName}</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2 flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center"><Store className="mr-1 h-3 w-3" /> En taller</span>
+        <span className="flex items-center"><MapPin className="mr-1 h-3 w-3" /> En sitio del cliente</span>
+        {canEdit && <span>Arrastre una cita para reprogramarla; en la vista diaria también puede cambiarla de técnico.</span>}
+      </div>
+
+      <AppointmentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        appointment={editing}
+        draft={draft}
+        technicians={technicians || []}
+      />
+    </DashboardLayout>
+  );
+}
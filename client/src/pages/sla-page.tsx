@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, format, startOfDay, startOfMonth } from "date-fns";
+import { SlaComplianceReport, SlaComplianceRow } from "@shared/schema";
+import { DashboardLayout } from "@/components/ui/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { CheckCircle, Timer, XCircle } from "lucide-react";
+
+const toInputDate = (date: Date) => format(date, "yyyy-MM-dd");
+const fromInputDate = (value: string) => new Date(`${value}T00:00:00`);
+
+// Porcentaje de compromisos cumplidos entre los ya resueltos o vencidos
+function compliance(met: number, breached: number): number | null {
+  return met + breached > 0 ? Math.round((met / (met + breached)) * 100) : null;
+}
+
+function ComplianceValue({ met, breached }: { met: number; breached: number }) {
+  const value = compliance(met, breached);
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className={cn("font-medium", value >= 90 ? "text-green-700" : value >= 75 ? "text-amber-700" : "text-red-700")}>
+      {value}%
+    </span>
+  );
+}
+
+function ComplianceTable({ title, rows }: { title: string; rows: SlaComplianceRow[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin órdenes con SLA en el periodo.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead className="text-right">Órdenes</TableHead>
+                <TableHead className="text-right">Respuesta</TableHead>
+                <TableHead className="text-right">Incumplidas</TableHead>
+                <TableHead className="text-right">Resolución</TableHead>
+                <TableHead className="text-right">Incumplidas</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.orders}</TableCell>
+                  <TableCell className="text-right">
+                    <ComplianceValue met={row.responseMet} breached={row.responseBreached} />
+                  </TableCell>
+                  <TableCell className="text-right">{row.responseBreached}</TableCell>
+                  <TableCell className="text-right">
+                    <ComplianceValue met={row.resolutionMet} breached={row.resolutionBreached} />
+                  </TableCell>
+                  <TableCell className="text-right">{row.resolutionBreached}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Reporte de cumplimiento de los compromisos de respuesta y resolución
+export default function SlaPage() {
+  const [from, setFrom] = useState(() => toInputDate(startOfMonth(new Date())));
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+
+  const params = {
+    from: startOfDay(fromInputDate(from)).toISOString(),
+    to: endOfDay(fromInputDate(to)).toISOString(),
+  };
+  const { data: report, isLoading } = useQuery<SlaComplianceReport>({
+    queryKey: ["/api/reports/sla", params],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/sla?${new URLSearchParams(params).toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!from && !!to,
+    staleTime: 0,
+  });
+
+  return (
+    <DashboardLayout title="Cumplimiento de SLA">
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Periodo</CardTitle>
+          <CardDescription>
+            Órdenes con política SLA solicitadas en el periodo. Los compromisos aún en curso no se
+            cuentan hasta que se cumplen o vencen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sla-from">Desde</Label>
+            <Input id="sla-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-to">Hasta</Label>
+            <Input id="sla-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading || !report ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-28 w-full" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            <Card>
+              <CardContent className="p-6 flex items-center gap-4">
+                <div className="p-3 rounded-full bg-blue-100">
+                  <Timer className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Órdenes con SLA</p>
+                  <p className="text-2xl font-bold">{report.totals.orders}</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6 flex items-center gap-4">
+                <div className="p-3 rounded-full bg-green-100">
+                  <CheckCircle className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Respuesta a tiempo</p>
+                  <p className="text-2xl font-bold">
+                    <ComplianceValue met={report.totals.responseMet} breached={report.totals.responseBreached} />
+                  </p>
+                  <p className="text-xs text-gray-500">{report.totals.responseBreached} incumplidas</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6 flex items-center gap-4">
+                <div className="p-3 rounded-full bg-red-100">
+                  <XCircle className="h-6 w-6 text-red-600" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Resolución a tiempo</p>
+                  <p className="text-2xl font-bold">
+                    <ComplianceValue met={report.totals.resolutionMet} breached={report.totals.resolutionBreached} />
+                  </p>
+                  <p className="text-xs text-gray-500">{report.totals.resolutionBreached} incumplidas</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <ComplianceTable title="Por política" rows={report.byPolicy} />
+            <ComplianceTable title="Por prioridad" rows={report.byPriority} />
+          </div>
+        </>
+      )}
+    </DashboardLayout>
+  );
+}
@@ -7,6 +7,7 @@ import { Technician, InsertTechnician, insertTechnicianSchema, User } from "@sha
 import { Button } from "@/components/ui/button";
 import { Plus, Edit, Trash2, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
 import {
   Dialog,
   DialogContent,
@@ -55,6 +56,7 @@ interface TechnicianWithUser extends Technician {
 
 export default function TechniciansPage() {
   const { toast } = useToast();
+  const can = usePermissions();
   const [technicianToEdit, setTechnicianToEdit] = useState<TechnicianWithUser | null>(null);
   const [technicianToDelete, setTechnicianToDelete] = useState<TechnicianWithUser | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
@@ -88,7 +90,7 @@ export default function TechniciansPage() {
     form.reset({
       userId: technician.userId,
       specialization: technician.specialization,
-      status: technician.status,
+      status: technician.status === "unavailable" ? "unavailable" : "available",
     });
     setIsEditOpen(true);
   };
@@ -101,6 +103,7 @@ export default function TechniciansPage() {
   // Fetch users for the dropdown
   const { data: users } = useQuery<User[]>({
     queryKey: ["/api/users"],
+    enabled: can("users:read"),
   });
   
   // Create technician mutation
@@ -243,26 +246,30 @@ export default function TechniciansPage() {
           >
             <Eye className="h-4 w-4" />
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleEditTechnician(row);
-            }}
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              setTechnicianToDelete(row);
-            }}
-          >
-            <Trash2 className="h-4 w-4 text-red-500" />
-          </Button>
+          {can("technicians:write") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleEditTechnician(row);
+              }}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {can("technicians:delete") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                setTechnicianToDelete(row);
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
         </div>
       ),
     },
@@ -279,11 +286,13 @@ export default function TechniciansPage() {
         </div>
         
         <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleAddTechnician}>
-              <Plus className="mr-2 h-4 w-4" /> Agregar Técnico
-            </Button>
-          </DialogTrigger>
+          {can("technicians:write") && (
+            <DialogTrigger asChild>
+              <Button onClick={handleAddTechnician}>
+                <Plus className="mr-2 h-4 w-4" /> Agregar Técnico
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>
@@ -337,10 +346,10 @@ export default function TechniciansPage() {
                   name="status"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Estado</FormLabel>
+                      <FormLabel>Disponibilidad</FormLabel>
                       <Select
                         onValueChange={field.onChange}
-                        defaultValue={field.value}
+                        value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -349,10 +358,12 @@ export default function TechniciansPage() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="available">Disponible</SelectItem>
-                          <SelectItem value="in_service">En Servicio</SelectItem>
                           <SelectItem value="unavailable">No Disponible</SelectItem>
                         </SelectContent>
                       </Select>
+                      <p className="text-sm text-muted-foreground">
+                        Mientras esté disponible, pasa a "En Servicio" automáticamente durante sus citas y trabajos en curso.
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { DashboardLayout } from "@/components/ui/dashboard-layout";
 import { DataTable } from "@/components/ui/data-table";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
 import { User, insertUserSchema } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Plus, Edit, Trash2, Shield } from "lucide-react";
@@ -46,11 +47,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
 
 export default function UsersPage() {
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
+  const can = usePermissions();
   const [userToEdit, setUserToEdit] = useState<User | null>(null);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   
@@ -107,9 +109,7 @@ export default function UsersPage() {
   };
   
   // Fetch users
-  const { data: users, isLoading } = useQuery<User[]>({
-    queryKey: ["/api/users"],
-  });
+  const { items: users, isLoading, serverSide } = usePaginatedQuery<User>("/api/users");
   
   // Create user mutation
   const createMutation = useMutation({
@@ -226,18 +226,22 @@ export default function UsersPage() {
     {
       header: "Nombre",
       accessorKey: "fullName" as keyof User,
+      sortKey: "fullName",
     },
     {
       header: "Usuario",
       accessorKey: "username" as keyof User,
+      sortKey: "username",
     },
     {
       header: "Email",
       accessorKey: "email" as keyof User,
+      sortKey: "email",
     },
     {
       header: "Rol",
       accessorKey: "role" as keyof User,
+      sortKey: "role",
       cell: (row: User) => (
         <Badge variant="outline" className={getRoleColor(row.role)}>
           {getRoleName(row.role)}
@@ -284,8 +288,8 @@ export default function UsersPage() {
     },
   ];
 
-  // Check if user is admin, redirect otherwise
-  if (currentUser?.role !== "admin") {
+  // Check if user has permission, show restricted view otherwise
+  if (!can("users:manage")) {
     return (
       <DashboardLayout title="Usuarios">
         <div className="flex items-center justify-center h-96 flex-col space-y-4">
@@ -433,7 +437,7 @@ export default function UsersPage() {
         </Dialog>
       </div>
       
-      <DataTable data={users || []} columns={columns} loading={isLoading} />
+      <DataTable data={users} columns={columns} loading={isLoading} serverSide={serverSide} />
       
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!userToDelete} onOpenChange={(open) => !open && setUserToDelete(null)}>
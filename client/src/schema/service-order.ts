@@ -1,9 +1,11 @@
 import { z } from "zod";
-import { insertServiceOrderSchema } from "@shared/schema";
+import { insertServiceOrderSchema, orderStatusEnum } from "@shared/schema";
 
 // Extendemos el esquema para incluir los campos que están omitidos en el esquema original
 export const extendedServiceOrderSchema = insertServiceOrderSchema.extend({
   // Agregamos los campos omitidos con sus tipos correspondientes
+  // El mismo formulario edita órdenes en cualquier estado
+  status: z.enum(orderStatusEnum.enumValues),
   clientSignature: z.string().optional(),
   photos: z.array(z.string()).optional(),
   clientApproval: z.boolean().optional(),
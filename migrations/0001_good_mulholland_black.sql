@@ -0,0 +1,11 @@
+CREATE TABLE "service_order_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_order_id" integer NOT NULL,
+	"from_status" "order_status",
+	"to_status" "order_status" NOT NULL,
+	"changed_by" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_order_status_history" ADD CONSTRAINT "service_order_status_history_service_order_id_service_orders_id_fk" FOREIGN KEY ("service_order_id") REFERENCES "public"."service_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "service_order_status_history" ADD CONSTRAINT "service_order_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "service_order_work_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_order_id" integer NOT NULL,
+	"technician_id" integer NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "service_order_work_sessions" ADD CONSTRAINT "service_order_work_sessions_service_order_id_service_orders_id_fk" FOREIGN KEY ("service_order_id") REFERENCES "public"."service_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "service_order_work_sessions" ADD CONSTRAINT "service_order_work_sessions_technician_id_technicians_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."technicians"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
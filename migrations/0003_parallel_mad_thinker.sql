@@ -0,0 +1,3 @@
+CREATE INDEX "clients_search_idx" ON "clients" USING gin (to_tsvector('spanish', coalesce("name", '') || ' ' || coalesce("contact_name", '') || ' ' || coalesce("email", '')));--> statement-breakpoint
+CREATE INDEX "equipment_search_idx" ON "equipment" USING gin (to_tsvector('spanish', coalesce("brand", '') || ' ' || coalesce("model", '') || ' ' || coalesce("serial_number", '')));--> statement-breakpoint
+CREATE INDEX "service_orders_search_idx" ON "service_orders" USING gin (to_tsvector('spanish', coalesce("order_number", '') || ' ' || coalesce("description", '') || ' ' || coalesce("notes", '') || ' ' || coalesce("materials_used", '')));
\ No newline at end of file
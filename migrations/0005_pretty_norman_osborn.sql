@@ -0,0 +1,17 @@
+CREATE TYPE "public"."line_item_type" AS ENUM('labor', 'part');--> statement-breakpoint
+CREATE TABLE "service_order_line_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_order_id" integer NOT NULL,
+	"type" "line_item_type" DEFAULT 'labor' NOT NULL,
+	"description" text NOT NULL,
+	"quantity" numeric(10, 2) DEFAULT '1' NOT NULL,
+	"unit_price" numeric(12, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "subtotal" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "tax_amount" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "total" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "service_order_line_items" ADD CONSTRAINT "service_order_line_items_service_order_id_service_orders_id_fk" FOREIGN KEY ("service_order_id") REFERENCES "public"."service_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+UPDATE "service_orders" SET "subtotal" = "cost", "tax_amount" = 0, "total" = "cost" WHERE "cost" IS NOT NULL;
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."stock_movement_type" AS ENUM('purchase', 'consumption', 'return', 'adjustment');--> statement-breakpoint
+CREATE TABLE "part_stock_movements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"part_id" integer NOT NULL,
+	"type" "stock_movement_type" NOT NULL,
+	"quantity" integer NOT NULL,
+	"service_order_id" integer,
+	"note" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "parts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sku" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"unit_cost" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"sale_price" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"stock_quantity" integer DEFAULT 0 NOT NULL,
+	"min_stock" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "parts_sku_unique" UNIQUE("sku")
+);
+--> statement-breakpoint
+ALTER TABLE "service_order_line_items" ADD COLUMN "part_id" integer;--> statement-breakpoint
+ALTER TABLE "part_stock_movements" ADD CONSTRAINT "part_stock_movements_part_id_parts_id_fk" FOREIGN KEY ("part_id") REFERENCES "public"."parts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "part_stock_movements" ADD CONSTRAINT "part_stock_movements_service_order_id_service_orders_id_fk" FOREIGN KEY ("service_order_id") REFERENCES "public"."service_orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "part_stock_movements" ADD CONSTRAINT "part_stock_movements_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "part_stock_movements_part_idx" ON "part_stock_movements" USING btree ("part_id");--> statement-breakpoint
+ALTER TABLE "service_order_line_items" ADD CONSTRAINT "service_order_line_items_part_id_parts_id_fk" FOREIGN KEY ("part_id") REFERENCES "public"."parts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
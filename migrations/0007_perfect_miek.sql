@@ -0,0 +1,3 @@
+-- Los ingresos se guardaban con consultar-e-insertar; se eliminan posibles meses duplicados antes del índice único
+DELETE FROM "monthly_revenue" a USING "monthly_revenue" b WHERE a."year" = b."year" AND a."month" = b."month" AND a."id" < b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "monthly_revenue_year_month_idx" ON "monthly_revenue" USING btree ("year","month");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TYPE "public"."backup_frequency" AS ENUM('daily', 'weekly', 'monthly');--> statement-breakpoint
+CREATE TABLE "backup_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"frequency" "backup_frequency" DEFAULT 'daily' NOT NULL,
+	"time" text DEFAULT '02:00' NOT NULL,
+	"retention_days" integer DEFAULT 30 NOT NULL,
+	"last_run_at" timestamp,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
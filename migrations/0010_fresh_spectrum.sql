@@ -0,0 +1,9 @@
+CREATE TYPE "public"."email_template_event" AS ENUM('order_created', 'status_changed', 'waiting_approval', 'order_completed', 'warranty_opened');--> statement-breakpoint
+CREATE TABLE "email_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event" "email_template_event" NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_templates_event_unique" UNIQUE("event")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "notification_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"notify_statuses" "order_status"[] DEFAULT '{"approved","in_progress","completed","cancelled","warranty"}' NOT NULL,
+	"attach_pdf_on_completion" boolean DEFAULT true NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "email_notifications" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_outbox" ADD COLUMN "event" "email_template_event";--> statement-breakpoint
+CREATE INDEX "email_outbox_service_order_idx" ON "email_outbox" USING btree ("service_order_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "equipment" ADD COLUMN "warranty_expires_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE "equipment_ownership_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"equipment_id" integer NOT NULL,
+	"from_client_id" integer,
+	"to_client_id" integer,
+	"note" text,
+	"changed_by" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "equipment" ADD COLUMN "client_id" integer;--> statement-breakpoint
+ALTER TABLE "equipment_ownership_history" ADD CONSTRAINT "equipment_ownership_history_equipment_id_equipment_id_fk" FOREIGN KEY ("equipment_id") REFERENCES "public"."equipment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment_ownership_history" ADD CONSTRAINT "equipment_ownership_history_from_client_id_clients_id_fk" FOREIGN KEY ("from_client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment_ownership_history" ADD CONSTRAINT "equipment_ownership_history_to_client_id_clients_id_fk" FOREIGN KEY ("to_client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "equipment_ownership_history" ADD CONSTRAINT "equipment_ownership_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "equipment_ownership_history_equipment_idx" ON "equipment_ownership_history" USING btree ("equipment_id");--> statement-breakpoint
+ALTER TABLE "equipment" ADD CONSTRAINT "equipment_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "equipment_client_idx" ON "equipment" USING btree ("client_id");--> statement-breakpoint
+-- El propietario de los equipos existentes se infiere del cliente de su orden más reciente
+UPDATE "equipment" e SET "client_id" = latest."client_id" FROM (
+	SELECT DISTINCT ON ("equipment_id") "equipment_id", "client_id"
+	FROM "service_orders"
+	ORDER BY "equipment_id", "request_date" DESC, "id" DESC
+) latest WHERE latest."equipment_id" = e."id";--> statement-breakpoint
+-- Equipos sin órdenes: se usa la empresa cuando coincide con el nombre de un único cliente
+UPDATE "equipment" e SET "client_id" = c."id" FROM "clients" c
+WHERE e."client_id" IS NULL AND e."company" = c."name"
+	AND (SELECT count(*) FROM "clients" c2 WHERE c2."name" = c."name") = 1;--> statement-breakpoint
+INSERT INTO "equipment_ownership_history" ("equipment_id", "from_client_id", "to_client_id", "note")
+SELECT "id", NULL, "client_id", 'Inferido de las órdenes de servicio o de la empresa' FROM "equipment" WHERE "client_id" IS NOT NULL;
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."appointment_location" AS ENUM('on_site', 'in_shop');--> statement-breakpoint
+CREATE TABLE "appointments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_order_id" integer NOT NULL,
+	"technician_id" integer NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"location" "appointment_location" DEFAULT 'in_shop' NOT NULL,
+	"notes" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_service_order_id_service_orders_id_fk" FOREIGN KEY ("service_order_id") REFERENCES "public"."service_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_technician_id_technicians_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."technicians"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointments_technician_starts_idx" ON "appointments" USING btree ("technician_id","starts_at");--> statement-breakpoint
+CREATE INDEX "appointments_service_order_idx" ON "appointments" USING btree ("service_order_id");
\ No newline at end of file
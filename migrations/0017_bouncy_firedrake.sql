@@ -0,0 +1,36 @@
+CREATE TYPE "public"."order_priority" AS ENUM('low', 'normal', 'high', 'urgent');--> statement-breakpoint
+CREATE TABLE "business_calendars" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"hours" jsonb NOT NULL,
+	"holidays" text[] DEFAULT '{}' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "business_calendars_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "sla_policies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"client_id" integer,
+	"priority" "order_priority",
+	"response_hours" integer NOT NULL,
+	"resolution_hours" integer NOT NULL,
+	"business_calendar_id" integer,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "priority" "order_priority" DEFAULT 'normal' NOT NULL;--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "sla_policy_id" integer;--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "response_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "resolution_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "responded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_business_calendar_id_business_calendars_id_fk" FOREIGN KEY ("business_calendar_id") REFERENCES "public"."business_calendars"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "service_orders" ADD CONSTRAINT "service_orders_sla_policy_id_sla_policies_id_fk" FOREIGN KEY ("sla_policy_id") REFERENCES "public"."sla_policies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Las órdenes ya atendidas toman como primera respuesta su salida del estado pendiente o, si no consta, la fecha de solicitud
+UPDATE "service_orders" so SET "responded_at" = coalesce(
+	(SELECT min(h."changed_at") FROM "service_order_status_history" h WHERE h."service_order_id" = so."id" AND h."from_status" = 'pending'),
+	so."request_date"
+)
+WHERE so."status" <> 'pending' OR so."technician_id" IS NOT NULL;
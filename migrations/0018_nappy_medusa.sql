@@ -0,0 +1,24 @@
+CREATE TYPE "public"."contract_frequency" AS ENUM('weekly', 'monthly', 'yearly');--> statement-breakpoint
+CREATE TABLE "maintenance_contracts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"client_id" integer NOT NULL,
+	"equipment_ids" integer[] NOT NULL,
+	"frequency" "contract_frequency" NOT NULL,
+	"recurrence_interval" integer DEFAULT 1 NOT NULL,
+	"description" text NOT NULL,
+	"technician_id" integer,
+	"value" numeric(12, 2),
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"active" boolean DEFAULT true NOT NULL,
+	"next_visit_at" timestamp,
+	"last_visit_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_orders" ADD COLUMN "maintenance_contract_id" integer;--> statement-breakpoint
+ALTER TABLE "maintenance_contracts" ADD CONSTRAINT "maintenance_contracts_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "maintenance_contracts" ADD CONSTRAINT "maintenance_contracts_technician_id_technicians_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."technicians"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "maintenance_contracts_next_visit_idx" ON "maintenance_contracts" USING btree ("next_visit_at");--> statement-breakpoint
+ALTER TABLE "service_orders" ADD CONSTRAINT "service_orders_maintenance_contract_id_maintenance_contracts_id_fk" FOREIGN KEY ("maintenance_contract_id") REFERENCES "public"."maintenance_contracts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import crypto from "crypto";
+
+// Vigencia por defecto de los enlaces de aprobación (igual que la vigencia de la cotización)
+export const APPROVAL_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Sin un secreto configurado cualquiera podría firmar enlaces, así que no se usa ninguno por defecto
+function getSigningSecret(): string | null {
+  return process.env.APPROVAL_LINK_SECRET || process.env.SESSION_SECRET || null;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// Al arrancar: en producción el servidor no inicia sin secreto; en desarrollo solo se avisa
+// y los enlaces de aprobación quedan deshabilitados
+export function checkApprovalSecret() {
+  if (getSigningSecret()) return;
+
+  const message = 'Falta APPROVAL_LINK_SECRET (o SESSION_SECRET) para firmar los enlaces de aprobación';
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(message);
+  }
+  console.warn(`${message}; los enlaces de aprobación están deshabilitados`);
+}
+
+// Genera un token firmado con el id de la orden y su fecha de expiración
+export function createApprovalToken(serviceOrderId: number, ttlMs: number = APPROVAL_LINK_TTL_MS) {
+  const secret = getSigningSecret();
+  if (!secret) {
+    throw new Error("Los enlaces de aprobación no están disponibles: falta configurar APPROVAL_LINK_SECRET");
+  }
+
+  const expiresAt = new Date(Date.now() + ttlMs);
+  const payload = Buffer.from(`${serviceOrderId}.${expiresAt.getTime()}`).toString("base64url");
+  return {
+    token: `${payload}.${sign(payload, secret)}`,
+    expiresAt
+  };
+}
+
+// Valida la firma y la expiración del token. Devuelve null si no es válido o no hay secreto.
+export function verifyApprovalToken(token: string): { serviceOrderId: number; expiresAt: Date } | null {
+  const secret = getSigningSecret();
+  if (!secret) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  const [orderIdPart, expiresPart] = Buffer.from(payload, "base64url").toString().split(".");
+  const serviceOrderId = parseInt(orderIdPart, 10);
+  const expiresAt = new Date(parseInt(expiresPart, 10));
+  if (isNaN(serviceOrderId) || isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) {
+    return null;
+  }
+
+  return { serviceOrderId, expiresAt };
+}
@@ -0,0 +1,137 @@
+import multer from 'multer';
+import type { RequestHandler } from 'express';
+import {
+  ATTACHMENT_MIME_TYPES, MAX_FILES_PER_UPLOAD, MAX_UPLOAD_SIZE_BYTES, UPLOADS_URL_PREFIX,
+  isImageMimeType, thumbnailUrl
+} from '@shared/uploads';
+import type { Attachment, AttachmentWithUploader } from '@shared/schema';
+import { storage } from './storage';
+import { fileStorage, newFileKey } from './file-storage';
+import { saveImage, urlToFileKey } from './images';
+
+// Error de validación de la subida; la ruta lo devuelve como 400
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Los archivos se reciben en memoria: el tamaño está limitado y las imágenes
+// se procesan con sharp antes de guardarse
+const upload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: 'utf8',
+  limits: { fileSize: MAX_UPLOAD_SIZE_BYTES, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (req, file, callback) => {
+    if ((ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new UploadError(`Tipo de archivo no permitido: ${file.originalname}`));
+    }
+  },
+});
+
+function uploadErrorMessage(error: unknown): string {
+  if (error instanceof multer.MulterError) {
+    switch (error.code) {
+      case 'LIMIT_FILE_SIZE':
+        return `El archivo supera el máximo de ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)} MB`;
+      case 'LIMIT_FILE_COUNT':
+        return `Solo se pueden subir ${MAX_FILES_PER_UPLOAD} archivos a la vez`;
+      default:
+        return `Subida inválida: ${error.message}`;
+    }
+  }
+  return error instanceof Error ? error.message : 'Error al recibir los archivos';
+}
+
+// Recibe los archivos multipart del campo indicado. Los errores de tamaño, cantidad o
+// tipo se responden con 400 antes de llegar a la ruta.
+export function receiveFiles(field: string): RequestHandler {
+  const middleware = upload.array(field, MAX_FILES_PER_UPLOAD);
+  return (req, res, next) => {
+    middleware(req, res, (error?: unknown) => {
+      if (error) {
+        return res.status(400).json({ message: uploadErrorMessage(error) });
+      }
+      next();
+    });
+  };
+}
+
+// Guarda una foto suelta (sin orden todavía) y devuelve su URL
+export async function saveUploadedImage(file: Express.Multer.File): Promise<string> {
+  if (!isImageMimeType(file.mimetype)) {
+    throw new UploadError(`"${file.originalname}" no es una imagen`);
+  }
+  try {
+    const { url } = await saveImage(file.buffer);
+    return url;
+  } catch (error) {
+    throw new UploadError(`No se pudo procesar la imagen "${file.originalname}"`);
+  }
+}
+
+// Guarda el archivo en el almacenamiento y registra el adjunto de la orden. Las imágenes
+// se reducen y se guardan en JPEG; los PDF se guardan sin cambios.
+export async function saveAttachment(
+  serviceOrderId: number,
+  file: Express.Multer.File,
+  caption: string | undefined,
+  uploadedBy: number
+): Promise<Attachment> {
+  let stored: { url: string; size: number; mimeType: string };
+  if (isImageMimeType(file.mimetype)) {
+    try {
+      stored = { ...await saveImage(file.buffer, 'adjuntos'), mimeType: 'image/jpeg' };
+    } catch (error) {
+      throw new UploadError(`No se pudo procesar la imagen "${file.originalname}"`);
+    }
+  } else {
+    const key = newFileKey('adjuntos', 'pdf');
+    await fileStorage.save(key, file.buffer, file.mimetype);
+    stored = { url: `${UPLOADS_URL_PREFIX}${key}`, size: file.size, mimeType: file.mimetype };
+  }
+
+  return storage.createAttachment({
+    serviceOrderId,
+    url: stored.url,
+    filename: file.originalname,
+    mimeType: stored.mimeType,
+    size: stored.size,
+    caption: caption || null,
+    uploadedBy,
+  }, uploadedBy);
+}
+
+// Elimina el registro del adjunto y sus archivos (incluida la miniatura de las imágenes)
+export async function removeAttachment(attachment: Attachment, changedBy: number) {
+  await storage.deleteAttachment(attachment.id, changedBy);
+
+  const keys = [urlToFileKey(attachment.url)];
+  if (isImageMimeType(attachment.mimeType)) {
+    keys.push(urlToFileKey(thumbnailUrl(attachment.url)));
+  }
+  for (const key of keys) {
+    try {
+      await fileStorage.delete(key);
+    } catch (error) {
+      console.error(`Error al eliminar el archivo ${key}:`, error);
+    }
+  }
+}
+
+// Agrega a cada adjunto el nombre de quien lo subió
+export async function withUploaderNames(list: Attachment[]): Promise<AttachmentWithUploader[]> {
+  const names = new Map<number, string>();
+  for (const userId of Array.from(new Set(list.map(attachment => attachment.uploadedBy)))) {
+    if (userId === null) continue;
+    const user = await storage.getUser(userId);
+    if (user) names.set(userId, user.fullName);
+  }
+  return list.map(attachment => ({
+    ...attachment,
+    uploaderName: attachment.uploadedBy !== null ? names.get(attachment.uploadedBy) ?? null : null,
+  }));
+}
@@ -68,8 +68,11 @@ export function setupAuth(app: Express, storage: IStorage) {
         return res.status(400).send("El correo electrónico ya está registrado");
       }
 
+      // El registro público siempre crea usuarios con el rol de menor privilegio;
+      // los roles se asignan desde la gestión de usuarios
       const user = await storage.createUser({
         ...req.body,
+        role: "user",
         password: await hashPassword(req.body.password),
       });
 
@@ -0,0 +1,322 @@
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { z } from 'zod';
+import type { RequestHandler } from 'express';
+import { count, getTableName, sql } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { createSchemaFactory } from 'drizzle-zod';
+import {
+  users, clients, technicians, equipment, equipmentOwnershipHistory, businessCalendars, slaPolicies, maintenanceContracts, serviceOrders, parts, partStockMovements,
+  serviceOrderLineItems, serviceOrderStatusHistory, serviceOrderWorkSessions, appointments, calendarFeeds, attachments, auditLog,
+  emailOutbox, emailTemplates, notificationSettings, companySettings, backupSettings, monthlyRevenue,
+  type BackupSettings, type BackupFileInfo, type RestorePreview
+} from '@shared/schema';
+import { db } from './db';
+import { storage } from './storage';
+
+// Tablas incluidas en el respaldo, en orden de dependencias (las referenciadas primero)
+const backupTables: PgTable[] = [
+  users,
+  clients,
+  technicians,
+  equipment,
+  equipmentOwnershipHistory,
+  businessCalendars,
+  slaPolicies,
+  maintenanceContracts,
+  serviceOrders,
+  parts,
+  partStockMovements,
+  serviceOrderLineItems,
+  serviceOrderStatusHistory,
+  serviceOrderWorkSessions,
+  appointments,
+  calendarFeeds,
+  attachments,
+  emailOutbox,
+  auditLog,
+  companySettings,
+  emailTemplates,
+  notificationSettings,
+  backupSettings,
+  monthlyRevenue,
+];
+
+export const BACKUP_DIR = path.join(process.cwd(), 'backups');
+const BACKUP_FORMAT = 'sistemasrst-backup';
+const BACKUP_VERSION = 1;
+const backupFilenamePattern = /^sistemasrst-\d{8}-\d{6}\.json$/;
+// Máximo de errores de validación que se reportan al previsualizar una restauración
+const MAX_RESTORE_ERRORS = 20;
+// Los respaldos incluyen los PDF de la bandeja de correo, por eso se suben como archivo y no en el cuerpo JSON
+const MAX_RESTORE_FILE_BYTES = 500 * 1024 * 1024;
+const INSERT_CHUNK_SIZE = 500;
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.string(),
+  tables: z.record(z.array(z.record(z.unknown()))),
+});
+
+type BackupFile = z.infer<typeof backupFileSchema>;
+
+// En el archivo las fechas vienen como texto ISO; el esquema las convierte a Date
+const { createInsertSchema } = createSchemaFactory({ coerce: { date: true } });
+const rowSchemas = new Map(backupTables.map(table => [getTableName(table), createInsertSchema(table)]));
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+function backupFilename(date: Date) {
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `sistemasrst-${day}-${time}.json`;
+}
+
+// Exporta todas las tablas a un archivo JSON dentro de BACKUP_DIR.
+// La lectura se hace en una sola transacción para obtener una copia consistente.
+export async function createBackup(): Promise<BackupFileInfo> {
+  const tables = await db.transaction(async (tx) => {
+    const data: BackupFile['tables'] = {};
+    for (const table of backupTables) {
+      data[getTableName(table)] = await tx.select().from(table);
+    }
+    return data;
+  }, { isolationLevel: 'repeatable read', accessMode: 'read only' });
+
+  const createdAt = new Date();
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: createdAt.toISOString(),
+    tables,
+  };
+
+  await fs.promises.mkdir(BACKUP_DIR, { recursive: true });
+  const filename = backupFilename(createdAt);
+  const content = JSON.stringify(backup);
+  await fs.promises.writeFile(path.join(BACKUP_DIR, filename), content);
+
+  return { filename, size: Buffer.byteLength(content), createdAt: createdAt.toISOString() };
+}
+
+// Respaldos guardados en el servidor, del más reciente al más antiguo
+export async function listBackups(): Promise<BackupFileInfo[]> {
+  let filenames: string[];
+  try {
+    filenames = await fs.promises.readdir(BACKUP_DIR);
+  } catch (error) {
+    return [];
+  }
+
+  const backups = await Promise.all(
+    filenames
+      .filter(filename => backupFilenamePattern.test(filename))
+      .map(async (filename) => {
+        const stats = await fs.promises.stat(path.join(BACKUP_DIR, filename));
+        return { filename, size: stats.size, createdAt: stats.mtime.toISOString() };
+      })
+  );
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Ruta de un respaldo guardado; null si el nombre no corresponde a un respaldo
+export function getBackupPath(filename: string): string | null {
+  if (!backupFilenamePattern.test(filename)) return null;
+  const filePath = path.join(BACKUP_DIR, filename);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+// Elimina los respaldos más antiguos que el periodo de retención. Devuelve cuántos se borraron.
+export async function pruneBackups(retentionDays: number): Promise<number> {
+  const limit = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await listBackups()).filter(backup => new Date(backup.createdAt).getTime() < limit);
+  for (const backup of expired) {
+    await fs.promises.unlink(path.join(BACKUP_DIR, backup.filename));
+  }
+  return expired.length;
+}
+
+// Valida el contenido de un respaldo fila por fila con los esquemas de cada tabla
+function validateBackup(input: unknown) {
+  const errors: string[] = [];
+  const rows = new Map<string, Record<string, unknown>[]>();
+
+  const parsed = backupFileSchema.safeParse(input);
+  if (!parsed.success) {
+    return { errors: ['El archivo no es un respaldo válido del sistema'], rows, createdAt: null };
+  }
+
+  Object.keys(parsed.data.tables)
+    .filter(name => !rowSchemas.has(name))
+    .forEach(name => errors.push(`Tabla desconocida: ${name}`));
+
+  backupTables.forEach(table => {
+    const name = getTableName(table);
+    const schema = rowSchemas.get(name)!;
+    const tableRows: Record<string, unknown>[] = [];
+
+    (parsed.data.tables[name] ?? []).forEach((row, index) => {
+      const result = schema.safeParse(row);
+      if (result.success) {
+        tableRows.push(result.data as Record<string, unknown>);
+      } else if (errors.length < MAX_RESTORE_ERRORS) {
+        const issue = result.error.issues[0];
+        errors.push(`${name}, fila ${index + 1}: ${issue.path.join('.')} ${issue.message}`);
+      }
+    });
+    rows.set(name, tableRows);
+  });
+
+  return { errors, rows, createdAt: parsed.data.createdAt };
+}
+
+async function countRows(): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  for (const table of backupTables) {
+    const [{ total }] = await db.select({ total: count() }).from(table);
+    counts.set(getTableName(table), total);
+  }
+  return counts;
+}
+
+async function buildPreview({ errors, rows, createdAt }: ReturnType<typeof validateBackup>): Promise<RestorePreview> {
+  const current = await countRows();
+  return {
+    valid: errors.length === 0,
+    createdAt,
+    errors,
+    tables: backupTables.map(table => {
+      const name = getTableName(table);
+      return { table: name, current: current.get(name) ?? 0, incoming: rows.get(name)?.length ?? 0 };
+    }),
+  };
+}
+
+// El respaldo a restaurar llega en el campo "files" y se guarda en un archivo temporal
+const restoreUpload = multer({
+  storage: multer.diskStorage({}),
+  limits: { fileSize: MAX_RESTORE_FILE_BYTES, files: 1 },
+});
+
+export const receiveBackupFile: RequestHandler = (req, res, next) => {
+  restoreUpload.single('files')(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: `El respaldo supera el máximo de ${MAX_RESTORE_FILE_BYTES / (1024 * 1024)} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ message: 'No se pudo recibir el respaldo' });
+    }
+    next();
+  });
+};
+
+// Contenido del respaldo subido (null si no es JSON); el archivo temporal se borra siempre
+export async function readUploadedBackup(file: Express.Multer.File): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.promises.readFile(file.path, 'utf8'));
+  } catch (error) {
+    return null;
+  } finally {
+    await fs.promises.unlink(file.path).catch(() => undefined);
+  }
+}
+
+// Simulación de la restauración: valida el archivo y compara los registros
+// actuales con los del respaldo sin modificar la base de datos
+export async function previewRestore(input: unknown): Promise<RestorePreview> {
+  return buildPreview(validateBackup(input));
+}
+
+// Sustituye el contenido de todas las tablas por el del respaldo en una sola
+// transacción. Si el archivo no es válido no se modifica nada.
+export async function restoreBackup(input: unknown): Promise<RestorePreview> {
+  const validation = validateBackup(input);
+  const preview = await buildPreview(validation);
+  if (!preview.valid) return preview;
+
+  const { rows } = validation;
+  const tableList = sql.join(backupTables.map(table => sql.identifier(getTableName(table))), sql`, `);
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`TRUNCATE TABLE ${tableList} RESTART IDENTITY CASCADE`);
+
+    for (const table of backupTables) {
+      const name = getTableName(table);
+      const tableRows = rows.get(name) ?? [];
+      for (let start = 0; start < tableRows.length; start += INSERT_CHUNK_SIZE) {
+        await tx.insert(table).values(tableRows.slice(start, start + INSERT_CHUNK_SIZE));
+      }
+
+      // Los ids se restauran tal cual; la secuencia continúa después del mayor
+      await tx.execute(sql`
+        SELECT setval(
+          pg_get_serial_sequence(${name}, 'id'),
+          coalesce((SELECT max(id) FROM ${sql.identifier(name)}), 0) + 1,
+          false
+        )
+      `);
+    }
+  });
+
+  return {
+    ...preview,
+    tables: preview.tables.map(entry => ({ ...entry, current: entry.incoming })),
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Próxima ejecución del respaldo automático: un periodo después de la última
+// ejecución, o la primera hora programada tras activar la programación
+export function nextBackupRun(settings: BackupSettings): Date {
+  const [hours, minutes] = settings.time.split(':').map(Number);
+  const reference = new Date(settings.lastRunAt ?? settings.updatedAt);
+  const next = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate(), hours, minutes);
+
+  if (!settings.lastRunAt) {
+    return next > reference ? next : new Date(next.getTime() + DAY_MS);
+  }
+
+  switch (settings.frequency) {
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+    default:
+      next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let scheduledBackupRunning = false;
+
+async function runScheduledBackup() {
+  if (scheduledBackupRunning) return;
+  scheduledBackupRunning = true;
+
+  try {
+    const settings = await storage.getBackupSettings();
+    const now = new Date();
+    if (!settings.enabled || nextBackupRun(settings) > now) return;
+
+    const backup = await createBackup();
+    await storage.recordBackupRun(now);
+    const removed = await pruneBackups(settings.retentionDays);
+    console.log(`Respaldo automático generado: ${backup.filename} (${removed} respaldos antiguos eliminados)`);
+  } catch (error) {
+    console.error('Error al generar el respaldo automático:', error);
+  } finally {
+    scheduledBackupRunning = false;
+  }
+}
+
+// Revisa cada minuto si corresponde generar el respaldo programado
+export function startBackupScheduler() {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(runScheduledBackup, 60 * 1000);
+}
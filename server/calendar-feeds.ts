@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import type { CalendarFeed, CalendarFeedInput, CalendarFeedSummary, ServiceOrder, User } from '@shared/schema';
+import { hasPermission } from '@shared/permissions';
+import { storage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Ventana de citas incluidas en la suscripción
+const FEED_PAST_DAYS = 60;
+const FEED_FUTURE_DAYS = 365;
+const PRODUCT_ID = '-//Sistemas RST//Agenda de Servicio//ES';
+const UID_DOMAIN = 'sistemasrst';
+
+// Error de validación al crear una suscripción; el mensaje se muestra al usuario
+export class CalendarFeedError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CalendarFeedError';
+  }
+}
+
+export function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Un usuario puede suscribirse a su propia agenda de técnico o, con permiso de
+// gestión de técnicos, a la de cualquier técnico; la de un cliente requiere poder consultar clientes
+async function canSubscribe(user: User, input: CalendarFeedInput): Promise<string | null> {
+  if (input.scope === 'technician') {
+    const technician = await storage.getTechnician(input.technicianId);
+    if (!technician) throw new CalendarFeedError('Técnico no encontrado', 404);
+    if (technician.userId !== user.id && !hasPermission(user.role, 'technicians:write')) {
+      throw new CalendarFeedError('Solo puede suscribirse a su propia agenda', 403);
+    }
+    return (await storage.getUser(technician.userId))?.fullName ?? null;
+  }
+
+  if (!hasPermission(user.role, 'clients:read')) {
+    throw new CalendarFeedError('No autorizado', 403);
+  }
+  const client = await storage.getClient(input.clientId);
+  if (!client) throw new CalendarFeedError('Cliente no encontrado', 404);
+  return client.name;
+}
+
+function feedInput(feed: CalendarFeed): CalendarFeedInput | null {
+  if (feed.scope === 'technician' && feed.technicianId !== null) {
+    return { scope: 'technician', technicianId: feed.technicianId };
+  }
+  if (feed.scope === 'client' && feed.clientId !== null) {
+    return { scope: 'client', clientId: feed.clientId };
+  }
+  return null;
+}
+
+// Crea la suscripción y devuelve el token; solo se guarda su hash
+export async function createCalendarFeed(user: User, input: CalendarFeedInput) {
+  const targetName = await canSubscribe(user, input);
+  const token = crypto.randomBytes(32).toString('base64url');
+  const feed = await storage.createCalendarFeed({
+    userId: user.id,
+    scope: input.scope,
+    technicianId: input.scope === 'technician' ? input.technicianId : null,
+    clientId: input.scope === 'client' ? input.clientId : null,
+    tokenHash: hashFeedToken(token),
+  });
+  return { feed: toSummary(feed, targetName), token };
+}
+
+function toSummary(feed: CalendarFeed, targetName: string | null): CalendarFeedSummary {
+  const { tokenHash, ...summary } = feed;
+  return { ...summary, targetName };
+}
+
+// Suscripciones activas del usuario con el nombre del técnico o cliente
+export async function listCalendarFeeds(userId: number): Promise<CalendarFeedSummary[]> {
+  const feeds = await storage.listCalendarFeedsByUser(userId);
+  return Promise.all(feeds.map(async feed => {
+    let targetName: string | null = null;
+    if (feed.technicianId !== null) {
+      const technician = await storage.getTechnician(feed.technicianId);
+      targetName = technician ? (await storage.getUser(technician.userId))?.fullName ?? null : null;
+    } else if (feed.clientId !== null) {
+      targetName = (await storage.getClient(feed.clientId))?.name ?? null;
+    }
+    return toSummary(feed, targetName);
+  }));
+}
+
+// Texto de una propiedad iCalendar (RFC 5545 §3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Las líneas de más de 75 octetos se parten y continúan con un espacio (RFC 5545 §3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const bytes = Buffer.byteLength(char);
+    if (currentBytes + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+interface FeedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  // Evento con hora (citas) o de día completo (entregas)
+  startsAt: Date;
+  endsAt?: Date;
+  allDay?: boolean;
+  cancelled?: boolean;
+}
+
+function buildCalendar(name: string, events: FeedEvent[], now: Date): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      ...(event.allDay
+        ? [
+            `DTSTART;VALUE=DATE:${formatDate(event.startsAt)}`,
+            `DTEND;VALUE=DATE:${formatDate(new Date(event.startsAt.getTime() + DAY_MS))}`,
+          ]
+        : [`DTSTART:${formatDateTime(event.startsAt)}`, `DTEND:${formatDateTime(event.endsAt ?? event.startsAt)}`]),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Entregas estimadas de las órdenes abiertas como eventos de día completo
+function deliveryEvents(orders: ServiceOrder[], summary: (order: ServiceOrder) => string): FeedEvent[] {
+  return orders
+    .filter(order => order.expectedDeliveryDate && order.status !== 'completed' && order.status !== 'cancelled')
+    .map(order => ({
+      uid: `delivery-${order.id}`,
+      summary: summary(order),
+      description: order.description,
+      startsAt: new Date(order.expectedDeliveryDate!),
+      allDay: true,
+    }));
+}
+
+// Genera el calendario de una suscripción vigente. Devuelve null si el dueño ya no
+// tiene acceso a la agenda suscrita (por ejemplo, si cambió su rol).
+export async function renderCalendarFeed(feed: CalendarFeed, now: Date = new Date()): Promise<string | null> {
+  const owner = await storage.getUser(feed.userId);
+  const input = feedInput(feed);
+  if (!owner || !input) return null;
+
+  let targetName: string | null;
+  try {
+    targetName = await canSubscribe(owner, input);
+  } catch (error) {
+    if (error instanceof CalendarFeedError) return null;
+    throw error;
+  }
+
+  const range = {
+    from: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+    to: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS),
+  };
+  const [orders, clients, companySettings] = await Promise.all([
+    input.scope === 'technician'
+      ? storage.listServiceOrdersByTechnician(input.technicianId)
+      : storage.listServiceOrdersByClient(input.clientId),
+    storage.listClients(),
+    storage.getCompanySettings(),
+  ]);
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  const clientName = (order: ServiceOrder) => clients.find(client => client.id === order.clientId)?.name ?? 'Cliente';
+  const clientAddress = (order: ServiceOrder) => clients.find(client => client.id === order.clientId)?.address ?? null;
+
+  // En la agenda del técnico entran todas sus citas; en la del cliente, las de sus órdenes
+  const appointments = input.scope === 'technician'
+    ? await storage.listAppointments({ ...range, technicianId: input.technicianId })
+    : (await storage.listAppointments(range)).filter(appointment => ordersById.has(appointment.serviceOrderId));
+
+  const events: FeedEvent[] = [];
+  for (const appointment of appointments) {
+    const order = ordersById.get(appointment.serviceOrderId) ?? await storage.getServiceOrder(appointment.serviceOrderId);
+    if (!order) continue;
+    const location = appointment.location === 'on_site' ? clientAddress(order) : companySettings?.address ?? null;
+    events.push({
+      uid: `appointment-${appointment.id}`,
+      summary: input.scope === 'technician'
+        ? `${order.orderNumber} · ${clientName(order)}`
+        : `Visita técnica ${order.orderNumber}`,
+      // Las notas son indicaciones internas para el técnico
+      description: input.scope === 'technician' && appointment.notes
+        ? `${order.description}\n\n${appointment.notes}`
+        : order.description,
+      location,
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
+      cancelled: order.status === 'cancelled',
+    });
+  }
+  events.push(...deliveryEvents(orders, order =>
+    input.scope === 'technician'
+      ? `Entrega estimada ${order.orderNumber} · ${clientName(order)}`
+      : `Entrega estimada ${order.orderNumber}`
+  ));
+
+  const companyName = companySettings?.name || 'Sistemas RST';
+  return buildCalendar(`${companyName} - ${targetName ?? 'Agenda'}`, events, now);
+}
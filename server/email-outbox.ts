@@ -0,0 +1,121 @@
+import type { EmailOutboxMessage, EmailOutboxSummary, EmailTemplateEvent } from '@shared/schema';
+import { storage } from './storage';
+import { sendEmail, type EmailContentWithAttachments } from './email';
+
+// Intentos de entrega antes de marcar un mensaje como fallido
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Espera antes del segundo intento; se duplica en cada intento posterior
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const OUTBOX_BATCH_SIZE = 10;
+const OUTBOX_POLL_INTERVAL_MS = 30 * 1000;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+// Mensaje de la cola sin el contenido de los adjuntos, para los listados
+export function summarizeEmail(message: EmailOutboxMessage): EmailOutboxSummary {
+  return { ...message, attachments: message.attachments.map(attachment => attachment.filename) };
+}
+
+// Backoff exponencial, igual que sendEmailWithRetry pero en escala de minutos
+function nextAttemptDate(attempts: number): Date {
+  return new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+}
+
+async function deliver(message: EmailOutboxMessage) {
+  try {
+    await sendEmail({
+      to: message.to,
+      subject: message.subject,
+      html: message.html ?? undefined,
+      text: message.text ?? undefined,
+      attachments: message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: Buffer.from(attachment.content, 'base64'),
+      })),
+    });
+    await storage.updateEmailOutboxMessage(message.id, { status: 'sent', sentAt: new Date(), lastError: null });
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const exhausted = message.attempts >= message.maxAttempts;
+    await storage.updateEmailOutboxMessage(message.id, exhausted
+      ? { status: 'failed', lastError }
+      : { status: 'pending', lastError, nextAttemptAt: nextAttemptDate(message.attempts) });
+    console.error(`Correo ${message.id} a ${message.to}: intento ${message.attempts}/${message.maxAttempts} fallido: ${lastError}`);
+  }
+}
+
+// Envía los mensajes pendientes cuyo siguiente intento ya venció
+export async function processEmailOutbox() {
+  if (processing) return;
+  processing = true;
+
+  try {
+    let batch: EmailOutboxMessage[];
+    do {
+      batch = await storage.claimDueEmails(new Date(), OUTBOX_BATCH_SIZE);
+      for (const message of batch) {
+        await deliver(message);
+      }
+    } while (batch.length === OUTBOX_BATCH_SIZE);
+  } catch (error) {
+    console.error('Error al procesar la cola de correo:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+// Guarda el correo en la cola y lanza el envío sin esperar al servidor SMTP
+export async function enqueueEmail(
+  content: EmailContentWithAttachments,
+  options: { serviceOrderId?: number; event?: EmailTemplateEvent } = {}
+): Promise<EmailOutboxMessage> {
+  const message = await storage.enqueueEmail({
+    to: content.to,
+    subject: content.subject,
+    html: content.html ?? null,
+    text: content.text ?? null,
+    attachments: (content.attachments ?? []).map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: Buffer.isBuffer(attachment.content)
+        ? attachment.content.toString('base64')
+        : Buffer.from(attachment.content).toString('base64'),
+    })),
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    serviceOrderId: options.serviceOrderId ?? null,
+    event: options.event ?? null,
+  });
+
+  void processEmailOutbox();
+  return message;
+}
+
+// Vuelve a poner en la cola un mensaje fallido (o enviado) con los intentos reiniciados
+export async function resendEmail(id: number): Promise<EmailOutboxMessage | undefined> {
+  const message = await storage.getEmailOutboxMessage(id);
+  if (!message || message.status === 'sending') return message;
+
+  const requeued = await storage.updateEmailOutboxMessage(id, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastError: null,
+    sentAt: null,
+  });
+  void processEmailOutbox();
+  return requeued;
+}
+
+// Revisa la cola periódicamente; al iniciar recupera los envíos interrumpidos
+export async function startEmailOutboxWorker() {
+  if (workerTimer) return;
+
+  const requeued = await storage.requeueInterruptedEmails();
+  if (requeued > 0) {
+    console.log(`${requeued} correos interrumpidos regresaron a la cola`);
+  }
+  workerTimer = setInterval(processEmailOutbox, OUTBOX_POLL_INTERVAL_MS);
+  void processEmailOutbox();
+}
@@ -0,0 +1,213 @@
+import {
+  emailTemplatePlaceholders,
+  type CompanySettings, type EmailTemplateEvent, type EmailTemplateInfo, type EmailTemplatePreview,
+  type ServiceOrder, type Client
+} from '@shared/schema';
+import { storage } from './storage';
+import { mapStatusToSpanish } from './pdf-generator';
+
+type TemplateData = Record<string, string>;
+
+// Estructura común de los correos predeterminados: encabezado con los datos de la empresa y pie
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+    .header { text-align: center; padding: 20px; background-color: #f5f5f5; margin-bottom: 20px; }
+    .order-details { border: 1px solid #ddd; padding: 15px; margin-bottom: 20px; background-color: #f9f9f9; }
+    .button { display: inline-block; padding: 12px 24px; background-color: #1e3a8a; color: #fff !important; text-decoration: none; border-radius: 4px; font-weight: bold; }
+    .footer { text-align: center; font-size: 12px; color: #666; padding: 10px; border-top: 1px solid #ddd; }
+    h1 { color: #2c3e50; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>{{companyName}}</h1>
+    <p>{{companyAddress}}<br>{{companyPhone}}</p>
+  </div>
+
+  <p>Estimado(a) <strong>{{clientName}}</strong>,</p>
+${body}
+  <p>Saludos cordiales,<br>
+  El equipo de {{companyName}}</p>
+
+  <div class="footer">
+    <p>© {{year}} {{companyName}} - Todos los derechos reservados</p>
+    <p>{{companyEmail}} | {{companyWebsite}}</p>
+  </div>
+</body>
+</html>`;
+}
+
+const orderDetails = (...extraRows: string[]) => `
+  <div class="order-details">
+    <p><strong>Número de Orden:</strong> {{orderNumber}}</p>
+    <p><strong>Equipo:</strong> {{equipmentName}}</p>
+    <p><strong>Descripción:</strong> {{description}}</p>
+${extraRows.map(row => `    ${row}`).join('\n')}
+  </div>
+`;
+
+export const defaultEmailTemplates: Record<EmailTemplateEvent, EmailTemplatePreview> = {
+  order_created: {
+    subject: 'Nueva Orden de Servicio {{orderNumber}}',
+    html: layout('Nueva Orden de Servicio', `
+  <p>Hemos registrado una nueva orden de servicio para tu equipo. A continuación, los detalles:</p>
+${orderDetails()}
+  <p>Puedes comunicarte con nosotros para cualquier consulta sobre el servicio.</p>
+`),
+  },
+  status_changed: {
+    subject: 'Orden de Servicio {{orderNumber}}: {{status}}',
+    html: layout('Actualización de Orden de Servicio', `
+  <p>El estado de tu orden de servicio cambió de <strong>{{previousStatus}}</strong> a <strong>{{status}}</strong>.</p>
+${orderDetails('<p><strong>Técnico:</strong> {{technicianName}}</p>')}
+  <p>Puedes comunicarte con nosotros para cualquier consulta sobre el servicio.</p>
+`),
+  },
+  waiting_approval: {
+    subject: 'Aprobación requerida - Orden de Servicio {{orderNumber}}',
+    html: layout('Aprobación de Orden de Servicio', `
+  <p>La cotización de tu orden de servicio está lista y requiere tu aprobación:</p>
+${orderDetails('<p><strong>Costo:</strong> {{cost}}</p>')}
+  <p style="text-align: center;">
+    <a class="button" href="{{approvalUrl}}">Revisar y aprobar</a>
+  </p>
+
+  <p>Este enlace es personal y vence el {{expiresAt}}.</p>
+`),
+  },
+  order_completed: {
+    subject: 'Tu equipo está listo - Orden de Servicio {{orderNumber}}',
+    html: layout('Orden de Servicio Completada', `
+  <p>El servicio de tu equipo ha concluido y está listo para entrega:</p>
+${orderDetails('<p><strong>Costo total:</strong> {{cost}}</p>', '<p><strong>Fecha de término:</strong> {{completionDate}}</p>')}
+  <p>Gracias por confiar en nosotros.</p>
+`),
+  },
+  warranty_opened: {
+    subject: 'Garantía registrada - Orden de Servicio {{orderNumber}}',
+    html: layout('Servicio en Garantía', `
+  <p>Registramos tu equipo para atención en garantía. El servicio no tendrá costo para ti:</p>
+${orderDetails('<p><strong>Técnico:</strong> {{technicianName}}</p>')}
+  <p>Te avisaremos cuando el equipo esté listo.</p>
+`),
+  },
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Sustituye cada {{variable}} por su valor; las variables desconocidas quedan vacías
+export function renderTemplate(template: string, data: TemplateData, escape: boolean): string {
+  return template.replace(/\{\{\s*([A-Za-z]+)\s*\}\}/g, (_, name: string) => {
+    const value = data[name] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+const formatMoney = (amount: number | string | null) =>
+  amount !== null && amount !== '' ? `$${Number(amount).toLocaleString('es-MX', { minimumFractionDigits: 2 })}` : 'Por definir';
+
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString('es-MX') : '');
+
+function companyData(settings: CompanySettings | undefined): TemplateData {
+  return {
+    companyName: settings?.name || 'Sistemas RST',
+    companyAddress: settings?.address || '',
+    companyPhone: settings?.phone || '',
+    companyEmail: settings?.email || '',
+    companyWebsite: settings?.website || '',
+    year: String(new Date().getFullYear()),
+  };
+}
+
+// Plantilla vigente de cada evento, con las variables que admite
+export async function listEmailTemplates(): Promise<EmailTemplateInfo[]> {
+  const stored = await storage.listEmailTemplates();
+  return (Object.keys(defaultEmailTemplates) as EmailTemplateEvent[]).map(event => {
+    const template = stored.find(entry => entry.event === event);
+    return {
+      event,
+      subject: template?.subject ?? defaultEmailTemplates[event].subject,
+      html: template?.html ?? defaultEmailTemplates[event].html,
+      customized: !!template,
+      updatedAt: template?.updatedAt.toISOString() ?? null,
+      placeholders: emailTemplatePlaceholders[event],
+    };
+  });
+}
+
+// Variables usadas en el asunto o el contenido que el evento no proporciona
+export function findUnknownPlaceholders(event: EmailTemplateEvent, template: EmailTemplatePreview): string[] {
+  const used = `${template.subject} ${template.html}`.match(/\{\{\s*[A-Za-z]+\s*\}\}/g) ?? [];
+  const unknown = used
+    .map(placeholder => placeholder.replace(/[{}\s]/g, ''))
+    .filter(name => !emailTemplatePlaceholders[event].includes(name));
+  return Array.from(new Set(unknown));
+}
+
+async function renderEvent(event: EmailTemplateEvent, data: TemplateData, override: Partial<EmailTemplatePreview> = {}): Promise<EmailTemplatePreview> {
+  const template = await storage.getEmailTemplate(event) ?? defaultEmailTemplates[event];
+  return {
+    subject: renderTemplate(override.subject ?? template.subject, data, false),
+    html: renderTemplate(override.html ?? template.html, data, true),
+  };
+}
+
+// Genera el correo de un evento para una orden con los datos del cliente, equipo,
+// técnico y empresa. "extra" añade las variables propias del evento.
+export async function renderOrderEmail(
+  event: EmailTemplateEvent,
+  order: ServiceOrder,
+  extra: TemplateData = {}
+): Promise<EmailTemplatePreview & { client: Client | undefined }> {
+  const client = await storage.getClient(order.clientId);
+  const equipment = await storage.getEquipment(order.equipmentId);
+  const technician = order.technicianId ? await storage.getTechnician(order.technicianId) : undefined;
+  const technicianUser = technician ? await storage.getUser(technician.userId) : undefined;
+
+  const data: TemplateData = {
+    ...companyData(await storage.getCompanySettings()),
+    orderNumber: order.orderNumber,
+    clientName: client?.name || '',
+    equipmentName: equipment ? `${equipment.brand} ${equipment.model}` : 'Equipo',
+    description: order.description || 'No se proporcionó descripción',
+    status: mapStatusToSpanish(order.status),
+    technicianName: technicianUser?.fullName || 'Sin asignar',
+    cost: formatMoney(order.total ?? order.cost),
+    completionDate: formatDate(order.completionDate),
+    ...extra,
+  };
+
+  return { ...await renderEvent(event, data), client };
+}
+
+// Vista previa con datos de ejemplo. Con "override" se muestra el texto que se está
+// editando en lugar de la plantilla guardada.
+export async function previewEmailTemplate(event: EmailTemplateEvent, override: Partial<EmailTemplatePreview> = {}): Promise<EmailTemplatePreview> {
+  const now = new Date();
+  const data: TemplateData = {
+    ...companyData(await storage.getCompanySettings()),
+    orderNumber: 'OS-1001',
+    clientName: 'Juan Pérez',
+    equipmentName: 'Dell Latitude 5420',
+    description: 'El equipo no enciende después de una descarga eléctrica',
+    status: mapStatusToSpanish(event === 'order_completed' ? 'completed' : event === 'warranty_opened' ? 'warranty' : 'in_progress'),
+    previousStatus: mapStatusToSpanish('approved'),
+    technicianName: 'María López',
+    cost: formatMoney(1850),
+    completionDate: formatDate(now),
+    approvalUrl: `${process.env.BASE_URL || ''}/approve/ejemplo`,
+    expiresAt: formatDate(new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)),
+  };
+  return renderEvent(event, data, override);
+}
@@ -1,5 +1,8 @@
 import nodemailer from 'nodemailer';
-import { CompanySettings } from '@shared/schema';
+import net from 'net';
+import tls from 'tls';
+import dns from 'dns';
+import { SmtpDiagnostic, SmtpTestResult } from '@shared/schema';
 import { db } from './db';
 import { companySettings } from '@shared/schema';
 import { TransportOptions } from 'nodemailer';
@@ -13,6 +16,21 @@ let emailSecure: boolean;
 let emailFromName: string;
 let emailFromAddress: string;
 
+// Resultado del último envío, para el panel de información del sistema
+let lastSuccessAt: Date | null = null;
+let lastFailure: { at: Date; message: string } | null = null;
+
+// Estado del servicio de correo: configuración cargada y resultado de los últimos envíos
+export function getEmailStatus() {
+  return {
+    configured: !!(emailHost && emailPort && emailUser && emailPass),
+    host: emailHost ? `${emailHost}:${emailPort}` : null,
+    lastSuccessAt,
+    lastFailureAt: lastFailure?.at ?? null,
+    lastError: lastFailure?.message ?? null,
+  };
+}
+
 // Función para configurar el servicio de correo manualmente
 export function configureEmailService(
   host: string,
@@ -320,12 +338,17 @@ async function sendEmailWithRetry(
 }
 
 // Función para enviar correo electrónico
-export async function sendEmail(content: EmailContentWithAttachments): Promise<boolean> {
+export async function sendEmail(
+  content: EmailContentWithAttachments,
+  options: { skipVerification?: boolean } = {}
+): Promise<boolean> {
   try {
     console.log(`Preparando envío de correo a: ${content.to} con asunto: ${content.subject}`);
     
-    // Primero verificamos la conexión al servidor SMTP
-    await verifySmtpConnection();
+    // Primero verificamos la conexión al servidor SMTP (salvo que ya se haya verificado)
+    if (!options.skipVerification) {
+      await verifySmtpConnection();
+    }
     
     const transporter = createTransporter();
     
@@ -396,8 +419,10 @@ export async function sendEmail(content: EmailContentWithAttachments): Promise<b
       transporter.close();
     }
     
+    lastSuccessAt = new Date();
     return true;
   } catch (error) {
+    lastFailure = { at: new Date(), message: error instanceof Error ? error.message : String(error) };
     console.error('Error al enviar correo electrónico:', error);
     if (error instanceof Error) {
       console.error(`Mensaje de error: ${error.message}`);
@@ -407,82 +432,192 @@ export async function sendEmail(content: EmailContentWithAttachments): Promise<b
   }
 }
 
-// Función para generar el contenido HTML para la notificación de nueva orden
-export function generateNewOrderEmail(
-  orderNumber: string,
-  clientName: string,
-  equipmentName: string,
-  description: string,
-  companySettings: CompanySettings
-): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <title>Nueva Orden de Servicio</title>
-      <style>
-        body {
-          font-family: Arial, sans-serif;
-          line-height: 1.6;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-        }
-        .header {
-          text-align: center;
-          padding: 20px;
-          background-color: #f5f5f5;
-          margin-bottom: 20px;
-        }
-        .order-details {
-          border: 1px solid #ddd;
-          padding: 15px;
-          margin-bottom: 20px;
-          background-color: #f9f9f9;
-        }
-        .footer {
-          text-align: center;
-          font-size: 12px;
-          color: #666;
-          padding: 10px;
-          border-top: 1px solid #ddd;
-        }
-        h1 {
-          color: #2c3e50;
-        }
-        .logo {
-          max-width: 150px;
-          margin-bottom: 10px;
+// Tiempo máximo de cada paso de la prueba de conexión
+const SMTP_PROBE_TIMEOUT_MS = 8000;
+
+interface SmtpProbeResult {
+  banner: string;
+  capabilities: string[];
+  tls: { protocol: string | null; cipher: string; authorized: boolean; authorizationError: string | null; subject: string | null } | null;
+}
+
+// Conecta directamente al servidor para leer el saludo (banner) y las extensiones
+// anunciadas en EHLO, sin autenticarse. Con conexión segura también devuelve los datos TLS.
+function probeSmtpServer(host: string, port: number, secure: boolean): Promise<SmtpProbeResult> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = secure
+      ? tls.connect({ host, port, servername: host, rejectUnauthorized: false })
+      : net.connect({ host, port });
+    let buffer = '';
+    let banner = '';
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setTimeout(SMTP_PROBE_TIMEOUT_MS, () => {
+      fail(Object.assign(new Error('Tiempo de espera agotado al conectar con el servidor SMTP'), { code: 'ETIMEDOUT' }));
+    });
+    socket.on('error', fail);
+    // El servidor puede cerrar la conexión sin error (tras el saludo o al responder a EHLO)
+    const closed = () => fail(new Error('El servidor SMTP cerró la conexión'));
+    socket.on('end', closed);
+    socket.on('close', closed);
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      // Una respuesta SMTP termina con una línea "código espacio texto"
+      const lines = buffer.split('\r\n').filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (!buffer.endsWith('\r\n') || !/^\d{3} /.test(last)) return;
+      buffer = '';
+
+      if (!banner) {
+        banner = lines.join(' ');
+        if (!banner.startsWith('220')) {
+          return fail(new Error(`Saludo inesperado del servidor: ${banner}`));
         }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>Sistemas RST</h1>
-        <p>${companySettings.address || ''}<br>${companySettings.phone || ''}</p>
-      </div>
-      
-      <p>Estimado(a) <strong>${clientName}</strong>,</p>
-      
-      <p>Hemos registrado una nueva orden de servicio para tu equipo. A continuación, los detalles:</p>
-      
-      <div class="order-details">
-        <p><strong>Número de Orden:</strong> ${orderNumber}</p>
-        <p><strong>Equipo:</strong> ${equipmentName}</p>
-        <p><strong>Descripción:</strong> ${description || 'No se proporcionó descripción'}</p>
-      </div>
-      
-      <p>Puedes comunicarte con nosotros para cualquier consulta sobre el servicio.</p>
-      
-      <p>Saludos cordiales,<br>
-      El equipo de ${companySettings.name}</p>
-      
-      <div class="footer">
-        <p>© ${new Date().getFullYear()} ${companySettings.name} - Todos los derechos reservados</p>
-        <p>${companySettings.email || ''} | ${companySettings.website || ''}</p>
-      </div>
-    </body>
-    </html>
-  `;
-}
\ No newline at end of file
+        socket.write('EHLO sistemasrst.local\r\n');
+        return;
+      }
+
+      if (!lines[0].startsWith('2')) {
+        return fail(new Error(`El servidor rechazó EHLO: ${lines.join(' ')}`));
+      }
+
+      const capabilities = lines.slice(1).map(line => line.slice(4).trim());
+      const tlsSocket = secure ? socket as tls.TLSSocket : null;
+      const certificate = tlsSocket?.getPeerCertificate();
+      settled = true;
+      socket.end('QUIT\r\n');
+      resolve({
+        banner,
+        capabilities,
+        tls: tlsSocket ? {
+          protocol: tlsSocket.getProtocol(),
+          cipher: tlsSocket.getCipher().name,
+          authorized: tlsSocket.authorized,
+          authorizationError: tlsSocket.authorizationError ? String(tlsSocket.authorizationError) : null,
+          subject: certificate?.subject?.CN ?? null,
+        } : null,
+      });
+    });
+  });
+}
+
+// Sugerencia para el administrador según el error obtenido en cada paso
+function smtpErrorHint(error: unknown): string {
+  const code = (error as { code?: string })?.code;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+    return 'No se pudo resolver el nombre del servidor. Verifica el host SMTP.';
+  }
+  if (code === 'ECONNREFUSED') {
+    return 'El servidor rechazó la conexión. Verifica el puerto y que el servicio SMTP esté activo.';
+  }
+  if (code === 'ETIMEDOUT' || (code === 'ESOCKET' && message.includes('timeout'))) {
+    return 'Tiempo de espera agotado. Un firewall puede estar bloqueando el puerto.';
+  }
+  if (/wrong version number|ssl3_get_record|packet length too long/i.test(message)) {
+    return 'Discrepancia de cifrado: activa SSL/TLS con el puerto 465 y desactívalo con los puertos 587 o 25.';
+  }
+  if (code === 'EAUTH' || /invalid login|authentication failed/i.test(message)) {
+    return 'Usuario o contraseña rechazados. Usa la dirección completa como usuario y, si la cuenta tiene verificación en dos pasos, una contraseña de aplicación.';
+  }
+  if (code === 'EENVELOPE') {
+    return 'El servidor rechazó el remitente o el destinatario. Verifica el correo de origen y el de prueba.';
+  }
+  return message;
+}
+
+// Prueba completa de la configuración guardada: recarga los datos, resuelve el host,
+// lee el saludo del servidor, valida TLS y credenciales y envía un correo real.
+// Se detiene en el primer paso que falla e indica una sugerencia en "detail".
+export async function testSmtpConnection(testEmail: string): Promise<SmtpTestResult> {
+  const diagnostics: SmtpDiagnostic[] = [];
+  let banner: string | undefined;
+
+  const runStep = async <T>(step: SmtpDiagnostic['step'], action: () => Promise<T>, describe: (result: T) => string) => {
+    const start = Date.now();
+    try {
+      const result = await action();
+      diagnostics.push({ step, status: 'ok', message: describe(result), durationMs: Date.now() - start });
+      return { ok: true as const, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      diagnostics.push({ step, status: 'error', message, durationMs: Date.now() - start });
+      return { ok: false as const, error };
+    }
+  };
+
+  const failed = (message: string, error: unknown): SmtpTestResult => ({
+    success: false,
+    message,
+    detail: smtpErrorHint(error),
+    banner,
+    diagnostics,
+  });
+
+  const config = await runStep('config', async () => {
+    if (!await loadEmailConfigFromDatabase()) {
+      throw new Error('Faltan el host, el puerto, el usuario o la contraseña SMTP');
+    }
+  }, () => `Configuración cargada: ${emailHost}:${emailPort} (${emailSecure ? 'SSL/TLS' : 'sin cifrado inicial'})`);
+  if (!config.ok) {
+    return { success: false, message: 'La configuración SMTP está incompleta', detail: 'Completa y guarda los datos del servidor de correo.', diagnostics };
+  }
+
+  const lookup = await runStep('dns', () => dns.promises.lookup(emailHost, { all: true }),
+    (addresses) => `${emailHost} → ${addresses.map(address => address.address).join(', ')}`);
+  if (!lookup.ok) return failed('No se pudo resolver el servidor SMTP', lookup.error);
+
+  const probe = await runStep('connection', () => probeSmtpServer(emailHost, emailPort, emailSecure),
+    (result) => result.banner);
+  if (!probe.ok) return failed('No se pudo conectar con el servidor SMTP', probe.error);
+  banner = probe.result.banner;
+
+  // Con SSL/TLS el cifrado se negocia al conectar; sin él se espera STARTTLS
+  const tlsInfo = probe.result.tls;
+  if (tlsInfo) {
+    diagnostics.push({
+      step: 'tls',
+      status: tlsInfo.authorized ? 'ok' : 'warning',
+      message: `${tlsInfo.protocol} (${tlsInfo.cipher})${tlsInfo.subject ? `, certificado para ${tlsInfo.subject}` : ''}` +
+        (tlsInfo.authorized ? '' : `; certificado no verificado: ${tlsInfo.authorizationError}`),
+      durationMs: 0,
+    });
+  } else {
+    const startTls = probe.result.capabilities.some(capability => capability.toUpperCase() === 'STARTTLS');
+    diagnostics.push({
+      step: 'tls',
+      status: startTls ? 'ok' : 'warning',
+      message: startTls
+        ? 'El servidor ofrece STARTTLS; la conexión se cifrará antes de autenticarse'
+        : 'El servidor no ofrece STARTTLS; las credenciales viajarán sin cifrar',
+      durationMs: 0,
+    });
+  }
+
+  const auth = await runStep('auth', () => verifySmtpConnection(), () => `Usuario ${emailUser} autenticado correctamente`);
+  if (!auth.ok) return failed('El servidor SMTP rechazó la autenticación', auth.error);
+
+  const send = await runStep('send', () => sendEmail({
+    to: testEmail,
+    subject: 'Prueba de configuración de correo',
+    text: `Este es un correo de prueba enviado desde ${emailFromName} para verificar la configuración SMTP.`,
+    html: `<p>Este es un correo de prueba enviado desde <strong>${emailFromName}</strong> para verificar la configuración SMTP.</p>`,
+  }, { skipVerification: true }), () => `Correo de prueba enviado a ${testEmail}`);
+  if (!send.ok) return failed('No se pudo enviar el correo de prueba', send.error);
+
+  return {
+    success: true,
+    message: `Conexión exitosa. Se envió un correo de prueba a ${testEmail}`,
+    banner,
+    diagnostics,
+  };
+}
@@ -0,0 +1,134 @@
+import {
+  SERVICE_WARRANTY_DAYS, getWarrantyStatus,
+  type Equipment, type EquipmentHistory, type EquipmentOwnershipChangeWithNames, type EquipmentWarrantyPeriod, type RecurringFailure, type ServiceOrder
+} from '@shared/schema';
+import { fromCents, toCents } from '@shared/money';
+import { storage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RECURRING_FAILURES = 5;
+
+// Palabras frecuentes que no describen una falla
+const stopwords = new Set([
+  'para', 'pero', 'como', 'esta', 'este', 'esto', 'estos', 'estas', 'estan', 'tiene', 'tienen',
+  'equipo', 'cliente', 'servicio', 'revisar', 'revision', 'reporta', 'presenta', 'problema', 'falla',
+  'favor', 'desde', 'cuando', 'porque', 'sobre', 'entre', 'hace', 'solo', 'tambien', 'donde',
+  'todo', 'todos', 'otra', 'otro', 'despues', 'antes', 'mucho', 'poco', 'veces', 'siempre',
+]);
+
+function failureKeywords(description: string): string[] {
+  const words = description
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 4 && !stopwords.has(word));
+  return Array.from(new Set(words));
+}
+
+// Palabras clave que aparecen en la descripción de dos o más órdenes del equipo
+function findRecurringFailures(orders: ServiceOrder[]): RecurringFailure[] {
+  const byKeyword = new Map<string, string[]>();
+  for (const order of orders.filter(order => order.status !== 'cancelled')) {
+    for (const keyword of failureKeywords(order.description)) {
+      byKeyword.set(keyword, [...(byKeyword.get(keyword) ?? []), order.orderNumber]);
+    }
+  }
+  return Array.from(byKeyword.entries())
+    .filter(([, orderNumbers]) => orderNumbers.length >= 2)
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .slice(0, MAX_RECURRING_FAILURES)
+    .map(([keyword, orderNumbers]) => ({ keyword, orderNumbers }));
+}
+
+// Garantía del fabricante más la de cada servicio completado (SERVICE_WARRANTY_DAYS desde el cierre)
+function warrantyPeriods(item: Equipment, orders: ServiceOrder[], now: Date): EquipmentWarrantyPeriod[] {
+  const periods: EquipmentWarrantyPeriod[] = [];
+  if (item.warrantyExpiresAt) {
+    periods.push({
+      source: 'manufacturer',
+      serviceOrderId: null,
+      orderNumber: null,
+      startsAt: null,
+      endsAt: item.warrantyExpiresAt.toISOString(),
+      status: getWarrantyStatus(item.warrantyExpiresAt, now),
+    });
+  }
+  for (const order of orders) {
+    if (order.status !== 'completed' || !order.completionDate) continue;
+    const endsAt = new Date(order.completionDate.getTime() + SERVICE_WARRANTY_DAYS * DAY_MS);
+    periods.push({
+      source: 'service',
+      serviceOrderId: order.id,
+      orderNumber: order.orderNumber,
+      startsAt: order.completionDate.toISOString(),
+      endsAt: endsAt.toISOString(),
+      status: getWarrantyStatus(endsAt, now),
+    });
+  }
+  return periods;
+}
+
+// Todas las órdenes del equipo con lo gastado, fallas recurrentes y periodos de garantía.
+// El gasto total considera solo las órdenes completadas.
+export async function getEquipmentHistory(item: Equipment, now: Date = new Date()): Promise<EquipmentHistory> {
+  const orders = await storage.listServiceOrdersByEquipment(item.id);
+
+  const clientNames = new Map<number, string>();
+  const technicianNames = new Map<number, string>();
+  for (const order of orders) {
+    if (!clientNames.has(order.clientId)) {
+      const client = await storage.getClient(order.clientId);
+      if (client) clientNames.set(order.clientId, client.name);
+    }
+    if (order.technicianId !== null && !technicianNames.has(order.technicianId)) {
+      const technician = await storage.getTechnician(order.technicianId);
+      const user = technician ? await storage.getUser(technician.userId) : undefined;
+      if (user) technicianNames.set(order.technicianId, user.fullName);
+    }
+  }
+
+  const totalSpentCents = orders
+    .filter(order => order.status === 'completed')
+    .reduce((sum, order) => sum + toCents(order.total ?? order.cost), 0);
+
+  const periods = warrantyPeriods(item, orders, now);
+  const warrantyEndsAt = periods.reduce<string | null>(
+    (latest, period) => (!latest || period.endsAt > latest ? period.endsAt : latest),
+    null
+  );
+
+  return {
+    equipment: item,
+    orders: orders.map(order => ({
+      id: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      description: order.description,
+      requestDate: order.requestDate.toISOString(),
+      completionDate: order.completionDate?.toISOString() ?? null,
+      total: order.total ?? (order.cost !== null ? fromCents(toCents(order.cost)) : null),
+      clientName: clientNames.get(order.clientId) ?? null,
+      technicianName: order.technicianId !== null ? technicianNames.get(order.technicianId) ?? null : null,
+    })),
+    totalSpent: fromCents(totalSpentCents),
+    recurringFailures: findRecurringFailures(orders),
+    warrantyPeriods: periods,
+    warrantyEndsAt,
+    warrantyStatus: getWarrantyStatus(warrantyEndsAt, now),
+  };
+}
+
+// Cambios de propietario del equipo con los nombres de los clientes y de quien los registró
+export async function getOwnershipHistory(equipmentId: number): Promise<EquipmentOwnershipChangeWithNames[]> {
+  const changes = await storage.listEquipmentOwnershipHistory(equipmentId);
+  const clientName = async (clientId: number | null) =>
+    clientId !== null ? (await storage.getClient(clientId))?.name ?? null : null;
+
+  return Promise.all(changes.map(async change => ({
+    ...change,
+    fromClientName: await clientName(change.fromClientId),
+    toClientName: await clientName(change.toClientId),
+    changedByName: change.changedBy !== null ? (await storage.getUser(change.changedBy))?.fullName ?? null : null,
+  })));
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+
+export interface StoredFile {
+  content: Buffer;
+  contentType: string;
+}
+
+// Almacenamiento de archivos subidos. Las claves son rutas relativas con "/" como
+// separador (por ejemplo "fotos/2025/06/abc.jpg").
+export interface FileStorage {
+  save(key: string, content: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<StoredFile | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+const contentTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+};
+
+export function contentTypeForKey(key: string): string {
+  return contentTypes[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// Rechaza claves que intenten salir del directorio de archivos: ningún segmento
+// puede empezar con punto, así que ".." y los archivos ocultos quedan fuera
+export function isValidFileKey(key: string): boolean {
+  return /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/.test(key);
+}
+
+// Clave nueva y única para un archivo: "carpeta/año/mes/uuid.ext"
+export function newFileKey(folder: string, extension: string): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  return `${folder}/${now.getFullYear()}/${month}/${crypto.randomUUID()}.${extension}`;
+}
+
+// Archivos en disco dentro de UPLOADS_DIR
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    if (!isValidFileKey(key)) {
+      throw new Error(`Clave de archivo inválida: ${key}`);
+    }
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<StoredFile | undefined> {
+    try {
+      return { content: await fs.promises.readFile(this.resolve(key)), contentType: contentTypeForKey(key) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// Bucket compatible con S3 (AWS, MinIO, Cloudflare R2...) usando la API REST con firma
+// Signature V4 y direcciones de tipo "endpoint/bucket/clave".
+export class S3FileStorage implements FileStorage {
+  constructor(private readonly config: S3Config) {}
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    if (!isValidFileKey(key)) {
+      throw new Error(`Clave de archivo inválida: ${key}`);
+    }
+
+    const url = new URL(`${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = headers;
+    return fetch(url.toString(), {
+      method,
+      body,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+    });
+  }
+
+  async save(key: string, content: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, content, contentType);
+    if (!response.ok) {
+      throw new Error(`Error al guardar ${key} en S3: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async read(key: string): Promise<StoredFile | undefined> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Error al leer ${key} de S3: ${response.status}`);
+    }
+    return {
+      content: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') ?? contentTypeForKey(key),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Error al eliminar ${key} de S3: ${response.status}`);
+    }
+  }
+}
+
+// S3 cuando están configuradas sus variables de entorno; si no, disco local
+function createFileStorage(): FileStorage {
+  const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (S3_BUCKET && S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY) {
+    const region = S3_REGION || 'us-east-1';
+    return new S3FileStorage({
+      endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: S3_BUCKET,
+      region,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalFileStorage(UPLOADS_DIR);
+}
+
+export const fileStorage: FileStorage = createFileStorage();
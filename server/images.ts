@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import { UPLOADS_URL_PREFIX, isStoredFileUrl, thumbnailUrl } from '@shared/uploads';
+import { fileStorage, newFileKey } from './file-storage';
+
+// Tamaño máximo de las fotos guardadas y de sus miniaturas (lado mayor, en píxeles)
+const MAX_IMAGE_SIZE = 1024;
+const THUMBNAIL_SIZE = 320;
+const JPEG_QUALITY = 80;
+
+const dataUriPattern = /^data:image\/(jpeg|jpg|png|webp|gif);base64,(.+)$/;
+
+export function urlToFileKey(url: string): string {
+  return url.slice(UPLOADS_URL_PREFIX.length);
+}
+
+export interface SavedImage {
+  url: string;
+  size: number;
+}
+
+// Guarda una imagen: la orienta según EXIF, la reduce a MAX_IMAGE_SIZE y genera su
+// miniatura. Devuelve la URL y el tamaño en bytes de la imagen guardada.
+export async function saveImage(content: Buffer, folder = 'fotos'): Promise<SavedImage> {
+  // Las transparencias (firmas, logotipos en PNG) quedan sobre fondo blanco en el JPEG
+  const source = sharp(content, { failOn: 'error' }).rotate().flatten({ background: '#ffffff' });
+  const [image, thumbnail] = await Promise.all([
+    source.clone()
+      .resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      .toBuffer(),
+    source.clone()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: JPEG_QUALITY })
+      .toBuffer(),
+  ]);
+
+  const url = `${UPLOADS_URL_PREFIX}${newFileKey(folder, 'jpg')}`;
+  await fileStorage.save(urlToFileKey(url), image, 'image/jpeg');
+  await fileStorage.save(urlToFileKey(thumbnailUrl(url)), thumbnail, 'image/jpeg');
+  return { url, size: image.length };
+}
+
+// Firma capturada en la página pública de aprobación, que no tiene sesión para usar
+// /api/uploads/images y la envía en base64. Se guarda como archivo y se devuelve su URL.
+export async function saveSignatureImage(dataUri: string): Promise<string> {
+  const matches = dataUri.match(dataUriPattern);
+  if (!matches) {
+    throw new PhotoError('La firma no es una imagen válida');
+  }
+  try {
+    const { url } = await saveImage(Buffer.from(matches[2], 'base64'), 'firmas');
+    return url;
+  } catch (error) {
+    console.error('Error al guardar la firma:', error);
+    throw new PhotoError('No se pudo guardar la firma: el archivo no es una imagen válida');
+  }
+}
+
+// Foto o firma de la orden que no es válida; la petición completa se rechaza con 400
+export class PhotoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotoError';
+  }
+}
+
+// Valida las fotos recibidas al crear o editar una orden. Las imágenes se suben antes
+// con /api/uploads/images y la orden solo guarda URLs; el base64 dentro del JSON se rechaza.
+export function processPhotos(photos: unknown): string[] | undefined {
+  if (photos === undefined || photos === null) return undefined;
+
+  const values = Array.isArray(photos) ? photos : typeof photos === 'string' ? [photos] : [];
+  return values.map((photo, index) => {
+    const value = String(photo);
+    if (value.startsWith('data:')) {
+      throw new PhotoError(`La foto ${index + 1} debe subirse como archivo, no en base64`);
+    }
+    if (!isStoredFileUrl(value) && !value.startsWith('http')) {
+      throw new PhotoError(`La foto ${index + 1} no es una imagen válida`);
+    }
+    return value;
+  });
+}
+
+// Igual que processPhotos para la firma del cliente: vacía, o la URL de la imagen ya subida
+export function processSignature(signature: unknown): string | undefined {
+  if (signature === undefined || signature === null) return undefined;
+  if (signature === '') return '';
+
+  const value = String(signature);
+  if (value.startsWith('data:')) {
+    throw new PhotoError('La firma debe subirse como archivo, no en base64');
+  }
+  if (!isStoredFileUrl(value)) {
+    throw new PhotoError('La firma no es una imagen válida');
+  }
+  return value;
+}
+
+// Imagen guardada como data URI, para los PDF y las páginas públicas que no pueden
+// pedir /uploads con la sesión del usuario. Las URLs externas se devuelven sin cambios.
+export async function inlineImage(url: string): Promise<string> {
+  if (!isStoredFileUrl(url)) return url;
+
+  const file = await fileStorage.read(urlToFileKey(url));
+  return file ? `data:${file.contentType};base64,${file.content.toString('base64')}` : '';
+}
+
+export async function inlineImages(urls: string[]): Promise<string[]> {
+  const images = await Promise.all(urls.map(inlineImage));
+  return images.filter(Boolean);
+}
@@ -0,0 +1,400 @@
+import multer from 'multer';
+import ExcelJS from 'exceljs';
+import { z } from 'zod';
+import express, { type RequestHandler } from 'express';
+import {
+  insertClientSchema, insertEquipmentSchema, MAX_IMPORT_ROWS,
+  type Client, type EquipmentType, type ImportEntity, type ImportParseResult, type ImportPreview, type ImportReport,
+  type ImportRequest, type ImportRowIssue, type ImportRowResult, type InsertClient, type InsertEquipment,
+} from '@shared/schema';
+import { equipmentTypeAliases, importFields, normalizeImportText } from '@shared/imports';
+import { storage } from './storage';
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+// La vista previa y la confirmación reenvían las filas como JSON, que ocupa más que el archivo
+const MAX_IMPORT_REQUEST_BYTES = 2 * MAX_IMPORT_FILE_BYTES;
+
+// Error de la importación (archivo ilegible, columnas sin asignar, cliente inexistente)
+export class ImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: 'utf8',
+  limits: { fileSize: MAX_IMPORT_FILE_BYTES, files: 1 },
+});
+
+// Recibe el archivo a importar en el campo "files", el mismo que usan los adjuntos
+export const receiveImportFile: RequestHandler = (req, res, next) => {
+  upload.single('files')(req, res, (error?: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ message: `El archivo supera el máximo de ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB` });
+    }
+    if (error) {
+      return res.status(400).json({ message: 'No se pudo recibir el archivo' });
+    }
+    next();
+  });
+};
+
+const parseImportJson = express.json({ limit: MAX_IMPORT_REQUEST_BYTES });
+
+// Lee el JSON de la vista previa y la confirmación con su propio límite; el general
+// de la aplicación es de 1 MB y no alcanza para las filas de un archivo grande
+export const receiveImportRequest: RequestHandler = (req, res, next) => {
+  parseImportJson(req, res, (error?: unknown) => {
+    if (error && (error as { type?: string }).type === 'entity.too.large') {
+      return res.status(413).json({ message: `Los datos a importar superan el máximo de ${MAX_IMPORT_REQUEST_BYTES / (1024 * 1024)} MB; divida el archivo en partes más pequeñas` });
+    }
+    if (error) {
+      return res.status(400).json({ message: 'No se pudieron leer los datos de la importación' });
+    }
+    next();
+  });
+};
+
+// Excel guarda los CSV en UTF-8 o en Windows-1252 según la versión y la configuración regional
+function decodeText(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return buffer.toString('latin1');
+  }
+}
+
+// Separador más frecuente en la primera línea: Excel en español usa ";" en lugar de ","
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const candidates = [';', ',', '\t'];
+  const counts = candidates.map(candidate => firstLine.split(candidate).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ',';
+}
+
+// CSV con campos entre comillas, comillas dobles escapadas y saltos de línea dentro de los campos
+function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const isoDate = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-${String(date.getUTCDate()).padStart(2, '0')}`;
+
+// Texto de una celda tal como se ve en Excel; las fechas se pasan a AAAA-MM-DD
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  const result = value !== null && typeof value === 'object' && 'result' in value ? value.result : value;
+  if (result instanceof Date) return isoDate(result);
+  return cell.text ?? '';
+}
+
+async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch {
+    throw new ImportError('El archivo no es un libro de Excel válido');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= sheet.rowCount; rowNumber++) {
+    const row = sheet.getRow(rowNumber);
+    const values: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      values.push(cellText(row.getCell(column)));
+    }
+    rows.push(values);
+  }
+  return rows;
+}
+
+const isEmptyRow = (row: string[]) => row.every(value => value.trim() === '');
+
+// Lee un archivo CSV o XLSX (primera hoja). La primera fila son los encabezados; las filas
+// vacías se conservan para que la numeración coincida con la del archivo.
+export async function parseImportFile(file: Express.Multer.File): Promise<ImportParseResult> {
+  const extension = file.originalname.toLowerCase().split('.').pop();
+  let rows: string[][];
+  if (extension === 'csv' || extension === 'txt') {
+    rows = parseCsv(decodeText(file.buffer));
+  } else if (extension === 'xlsx') {
+    rows = await parseXlsx(file.buffer);
+  } else {
+    throw new ImportError('Formato no admitido; use un archivo CSV o XLSX');
+  }
+
+  rows = rows.map(row => row.map(value => value.trim()));
+  while (rows.length > 0 && isEmptyRow(rows[rows.length - 1])) rows.pop();
+
+  if (rows.length === 0 || isEmptyRow(rows[0])) {
+    throw new ImportError('La primera fila del archivo debe contener los encabezados de las columnas');
+  }
+  if (rows.length === 1) {
+    throw new ImportError('El archivo no tiene filas de datos');
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportError(`El archivo tiene ${rows.length - 1} filas; el máximo por importación es ${MAX_IMPORT_ROWS}`);
+  }
+
+  return { filename: file.originalname, headers: rows[0], rows: rows.slice(1) };
+}
+
+// Al importar clientes el correo es obligatorio y debe ser válido: es el criterio de duplicados
+const clientImportSchema = insertClientSchema.extend({
+  email: z.string().trim().email('Correo inválido'),
+});
+
+const equipmentTypeNames = 'PC escritorio, portátil, servidor, impresora, equipo de red u otro';
+
+function issueMessage(issue: z.ZodIssue): string {
+  if (issue.code === 'invalid_type' && issue.received === 'undefined') return 'Campo obligatorio';
+  if (issue.code === 'invalid_enum_value') {
+    return issue.path[0] === 'type' ? `Tipo no reconocido (use: ${equipmentTypeNames})` : 'Valor no reconocido';
+  }
+  if (issue.code === 'invalid_date') return 'Fecha inválida (use AAAA-MM-DD o DD/MM/AAAA)';
+  if (issue.code === 'invalid_type') return issue.expected === 'boolean' ? 'Indique sí o no' : 'Valor inválido';
+  return issue.message;
+}
+
+function toIssues(error: z.ZodError, fieldFor: (path: string) => string = path => path): ImportRowIssue[] {
+  return error.errors.map(issue => ({ field: fieldFor(String(issue.path[0] ?? '')), message: issueMessage(issue) }));
+}
+
+// Valores de la fila para cada campo asignado; las celdas vacías cuentan como no indicadas
+function readRow(entity: ImportEntity, row: string[], mapping: ImportRequest['mapping']): Record<string, string | undefined> {
+  const values: Record<string, string | undefined> = {};
+  for (const field of importFields[entity]) {
+    const column = mapping[field.key];
+    const value = column !== null && column !== undefined ? row[column]?.trim() : undefined;
+    values[field.key] = value ? value : undefined;
+  }
+  return values;
+}
+
+function assertRequiredColumns(entity: ImportEntity, mapping: ImportRequest['mapping']) {
+  const missing = importFields[entity].filter(field =>
+    field.required && (mapping[field.key] === null || mapping[field.key] === undefined)
+  );
+  if (missing.length > 0) {
+    throw new ImportError(`Asigne una columna a: ${missing.map(field => field.label).join(', ')}`);
+  }
+}
+
+// Los valores que no se reconocen se dejan como texto para que la validación los reporte
+function parseBoolean(value: string | undefined): boolean | string | undefined {
+  if (value === undefined) return undefined;
+  const normalized = normalizeImportText(value);
+  if (['si', 's', 'yes', 'y', 'true', 'verdadero', '1', 'x'].includes(normalized)) return true;
+  if (['no', 'n', 'false', 'falso', '0'].includes(normalized)) return false;
+  return value;
+}
+
+function parseEquipmentType(value: string | undefined): EquipmentType | string | undefined {
+  if (value === undefined) return undefined;
+  const normalized = normalizeImportText(value);
+  const match = (Object.keys(equipmentTypeAliases) as EquipmentType[])
+    .find(type => type === normalized || equipmentTypeAliases[type].includes(normalized));
+  return match ?? value;
+}
+
+// Fechas AAAA-MM-DD o DD/MM/AAAA como día local
+function parseImportDate(value: string | undefined): Date | string | undefined {
+  if (value === undefined) return undefined;
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local ? [Number(local[3]), Number(local[2]), Number(local[1])] : [NaN, NaN, NaN];
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : value;
+}
+
+interface PreparedImport<T> {
+  results: ImportRowResult[];
+  records: { index: number; data: T }[];
+}
+
+function newResult(rowIndex: number, label: string): ImportRowResult {
+  return { rowNumber: rowIndex + 2, status: 'valid', label, errors: [], duplicateOf: null, createdId: null };
+}
+
+// Valida cada fila y marca como duplicados los clientes cuyo correo ya existe o se repite en el archivo
+async function prepareClients(request: ImportRequest): Promise<PreparedImport<InsertClient>> {
+  assertRequiredColumns('clients', request.mapping);
+  const existing = await storage.listClients();
+  const existingByEmail = new Map(existing.map(client => [client.email.trim().toLowerCase(), client]));
+  const seen = new Map<string, number>();
+  const prepared: PreparedImport<InsertClient> = { results: [], records: [] };
+
+  request.rows.forEach((row, index) => {
+    if (isEmptyRow(row)) return;
+    const values = readRow('clients', row, request.mapping);
+    const result = newResult(index, values.name ?? values.email ?? `Fila ${index + 2}`);
+    prepared.results.push(result);
+
+    const parsed = clientImportSchema.safeParse({ ...values, emailNotifications: parseBoolean(values.emailNotifications) });
+    if (!parsed.success) {
+      result.status = 'invalid';
+      result.errors = toIssues(parsed.error);
+      return;
+    }
+
+    const key = parsed.data.email.toLowerCase();
+    const duplicate = existingByEmail.get(key);
+    if (duplicate || seen.has(key)) {
+      result.status = 'duplicate';
+      result.duplicateOf = duplicate ? `Cliente existente: ${duplicate.name}` : `Correo repetido en la fila ${seen.get(key)}`;
+      return;
+    }
+    seen.set(key, result.rowNumber);
+    prepared.records.push({ index: prepared.results.length - 1, data: parsed.data });
+  });
+  return prepared;
+}
+
+// Cliente de un equipo indicado por correo o por nombre
+function findClient(clients: Client[], value: string): Client | string {
+  const byEmail = clients.find(client => client.email.trim().toLowerCase() === value.toLowerCase());
+  if (byEmail) return byEmail;
+  const byName = clients.filter(client => normalizeImportText(client.name) === normalizeImportText(value));
+  if (byName.length === 1) return byName[0];
+  return byName.length > 1 ? 'Hay varios clientes con ese nombre; indique el correo' : 'No hay ningún cliente con ese correo o nombre';
+}
+
+const serialKey = (serialNumber: string) => serialNumber.replace(/\s+/g, '').toUpperCase();
+
+// Valida cada fila y marca como duplicados los equipos cuyo número de serie ya existe o se repite en el archivo
+async function prepareEquipment(request: ImportRequest): Promise<PreparedImport<InsertEquipment>> {
+  assertRequiredColumns('equipment', request.mapping);
+  const [clients, existing] = await Promise.all([storage.listClients(), storage.listEquipment()]);
+  if (request.defaultClientId && !clients.some(client => client.id === request.defaultClientId)) {
+    throw new ImportError('Cliente no encontrado', 404);
+  }
+  const existingBySerial = new Map(existing.map(item => [serialKey(item.serialNumber), item]));
+  const seen = new Map<string, number>();
+  const prepared: PreparedImport<InsertEquipment> = { results: [], records: [] };
+
+  request.rows.forEach((row, index) => {
+    if (isEmptyRow(row)) return;
+    const values = readRow('equipment', row, request.mapping);
+    const label = [values.brand, values.model, values.serialNumber && `(${values.serialNumber})`].filter(Boolean).join(' ');
+    const result = newResult(index, label || `Fila ${index + 2}`);
+    prepared.results.push(result);
+
+    const client = values.client ? findClient(clients, values.client) : undefined;
+    const parsed = insertEquipmentSchema.safeParse({
+      type: parseEquipmentType(values.type),
+      brand: values.brand,
+      model: values.model,
+      serialNumber: values.serialNumber,
+      description: values.description,
+      location: values.location,
+      company: values.company,
+      clientId: typeof client === 'object' ? client.id : request.defaultClientId ?? null,
+      warrantyExpiresAt: parseImportDate(values.warrantyExpiresAt),
+    });
+
+    const errors = parsed.success ? [] : toIssues(parsed.error, path => (path === 'clientId' ? 'client' : path));
+    if (typeof client === 'string') errors.push({ field: 'client', message: client });
+    if (!parsed.success || errors.length > 0) {
+      result.status = 'invalid';
+      result.errors = errors;
+      return;
+    }
+
+    const key = serialKey(parsed.data.serialNumber);
+    const duplicate = existingBySerial.get(key);
+    if (duplicate || seen.has(key)) {
+      result.status = 'duplicate';
+      result.duplicateOf = duplicate
+        ? `Equipo existente: ${duplicate.brand} ${duplicate.model}`
+        : `Número de serie repetido en la fila ${seen.get(key)}`;
+      return;
+    }
+    seen.set(key, result.rowNumber);
+    prepared.records.push({ index: prepared.results.length - 1, data: parsed.data });
+  });
+  return prepared;
+}
+
+function summarize(entity: ImportEntity, results: ImportRowResult[]): ImportPreview {
+  return {
+    entity,
+    rows: results,
+    valid: results.filter(row => row.status === 'valid' || row.status === 'created').length,
+    invalid: results.filter(row => row.status === 'invalid').length,
+    duplicates: results.filter(row => row.status === 'duplicate').length,
+  };
+}
+
+// Resultado de la validación sin guardar nada
+export async function previewImport(entity: ImportEntity, request: ImportRequest): Promise<ImportPreview> {
+  const { results } = entity === 'clients' ? await prepareClients(request) : await prepareEquipment(request);
+  return summarize(entity, results);
+}
+
+// Vuelve a validar contra los datos actuales y guarda las filas válidas en una sola transacción.
+// Las filas inválidas y los duplicados se omiten y quedan en el reporte.
+export async function commitImport(entity: ImportEntity, request: ImportRequest, changedBy?: number): Promise<ImportReport> {
+  let results: ImportRowResult[];
+  if (entity === 'clients') {
+    const prepared = await prepareClients(request);
+    const created = await storage.importClients(prepared.records.map(record => record.data), changedBy);
+    prepared.records.forEach((record, i) => markCreated(prepared.results[record.index], created[i].id));
+    results = prepared.results;
+  } else {
+    const prepared = await prepareEquipment(request);
+    const created = await storage.importEquipment(prepared.records.map(record => record.data), changedBy);
+    prepared.records.forEach((record, i) => markCreated(prepared.results[record.index], created[i].id));
+    results = prepared.results;
+  }
+
+  const summary = summarize(entity, results);
+  return { ...summary, created: results.filter(row => row.status === 'created').length };
+}
+
+function markCreated(result: ImportRowResult, id: number) {
+  result.status = 'created';
+  result.createdId = id;
+}
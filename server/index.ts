@@ -2,12 +2,18 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { configureEmailService } from "./email";
+import { recordRequest } from "./system-info";
+import { checkApprovalSecret } from "./approval-tokens";
+import { receiveImportRequest } from "./imports";
 import puppeteer from 'puppeteer';
 import path from "path";
 
 const app = express();
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// Las imágenes y respaldos se suben como multipart en sus propias rutas; las importaciones
+// leen su JSON antes que el parser general para usar su propio límite
+app.use('/api/imports', receiveImportRequest);
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: false, limit: '1mb' }));
 // app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 
 app.use((req, res, next) => {
@@ -24,6 +30,7 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
+      recordRequest(duration, res.statusCode);
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
@@ -52,6 +59,7 @@ if (process.env.RENDER) {
 }
 
 (async () => {
+  checkApprovalSecret();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -107,6 +115,26 @@ if (process.env.RENDER) {
     console.error('Error al configurar el servicio de correo electrónico:', error);
   }
   
+  // Respaldos automáticos según la programación guardada en la base de datos
+  const { startBackupScheduler } = await import('./backup');
+  startBackupScheduler();
+  
+  // Estado de los técnicos calculado a partir de su agenda
+  const { startTechnicianStatusScheduler } = await import('./schedule');
+  startTechnicianStatusScheduler();
+  
+  // Órdenes de mantenimiento preventivo generadas por los contratos
+  const { startMaintenanceScheduler } = await import('./maintenance');
+  startMaintenanceScheduler();
+  
+  // Cola de correos salientes: envíos y reintentos en segundo plano
+  try {
+    const { startEmailOutboxWorker } = await import('./email-outbox');
+    await startEmailOutboxWorker();
+  } catch (error) {
+    console.error('Error al iniciar la cola de correo:', error);
+  }
+  
   server.listen({
     port,
     host: "0.0.0.0",
@@ -0,0 +1,111 @@
+import type { MaintenanceContract, ServiceOrder, UpcomingMaintenanceVisit } from '@shared/schema';
+import { contractVisitsBetween, nextContractVisit } from '@shared/maintenance';
+import { storage } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Genera las órdenes pendientes de la visita programada de un contrato, una por equipo, y
+// avanza la próxima visita. Las visitas que se perdieron con el servidor apagado no se
+// recuperan: se genera solo la más reciente y se continúa con la siguiente fecha futura.
+export async function generateMaintenanceVisit(contract: MaintenanceContract, now: Date = new Date()): Promise<ServiceOrder[]> {
+  if (!contract.nextVisitAt) return [];
+  const visitAt = new Date(contract.nextVisitAt);
+
+  // Si una ejecución anterior falló a la mitad, los equipos que ya tienen su orden no se repiten
+  const generated = await storage.listServiceOrdersByMaintenanceContract(contract.id);
+  const alreadyGenerated = new Set(
+    generated.filter(order => new Date(order.requestDate) >= visitAt).map(order => order.equipmentId)
+  );
+
+  const orders: ServiceOrder[] = [];
+  for (const equipmentId of contract.equipmentIds) {
+    if (alreadyGenerated.has(equipmentId)) continue;
+
+    // Los equipos eliminados o que cambiaron de propietario dejan de recibir visitas
+    const item = await storage.getEquipment(equipmentId);
+    if (!item || item.clientId !== contract.clientId) {
+      console.warn(`Contrato "${contract.name}": el equipo ${equipmentId} ya no pertenece al cliente, se omite la visita`);
+      continue;
+    }
+
+    // No se envía el aviso de orden creada: el cliente ya conoce el calendario de su contrato
+    orders.push(await storage.createServiceOrder({
+      clientId: contract.clientId,
+      equipmentId,
+      technicianId: contract.technicianId,
+      description: contract.description,
+      status: 'pending',
+      maintenanceContractId: contract.id,
+    }));
+  }
+
+  const nextVisitAt = nextContractVisit(contract, new Date(Math.max(now.getTime(), visitAt.getTime()) + 1));
+  await storage.recordMaintenanceVisit(contract.id, visitAt, nextVisitAt);
+  return orders;
+}
+
+// Visitas de los contratos activos en los próximos `days` días, las más próximas primero
+export async function listUpcomingVisits(days: number, now: Date = new Date()): Promise<UpcomingMaintenanceVisit[]> {
+  const [contracts, clients, technicians, users] = await Promise.all([
+    storage.listMaintenanceContracts(),
+    storage.listClients(),
+    storage.listTechnicians(),
+    storage.listUsers(),
+  ]);
+  const until = new Date(now.getTime() + days * DAY_MS);
+
+  const visits: UpcomingMaintenanceVisit[] = [];
+  for (const contract of contracts) {
+    if (!contract.active || !contract.nextVisitAt) continue;
+
+    const technician = technicians.find(t => t.id === contract.technicianId);
+    const technicianName = technician ? users.find(u => u.id === technician.userId)?.fullName ?? null : null;
+    const clientName = clients.find(c => c.id === contract.clientId)?.name ?? 'Cliente desconocido';
+
+    // Desde la próxima visita pendiente, que puede estar atrasada si el programador aún no la generó
+    for (const dueAt of contractVisitsBetween(contract, new Date(contract.nextVisitAt), until)) {
+      visits.push({
+        contractId: contract.id,
+        contractName: contract.name,
+        clientId: contract.clientId,
+        clientName,
+        technicianName,
+        equipmentCount: contract.equipmentIds.length,
+        dueAt: dueAt.toISOString(),
+      });
+    }
+  }
+
+  return visits.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let schedulerRunning = false;
+
+async function runMaintenanceScheduler() {
+  if (schedulerRunning) return;
+  schedulerRunning = true;
+
+  try {
+    const now = new Date();
+    for (const contract of await storage.listDueMaintenanceContracts(now)) {
+      try {
+        const orders = await generateMaintenanceVisit(contract, now);
+        console.log(`Contrato "${contract.name}": ${orders.length} órdenes de mantenimiento generadas`);
+      } catch (error) {
+        console.error(`Error al generar la visita del contrato "${contract.name}":`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error al revisar los contratos de mantenimiento:', error);
+  } finally {
+    schedulerRunning = false;
+  }
+}
+
+// Revisa cada minuto si algún contrato tiene una visita que generar
+export function startMaintenanceScheduler() {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(runMaintenanceScheduler, 60 * 1000);
+  void runMaintenanceScheduler();
+}
@@ -0,0 +1,96 @@
+import type { CompanySettings, EmailTemplateEvent, OrderStatus, ServiceOrder, Technician } from '@shared/schema';
+import { storage } from './storage';
+import { enqueueEmail } from './email-outbox';
+import { renderOrderEmail } from './email-templates';
+import { generateServiceOrderPDF, mapStatusToSpanish } from './pdf-generator';
+
+// Datos de empresa para el PDF cuando todavía no existe la configuración
+const fallbackCompanySettings: CompanySettings = {
+  id: 0,
+  name: 'Sistemas RST',
+  logoUrl: null,
+  address: '',
+  phone: '',
+  email: '',
+  website: null,
+  taxId: null,
+  smtpHost: null,
+  smtpPort: null,
+  smtpSecure: true,
+  smtpUser: null,
+  smtpPassword: null,
+  smtpFromName: null,
+  smtpFromEmail: null,
+  updatedAt: new Date(),
+};
+
+// Plantilla que corresponde a cada estado nuevo de la orden
+function eventForStatus(status: OrderStatus): EmailTemplateEvent {
+  switch (status) {
+    case 'completed':
+      return 'order_completed';
+    case 'warranty':
+      return 'warranty_opened';
+    default:
+      return 'status_changed';
+  }
+}
+
+// Genera el PDF de la orden listo para adjuntarse a un correo
+export async function generateOrderPdfAttachment(order: ServiceOrder) {
+  const client = await storage.getClient(order.clientId);
+  const equipment = await storage.getEquipment(order.equipmentId);
+  if (!client || !equipment) {
+    throw new Error('La orden no tiene cliente o equipo');
+  }
+
+  const technician: Technician = (order.technicianId ? await storage.getTechnician(order.technicianId) : undefined) ?? {
+    id: 0,
+    userId: 0,
+    specialization: 'No asignado',
+    status: 'available',
+    createdAt: new Date(),
+  };
+
+  const content = await generateServiceOrderPDF(
+    order,
+    client,
+    equipment,
+    technician,
+    await storage.getCompanySettings() ?? fallbackCompanySettings,
+    await storage.listServiceOrderLineItems(order.id)
+  );
+  return { filename: `Orden_${order.orderNumber}.pdf`, content, contentType: 'application/pdf' };
+}
+
+// Aviso automático al cliente cuando cambia el estado de una orden. Respeta los estados
+// configurados y la preferencia del cliente; nunca lanza errores para no afectar la petición.
+// "waiting_approval" no se incluye porque ese aviso es el enlace de aprobación.
+export async function notifyStatusChange(previous: ServiceOrder | undefined, updated: ServiceOrder) {
+  if (!previous || previous.status === updated.status || updated.status === 'waiting_approval') return;
+
+  try {
+    const settings = await storage.getNotificationSettings();
+    if (!settings.notifyStatuses.includes(updated.status)) return;
+
+    const event = eventForStatus(updated.status);
+    const { subject, html, client } = await renderOrderEmail(event, updated, {
+      previousStatus: mapStatusToSpanish(previous.status),
+    });
+    if (!client?.email || !client.emailNotifications) return;
+
+    const attachments = [];
+    if (updated.status === 'completed' && settings.attachPdfOnCompletion) {
+      try {
+        attachments.push(await generateOrderPdfAttachment(updated));
+      } catch (pdfError) {
+        // Sin PDF el aviso se envía de todos modos
+        console.error(`Error al generar el PDF de la orden ${updated.orderNumber}:`, pdfError);
+      }
+    }
+
+    await enqueueEmail({ to: client.email, subject, html, attachments }, { serviceOrderId: updated.id, event });
+  } catch (error) {
+    console.error(`Error al notificar el cambio de estado de la orden ${updated.orderNumber}:`, error);
+  }
+}
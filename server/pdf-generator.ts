@@ -1,11 +1,13 @@
 import PDFDocument from 'pdfkit';
-import { ServiceOrder, Client, Equipment, Technician, CompanySettings } from '@shared/schema';
+import { ServiceOrder, ServiceOrderLineItem, Client, Equipment, Technician, CompanySettings } from '@shared/schema';
+import { formatMoney, fromCents, calculateLineItem } from '@shared/money';
 import fs from 'fs';
 import path from 'path';
 import { format } from 'date-fns';
 import puppeteer from 'puppeteer';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { inlineImage } from './images';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -14,6 +16,22 @@ const __dirname = dirname(__filename);
 const PDFSHIFT_API_KEY = process.env.PDFSHIFT_API_KEY;
 const PDFSHIFT_API_URL = 'https://api.pdfshift.io/v3/convert/pdf';
 
+// Estado del subsistema de PDF: plantilla HTML, PDFShift y el Chromium de Puppeteer
+export function getPdfStatus() {
+  let chromiumPath: string | null = null;
+  try {
+    chromiumPath = puppeteer.executablePath();
+  } catch (error) {
+    chromiumPath = null;
+  }
+  
+  return {
+    templateAvailable: fs.existsSync(path.join(__dirname, 'pdf-template.html')),
+    pdfshiftConfigured: !!PDFSHIFT_API_KEY,
+    chromiumAvailable: !!chromiumPath && fs.existsSync(chromiumPath),
+  };
+}
+
 // Función para generar PDF usando PDFShift (más rápido)
 async function generatePDFWithPDFShift(html: string): Promise<Buffer> {
   if (!PDFSHIFT_API_KEY) {
@@ -55,14 +73,28 @@ async function generatePDFWithPDFShift(html: string): Promise<Buffer> {
   }
 }
 
+// Firma y logo se guardan en /uploads; PDFKit dibuja de forma síncrona, así que se leen antes
+async function inlineOrderImages(serviceOrder: ServiceOrder, companySettings: CompanySettings) {
+  return {
+    serviceOrder: serviceOrder.clientSignature
+      ? { ...serviceOrder, clientSignature: await inlineImage(serviceOrder.clientSignature) }
+      : serviceOrder,
+    companySettings: companySettings.logoUrl
+      ? { ...companySettings, logoUrl: await inlineImage(companySettings.logoUrl) }
+      : companySettings,
+  };
+}
+
 // Función para generar PDF de orden de servicio
 export async function generateServiceOrderPDF(
   serviceOrder: ServiceOrder,
   client: Client,
   equipment: Equipment,
   technician: Technician,
-  companySettings: CompanySettings
+  companySettings: CompanySettings,
+  lineItems: ServiceOrderLineItem[] = []
 ): Promise<Buffer> {
+  ({ serviceOrder, companySettings } = await inlineOrderImages(serviceOrder, companySettings));
   return new Promise((resolve, reject) => {
     try {
       // Crear un nuevo documento PDF
@@ -85,7 +117,7 @@ export async function generateServiceOrderPDF(
       });
 
       // Iniciar la generación del PDF
-      createServiceOrderPDFContent(doc, serviceOrder, client, equipment, technician, companySettings);
+      createServiceOrderPDFContent(doc, serviceOrder, client, equipment, technician, companySettings, lineItems);
 
       // Finalizar el documento para generar el archivo
       doc.end();
@@ -103,7 +135,8 @@ function createServiceOrderPDFContent(
   client: Client,
   equipment: Equipment,
   technician: Technician,
-  companySettings: CompanySettings
+  companySettings: CompanySettings,
+  lineItems: ServiceOrderLineItem[]
 ) {
   // Añadir fuentes y configuración
   doc.font('Helvetica');
@@ -142,7 +175,7 @@ function createServiceOrderPDFContent(
   }
   
   // Costos
-  addCostSection(doc, serviceOrder);
+  addCostSection(doc, serviceOrder, lineItems);
   
   // Firmas (cliente y técnico)
   addSignatureSection(doc, serviceOrder);
@@ -173,10 +206,14 @@ function addHeader(doc: PDFKit.PDFDocument, companySettings: CompanySettings) {
   // Verificar si hay logo
   if (companySettings.logoUrl) {
     try {
-      // Para simplificar, asumimos que el logo es una URL relativa a la carpeta public
-      const logoPath = path.join(process.cwd(), 'public', companySettings.logoUrl);
-      if (fs.existsSync(logoPath)) {
-        doc.image(logoPath, 60, 60, { width: 120 });
+      if (companySettings.logoUrl.startsWith('data:')) {
+        doc.image(Buffer.from(companySettings.logoUrl.split(',')[1], 'base64'), 60, 60, { width: 120 });
+      } else {
+        // Logos anteriores guardados como URL relativa a la carpeta public
+        const logoPath = path.join(process.cwd(), 'public', companySettings.logoUrl);
+        if (fs.existsSync(logoPath)) {
+          doc.image(logoPath, 60, 60, { width: 120 });
+        }
       }
     } catch (error) {
       console.error('Error al cargar el logo:', error);
@@ -244,7 +281,7 @@ function addServiceDetailsSection(doc: PDFKit.PDFDocument, serviceOrder: Service
 }
 
 // Función para convertir el status en texto legible en español
-function mapStatusToSpanish(status: string): string {
+export function mapStatusToSpanish(status: string): string {
   const statusMap: Record<string, string> = {
     'pending': 'Pendiente',
     'waiting_approval': 'Esperando Aprobación',
@@ -320,7 +357,7 @@ function addMaterialsSection(doc: PDFKit.PDFDocument, serviceOrder: ServiceOrder
 }
 
 // Función para añadir la sección de costos
-function addCostSection(doc: PDFKit.PDFDocument, serviceOrder: ServiceOrder) {
+function addCostSection(doc: PDFKit.PDFDocument, serviceOrder: ServiceOrder, lineItems: ServiceOrderLineItem[]) {
   doc.fontSize(12)
      .fillColor('#333333')
      .text('COSTO DEL SERVICIO', { underline: true })
@@ -334,8 +371,20 @@ function addCostSection(doc: PDFKit.PDFDocument, serviceOrder: ServiceOrder) {
     doc.fontSize(10)
        .fillColor('#666666');
     
-    if (serviceOrder.cost) {
-      doc.text(`Costo total: $${serviceOrder.cost.toFixed(2)} MXN`);
+    // Desglose de partidas: cantidad x descripción e importe antes de impuestos
+    for (const item of lineItems) {
+      const { subtotal } = calculateLineItem(item);
+      const label = item.type === 'part' ? 'Refacción' : 'Mano de obra';
+      doc.text(`${Number(item.quantity)} x ${item.description} (${label}) - ${formatMoney(fromCents(subtotal))}`);
+    }
+    if (lineItems.length > 0) {
+      doc.moveDown(0.5)
+         .text(`Subtotal: ${formatMoney(serviceOrder.subtotal)} MXN`)
+         .text(`IVA: ${formatMoney(serviceOrder.taxAmount)} MXN`);
+    }
+    
+    if (serviceOrder.total !== null) {
+      doc.text(`Costo total: ${formatMoney(serviceOrder.total)} MXN`);
     } else {
       doc.text('Costo total: Pendiente');
     }
@@ -423,9 +472,14 @@ export async function generateMultipleServiceOrdersPDF(
     client: Client,
     equipment: Equipment,
     technician: Technician,
-    companySettings: CompanySettings
+    companySettings: CompanySettings,
+    lineItems?: ServiceOrderLineItem[]
   }[]
 ): Promise<Buffer> {
+  orders = await Promise.all(orders.map(async (item) => ({
+    ...item,
+    ...(await inlineOrderImages(item.serviceOrder, item.companySettings)),
+  })));
   return new Promise((resolve, reject) => {
     try {
       const doc = new PDFDocument({
@@ -452,7 +506,8 @@ export async function generateMultipleServiceOrdersPDF(
           item.client,
           item.equipment,
           item.technician,
-          item.companySettings
+          item.companySettings,
+          item.lineItems ?? []
         );
       });
       doc.end();
@@ -468,6 +523,14 @@ function fillOrderHtmlTemplate(orderData: Record<string, any>): string {
   let template = fs.readFileSync(path.join(__dirname, 'pdf-template.html'), 'utf8');
   // URL base del backend para imágenes
   const BASE_URL = process.env.BASE_URL || 'https://adminrst.onrender.com';
+  // Partidas de la cotización (cada fila ya viene formateada). Va antes del
+  // reemplazo general para que sus campos no tomen los valores de la orden
+  const lineItemRows = Array.isArray(orderData.lineItems) ? orderData.lineItems : [];
+  template = template.replace(/{{#each lineItems}}([\s\S]*?){{\/each}}/, (_, rowTemplate: string) =>
+    lineItemRows.map((item: Record<string, string>) =>
+      rowTemplate.replace(/{{(\w+)}}/g, (__, field: string) => item[field] ?? '')
+    ).join('')
+  );
   // Reemplazo simple de {{campo}} por el valor correspondiente
   Object.entries(orderData).forEach(([key, value]) => {
     const regex = new RegExp(`{{${key}}}`, 'g');
@@ -475,11 +538,8 @@ function fillOrderHtmlTemplate(orderData: Record<string, any>): string {
   });
   // Manejo simple para arrays (fotos)
   if (Array.isArray(orderData.photos)) {
-    const photosHtml = orderData.photos.map((url: string) => {
-      // Si la URL es relativa, la convierto en absoluta
-      const absoluteUrl = url.startsWith('/uploads/') ? `${BASE_URL}${url}` : optimizeCloudinaryUrl(url);
-      return `<img src="${absoluteUrl}" />`;
-    }).join('');
+    // Las fotos guardadas llegan como data URI (ver inlineImages)
+    const photosHtml = orderData.photos.map((url: string) => `<img src="${url}" />`).join('');
     template = template.replace(/{{#each photos}}([\s\S]*?){{\/each}}/, photosHtml);
   }
   // Firma
@@ -574,11 +634,3 @@ export async function generateBulkOrdersHtmlPDF(ordersData: Record<string, any>[
   }
   return pdfBuffer as Buffer;
 }
-
-function optimizeCloudinaryUrl(url: string): string {
-  // Si la URL es de Cloudinary, inserta transformación para w_600,q_60
-  if (url.includes('res.cloudinary.com')) {
-    return url.replace('/upload/', '/upload/w_600,q_60/');
-  }
-  return url;
-}
\ No newline at end of file
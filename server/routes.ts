@@ -1,21 +1,44 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage, hashPassword } from "./storage";
+import { storage, hashPassword, InvalidStatusTransitionError, InsufficientStockError, AppointmentConflictError } from "./storage";
 import { 
   insertClientSchema, insertTechnicianSchema, insertEquipmentSchema, 
   insertServiceOrderSchema, updateServiceOrderSchema, insertCompanySettingsSchema,
-  insertUserSchema
+  insertUserSchema, clientApprovalResponseSchema, technicianOrderUpdateSchema, listQuerySchema, auditQuerySchema, lineItemListSchema,
+  insertPartSchema, stockMovementInputSchema, updateBackupSettingsSchema, smtpTestRequestSchema, emailOutboxQuerySchema,
+  emailTemplateEventEnum, updateEmailTemplateSchema, updateNotificationSettingsSchema, emailTemplatePreviewSchema, type EmailTemplateEvent,
+  attachmentUploadSchema, insertAppointmentSchema, updateAppointmentSchema, appointmentQuerySchema, calendarFeedInputSchema,
+  insertSlaPolicySchema, insertBusinessCalendarSchema, slaReportQuerySchema, type InsertSlaPolicy,
+  insertMaintenanceContractSchema, upcomingVisitsQuerySchema, type InsertMaintenanceContract, type MaintenanceContract,
+  importEntities, importRequestSchema, type ImportEntity,
+  type ServiceOrder, type LineItemInput
 } from "@shared/schema";
-import { sendEmail, generateNewOrderEmail, loadEmailConfigFromDatabase } from "./email";
-import { generateServiceOrderPDF, generateMultipleServiceOrdersPDF, generateOrderHtmlPDF, generateBulkOrdersHtmlPDF } from "./pdf-generator";
+import { loadEmailConfigFromDatabase, testSmtpConnection } from "./email";
+import { enqueueEmail, resendEmail, summarizeEmail } from "./email-outbox";
+import { renderOrderEmail, listEmailTemplates, previewEmailTemplate, findUnknownPlaceholders } from "./email-templates";
+import { generateOrderPdfAttachment, notifyStatusChange } from "./order-notifications";
+import { createApprovalToken, verifyApprovalToken } from "./approval-tokens";
+import { getSystemInfo } from "./system-info";
+import { getEquipmentHistory, getOwnershipHistory } from "./equipment-history";
+import { syncTechnicianStatus, withAppointmentDetails } from "./schedule";
+import { withSlaStatus, listSlaAlerts, buildSlaComplianceReport } from "./sla";
+import { listUpcomingVisits } from "./maintenance";
+import { receiveImportFile, parseImportFile, previewImport, commitImport, ImportError } from "./imports";
+import { createCalendarFeed, listCalendarFeeds, renderCalendarFeed, hashFeedToken, CalendarFeedError } from "./calendar-feeds";
+import { fileStorage, isValidFileKey } from "./file-storage";
+import { processPhotos, processSignature, saveSignatureImage, inlineImage, inlineImages, PhotoError } from "./images";
+import { receiveFiles, saveAttachment, saveUploadedImage, removeAttachment, withUploaderNames, UploadError } from "./attachments";
+import { createBackup, listBackups, getBackupPath, pruneBackups, previewRestore, restoreBackup, nextBackupRun, receiveBackupFile, readUploadedBackup } from "./backup";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { formatMoney, fromCents, calculateLineItem } from "@shared/money";
+import { thumbnailUrl } from "@shared/uploads";
+import { generateMultipleServiceOrdersPDF, generateOrderHtmlPDF, generateBulkOrdersHtmlPDF } from "./pdf-generator";
 import archiver from "archiver";
 import stream from "stream";
-import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
-import cloudinary from 'cloudinary';
 import fetch from 'node-fetch';
 
 // Middleware to check if user is authenticated
@@ -26,30 +49,145 @@ const ensureAuthenticated = (req: Request, res: Response, next: Function) => {
   res.status(401).json({ message: "No autenticado" });
 };
 
-// Middleware to check if user has admin role
-const ensureAdmin = (req: Request, res: Response, next: Function) => {
-  if (req.isAuthenticated() && req.user.role === 'admin') {
+// Middleware to check if the user's role grants any of the given permissions
+const requirePermission = (...allowed: Permission[]) => (req: Request, res: Response, next: Function) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "No autenticado" });
+  }
+  const role = req.user.role;
+  if (allowed.some(permission => hasPermission(role, permission))) {
     return next();
   }
   res.status(403).json({ message: "No autorizado" });
 };
 
+// URL base pública de la aplicación para los enlaces enviados por correo
+const getPublicBaseUrl = (req: Request) => {
+  return process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+};
+
+// Genera el enlace de aprobación de una orden y lo pone en la cola de correo del cliente
+async function sendApprovalRequest(serviceOrder: ServiceOrder, baseUrl: string) {
+  const client = await storage.getClient(serviceOrder.clientId);
+  if (!client || !client.email) {
+    throw new Error("El cliente no tiene dirección de correo electrónico");
+  }
+  
+  const { token, expiresAt } = createApprovalToken(serviceOrder.id);
+  const approvalUrl = `${baseUrl}/approve/${token}`;
+  
+  const { subject, html } = await renderOrderEmail('waiting_approval', serviceOrder, {
+    approvalUrl,
+    expiresAt: expiresAt.toLocaleDateString('es-MX'),
+  });
+  await enqueueEmail({ to: client.email, subject, html }, { serviceOrderId: serviceOrder.id, event: 'waiting_approval' });
+  
+  return { approvalUrl, expiresAt, sentTo: client.email };
+}
+
+// Con "page" en la consulta los listados responden { items, total, page, pageSize };
+// sin él se mantiene la lista completa que usan selectores y reportes.
+function isPaginatedRequest(req: Request) {
+  return req.query.page !== undefined;
+}
+
+// Las partidas pueden venir junto con la orden; se validan por separado
+// porque se guardan en su propia tabla.
+function extractLineItems(orderData: Record<string, any>) {
+  const { lineItems, ...rest } = orderData;
+  if (lineItems === undefined) {
+    return { orderData: rest, lineItems: undefined };
+  }
+  return { orderData: rest, lineItems: lineItemListSchema.safeParse(lineItems) };
+}
+
+// Verifica que las refacciones del inventario de una orden nueva existan y alcancen,
+// para no crear la orden si después fallaría el descuento de existencias.
+// Devuelve el mensaje de error o null si todo está disponible.
+async function checkPartsAvailability(items: LineItemInput[]): Promise<string | null> {
+  for (const item of items) {
+    if (!item.partId) continue;
+    const part = await storage.getPart(item.partId);
+    if (!part) return "Refacción no encontrada";
+    const requested = items
+      .filter(other => other.partId === item.partId)
+      .reduce((sum, other) => sum + other.quantity, 0);
+    if (part.stockQuantity < requested) {
+      return `Existencia insuficiente de "${part.name}" (disponible: ${part.stockQuantity}, requerido: ${requested})`;
+    }
+  }
+  return null;
+}
+
+// Obtiene la orden indicada si está asignada al técnico del usuario autenticado.
+// Si no, responde con el error correspondiente y devuelve undefined.
+async function getAssignedOrder(req: Request, res: Response) {
+  const technician = await storage.getTechnicianByUserId(req.user!.id);
+  if (!technician) {
+    res.status(404).json({ message: "El usuario no tiene perfil de técnico" });
+    return undefined;
+  }
+  
+  const order = await storage.getServiceOrder(parseInt(req.params.id));
+  if (!order) {
+    res.status(404).json({ message: "Orden de servicio no encontrada" });
+    return undefined;
+  }
+  
+  if (order.technicianId !== technician.id) {
+    res.status(403).json({ message: "La orden no está asignada a este técnico" });
+    return undefined;
+  }
+  
+  return { technician, order };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Configure Cloudinary only when needed
-  // try {
-  //   cloudinary.config({
-  //     cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
-  //     api_key: process.env.CLOUDINARY_API_KEY,
-  //     api_secret: process.env.CLOUDINARY_API_SECRET,
-  //   });
-  // } catch (error) {
-  //   console.warn('⚠️ Cloudinary configuration failed:', error);
-  // }
   // Set up auth routes (register, login, logout, user)
   setupAuth(app, storage);
-  
+
+  // Archivos subidos (fotos de las órdenes), solo para usuarios con acceso a las órdenes
+  app.get("/uploads/*", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const key = req.params[0];
+      const file = isValidFileKey(key) ? await fileStorage.read(key) : undefined;
+      if (!file) {
+        return res.status(404).json({ message: "Archivo no encontrado" });
+      }
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      res.send(file.content);
+    } catch (error) {
+      console.error("Error al leer archivo subido:", error);
+      res.status(500).json({ message: "Error al obtener el archivo" });
+    }
+  });
+
+  // Fotos subidas antes de guardar la orden (campo "files"); la orden guarda las URLs devueltas
+  app.post("/api/uploads/images", requirePermission("orders:write", "orders:field"), receiveFiles("files"), async (req, res) => {
+    try {
+      const files = (req.files ?? []) as Express.Multer.File[];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No se recibió ningún archivo" });
+      }
+
+      const urls = [];
+      for (const file of files) {
+        urls.push(await saveUploadedImage(file));
+      }
+      res.status(201).json({ urls });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error al guardar imágenes:", error);
+      res.status(500).json({ message: "Error al guardar las imágenes" });
+    }
+  });
+
   // Dashboard stats
-  app.get("/api/dashboard/stats", ensureAuthenticated, async (req, res) => {
+  app.get("/api/dashboard/stats", requirePermission("dashboard:read"), async (req, res) => {
     try {
       const orders = await storage.listServiceOrders();
       const clients = await storage.listClients();
@@ -86,7 +224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Recent orders for dashboard
-  app.get("/api/dashboard/recent-orders", ensureAuthenticated, async (req, res) => {
+  app.get("/api/dashboard/recent-orders", requirePermission("dashboard:read"), async (req, res) => {
     try {
       const orders = await storage.listServiceOrders();
       const clients = await storage.listClients();
@@ -121,7 +259,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Technicians status for dashboard
-  app.get("/api/dashboard/technicians-status", ensureAuthenticated, async (req, res) => {
+  app.get("/api/dashboard/technicians-status", requirePermission("dashboard:read"), async (req, res) => {
     try {
       const technicians = await storage.listTechnicians();
       const users = await storage.listUsers();
@@ -142,9 +280,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Órdenes abiertas con compromisos SLA en riesgo o incumplidos
+  app.get("/api/dashboard/sla-alerts", requirePermission("dashboard:read"), async (req, res) => {
+    try {
+      res.json(await listSlaAlerts());
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las alertas de SLA" });
+    }
+  });
+  
+  // Búsqueda global de texto completo (órdenes, clientes y equipos)
+  app.get("/api/search", requirePermission("dashboard:read"), async (req, res) => {
+    try {
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 20);
+      
+      if (q.length < 2) {
+        return res.json({ orders: [], clients: [], equipment: [] });
+      }
+      
+      const results = await storage.search(q, limit);
+      
+      // Solo se devuelven los grupos que el usuario puede consultar
+      const role = req.user!.role;
+      res.json({
+        orders: hasPermission(role, "orders:read") ? results.orders : [],
+        clients: hasPermission(role, "clients:read") ? results.clients : [],
+        equipment: hasPermission(role, "equipment:read") ? results.equipment : [],
+      });
+    } catch (error) {
+      console.error("Error en la búsqueda:", error);
+      res.status(500).json({ message: "Error al realizar la búsqueda" });
+    }
+  });
+  
   // Client routes
-  app.get("/api/clients", ensureAuthenticated, async (req, res) => {
+  app.get("/api/clients", requirePermission("clients:read"), async (req, res) => {
     try {
+      if (isPaginatedRequest(req)) {
+        const parsedQuery = listQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ 
+            message: "Parámetros de consulta inválidos", 
+            error: parsedQuery.error.errors 
+          });
+        }
+        return res.json(await storage.queryClients(parsedQuery.data));
+      }
+      
       const clients = await storage.listClients();
       res.json(clients);
     } catch (error) {
@@ -152,17 +335,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/clients", ensureAuthenticated, async (req, res) => {
+  app.post("/api/clients", requirePermission("clients:write"), async (req, res) => {
     try {
       const validatedData = insertClientSchema.parse(req.body);
-      const client = await storage.createClient(validatedData);
+      const client = await storage.createClient(validatedData, req.user?.id);
       res.status(201).json(client);
     } catch (error) {
       res.status(400).json({ message: "Datos inválidos", error });
     }
   });
   
-  app.get("/api/clients/:id", ensureAuthenticated, async (req, res) => {
+  app.get("/api/clients/:id", requirePermission("clients:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const client = await storage.getClient(id);
@@ -175,11 +358,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/clients/:id", ensureAuthenticated, async (req, res) => {
+  app.put("/api/clients/:id", requirePermission("clients:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertClientSchema.parse(req.body);
-      const updatedClient = await storage.updateClient(id, validatedData);
+      const updatedClient = await storage.updateClient(id, validatedData, req.user?.id);
       
       if (!updatedClient) {
         return res.status(404).json({ message: "Cliente no encontrado" });
@@ -191,10 +374,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/clients/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/clients/:id", requirePermission("clients:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteClient(id);
+      const success = await storage.deleteClient(id, req.user?.id);
       
       if (!success) {
         return res.status(404).json({ message: "Cliente no encontrado" });
@@ -207,7 +390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Technician routes
-  app.get("/api/technicians", ensureAuthenticated, async (req, res) => {
+  app.get("/api/technicians", requirePermission("technicians:read"), async (req, res) => {
     try {
       const technicians = await storage.listTechnicians();
       const users = await storage.listUsers();
@@ -228,7 +411,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/technicians", ensureAuthenticated, async (req, res) => {
+  app.post("/api/technicians", requirePermission("technicians:write"), async (req, res) => {
     try {
       const validatedData = insertTechnicianSchema.parse(req.body);
       
@@ -244,14 +427,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Ya existe un técnico para este usuario" });
       }
       
-      const technician = await storage.createTechnician(validatedData);
+      const technician = await storage.createTechnician(validatedData, req.user?.id);
       res.status(201).json(technician);
     } catch (error) {
       res.status(400).json({ message: "Datos inválidos", error });
     }
   });
   
-  app.get("/api/technicians/:id", ensureAuthenticated, async (req, res) => {
+  app.get("/api/technicians/:id", requirePermission("technicians:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const technician = await storage.getTechnician(id);
@@ -266,27 +449,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/technicians/:id", ensureAuthenticated, async (req, res) => {
+  app.put("/api/technicians/:id", requirePermission("technicians:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertTechnicianSchema.parse(req.body);
       
-      const updatedTechnician = await storage.updateTechnician(id, validatedData);
+      const updatedTechnician = await storage.updateTechnician(id, validatedData, req.user?.id);
       
       if (!updatedTechnician) {
         return res.status(404).json({ message: "Técnico no encontrado" });
       }
       
-      res.json(updatedTechnician);
+      // Al volver a estar disponible puede que ya tenga una cita o un trabajo en curso
+      await syncTechnicianStatus(id, req.user?.id);
+      res.json(await storage.getTechnician(id) ?? updatedTechnician);
     } catch (error) {
       res.status(400).json({ message: "Datos inválidos", error });
     }
   });
   
-  app.delete("/api/technicians/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/technicians/:id", requirePermission("technicians:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteTechnician(id);
+      const success = await storage.deleteTechnician(id, req.user?.id);
       
       if (!success) {
         return res.status(404).json({ message: "Técnico no encontrado" });
@@ -299,8 +484,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Equipment routes
-  app.get("/api/equipment", ensureAuthenticated, async (req, res) => {
+  app.get("/api/equipment", requirePermission("equipment:read"), async (req, res) => {
     try {
+      if (isPaginatedRequest(req)) {
+        const parsedQuery = listQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ 
+            message: "Parámetros de consulta inválidos", 
+            error: parsedQuery.error.errors 
+          });
+        }
+        return res.json(await storage.queryEquipment(parsedQuery.data));
+      }
+      
       const equipment = await storage.listEquipment();
       res.json(equipment);
     } catch (error) {
@@ -309,19 +505,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/equipment", ensureAuthenticated, async (req, res) => {
+  app.post("/api/equipment", requirePermission("equipment:write"), async (req, res) => {
     try {
       const validatedData = insertEquipmentSchema.parse(req.body);
       
       // Ya no necesitamos verificar cliente ya que el equipo puede existir sin cliente
-      const equipment = await storage.createEquipment(validatedData);
+      const equipment = await storage.createEquipment(validatedData, req.user?.id);
       res.status(201).json(equipment);
     } catch (error) {
       res.status(400).json({ message: "Datos inválidos", error });
     }
   });
   
-  app.get("/api/equipment/:id", ensureAuthenticated, async (req, res) => {
+  app.get("/api/equipment/:id", requirePermission("equipment:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const equipment = await storage.getEquipment(id);
@@ -336,7 +532,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/equipment/client/:clientId", ensureAuthenticated, async (req, res) => {
+  app.get("/api/equipment/client/:clientId", requirePermission("equipment:read"), async (req, res) => {
     try {
       const clientId = parseInt(req.params.clientId);
       const equipment = await storage.listEquipmentByClient(clientId);
@@ -346,12 +542,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/equipment/:id", ensureAuthenticated, async (req, res) => {
+  // Historial del equipo: órdenes, gasto total, fallas recurrentes y garantías
+  app.get("/api/equipment/:id/history", requirePermission("equipment:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(id);
+      
+      if (!equipment) {
+        return res.status(404).json({ message: "Equipo no encontrado" });
+      }
+      
+      res.json(await getEquipmentHistory(equipment));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el historial del equipo" });
+    }
+  });
+  
+  // Historial de propietarios del equipo
+  app.get("/api/equipment/:id/ownership", requirePermission("equipment:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const equipment = await storage.getEquipment(id);
+      
+      if (!equipment) {
+        return res.status(404).json({ message: "Equipo no encontrado" });
+      }
+      
+      res.json(await getOwnershipHistory(id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el historial de propietarios" });
+    }
+  });
+  
+  app.put("/api/equipment/:id", requirePermission("equipment:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertEquipmentSchema.parse(req.body);
       
-      const updatedEquipment = await storage.updateEquipment(id, validatedData);
+      const updatedEquipment = await storage.updateEquipment(id, validatedData, req.user?.id);
       
       if (!updatedEquipment) {
         return res.status(404).json({ message: "Equipo no encontrado" });
@@ -363,10 +591,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/equipment/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/equipment/:id", requirePermission("equipment:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteEquipment(id);
+      const success = await storage.deleteEquipment(id, req.user?.id);
       
       if (!success) {
         return res.status(404).json({ message: "Equipo no encontrado" });
@@ -377,277 +605,1061 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: "Error al eliminar equipo" });
     }
   });
+
+  // Importación masiva desde CSV/XLSX: se lee el archivo, el navegador asigna las columnas,
+  // se valida (vista previa) y se guardan las filas válidas en una sola transacción
+  const importPermissions: Record<ImportEntity, Permission> = { clients: "clients:write", equipment: "equipment:write" };
+
+  for (const entity of importEntities) {
+    const permission = importPermissions[entity];
+
+    app.post(`/api/imports/${entity}/parse`, requirePermission(permission), receiveImportFile, async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No se recibió ningún archivo" });
+        }
+        res.json(await parseImportFile(req.file));
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error al leer el archivo de importación:", error);
+        res.status(500).json({ message: "Error al leer el archivo" });
+      }
+    });
+
+    app.post(`/api/imports/${entity}/preview`, requirePermission(permission), async (req, res) => {
+      const parseResult = importRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Datos inválidos", error: parseResult.error.errors });
+      }
+      try {
+        res.json(await previewImport(entity, parseResult.data));
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error al validar la importación:", error);
+        res.status(500).json({ message: "Error al validar la importación" });
+      }
+    });
+
+    app.post(`/api/imports/${entity}/commit`, requirePermission(permission), async (req, res) => {
+      const parseResult = importRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Datos inválidos", error: parseResult.error.errors });
+      }
+      try {
+        res.status(201).json(await commitImport(entity, parseResult.data, req.user?.id));
+      } catch (error) {
+        if (error instanceof ImportError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error("Error al importar:", error);
+        res.status(500).json({ message: "Error al guardar la importación; no se importó ninguna fila" });
+      }
+    });
+  }
   
-  // Service Order routes
-  app.get("/api/service-orders", ensureAuthenticated, async (req, res) => {
+  // Agenda de técnicos: citas que se traslapan con el rango consultado
+  app.get("/api/appointments", requirePermission("orders:read"), async (req, res) => {
     try {
-      const orders = await storage.listServiceOrders();
-      res.json(orders);
+      const parsedQuery = appointmentQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
+      }
+      
+      const appointments = await storage.listAppointments(parsedQuery.data);
+      res.json(await withAppointmentDetails(appointments));
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener órdenes de servicio" });
+      res.status(500).json({ message: "Error al obtener la agenda" });
     }
   });
   
-  app.post("/api/service-orders", ensureAuthenticated, async (req, res) => {
+  // Citas del técnico que chocarían con el horario propuesto (para avisar antes de guardar)
+  app.get("/api/appointments/conflicts", requirePermission("orders:read"), async (req, res) => {
     try {
-      console.log("Recibiendo datos de orden de servicio:", JSON.stringify(req.body));
-      
-      // Aseguramos que photos es un array si existe
-      let orderData = { ...req.body };
-      if (orderData.photos && !Array.isArray(orderData.photos)) {
-        if (typeof orderData.photos === 'string') {
-          orderData.photos = [orderData.photos];
-        } else {
-          orderData.photos = [];
-        }
+      const parsedQuery = appointmentQuerySchema.required({ technicianId: true }).extend({
+        excludeId: appointmentQuerySchema.shape.technicianId,
+      }).safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
       }
       
-      // Convertimos los valores de photo a string si no lo son
-      if (orderData.photos && Array.isArray(orderData.photos)) {
-        orderData.photos = orderData.photos.map((p: any) => String(p));
-        // --- OPTIMIZACIÓN DE IMÁGENES ---
-        const optimizedPhotos = [];
-        for (const base64img of orderData.photos) {
-          if (base64img.startsWith('data:image')) {
-            const matches = base64img.match(/^data:image\/(jpeg|png|jpg);base64,(.+)$/);
-            if (!matches) continue;
-            const ext = matches[1] === 'jpeg' ? 'jpg' : matches[1];
-            // Subir a Cloudinary
-            try {
-              const uploadResult = await cloudinary.v2.uploader.upload(
-                `data:image/${ext};base64,${matches[2]}`,
-                {
-                  folder: 'servicedashboard',
-                  resource_type: 'image',
-                  overwrite: true,
-                  transformation: [
-                    { width: 1024, height: 1024, crop: 'limit', quality: 'auto:good' }
-                  ]
-                }
-              );
-              optimizedPhotos.push(uploadResult.secure_url);
-            } catch (err) {
-              console.error('Error subiendo imagen a Cloudinary:', err);
-            }
-          } else if (base64img.startsWith('http')) {
-            // Ya es una URL pública
-            optimizedPhotos.push(base64img);
-          }
-        }
-        orderData.photos = optimizedPhotos;
+      const { technicianId, from, to, excludeId } = parsedQuery.data;
+      const conflicts = await storage.findAppointmentConflicts(technicianId, from, to, excludeId);
+      res.json(await withAppointmentDetails(conflicts));
+    } catch (error) {
+      res.status(500).json({ message: "Error al revisar los conflictos de la agenda" });
+    }
+  });
+  
+  app.post("/api/appointments", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const parseResult = insertAppointmentSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
       }
       
-      // Ensure clientSignature is a string if present
-      if (orderData.clientSignature && typeof orderData.clientSignature !== 'string') {
-        orderData.clientSignature = String(orderData.clientSignature);
+      const data = parseResult.data;
+      if (!await storage.getServiceOrder(data.serviceOrderId)) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
       }
-      
-      // Procesamos las fechas
-      if (orderData.expectedDeliveryDate && typeof orderData.expectedDeliveryDate === 'string') {
-        orderData.expectedDeliveryDate = new Date(orderData.expectedDeliveryDate);
+      if (!await storage.getTechnician(data.technicianId)) {
+        return res.status(404).json({ message: "Técnico no encontrado" });
       }
       
-      if (orderData.completionDate && typeof orderData.completionDate === 'string') {
-        orderData.completionDate = new Date(orderData.completionDate);
-      }
+      const appointment = await storage.createAppointment(data, req.user?.id);
+      await syncTechnicianStatus(appointment.technicianId, req.user?.id);
       
-      if (orderData.clientApprovalDate && typeof orderData.clientApprovalDate === 'string') {
-        orderData.clientApprovalDate = new Date(orderData.clientApprovalDate);
+      const [enriched] = await withAppointmentDetails([appointment]);
+      res.status(201).json(enriched);
+    } catch (error) {
+      if (error instanceof AppointmentConflictError) {
+        return res.status(409).json({ message: error.message, conflicts: await withAppointmentDetails(error.conflicts) });
       }
-      
-      console.log("Datos procesados:", JSON.stringify(orderData, (key, value) => {
-        if (value instanceof Date) {
-          return value.toISOString();
-        }
-        return value;
-      }));
-      
-      const parseResult = insertServiceOrderSchema.safeParse(orderData);
+      res.status(500).json({ message: "Error al crear la cita" });
+    }
+  });
+  
+  // Editar o reprogramar una cita (el calendario envía solo el nuevo horario y técnico)
+  app.put("/api/appointments/:id", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = updateAppointmentSchema.safeParse(req.body);
       if (!parseResult.success) {
-        console.error("Error de validación:", JSON.stringify(parseResult.error.errors));
         return res.status(400).json({ 
           message: "Datos inválidos", 
           error: parseResult.error.errors 
         });
       }
       
-      const validatedData = parseResult.data;
-      
-      // Check if client exists
-      const client = await storage.getClient(validatedData.clientId);
-      if (!client) {
-        return res.status(404).json({ message: "Cliente no encontrado" });
+      const current = await storage.getAppointment(id);
+      if (!current) {
+        return res.status(404).json({ message: "Cita no encontrada" });
       }
       
-      // Check if equipment exists
-      const equipment = await storage.getEquipment(validatedData.equipmentId);
-      if (!equipment) {
-        return res.status(404).json({ message: "Equipo no encontrado" });
+      const data = parseResult.data;
+      if ((data.endsAt ?? current.endsAt) <= (data.startsAt ?? current.startsAt)) {
+        return res.status(400).json({ message: "La cita debe terminar después de su inicio" });
       }
-      
-      // Check if technician exists if one is assigned
-      if (validatedData.technicianId) {
-        const technician = await storage.getTechnician(validatedData.technicianId);
-        if (!technician) {
-          return res.status(404).json({ message: "Técnico no encontrado" });
-        }
+      if (data.serviceOrderId !== undefined && !await storage.getServiceOrder(data.serviceOrderId)) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      if (data.technicianId !== undefined && !await storage.getTechnician(data.technicianId)) {
+        return res.status(404).json({ message: "Técnico no encontrado" });
       }
       
-      const serviceOrder = await storage.createServiceOrder(validatedData);
+      const appointment = await storage.updateAppointment(id, data, req.user?.id);
+      if (!appointment) {
+        return res.status(404).json({ message: "Cita no encontrada" });
+      }
       
-      // Intentar enviar correo electrónico al cliente si tiene email
-      if (client.email) {
-        try {
-          // Obtener la configuración de la empresa para el email
-          const companySettings = await storage.getCompanySettings();
-          
-          // Obtener el técnico si está asignado
-          let technician = null;
-          if (serviceOrder.technicianId) {
-            technician = await storage.getTechnician(serviceOrder.technicianId);
-          }
-          // Si no hay técnico, usar un objeto por defecto
-          if (!technician) {
-            technician = {
-              id: 0,
-              userId: 0,
-              specialization: 'No asignado',
-              status: 'available' as const,
-              createdAt: new Date()
-            };
-          }
-          
-          // Generar el contenido del correo electrónico
-          const emailHtml = generateNewOrderEmail(
-            serviceOrder.orderNumber,
-            client.name,
-            `${equipment.brand} ${equipment.model}`,
-            serviceOrder.description,
-            (companySettings as any) && (companySettings as any).smtpHost !== undefined ? companySettings as any : {
-              id: 0,
-              name: 'Sistemas RST',
-              logoUrl: null,
-              address: '',
-              phone: '',
-              email: '',
-              website: null,
-              taxId: null,
-              smtpHost: null,
-              smtpPort: null,
-              smtpSecure: true,
-              smtpUser: null,
-              smtpPassword: null,
-              smtpFromName: null,
-              smtpFromEmail: null,
-              updatedAt: new Date()
-            } as any
-          );
-          
-          // Enviar el correo electrónico de forma síncrona para tener mejor registro
-          try {
-            console.log(`Intentando enviar correo al cliente ${client.email}...`);
-            const success = await sendEmail({
-              to: client.email,
-              subject: `Nueva Orden de Servicio ${serviceOrder.orderNumber}`,
-              html: emailHtml
-            });
-            
-            if (success) {
-              console.log(`Correo enviado correctamente al cliente ${client.email}`);
-            } else {
-              console.error(`Error al enviar correo al cliente ${client.email}`);
-            }
-          } catch (emailErr) {
-            console.error('Error inesperado en el envío de correo:', emailErr);
-          }
-        } catch (emailError) {
-          // No fallamos la petición si hay un error al enviar el correo
-          console.error('Error al procesar el envío de correo:', emailError);
-        }
+      await syncTechnicianStatus(appointment.technicianId, req.user?.id);
+      if (current.technicianId !== appointment.technicianId) {
+        await syncTechnicianStatus(current.technicianId, req.user?.id);
       }
       
-      res.status(201).json(serviceOrder);
+      const [enriched] = await withAppointmentDetails([appointment]);
+      res.json(enriched);
     } catch (error) {
-      console.error("Error al crear orden de servicio:", error);
-      res.status(400).json({ message: "Datos inválidos", error: error instanceof Error ? error.message : String(error) });
+      if (error instanceof AppointmentConflictError) {
+        return res.status(409).json({ message: error.message, conflicts: await withAppointmentDetails(error.conflicts) });
+      }
+      res.status(500).json({ message: "Error al actualizar la cita" });
     }
   });
   
-  app.get("/api/service-orders/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/appointments/:id", requirePermission("orders:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const order = await storage.getServiceOrder(id);
-      
-      if (!order) {
-        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      const appointment = await storage.getAppointment(id);
+      if (!appointment || !await storage.deleteAppointment(id, req.user?.id)) {
+        return res.status(404).json({ message: "Cita no encontrada" });
       }
       
-      res.json(order);
+      await syncTechnicianStatus(appointment.technicianId, req.user?.id);
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener orden de servicio" });
+      res.status(500).json({ message: "Error al eliminar la cita" });
     }
   });
   
-  app.get("/api/service-orders/client/:clientId", ensureAuthenticated, async (req, res) => {
+  // Suscripciones iCalendar del usuario a la agenda de un técnico o de un cliente
+  app.get("/api/calendar-feeds", ensureAuthenticated, async (req, res) => {
     try {
-      const clientId = parseInt(req.params.clientId);
-      const orders = await storage.listServiceOrdersByClient(clientId);
-      res.json(orders);
+      res.json(await listCalendarFeeds(req.user!.id));
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener órdenes del cliente" });
+      res.status(500).json({ message: "Error al obtener las suscripciones de calendario" });
     }
   });
   
-  app.get("/api/service-orders/technician/:technicianId", ensureAuthenticated, async (req, res) => {
+  app.post("/api/calendar-feeds", ensureAuthenticated, async (req, res) => {
     try {
-      const technicianId = parseInt(req.params.technicianId);
-      const orders = await storage.listServiceOrdersByTechnician(technicianId);
-      res.json(orders);
+      const parseResult = calendarFeedInputSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const { feed, token } = await createCalendarFeed(req.user!, parseResult.data);
+      // El enlace contiene el token y solo se muestra en esta respuesta
+      res.status(201).json({
+        feed,
+        url: `${getPublicBaseUrl(req)}/api/public/calendars/${token}.ics`,
+      });
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener órdenes del técnico" });
+      if (error instanceof CalendarFeedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error al crear la suscripción de calendario" });
     }
   });
   
-  app.get("/api/service-orders/status/:status", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/calendar-feeds/:id", ensureAuthenticated, async (req, res) => {
     try {
-      const status = req.params.status;
-      const orders = await storage.listServiceOrdersByStatus(status);
-      res.json(orders);
+      const revoked = await storage.revokeCalendarFeed(parseInt(req.params.id), req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Suscripción no encontrada" });
+      }
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener órdenes por estado" });
+      res.status(500).json({ message: "Error al revocar la suscripción de calendario" });
     }
   });
   
-  app.put("/api/service-orders/:id", ensureAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      
-      // Aseguramos que photos es un array si existe
-      let orderData = { ...req.body };
-      if (orderData.photos && !Array.isArray(orderData.photos)) {
-        if (typeof orderData.photos === 'string') {
-          orderData.photos = [orderData.photos];
-        } else {
-          orderData.photos = [];
-        }
-      }
-      
-      // Convertimos los valores de photo a string si no lo son
-      if (orderData.photos && Array.isArray(orderData.photos)) {
-        orderData.photos = orderData.photos.map((p: any) => String(p));
+  // Políticas SLA y calendarios laborales
+  
+  // Una política activa por combinación de cliente y prioridad; devuelve el mensaje de error o null
+  async function validateSlaPolicy(policy: InsertSlaPolicy, excludeId?: number): Promise<{ status: number; message: string } | null> {
+    if (policy.clientId && !await storage.getClient(policy.clientId)) {
+      return { status: 404, message: "Cliente no encontrado" };
+    }
+    if (policy.businessCalendarId && !await storage.getBusinessCalendar(policy.businessCalendarId)) {
+      return { status: 404, message: "Calendario laboral no encontrado" };
+    }
+    if (policy.active !== false) {
+      const policies = await storage.listSlaPolicies();
+      const duplicate = policies.find(p =>
+        p.id !== excludeId && p.active &&
+        p.clientId === (policy.clientId ?? null) &&
+        p.priority === (policy.priority ?? null)
+      );
+      if (duplicate) {
+        return { status: 409, message: `La política "${duplicate.name}" ya cubre ese cliente y prioridad` };
       }
-      
-      // Ensure clientSignature is a string if present
-      if (orderData.clientSignature && typeof orderData.clientSignature !== 'string') {
-        orderData.clientSignature = String(orderData.clientSignature);
+    }
+    return null;
+  }
+  
+  app.get("/api/sla-policies", requirePermission("settings:read"), async (req, res) => {
+    try {
+      res.json(await storage.listSlaPolicies());
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las políticas SLA" });
+    }
+  });
+  
+  app.post("/api/sla-policies", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const parseResult = insertSlaPolicySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
       }
       
-      // Procesamos las fechas
-      if (orderData.expectedDeliveryDate && typeof orderData.expectedDeliveryDate === 'string') {
-        orderData.expectedDeliveryDate = new Date(orderData.expectedDeliveryDate);
+      const invalid = await validateSlaPolicy(parseResult.data);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
       }
       
-      if (orderData.completionDate && typeof orderData.completionDate === 'string') {
+      res.status(201).json(await storage.createSlaPolicy(parseResult.data, req.user?.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al crear la política SLA" });
+    }
+  });
+  
+  app.put("/api/sla-policies/:id", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = insertSlaPolicySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const invalid = await validateSlaPolicy(parseResult.data, id);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+      
+      const policy = await storage.updateSlaPolicy(id, parseResult.data, req.user?.id);
+      if (!policy) {
+        return res.status(404).json({ message: "Política SLA no encontrada" });
+      }
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ message: "Error al actualizar la política SLA" });
+    }
+  });
+  
+  app.delete("/api/sla-policies/:id", requirePermission("settings:write"), async (req, res) => {
+    try {
+      if (!await storage.deleteSlaPolicy(parseInt(req.params.id), req.user?.id)) {
+        return res.status(404).json({ message: "Política SLA no encontrada" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar la política SLA" });
+    }
+  });
+  
+  app.get("/api/business-calendars", requirePermission("settings:read"), async (req, res) => {
+    try {
+      res.json(await storage.listBusinessCalendars());
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los calendarios laborales" });
+    }
+  });
+  
+  app.post("/api/business-calendars", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const parseResult = insertBusinessCalendarSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const calendars = await storage.listBusinessCalendars();
+      if (calendars.some(calendar => calendar.name === parseResult.data.name)) {
+        return res.status(409).json({ message: "Ya existe un calendario con ese nombre" });
+      }
+      
+      res.status(201).json(await storage.createBusinessCalendar(parseResult.data, req.user?.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al crear el calendario laboral" });
+    }
+  });
+  
+  app.put("/api/business-calendars/:id", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = insertBusinessCalendarSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const calendars = await storage.listBusinessCalendars();
+      if (calendars.some(calendar => calendar.id !== id && calendar.name === parseResult.data.name)) {
+        return res.status(409).json({ message: "Ya existe un calendario con ese nombre" });
+      }
+      
+      const calendar = await storage.updateBusinessCalendar(id, parseResult.data, req.user?.id);
+      if (!calendar) {
+        return res.status(404).json({ message: "Calendario laboral no encontrado" });
+      }
+      res.json(calendar);
+    } catch (error) {
+      res.status(500).json({ message: "Error al actualizar el calendario laboral" });
+    }
+  });
+  
+  app.delete("/api/business-calendars/:id", requirePermission("settings:write"), async (req, res) => {
+    try {
+      if (!await storage.deleteBusinessCalendar(parseInt(req.params.id), req.user?.id)) {
+        return res.status(404).json({ message: "Calendario laboral no encontrado" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar el calendario laboral" });
+    }
+  });
+  
+  // Reporte de cumplimiento de SLA de las órdenes solicitadas en el periodo
+  app.get("/api/reports/sla", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const parsedQuery = slaReportQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
+      }
+      
+      res.json(await buildSlaComplianceReport(parsedQuery.data));
+    } catch (error) {
+      res.status(500).json({ message: "Error al generar el reporte de SLA" });
+    }
+  });
+  
+  // Contratos de mantenimiento preventivo
+  
+  // El valor del contrato es información financiera: sin finance:read se devuelve vacío
+  function visibleContract(req: Request, contract: MaintenanceContract): MaintenanceContract {
+    return hasPermission(req.user!.role, "finance:read") ? contract : { ...contract, value: null };
+  }
+  
+  // El cliente, el técnico y los equipos deben existir y los equipos ser del cliente
+  async function validateMaintenanceContract(contract: InsertMaintenanceContract): Promise<{ status: number; message: string } | null> {
+    if (!await storage.getClient(contract.clientId)) {
+      return { status: 404, message: "Cliente no encontrado" };
+    }
+    if (contract.technicianId && !await storage.getTechnician(contract.technicianId)) {
+      return { status: 404, message: "Técnico no encontrado" };
+    }
+    for (const equipmentId of contract.equipmentIds) {
+      const item = await storage.getEquipment(equipmentId);
+      if (!item) {
+        return { status: 404, message: `Equipo ${equipmentId} no encontrado` };
+      }
+      if (item.clientId !== contract.clientId) {
+        return { status: 400, message: `El equipo ${item.brand} ${item.model} (${item.serialNumber}) no pertenece al cliente` };
+      }
+    }
+    return null;
+  }
+  
+  app.get("/api/maintenance-contracts", requirePermission("contracts:read"), async (req, res) => {
+    try {
+      const contracts = await storage.listMaintenanceContracts();
+      res.json(contracts.map(contract => visibleContract(req, contract)));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los contratos de mantenimiento" });
+    }
+  });
+  
+  // Próximas visitas de los contratos activos
+  app.get("/api/maintenance-contracts/upcoming", requirePermission("contracts:read"), async (req, res) => {
+    try {
+      const parsedQuery = upcomingVisitsQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
+      }
+      
+      res.json(await listUpcomingVisits(parsedQuery.data.days));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las próximas visitas" });
+    }
+  });
+  
+  // Órdenes generadas por un contrato
+  app.get("/api/maintenance-contracts/:id/orders", requirePermission("contracts:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await storage.getMaintenanceContract(id)) {
+        return res.status(404).json({ message: "Contrato no encontrado" });
+      }
+      
+      const orders = await storage.listServiceOrdersByMaintenanceContract(id);
+      res.json(orders.sort((a, b) => new Date(b.requestDate).getTime() - new Date(a.requestDate).getTime()));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener las órdenes del contrato" });
+    }
+  });
+  
+  app.post("/api/maintenance-contracts", requirePermission("contracts:write"), async (req, res) => {
+    try {
+      const parseResult = insertMaintenanceContractSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const invalid = await validateMaintenanceContract(parseResult.data);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+      
+      const contract = await storage.createMaintenanceContract(parseResult.data, req.user?.id);
+      res.status(201).json(visibleContract(req, contract));
+    } catch (error) {
+      res.status(500).json({ message: "Error al crear el contrato" });
+    }
+  });
+  
+  app.put("/api/maintenance-contracts/:id", requirePermission("contracts:write"), async (req, res) => {
+    try {
+      const parseResult = insertMaintenanceContractSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const invalid = await validateMaintenanceContract(parseResult.data);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+      
+      const id = parseInt(req.params.id);
+      const current = await storage.getMaintenanceContract(id);
+      if (!current) {
+        return res.status(404).json({ message: "Contrato no encontrado" });
+      }
+      
+      // Sin finance:read el formulario no muestra el valor, así que se conserva el guardado
+      const data = hasPermission(req.user!.role, "finance:read") ? parseResult.data : { ...parseResult.data, value: current.value };
+      const contract = await storage.updateMaintenanceContract(id, data, req.user?.id);
+      if (!contract) {
+        return res.status(404).json({ message: "Contrato no encontrado" });
+      }
+      res.json(visibleContract(req, contract));
+    } catch (error) {
+      res.status(500).json({ message: "Error al actualizar el contrato" });
+    }
+  });
+  
+  app.delete("/api/maintenance-contracts/:id", requirePermission("contracts:delete"), async (req, res) => {
+    try {
+      if (!await storage.deleteMaintenanceContract(parseInt(req.params.id), req.user?.id)) {
+        return res.status(404).json({ message: "Contrato no encontrado" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar el contrato" });
+    }
+  });
+  
+  // Inventory routes
+  app.get("/api/parts", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      if (isPaginatedRequest(req)) {
+        const parsedQuery = listQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ 
+            message: "Parámetros de consulta inválidos", 
+            error: parsedQuery.error.errors 
+          });
+        }
+        return res.json(await storage.queryParts(parsedQuery.data));
+      }
+      
+      const parts = await storage.listParts();
+      res.json(parts);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener refacciones" });
+    }
+  });
+  
+  // Refacciones con existencia igual o menor al mínimo (alerta del panel)
+  app.get("/api/parts/low-stock", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const parts = await storage.listLowStockParts();
+      res.json(parts);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener refacciones con existencia baja" });
+    }
+  });
+  
+  app.post("/api/parts", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const parseResult = insertPartSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      if (await storage.getPartBySku(parseResult.data.sku)) {
+        return res.status(400).json({ message: "Ya existe una refacción con ese SKU" });
+      }
+      
+      const part = await storage.createPart(parseResult.data, req.user?.id);
+      res.status(201).json(part);
+    } catch (error) {
+      res.status(500).json({ message: "Error al crear refacción" });
+    }
+  });
+  
+  app.put("/api/parts/:id", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = insertPartSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const existingPart = await storage.getPartBySku(parseResult.data.sku);
+      if (existingPart && existingPart.id !== id) {
+        return res.status(400).json({ message: "Ya existe una refacción con ese SKU" });
+      }
+      
+      const updatedPart = await storage.updatePart(id, parseResult.data, req.user?.id);
+      if (!updatedPart) {
+        return res.status(404).json({ message: "Refacción no encontrada" });
+      }
+      
+      res.json(updatedPart);
+    } catch (error) {
+      res.status(500).json({ message: "Error al actualizar refacción" });
+    }
+  });
+  
+  app.delete("/api/parts/:id", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePart(id, req.user?.id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Refacción no encontrada" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar refacción" });
+    }
+  });
+  
+  // Historial de movimientos de inventario de una refacción
+  app.get("/api/parts/:id/movements", requirePermission("inventory:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const part = await storage.getPart(id);
+      
+      if (!part) {
+        return res.status(404).json({ message: "Refacción no encontrada" });
+      }
+      
+      const movements = await storage.listPartStockMovements(id);
+      const users = await storage.listUsers();
+      
+      // Enriquecer con el nombre del usuario y el folio de la orden
+      const enrichedMovements = await Promise.all(movements.map(async movement => {
+        const user = movement.createdBy ? users.find(u => u.id === movement.createdBy) : undefined;
+        const order = movement.serviceOrderId ? await storage.getServiceOrder(movement.serviceOrderId) : undefined;
+        return {
+          ...movement,
+          createdByName: user?.fullName || null,
+          orderNumber: order?.orderNumber || null
+        };
+      }));
+      
+      res.json(enrichedMovements);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener movimientos de inventario" });
+    }
+  });
+  
+  // Entradas por compra y ajustes manuales de existencia
+  app.post("/api/parts/:id/movements", requirePermission("inventory:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = stockMovementInputSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const part = await storage.recordStockMovement(id, parseResult.data, req.user?.id);
+      if (!part) {
+        return res.status(404).json({ message: "Refacción no encontrada" });
+      }
+      
+      res.status(201).json(part);
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error al registrar movimiento de inventario" });
+    }
+  });
+  
+  // Service Order routes
+  app.get("/api/service-orders", requirePermission("orders:read"), async (req, res) => {
+    try {
+      if (isPaginatedRequest(req)) {
+        const parsedQuery = listQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ 
+            message: "Parámetros de consulta inválidos", 
+            error: parsedQuery.error.errors 
+          });
+        }
+        const result = await storage.queryServiceOrders(parsedQuery.data);
+        return res.json({ ...result, items: withSlaStatus(result.items) });
+      }
+      
+      const orders = await storage.listServiceOrders();
+      res.json(withSlaStatus(orders));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener órdenes de servicio" });
+    }
+  });
+  
+  app.post("/api/service-orders", requirePermission("orders:write"), async (req, res) => {
+    try {
+      console.log("Recibiendo datos de orden de servicio:", JSON.stringify(req.body));
+      
+      let orderData = { ...req.body };
+      // Fotos y firma llegan como URLs de imágenes ya subidas con /api/uploads/images
+      const photos = processPhotos(orderData.photos);
+      if (photos) {
+        orderData.photos = photos;
+      }
+      const clientSignature = processSignature(orderData.clientSignature);
+      if (clientSignature !== undefined) {
+        orderData.clientSignature = clientSignature;
+      }
+      
+      // Procesamos las fechas
+      if (orderData.expectedDeliveryDate && typeof orderData.expectedDeliveryDate === 'string') {
+        orderData.expectedDeliveryDate = new Date(orderData.expectedDeliveryDate);
+      }
+      
+      if (orderData.completionDate && typeof orderData.completionDate === 'string') {
+        orderData.completionDate = new Date(orderData.completionDate);
+      }
+      
+      if (orderData.clientApprovalDate && typeof orderData.clientApprovalDate === 'string') {
+        orderData.clientApprovalDate = new Date(orderData.clientApprovalDate);
+      }
+      
+      console.log("Datos procesados:", JSON.stringify(orderData, (key, value) => {
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        return value;
+      }));
+      
+      const extracted = extractLineItems(orderData);
+      if (extracted.lineItems && !extracted.lineItems.success) {
+        return res.status(400).json({ 
+          message: "Partidas inválidas", 
+          error: extracted.lineItems.error.errors 
+        });
+      }
+      
+      const parseResult = insertServiceOrderSchema.safeParse(extracted.orderData);
+      if (!parseResult.success) {
+        console.error("Error de validación:", JSON.stringify(parseResult.error.errors));
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const validatedData = parseResult.data;
+      
+      if (extracted.lineItems?.data) {
+        const unavailable = await checkPartsAvailability(extracted.lineItems.data);
+        if (unavailable) {
+          return res.status(409).json({ message: unavailable });
+        }
+      }
+      
+      // Check if client exists
+      const client = await storage.getClient(validatedData.clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Cliente no encontrado" });
+      }
+      
+      // Check if equipment exists
+      const equipment = await storage.getEquipment(validatedData.equipmentId);
+      if (!equipment) {
+        return res.status(404).json({ message: "Equipo no encontrado" });
+      }
+      if (equipment.clientId !== null && equipment.clientId !== client.id) {
+        return res.status(400).json({ message: "El equipo pertenece a otro cliente" });
+      }
+      
+      // Check if technician exists if one is assigned
+      if (validatedData.technicianId) {
+        const technician = await storage.getTechnician(validatedData.technicianId);
+        if (!technician) {
+          return res.status(404).json({ message: "Técnico no encontrado" });
+        }
+      }
+      
+      const serviceOrder = await storage.createServiceOrder(validatedData, req.user?.id, extracted.lineItems?.data);
+      
+      // Un equipo sin propietario pasa a ser del cliente de su primera orden
+      if (equipment.clientId === null) {
+        await storage.updateEquipment(equipment.id, { clientId: client.id }, req.user?.id, `Asignado al crear la orden ${serviceOrder.orderNumber}`);
+      }
+      
+      // Intentar enviar correo electrónico al cliente si tiene email y acepta avisos
+      if (client.email && client.emailNotifications) {
+        try {
+          const { subject, html } = await renderOrderEmail('order_created', serviceOrder);
+          
+          // El correo se envía en segundo plano; si el servidor SMTP no responde se reintenta
+          await enqueueEmail({ to: client.email, subject, html }, { serviceOrderId: serviceOrder.id, event: 'order_created' });
+        } catch (emailError) {
+          // No fallamos la petición si hay un error al preparar el correo
+          console.error('Error al encolar el correo de la nueva orden:', emailError);
+        }
+      }
+      
+      res.status(201).json(serviceOrder);
+    } catch (error) {
+      if (error instanceof PhotoError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error al crear orden de servicio:", error);
+      res.status(400).json({ message: "Datos inválidos", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  
+  app.get("/api/service-orders/:id", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      res.json(withSlaStatus([order])[0]);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener orden de servicio" });
+    }
+  });
+  
+  // Historial de cambios de estado de una orden
+  app.get("/api/service-orders/:id/history", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      const history = await storage.listServiceOrderStatusHistory(id);
+      const users = await storage.listUsers();
+      
+      // Enriquecer con el nombre del usuario que realizó el cambio
+      const enrichedHistory = history.map(entry => {
+        const user = entry.changedBy ? users.find(u => u.id === entry.changedBy) : undefined;
+        return {
+          ...entry,
+          changedByName: user?.fullName || null
+        };
+      });
+      
+      res.json(enrichedHistory);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener historial de la orden" });
+    }
+  });
+  
+  // Correos enviados al cliente sobre una orden (avisos automáticos y envíos manuales)
+  app.get("/api/service-orders/:id/notifications", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      const emails = await storage.listEmailsByServiceOrder(id);
+      res.json(emails.map(summarizeEmail));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los avisos de la orden" });
+    }
+  });
+
+  // Archivos adjuntos de una orden (fotos y documentos PDF)
+  app.get("/api/service-orders/:id/attachments", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+
+      res.json(await withUploaderNames(await storage.listAttachments(id)));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los adjuntos de la orden" });
+    }
+  });
+
+  // Subida multipart de adjuntos en el campo "files", con un pie de foto opcional en "caption"
+  app.post("/api/service-orders/:id/attachments", requirePermission("orders:write"), receiveFiles("files"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+
+      const parseResult = attachmentUploadSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Datos inválidos",
+          error: parseResult.error.errors
+        });
+      }
+
+      const files = (req.files ?? []) as Express.Multer.File[];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No se recibió ningún archivo" });
+      }
+
+      const created = [];
+      for (const file of files) {
+        created.push(await saveAttachment(id, file, parseResult.data.caption, req.user!.id));
+      }
+      res.status(201).json(await withUploaderNames(created));
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error al guardar adjuntos:", error);
+      res.status(500).json({ message: "Error al guardar los adjuntos" });
+    }
+  });
+
+  app.delete("/api/service-orders/:id/attachments/:attachmentId", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(parseInt(req.params.attachmentId));
+
+      if (!attachment || attachment.serviceOrderId !== id) {
+        return res.status(404).json({ message: "Adjunto no encontrado" });
+      }
+
+      await removeAttachment(attachment, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar el adjunto" });
+    }
+  });
+
+  // Partidas (mano de obra y refacciones) de una orden
+  app.get("/api/service-orders/:id/line-items", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getServiceOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      const lineItems = await storage.listServiceOrderLineItems(id);
+      res.json(lineItems);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener partidas de la orden" });
+    }
+  });
+  
+  // Reemplaza todas las partidas de la orden y recalcula sus totales
+  app.put("/api/service-orders/:id/line-items", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = lineItemListSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Partidas inválidas", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const order = await storage.replaceServiceOrderLineItems(id, parseResult.data, req.user?.id);
+      if (!order) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      const lineItems = await storage.listServiceOrderLineItems(id);
+      res.json({ ...order, lineItems });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error al guardar partidas:", error);
+      res.status(500).json({ message: "Error al guardar partidas de la orden" });
+    }
+  });
+  
+  app.get("/api/service-orders/client/:clientId", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const clientId = parseInt(req.params.clientId);
+      const orders = await storage.listServiceOrdersByClient(clientId);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener órdenes del cliente" });
+    }
+  });
+  
+  app.get("/api/service-orders/technician/:technicianId", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const technicianId = parseInt(req.params.technicianId);
+      const orders = await storage.listServiceOrdersByTechnician(technicianId);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener órdenes del técnico" });
+    }
+  });
+  
+  app.get("/api/service-orders/status/:status", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const status = req.params.status;
+      const orders = await storage.listServiceOrdersByStatus(status);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener órdenes por estado" });
+    }
+  });
+  
+  app.put("/api/service-orders/:id", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      let orderData = { ...req.body };
+      // Fotos y firma llegan como URLs de imágenes ya subidas con /api/uploads/images
+      const photos = processPhotos(orderData.photos);
+      if (photos) {
+        orderData.photos = photos;
+      }
+      const clientSignature = processSignature(orderData.clientSignature);
+      if (clientSignature !== undefined) {
+        orderData.clientSignature = clientSignature;
+      }
+      
+      // Procesamos las fechas
+      if (orderData.expectedDeliveryDate && typeof orderData.expectedDeliveryDate === 'string') {
+        orderData.expectedDeliveryDate = new Date(orderData.expectedDeliveryDate);
+      }
+      
+      if (orderData.completionDate && typeof orderData.completionDate === 'string') {
         orderData.completionDate = new Date(orderData.completionDate);
       }
       
@@ -666,7 +1678,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return value;
       }));
       
-      const parseResult = updateServiceOrderSchema.safeParse(orderData);
+      const extracted = extractLineItems(orderData);
+      if (extracted.lineItems && !extracted.lineItems.success) {
+        return res.status(400).json({ 
+          message: "Partidas inválidas", 
+          error: extracted.lineItems.error.errors 
+        });
+      }
+      
+      const parseResult = updateServiceOrderSchema.safeParse(extracted.orderData);
       if (!parseResult.success) {
         console.error("Error de validación en actualización:", JSON.stringify(parseResult.error.errors));
         return res.status(400).json({ 
@@ -676,36 +1696,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const validatedData = parseResult.data;
-      const updatedOrder = await storage.updateServiceOrder(id, validatedData);
+      const previousOrder = await storage.getServiceOrder(id);
+      // La orden y sus partidas se guardan juntas: si falta existencia no se aplica ningún cambio
+      const updatedOrder = await storage.updateServiceOrder(id, validatedData, req.user?.id, extracted.lineItems?.data);
       
       if (!updatedOrder) {
         return res.status(404).json({ message: "Orden de servicio no encontrada" });
       }
       
+      void notifyStatusChange(previousOrder, updatedOrder);
+      
+      // Al cerrar o cancelar la orden se detiene el tiempo en curso y el técnico queda libre
+      if (previousOrder?.status !== updatedOrder.status && ['completed', 'warranty', 'cancelled'].includes(updatedOrder.status)) {
+        const session = await storage.endWorkSession(id);
+        const technicianIds = new Set([session?.technicianId, updatedOrder.technicianId]);
+        for (const technicianId of Array.from(technicianIds)) {
+          if (technicianId) await syncTechnicianStatus(technicianId, req.user?.id);
+        }
+      }
+      
+      // Al pasar a "esperando aprobación" se envía al cliente el enlace de aprobación
+      if (previousOrder?.status !== 'waiting_approval' && updatedOrder.status === 'waiting_approval') {
+        try {
+          const { sentTo } = await sendApprovalRequest(updatedOrder, getPublicBaseUrl(req));
+          console.log(`Enlace de aprobación en cola de envío para ${sentTo}`);
+        } catch (approvalError) {
+          // No fallamos la petición si hay un error al enviar el correo
+          console.error('Error al enviar enlace de aprobación:', approvalError);
+        }
+      }
+      
       res.json(updatedOrder);
     } catch (error) {
+      if (error instanceof PhotoError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof InvalidStatusTransitionError || error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error al actualizar orden de servicio:", error);
       res.status(400).json({ message: "Datos inválidos", error: error instanceof Error ? error.message : String(error) });
     }
   });
   
-  app.delete("/api/service-orders/:id", ensureAuthenticated, async (req, res) => {
+  app.delete("/api/service-orders/:id", requirePermission("orders:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteServiceOrder(id);
+      const success = await storage.deleteServiceOrder(id, req.user?.id);
       
       if (!success) {
         return res.status(404).json({ message: "Orden de servicio no encontrada" });
       }
       
-      res.status(204).send();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar orden de servicio" });
+    }
+  });
+
+  // Vista de campo del técnico: órdenes asignadas al usuario autenticado
+  app.get("/api/my-orders", requirePermission("orders:read"), async (req, res) => {
+    try {
+      const technician = await storage.getTechnicianByUserId(req.user!.id);
+      if (!technician) {
+        return res.status(404).json({ message: "El usuario no tiene perfil de técnico" });
+      }
+      
+      const orders = await storage.listServiceOrdersByTechnician(technician.id);
+      const clients = await storage.listClients();
+      const equipment = await storage.listEquipment();
+      const openSessions = await storage.listOpenWorkSessionsByTechnician(technician.id);
+      
+      const enrichedOrders = orders.map(order => {
+        const client = clients.find(c => c.id === order.clientId);
+        const equipmentItem = equipment.find(e => e.id === order.equipmentId);
+        return {
+          ...order,
+          clientName: client?.name || 'Cliente desconocido',
+          clientPhone: client?.phone || '',
+          clientAddress: client?.address || '',
+          equipmentName: equipmentItem ? `${equipmentItem.brand} ${equipmentItem.model}` : 'Equipo desconocido',
+          equipmentLocation: equipmentItem?.location || null,
+          isWorking: openSessions.some(s => s.serviceOrderId === order.id)
+        };
+      });
+      
+      res.json({ technician, orders: enrichedOrders });
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener órdenes asignadas" });
+    }
+  });
+  
+  // Iniciar (o reanudar) el trabajo en una orden asignada
+  app.post("/api/my-orders/:id/start", requirePermission("orders:field"), async (req, res) => {
+    try {
+      const assigned = await getAssignedOrder(req, res);
+      if (!assigned) return;
+      const { technician, order } = assigned;
+      
+      if (order.status !== 'approved' && order.status !== 'in_progress') {
+        return res.status(400).json({ message: "Solo se pueden iniciar órdenes aprobadas o en proceso" });
+      }
+      
+      if (await storage.getOpenWorkSession(order.id)) {
+        return res.status(400).json({ message: "El trabajo en esta orden ya está en curso" });
+      }
+      
+      const updatedOrder = order.status === 'approved'
+        ? await storage.updateServiceOrder(order.id, { status: 'in_progress' }, req.user!.id)
+        : order;
+      
+      await storage.startWorkSession(order.id, technician.id);
+      await syncTechnicianStatus(technician.id, req.user!.id);
+      if (updatedOrder) {
+        void notifyStatusChange(order, updatedOrder);
+      }
+      
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error al iniciar el trabajo" });
+    }
+  });
+  
+  // Pausar el trabajo en curso de una orden asignada
+  app.post("/api/my-orders/:id/pause", requirePermission("orders:field"), async (req, res) => {
+    try {
+      const assigned = await getAssignedOrder(req, res);
+      if (!assigned) return;
+      const { technician, order } = assigned;
+      
+      const session = await storage.endWorkSession(order.id);
+      if (!session) {
+        return res.status(400).json({ message: "El trabajo en esta orden no está en curso" });
+      }
+      
+      await syncTechnicianStatus(technician.id, req.user!.id);
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Error al pausar el trabajo" });
+    }
+  });
+  
+  // Completar una orden asignada
+  app.post("/api/my-orders/:id/complete", requirePermission("orders:field"), async (req, res) => {
+    try {
+      const assigned = await getAssignedOrder(req, res);
+      if (!assigned) return;
+      const { technician, order } = assigned;
+      
+      if (order.status !== 'in_progress') {
+        return res.status(400).json({ message: "Solo se pueden completar órdenes en proceso" });
+      }
+      
+      const updatedOrder = await storage.updateServiceOrder(order.id, { status: 'completed' }, req.user!.id);
+      await storage.endWorkSession(order.id);
+      await syncTechnicianStatus(technician.id, req.user!.id);
+      if (updatedOrder) {
+        void notifyStatusChange(order, updatedOrder);
+      }
+      
+      res.json(updatedOrder);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error al completar la orden" });
+    }
+  });
+  
+  // Registrar materiales, notas, fotos y firma desde la vista de campo
+  app.put("/api/my-orders/:id", requirePermission("orders:field"), async (req, res) => {
+    try {
+      const assigned = await getAssignedOrder(req, res);
+      if (!assigned) return;
+      
+      const parseResult = technicianOrderUpdateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const photos = processPhotos(parseResult.data.photos);
+      const clientSignature = processSignature(parseResult.data.clientSignature);
+      const updatedOrder = await storage.updateServiceOrder(assigned.order.id, { ...parseResult.data, photos, clientSignature }, req.user!.id);
+      res.json(updatedOrder);
     } catch (error) {
-      res.status(500).json({ message: "Error al eliminar orden de servicio" });
+      if (error instanceof PhotoError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error al actualizar la orden" });
     }
   });
-
+  
   // Endpoint para reenviar correo de una orden de servicio con PDF adjunto
-  app.post("/api/service-orders/:id/send-email", ensureAuthenticated, async (req, res) => {
+  app.post("/api/service-orders/:id/send-email", requirePermission("orders:write"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const serviceOrder = await storage.getServiceOrder(id);
@@ -729,131 +1918,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Equipo no encontrado" });
       }
       
-      // Obtener el técnico si está asignado
-      let technician = null;
-      if (serviceOrder.technicianId) {
-        technician = await storage.getTechnician(serviceOrder.technicianId);
-      }
-      // Si no hay técnico, usar un objeto por defecto
-      if (!technician) {
-        technician = {
-          id: 0,
-          userId: 0,
-          specialization: 'No asignado',
-          status: 'available' as const,
-          createdAt: new Date()
-        };
-      }
-      
-      // Obtener la configuración de la empresa
-      const companySettings = await storage.getCompanySettings();
-      
-      // Generar el contenido del correo electrónico
-      const emailHtml = generateNewOrderEmail(
-        serviceOrder.orderNumber,
-        client.name,
-        `${equipment.brand} ${equipment.model}`,
-        serviceOrder.description,
-        (companySettings as any) && (companySettings as any).smtpHost !== undefined ? companySettings as any : {
-          id: 0,
-          name: 'Sistemas RST',
-          logoUrl: null,
-          address: '',
-          phone: '',
-          email: '',
-          website: null,
-          taxId: null,
-          smtpHost: null,
-          smtpPort: null,
-          smtpSecure: true,
-          smtpUser: null,
-          smtpPassword: null,
-          smtpFromName: null,
-          smtpFromEmail: null,
-          updatedAt: new Date()
-        } as any
-      );
-      
-      // Generar el PDF de la orden
-      console.log(`Generando PDF para la orden ${serviceOrder.orderNumber}...`);
+      // El reenvío usa la plantilla de nueva orden con la orden en PDF adjunta
+      const { html } = await renderOrderEmail('order_created', serviceOrder);
       
+      // Si falla la generación del PDF, el correo se envía sin adjunto
+      const attachments = [];
       try {
-        // Generar el PDF
-        const pdfBuffer = await generateServiceOrderPDF(
-          serviceOrder,
-          client,
-          equipment,
-          technician,
-          (companySettings as any) && (companySettings as any).smtpHost !== undefined ? companySettings as any : {
-            id: 0,
-            name: 'Sistemas RST',
-            logoUrl: null,
-            address: '',
-            phone: '',
-            email: '',
-            website: null,
-            taxId: null,
-            smtpHost: null,
-            smtpPort: null,
-            smtpSecure: true,
-            smtpUser: null,
-            smtpPassword: null,
-            smtpFromName: null,
-            smtpFromEmail: null,
-            updatedAt: new Date()
-          } as any
-        );
-        
-        console.log(`PDF generado correctamente, tamaño: ${pdfBuffer.length} bytes`);
-        
-        // Enviar el correo con el PDF adjunto
-        console.log(`Reenvío manual: Intentando enviar correo al cliente ${client.email}...`);
-        const success = await sendEmail({
-          to: client.email,
-          subject: `Orden de Servicio ${serviceOrder.orderNumber}`,
-          html: emailHtml,
-          attachments: [
-            {
-              filename: `Orden_${serviceOrder.orderNumber}.pdf`,
-              content: pdfBuffer,
-              contentType: 'application/pdf'
-            }
-          ]
-        });
-        
-        if (success) {
-          return res.json({ 
-            success: true, 
-            message: `Correo enviado correctamente a ${client.email} con PDF adjunto` 
-          });
-        } else {
-          return res.status(500).json({ 
-            success: false, 
-            message: "Error al enviar el correo electrónico" 
-          });
-        }
+        attachments.push(await generateOrderPdfAttachment(serviceOrder));
       } catch (pdfError) {
         console.error("Error al generar el PDF:", pdfError);
-        // Si falla la generación del PDF, enviamos el correo sin adjunto
-        console.log("Enviando correo sin adjunto PDF debido a un error en la generación...");
-        const success = await sendEmail({
-          to: client.email,
-          subject: `Orden de Servicio ${serviceOrder.orderNumber}`,
-          html: emailHtml
-        });
-        
-        if (success) {
-          return res.json({ 
-            success: true, 
-            message: `Correo enviado correctamente a ${client.email} (sin PDF adjunto debido a un error)` 
-          });
-        } else {
-          return res.status(500).json({ 
-            success: false, 
-            message: "Error al enviar el correo electrónico" 
-          });
-        }
       }
+      
+      const queued = await enqueueEmail({
+        to: client.email,
+        subject: `Orden de Servicio ${serviceOrder.orderNumber}`,
+        html,
+        attachments
+      }, { serviceOrderId: serviceOrder.id });
+      
+      res.status(202).json({
+        success: true,
+        emailId: queued.id,
+        message: attachments.length > 0
+          ? `Correo con PDF adjunto en cola de envío para ${client.email}`
+          : `Correo en cola de envío para ${client.email} (sin PDF adjunto debido a un error)`
+      });
     } catch (error) {
       console.error("Error al reenviar correo:", error);
       res.status(500).json({ 
@@ -864,8 +1953,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Endpoint para reenviar el enlace de aprobación al cliente
+  app.post("/api/service-orders/:id/approval-link", requirePermission("orders:write"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const serviceOrder = await storage.getServiceOrder(id);
+      
+      if (!serviceOrder) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      if (serviceOrder.status !== 'waiting_approval') {
+        return res.status(400).json({ message: "La orden no está esperando aprobación del cliente" });
+      }
+      
+      const { approvalUrl, expiresAt, sentTo } = await sendApprovalRequest(serviceOrder, getPublicBaseUrl(req));
+      res.json({
+        success: true,
+        message: `Enlace de aprobación en cola de envío para ${sentTo}`,
+        approvalUrl,
+        expiresAt
+      });
+    } catch (error) {
+      console.error("Error al enviar enlace de aprobación:", error);
+      res.status(500).json({ 
+        success: false,
+        message: "Error al enviar enlace de aprobación",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
+  // Calendario público de una suscripción; el token del enlace es la única credencial
+  app.get("/api/public/calendars/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByTokenHash(hashFeedToken(req.params.token));
+      const calendar = feed ? await renderCalendarFeed(feed) : null;
+      if (!feed || calendar === null) {
+        return res.status(404).json({ message: "Calendario no encontrado" });
+      }
+      
+      await storage.touchCalendarFeed(feed.id, new Date());
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.send(calendar);
+    } catch (error) {
+      res.status(500).json({ message: "Error al generar el calendario" });
+    }
+  });
+  
+  // Portal público de aprobación: consulta de la cotización mediante token firmado
+  app.get("/api/public/approvals/:token", async (req, res) => {
+    try {
+      const verified = verifyApprovalToken(req.params.token);
+      if (!verified) {
+        return res.status(404).json({ message: "El enlace no es válido o ha expirado" });
+      }
+      
+      const serviceOrder = await storage.getServiceOrder(verified.serviceOrderId);
+      if (!serviceOrder) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      const client = await storage.getClient(serviceOrder.clientId);
+      const equipment = await storage.getEquipment(serviceOrder.equipmentId);
+      const companySettings = await storage.getCompanySettings();
+      
+      res.json({
+        orderNumber: serviceOrder.orderNumber,
+        status: serviceOrder.status,
+        description: serviceOrder.description,
+        notes: serviceOrder.notes,
+        cost: serviceOrder.cost,
+        subtotal: serviceOrder.subtotal,
+        taxAmount: serviceOrder.taxAmount,
+        total: serviceOrder.total,
+        lineItems: await storage.listServiceOrderLineItems(serviceOrder.id),
+        // La página pública no tiene sesión para pedir /uploads
+        photos: await inlineImages((serviceOrder.photos || []).map(thumbnailUrl)),
+        requestDate: serviceOrder.requestDate,
+        expectedDeliveryDate: serviceOrder.expectedDeliveryDate,
+        clientApproval: serviceOrder.clientApproval,
+        clientApprovalDate: serviceOrder.clientApprovalDate,
+        clientName: client?.name || '',
+        equipment: equipment ? {
+          type: equipment.type,
+          brand: equipment.brand,
+          model: equipment.model,
+          serialNumber: equipment.serialNumber
+        } : null,
+        company: {
+          name: companySettings?.name || 'Sistemas RST',
+          logoUrl: companySettings?.logoUrl ? await inlineImage(companySettings.logoUrl) : null,
+          address: companySettings?.address || '',
+          phone: companySettings?.phone || '',
+          email: companySettings?.email || ''
+        },
+        canRespond: serviceOrder.status === 'waiting_approval',
+        expiresAt: verified.expiresAt
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener la orden de servicio" });
+    }
+  });
+  
+  // Portal público de aprobación: el cliente aprueba (con firma) o rechaza la cotización
+  app.post("/api/public/approvals/:token", async (req, res) => {
+    try {
+      const verified = verifyApprovalToken(req.params.token);
+      if (!verified) {
+        return res.status(404).json({ message: "El enlace no es válido o ha expirado" });
+      }
+      
+      const parseResult = clientApprovalResponseSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const serviceOrder = await storage.getServiceOrder(verified.serviceOrderId);
+      if (!serviceOrder) {
+        return res.status(404).json({ message: "Orden de servicio no encontrada" });
+      }
+      
+      if (serviceOrder.status !== 'waiting_approval') {
+        return res.status(409).json({ message: "Esta orden ya no está esperando aprobación" });
+      }
+      
+      const { decision, signature, reason } = parseResult.data;
+      const updatedOrder = decision === 'approve'
+        ? await storage.updateServiceOrder(serviceOrder.id, {
+            status: 'approved',
+            clientApproval: true,
+            clientApprovalDate: new Date(),
+            // La orden guarda la URL de la firma, no el base64
+            clientSignature: await saveSignatureImage(signature!)
+          })
+        : await storage.updateServiceOrder(serviceOrder.id, {
+            status: 'cancelled',
+            clientApproval: false,
+            clientApprovalDate: new Date(),
+            notes: [serviceOrder.notes, `Rechazada por el cliente${reason ? `: ${reason}` : ''}`]
+              .filter(Boolean)
+              .join('\n')
+          });
+      if (updatedOrder) {
+        void notifyStatusChange(serviceOrder, updatedOrder);
+      }
+      
+      res.json({
+        success: true,
+        status: updatedOrder?.status,
+        message: decision === 'approve'
+          ? "La orden ha sido aprobada. ¡Gracias!"
+          : "La orden ha sido rechazada"
+      });
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PhotoError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error al registrar respuesta de aprobación:", error);
+      res.status(500).json({ message: "Error al registrar la respuesta" });
+    }
+  });
+  
   // Endpoint para descargar varias órdenes de servicio en un solo PDF
-  app.post("/api/service-orders/bulk-pdf", ensureAuthenticated, async (req, res) => {
+  app.post("/api/service-orders/bulk-pdf", requirePermission("orders:read"), async (req, res) => {
     try {
       const { ids } = req.body;
       if (!Array.isArray(ids) || ids.length === 0) {
@@ -900,12 +2158,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (!client || !equipment) continue;
         
+        const lineItems = await storage.listServiceOrderLineItems(serviceOrder.id);
         const orderData = {
           companyName: companySettings?.name || '',
           companyAddress: companySettings?.address || '',
           companyPhone: companySettings?.phone || '',
           companyEmail: companySettings?.email || '',
-          companyLogo: companySettings?.logoUrl || '',
+          companyLogo: companySettings?.logoUrl ? await inlineImage(companySettings.logoUrl) : '',
           orderNumber: serviceOrder.orderNumber,
           status: serviceOrder.status,
           statusClass: serviceOrder.status === 'completed' ? 'completed' : 
@@ -925,9 +2184,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: serviceOrder.description || '',
           notes: serviceOrder.notes || '',
           materialsUsed: serviceOrder.materialsUsed || '',
-          cost: serviceOrder.cost ? `$${serviceOrder.cost}` : '',
-          photos: serviceOrder.photos || [],
-          clientSignature: serviceOrder.clientSignature || ''
+          cost: serviceOrder.total !== null ? formatMoney(serviceOrder.total) : '',
+          subtotal: serviceOrder.subtotal !== null ? formatMoney(serviceOrder.subtotal) : '',
+          taxAmount: serviceOrder.taxAmount !== null ? formatMoney(serviceOrder.taxAmount) : '',
+          total: serviceOrder.total !== null ? formatMoney(serviceOrder.total) : '',
+          lineItems: lineItems.map(item => ({
+            description: item.description,
+            type: item.type === 'part' ? 'Refacción' : 'Mano de obra',
+            quantity: String(Number(item.quantity)),
+            unitPrice: formatMoney(item.unitPrice),
+            taxRate: `${Number(item.taxRate)}%`,
+            amount: formatMoney(fromCents(calculateLineItem(item).subtotal))
+          })),
+          photos: await inlineImages(serviceOrder.photos || []),
+          clientSignature: serviceOrder.clientSignature ? await inlineImage(serviceOrder.clientSignature) : ''
         };
         
         ordersData.push(orderData);
@@ -950,8 +2220,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // User management routes
-  app.get("/api/users", ensureAdmin, async (req, res) => {
+  app.get("/api/users", requirePermission("users:read"), async (req, res) => {
     try {
+      if (isPaginatedRequest(req)) {
+        const parsedQuery = listQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ 
+            message: "Parámetros de consulta inválidos", 
+            error: parsedQuery.error.errors 
+          });
+        }
+        const result = await storage.queryUsers(parsedQuery.data);
+        return res.json({
+          ...result,
+          items: result.items.map(({ password, ...userWithoutPassword }) => userWithoutPassword)
+        });
+      }
+      
       const users = await storage.listUsers();
       
       // Remove passwords from response
@@ -966,7 +2251,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/users", ensureAdmin, async (req, res) => {
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
     try {
       console.log("Recibiendo datos de usuario:", JSON.stringify(req.body));
       
@@ -982,7 +2267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { confirmPassword, ...userData } = validatedData;
       
       // Create user with hashed password
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser(userData, req.user?.id);
       
       // Remove password from response
       const { password, ...userWithoutPassword } = user;
@@ -1012,7 +2297,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/users/:id", ensureAdmin, async (req, res) => {
+  app.get("/api/users/:id", requirePermission("users:read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const user = await storage.getUser(id);
@@ -1030,7 +2315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/users/:id", ensureAdmin, async (req, res) => {
+  app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const userData = req.body;
@@ -1040,7 +2325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userData.password = await hashPassword(userData.password);
       }
       
-      const updatedUser = await storage.updateUser(id, userData);
+      const updatedUser = await storage.updateUser(id, userData, req.user?.id);
       
       if (!updatedUser) {
         return res.status(404).json({ message: "Usuario no encontrado" });
@@ -1055,7 +2340,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/users/:id", ensureAdmin, async (req, res) => {
+  app.delete("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -1064,7 +2349,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No puedes eliminar tu propio usuario" });
       }
       
-      const success = await storage.deleteUser(id);
+      const success = await storage.deleteUser(id, req.user?.id);
       
       if (!success) {
         return res.status(404).json({ message: "Usuario no encontrado" });
@@ -1076,28 +2361,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Registro de auditoría (solo administradores)
+  app.get("/api/audit", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const parsedQuery = auditQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
+      }
+      
+      const result = await storage.listAuditLog(parsedQuery.data);
+      const users = await storage.listUsers();
+      
+      res.json({
+        ...result,
+        items: result.items.map(entry => ({
+          ...entry,
+          actorName: entry.actorId
+            ? users.find(u => u.id === entry.actorId)?.fullName || 'Usuario eliminado'
+            : 'Sistema'
+        }))
+      });
+    } catch (error) {
+      console.error("Error al obtener auditoría:", error);
+      res.status(500).json({ message: "Error al obtener el registro de auditoría" });
+    }
+  });
+  
   // Company Settings routes
-  app.get("/api/company-settings", ensureAuthenticated, async (req, res) => {
+  app.get("/api/company-settings", requirePermission("settings:read"), async (req, res) => {
     try {
       const settings = await storage.getCompanySettings();
+      // Las credenciales SMTP solo las ve quien puede editar la configuración
+      if (settings && !hasPermission(req.user!.role, "settings:write")) {
+        return res.json({ ...settings, smtpUser: null, smtpPassword: null });
+      }
       res.json(settings);
     } catch (error) {
       res.status(500).json({ message: "Error al obtener configuración de empresa" });
     }
   });
   
-  app.put("/api/company-settings", ensureAdmin, async (req, res) => {
+  app.put("/api/company-settings", requirePermission("settings:write"), async (req, res) => {
     try {
       const validatedData = insertCompanySettingsSchema.parse(req.body);
-      const settings = await storage.updateCompanySettings(validatedData);
+      const settings = await storage.updateCompanySettings(validatedData, req.user?.id);
       res.json(settings);
     } catch (error) {
       res.status(400).json({ message: "Datos inválidos", error });
     }
   });
   
+  // Prueba la configuración SMTP guardada enviando un correo real. Los fallos de la
+  // prueba se devuelven con success: false y el diagnóstico de cada paso.
+  app.post("/api/email/test-connection", requirePermission("settings:write"), async (req, res) => {
+    const parseResult = smtpTestRequestSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ message: "Correo de prueba inválido" });
+    }
+    
+    try {
+      res.json(await testSmtpConnection(parseResult.data.testEmail));
+    } catch (error) {
+      console.error("Error al probar la conexión SMTP:", error);
+      res.status(500).json({ message: "Error al probar la conexión SMTP" });
+    }
+  });
+  
+  // Cola de correos salientes: estado de entrega de cada mensaje
+  app.get("/api/email-outbox", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const parsedQuery = emailOutboxQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ 
+          message: "Parámetros de consulta inválidos", 
+          error: parsedQuery.error.errors 
+        });
+      }
+      
+      const result = await storage.listEmailOutbox(parsedQuery.data);
+      res.json({ ...result, items: result.items.map(summarizeEmail) });
+    } catch (error) {
+      console.error("Error al obtener la cola de correo:", error);
+      res.status(500).json({ message: "Error al obtener la cola de correo" });
+    }
+  });
+  
+  app.get("/api/email-outbox/:id", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const message = await storage.getEmailOutboxMessage(parseInt(req.params.id));
+      if (!message) {
+        return res.status(404).json({ message: "Correo no encontrado" });
+      }
+      res.json(summarizeEmail(message));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el correo" });
+    }
+  });
+  
+  // Reintenta un correo fallido o vuelve a enviar uno ya entregado
+  app.post("/api/email-outbox/:id/resend", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const message = await resendEmail(parseInt(req.params.id));
+      if (!message) {
+        return res.status(404).json({ message: "Correo no encontrado" });
+      }
+      if (message.status === 'sending') {
+        return res.status(409).json({ message: "El correo se está enviando en este momento" });
+      }
+      res.json(summarizeEmail(message));
+    } catch (error) {
+      console.error("Error al reenviar correo de la cola:", error);
+      res.status(500).json({ message: "Error al reenviar el correo" });
+    }
+  });
+  
+  // Estados de la orden que generan aviso automático al cliente
+  app.get("/api/notification-settings", requirePermission("settings:write"), async (req, res) => {
+    try {
+      res.json(await storage.getNotificationSettings());
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener la configuración de avisos" });
+    }
+  });
+  
+  app.put("/api/notification-settings", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const parseResult = updateNotificationSettingsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      res.json(await storage.updateNotificationSettings(parseResult.data, req.user?.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error al guardar la configuración de avisos" });
+    }
+  });
+  
+  // Plantillas de correo por evento
+  const parseTemplateEvent = (value: string) =>
+    (emailTemplateEventEnum.enumValues as string[]).includes(value) ? value as EmailTemplateEvent : null;
+  
+  app.get("/api/email-templates", requirePermission("settings:write"), async (req, res) => {
+    try {
+      res.json(await listEmailTemplates());
+    } catch (error) {
+      console.error("Error al obtener las plantillas de correo:", error);
+      res.status(500).json({ message: "Error al obtener las plantillas de correo" });
+    }
+  });
+  
+  app.put("/api/email-templates/:event", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const event = parseTemplateEvent(req.params.event);
+      if (!event) {
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      const parseResult = updateEmailTemplateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Datos inválidos", error: parseResult.error.errors });
+      }
+      
+      const unknown = findUnknownPlaceholders(event, parseResult.data);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Variables desconocidas: ${unknown.map(name => `{{${name}}}`).join(', ')}` });
+      }
+      
+      await storage.saveEmailTemplate(event, parseResult.data, req.user?.id);
+      res.json((await listEmailTemplates()).find(template => template.event === event));
+    } catch (error) {
+      console.error("Error al guardar la plantilla de correo:", error);
+      res.status(500).json({ message: "Error al guardar la plantilla de correo" });
+    }
+  });
+  
+  // Elimina la personalización; el evento vuelve a la plantilla predeterminada
+  app.delete("/api/email-templates/:event", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const event = parseTemplateEvent(req.params.event);
+      if (!event) {
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      await storage.deleteEmailTemplate(event, req.user?.id);
+      res.json((await listEmailTemplates()).find(template => template.event === event));
+    } catch (error) {
+      console.error("Error al restablecer la plantilla de correo:", error);
+      res.status(500).json({ message: "Error al restablecer la plantilla de correo" });
+    }
+  });
+  
+  // Vista previa con datos de ejemplo
+  app.post("/api/email-templates/:event/preview", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const event = parseTemplateEvent(req.params.event);
+      if (!event) {
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      const parseResult = emailTemplatePreviewSchema.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Datos inválidos", error: parseResult.error.errors });
+      }
+      
+      res.json(await previewEmailTemplate(event, parseResult.data));
+    } catch (error) {
+      console.error("Error al generar la vista previa:", error);
+      res.status(500).json({ message: "Error al generar la vista previa" });
+    }
+  });
+  
+  // Estado del servidor, base de datos, latencia de la API y servicios de correo y PDF
+  app.get("/api/admin/system-info", requirePermission("settings:write"), async (req, res) => {
+    try {
+      res.json(await getSystemInfo());
+    } catch (error) {
+      console.error("Error al obtener información del sistema:", error);
+      res.status(500).json({ message: "Error al obtener información del sistema" });
+    }
+  });
+  
+  // Backup routes
+  app.get("/api/backups", requirePermission("settings:write"), async (req, res) => {
+    try {
+      res.json(await listBackups());
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los respaldos" });
+    }
+  });
+  
+  app.post("/api/backups", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const backup = await createBackup();
+      const settings = await storage.getBackupSettings();
+      await pruneBackups(settings.retentionDays);
+      res.status(201).json(backup);
+    } catch (error) {
+      console.error("Error al generar respaldo:", error);
+      res.status(500).json({ message: "Error al generar el respaldo" });
+    }
+  });
+  
+  app.get("/api/backups/settings", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const settings = await storage.getBackupSettings();
+      res.json({ ...settings, nextRunAt: settings.enabled ? nextBackupRun(settings) : null });
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener la programación de respaldos" });
+    }
+  });
+  
+  app.put("/api/backups/settings", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const parseResult = updateBackupSettingsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Datos inválidos", 
+          error: parseResult.error.errors 
+        });
+      }
+      
+      const settings = await storage.updateBackupSettings(parseResult.data, req.user?.id);
+      res.json({ ...settings, nextRunAt: settings.enabled ? nextBackupRun(settings) : null });
+    } catch (error) {
+      res.status(500).json({ message: "Error al guardar la programación de respaldos" });
+    }
+  });
+  
+  // Restaura desde un respaldo subido como archivo (campo "files"). Con ?dryRun=true solo
+  // valida el archivo y devuelve la comparación de registros sin modificar nada.
+  app.post("/api/backups/restore", requirePermission("settings:write"), receiveBackupFile, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No se recibió ningún archivo" });
+      }
+      
+      const dryRun = req.query.dryRun === "true";
+      const content = await readUploadedBackup(req.file);
+      const result = dryRun ? await previewRestore(content) : await restoreBackup(content);
+      if (!result.valid) {
+        return res.status(400).json({ message: "El respaldo no es válido", ...result });
+      }
+      
+      if (!dryRun) {
+        // La configuración de correo pudo cambiar con los datos restaurados
+        await loadEmailConfigFromDatabase();
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error al restaurar respaldo:", error);
+      res.status(500).json({ message: "Error al restaurar el respaldo" });
+    }
+  });
+  
+  app.get("/api/backups/:filename", requirePermission("settings:write"), async (req, res) => {
+    const filePath = getBackupPath(req.params.filename);
+    if (!filePath) {
+      return res.status(404).json({ message: "Respaldo no encontrado" });
+    }
+    res.download(filePath, req.params.filename);
+  });
+  
   // Monthly Revenue routes
-  app.get("/api/monthly-revenue/current", ensureAuthenticated, async (req, res) => {
+  app.get("/api/monthly-revenue/current", requirePermission("finance:read"), async (req, res) => {
     try {
       const revenue = await storage.calculateCurrentMonthRevenue();
       res.json(revenue);
@@ -1106,7 +2678,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/monthly-revenue/:year", ensureAuthenticated, async (req, res) => {
+  // Reconstruye los ingresos de todos los meses a partir de las órdenes cerradas. Borra y vuelve
+  // a generar la tabla completa, por eso es una tarea de administración y no se ejecuta al iniciar
+  app.post("/api/monthly-revenue/rebuild", requirePermission("settings:write"), async (req, res) => {
+    try {
+      const revenues = await storage.rebuildMonthlyRevenue();
+      res.json({ months: revenues.length });
+    } catch (error) {
+      console.error('Error al reconstruir los ingresos mensuales:', error);
+      res.status(500).json({ message: "Error al reconstruir los ingresos mensuales" });
+    }
+  });
+  
+  // Solo años numéricos, para no capturar rutas como /history
+  app.get("/api/monthly-revenue/:year(\\d+)", requirePermission("finance:read"), async (req, res) => {
     try {
       const year = parseInt(req.params.year);
       
@@ -1140,7 +2725,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint de diagnóstico para monthly_revenue
-  app.get("/api/debug/monthly-revenue", ensureAuthenticated, async (req, res) => {
+  app.get("/api/debug/monthly-revenue", requirePermission("finance:read"), async (req, res) => {
     try {
       console.log('🔍 === INICIO DIAGNÓSTICO MONTHLY_REVENUE ===');
       
@@ -1187,7 +2772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Endpoint para obtener historial de ingresos
-  app.get("/api/monthly-revenue/history", ensureAuthenticated, async (req, res) => {
+  app.get("/api/monthly-revenue/history", requirePermission("finance:read"), async (req, res) => {
     try {
       console.log('🚀 === INICIO ENDPOINT /api/monthly-revenue/history ===');
       const limit = 12; // Siempre 12 meses
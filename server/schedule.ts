@@ -0,0 +1,83 @@
+import { closedOrderStatuses, type Appointment, type AppointmentWithDetails, type Technician, type TechnicianStatus } from '@shared/schema';
+import { storage } from './storage';
+
+// Estado del técnico según su agenda: el que se marcó como no disponible lo sigue
+// estando hasta que se cambie a mano; si no, está en servicio mientras tenga un
+// trabajo iniciado o una cita en curso de una orden abierta, y disponible en otro caso
+async function deriveTechnicianStatus(technician: Technician, now: Date): Promise<TechnicianStatus> {
+  if (technician.status === 'unavailable') return 'unavailable';
+
+  const openSessions = await storage.listOpenWorkSessionsByTechnician(technician.id);
+  if (openSessions.length > 0) return 'in_service';
+
+  const current = await storage.listAppointments({ from: now, to: new Date(now.getTime() + 1), technicianId: technician.id });
+  for (const appointment of current) {
+    const order = await storage.getServiceOrder(appointment.serviceOrderId);
+    if (order && !closedOrderStatuses.includes(order.status)) return 'in_service';
+  }
+  return 'available';
+}
+
+// Guarda el estado calculado del técnico si cambió
+export async function syncTechnicianStatus(technicianId: number, changedBy?: number, now: Date = new Date()) {
+  const technician = await storage.getTechnician(technicianId);
+  if (!technician) return;
+
+  const status = await deriveTechnicianStatus(technician, now);
+  if (technician.status !== status) {
+    await storage.updateTechnician(technicianId, { status }, changedBy);
+  }
+}
+
+// Citas con el número y la descripción de la orden, el cliente y el nombre del técnico
+export async function withAppointmentDetails(appointments: Appointment[]): Promise<AppointmentWithDetails[]> {
+  const [orders, clients, technicians, users] = await Promise.all([
+    storage.listServiceOrders(),
+    storage.listClients(),
+    storage.listTechnicians(),
+    storage.listUsers(),
+  ]);
+
+  return appointments.map(appointment => {
+    const order = orders.find(o => o.id === appointment.serviceOrderId);
+    const client = order ? clients.find(c => c.id === order.clientId) : undefined;
+    const technician = technicians.find(t => t.id === appointment.technicianId);
+    const user = technician ? users.find(u => u.id === technician.userId) : undefined;
+    return {
+      ...appointment,
+      orderNumber: order?.orderNumber ?? null,
+      orderStatus: order?.status ?? null,
+      orderDescription: order?.description ?? null,
+      clientName: client?.name ?? null,
+      technicianName: user?.fullName ?? null,
+    };
+  });
+}
+
+let statusTimer: NodeJS.Timeout | null = null;
+let statusSyncRunning = false;
+
+async function syncAllTechnicianStatuses() {
+  if (statusSyncRunning) return;
+  statusSyncRunning = true;
+
+  try {
+    const technicians = await storage.listTechnicians();
+    const now = new Date();
+    for (const technician of technicians) {
+      await syncTechnicianStatus(technician.id, undefined, now);
+    }
+  } catch (error) {
+    console.error('Error al actualizar el estado de los técnicos:', error);
+  } finally {
+    statusSyncRunning = false;
+  }
+}
+
+// Las citas empiezan y terminan sin que nadie toque la orden, por lo que
+// el estado de los técnicos se recalcula cada minuto
+export function startTechnicianStatusScheduler() {
+  if (statusTimer) return;
+  statusTimer = setInterval(syncAllTechnicianStatuses, 60 * 1000);
+  void syncAllTechnicianStatuses();
+}
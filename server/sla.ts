@@ -0,0 +1,87 @@
+import type {
+  OrderPriority, ServiceOrder, ServiceOrderWithSla, SlaComplianceReport, SlaComplianceRow, SlaReportQuery, SlaState,
+} from '@shared/schema';
+import { orderSlaStatus } from '@shared/sla';
+import { storage } from './storage';
+
+const priorityLabels: Record<OrderPriority, string> = {
+  low: 'Baja',
+  normal: 'Normal',
+  high: 'Alta',
+  urgent: 'Urgente',
+};
+
+// Agrega a cada orden la situación de sus compromisos de respuesta y resolución
+export function withSlaStatus(orders: ServiceOrder[], now: Date = new Date()): ServiceOrderWithSla[] {
+  return orders.map(order => ({ ...order, sla: orderSlaStatus(order, now) }));
+}
+
+const isAlert = (state: SlaState | null) => state === 'at_risk' || state === 'breached';
+
+// Órdenes abiertas con algún compromiso en riesgo o incumplido, las que vencen antes primero
+export async function listSlaAlerts(now: Date = new Date()) {
+  const [orders, clients] = await Promise.all([storage.listServiceOrders(), storage.listClients()]);
+
+  return withSlaStatus(orders, now)
+    .filter(order => order.status !== 'completed' && order.status !== 'cancelled' && order.status !== 'warranty')
+    .filter(order => isAlert(order.sla.response) || isAlert(order.sla.resolution))
+    .map(order => ({
+      ...order,
+      clientName: clients.find(client => client.id === order.clientId)?.name ?? 'Cliente desconocido',
+      // Vencimiento más próximo entre los compromisos pendientes
+      nextDueAt: !order.respondedAt && order.responseDueAt ? order.responseDueAt : order.resolutionDueAt,
+    }))
+    .sort((a, b) => new Date(a.nextDueAt ?? 0).getTime() - new Date(b.nextDueAt ?? 0).getTime());
+}
+
+function emptyRow(key: string, label: string): SlaComplianceRow {
+  return { key, label, orders: 0, responseMet: 0, responseBreached: 0, resolutionMet: 0, resolutionBreached: 0 };
+}
+
+function addToRow(row: SlaComplianceRow, order: ServiceOrderWithSla) {
+  row.orders++;
+  if (order.sla.response === 'met') row.responseMet++;
+  if (order.sla.response === 'breached') row.responseBreached++;
+  if (order.sla.resolution === 'met') row.resolutionMet++;
+  if (order.sla.resolution === 'breached') row.resolutionBreached++;
+}
+
+// Cumplimiento de las órdenes con SLA solicitadas en el periodo. Los compromisos aún
+// en curso no cuentan como cumplidos ni incumplidos hasta que se resuelven o vencen.
+export async function buildSlaComplianceReport(query: SlaReportQuery, now: Date = new Date()): Promise<SlaComplianceReport> {
+  const [orders, policies] = await Promise.all([storage.listServiceOrders(), storage.listSlaPolicies()]);
+  const ordersInRange = withSlaStatus(orders, now).filter(order =>
+    (order.responseDueAt || order.resolutionDueAt) &&
+    order.requestDate >= query.from &&
+    order.requestDate <= query.to
+  );
+
+  const totals = emptyRow('total', 'Total');
+  const byPolicy = new Map<string, SlaComplianceRow>();
+  const byPriority = new Map<string, SlaComplianceRow>();
+
+  for (const order of ordersInRange) {
+    addToRow(totals, order);
+
+    const policyKey = order.slaPolicyId !== null ? String(order.slaPolicyId) : 'deleted';
+    if (!byPolicy.has(policyKey)) {
+      const policy = policies.find(p => p.id === order.slaPolicyId);
+      byPolicy.set(policyKey, emptyRow(policyKey, policy?.name ?? 'Política eliminada'));
+    }
+    addToRow(byPolicy.get(policyKey)!, order);
+
+    if (!byPriority.has(order.priority)) {
+      byPriority.set(order.priority, emptyRow(order.priority, priorityLabels[order.priority]));
+    }
+    addToRow(byPriority.get(order.priority)!, order);
+  }
+
+  const priorityOrder = Object.keys(priorityLabels);
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    totals,
+    byPolicy: Array.from(byPolicy.values()).sort((a, b) => a.label.localeCompare(b.label)),
+    byPriority: Array.from(byPriority.values()).sort((a, b) => priorityOrder.indexOf(a.key) - priorityOrder.indexOf(b.key)),
+  };
+}
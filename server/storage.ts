@@ -1,18 +1,39 @@
 import { 
   users, type User, type InsertUser, type InsertUserDb,
   clients, type Client, type InsertClient,
-  technicians, type Technician, type InsertTechnician,
-  equipment, type Equipment, type InsertEquipment,
+  technicians, type Technician, type InsertTechnician, type TechnicianStatus,
+  equipment, type Equipment, type InsertEquipment, equipmentOwnershipHistory, type EquipmentOwnershipChange,
   serviceOrders, type ServiceOrder, type InsertServiceOrder, type UpdateServiceOrder,
+  serviceOrderStatusHistory, type ServiceOrderStatusHistory, type OrderStatus, canTransitionOrderStatus, closedOrderStatuses,
+  serviceOrderWorkSessions, type ServiceOrderWorkSession,
+  attachments, type Attachment, type InsertAttachment,
+  appointments, type Appointment, type InsertAppointment, type UpdateAppointment, type AppointmentQuery,
+  calendarFeeds, type CalendarFeed, type InsertCalendarFeed,
+  slaPolicies, type SlaPolicy, type InsertSlaPolicy, type OrderPriority,
+  businessCalendars, type BusinessCalendar, type InsertBusinessCalendar,
+  maintenanceContracts, type MaintenanceContract, type InsertMaintenanceContract,
   companySettings, type CompanySettings, type InsertCompanySettings,
-  monthlyRevenue, type MonthlyRevenue, type InsertMonthlyRevenue
+  backupSettings, type BackupSettings, type UpdateBackupSettings,
+  notificationSettings, type NotificationSettings, type UpdateNotificationSettings,
+  emailOutbox, type EmailOutboxMessage, type InsertEmailOutboxMessage, type EmailOutboxQuery,
+  emailTemplates, type EmailTemplate, type EmailTemplateEvent, type UpdateEmailTemplate,
+  monthlyRevenue, type MonthlyRevenue, type InsertMonthlyRevenue,
+  orderStatusEnum, type ListQuery, type PaginatedResult,
+  searchDocument, type SearchResults,
+  auditLog, type AuditLogEntry, type AuditQuery, type AuditEntityType, type AuditAction, type AuditChanges,
+  serviceOrderLineItems, type ServiceOrderLineItem, type LineItemInput,
+  parts, type Part, type InsertPart, partStockMovements, type PartStockMovement, type StockMovementInput
 } from "@shared/schema";
+import { calculateTotals, fromCents, toCents } from "@shared/money";
+import { calculateSlaDueDates, isOrderResponded, selectSlaPolicy } from "@shared/sla";
+import { nextContractVisit } from "@shared/maintenance";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { db } from "./db";
-import { eq, and, or, sql } from "drizzle-orm";
+import { eq, ne, and, or, sql, isNull, isNotNull, asc, desc, ilike, gt, gte, lte, lt, inArray, notInArray, count, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
@@ -31,6 +52,505 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Error lanzado cuando se intenta un cambio de estado no permitido
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`No se puede cambiar el estado de la orden de "${from}" a "${to}"`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+// Error lanzado cuando un movimiento dejaría la existencia de una refacción en negativo
+export class InsufficientStockError extends Error {
+  constructor(public part: Part, public requested: number) {
+    super(`Existencia insuficiente de "${part.name}" (disponible: ${part.stockQuantity}, requerido: ${requested})`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Error lanzado cuando una cita se traslapa con otras del mismo técnico
+export class AppointmentConflictError extends Error {
+  constructor(public conflicts: Appointment[]) {
+    super(`El técnico ya tiene ${conflicts.length === 1 ? 'otra cita' : `${conflicts.length} citas`} en ese horario`);
+    this.name = "AppointmentConflictError";
+  }
+}
+
+// Construye el ORDER BY a partir del parámetro "sort" ("campo" o "-campo").
+// Los campos que no están en la lista de ordenables se ignoran.
+function buildOrderBy(sort: string | undefined, sortable: Record<string, AnyPgColumn>, fallback: SQL): SQL {
+  if (!sort) return fallback;
+  const descending = sort.startsWith('-');
+  const column = sortable[descending ? sort.slice(1) : sort];
+  if (!column) return fallback;
+  return descending ? desc(column) : asc(column);
+}
+
+// Ejecuta un listado paginado con LIMIT/OFFSET y el total de registros filtrados
+async function paginate<TTable extends PgTable>(
+  table: TTable,
+  query: Pick<ListQuery, 'page' | 'pageSize'>,
+  conditions: (SQL | undefined)[],
+  orderBy: SQL
+): Promise<PaginatedResult<TTable["$inferSelect"]>> {
+  const where = and(...conditions);
+  const [{ total }] = await db.select({ total: count() }).from(table as PgTable).where(where);
+  const items = await db.select()
+    .from(table as PgTable)
+    .where(where)
+    .orderBy(orderBy)
+    .limit(query.pageSize)
+    .offset((query.page - 1) * query.pageSize);
+  
+  return { items: items as TTable["$inferSelect"][], total, page: query.page, pageSize: query.pageSize };
+}
+
+// Equivalente en memoria de paginate() para MemStorage
+function paginateInMemory<T>(
+  rows: T[],
+  query: ListQuery,
+  sortable: (keyof T & string)[],
+  defaultSort: string
+): PaginatedResult<T> {
+  const requested = query.sort?.replace(/^-/, '') as keyof T & string | undefined;
+  const sort = query.sort && requested && sortable.includes(requested) ? query.sort : defaultSort;
+  const descending = sort.startsWith('-');
+  const field = sort.replace(/^-/, '') as keyof T;
+  
+  const sorted = [...rows].sort((a, b) => {
+    const left = a[field] as unknown as string | number | Date | null;
+    const right = b[field] as unknown as string | number | Date | null;
+    if (left === right) return 0;
+    if (left === null) return 1;
+    if (right === null) return -1;
+    const result = left < right ? -1 : 1;
+    return descending ? -result : result;
+  });
+  
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: sorted.slice(start, start + query.pageSize),
+    total: rows.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+// Estados válidos indicados en el filtro "status" (admite varios separados por coma)
+function parseStatusFilter(status: string | undefined): OrderStatus[] {
+  if (!status) return [];
+  return status.split(',')
+    .map(s => s.trim())
+    .filter((s): s is OrderStatus => (orderStatusEnum.enumValues as readonly string[]).includes(s));
+}
+
+// Comprueba si alguno de los valores contiene el texto buscado (sin distinguir mayúsculas)
+function matchesSearch(term: string | undefined, ...values: (string | null | undefined)[]): boolean {
+  if (!term) return true;
+  const needle = term.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+}
+
+// Términos de búsqueda normalizados (letras y números)
+function searchTerms(q: string): string[] {
+  return q.toLowerCase().split(/[^a-z0-9áéíóúüñ]+/).filter(Boolean);
+}
+
+// Campos que nunca se guardan en la auditoría
+const auditRedactedFields = ['password', 'smtpPassword'];
+
+// Copia de un registro apta para la auditoría: oculta credenciales y
+// sustituye imágenes/firmas en base64 por un marcador.
+function auditSnapshot(record: object): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (auditRedactedFields.includes(key)) {
+      snapshot[key] = '[oculto]';
+    } else if (typeof value === 'string' && value.startsWith('data:')) {
+      snapshot[key] = '[archivo]';
+    } else if (Array.isArray(value)) {
+      snapshot[key] = value.map(item => typeof item === 'string' && item.startsWith('data:') ? '[archivo]' : item);
+    } else {
+      snapshot[key] = value;
+    }
+  }
+  return snapshot;
+}
+
+// Cambios a registrar para una operación. En las modificaciones solo se incluyen
+// los campos que cambiaron; devuelve null si no hubo ningún cambio.
+function auditChanges(before: object | null, after: object | null): AuditChanges | null {
+  if (!before || !after) {
+    return {
+      before: before ? auditSnapshot(before) : null,
+      after: after ? auditSnapshot(after) : null,
+    };
+  }
+  
+  const previous = auditSnapshot(before);
+  const current = auditSnapshot(after);
+  const changedKeys = Object.keys(current).filter(
+    key => JSON.stringify(previous[key]) !== JSON.stringify(current[key])
+  );
+  if (changedKeys.length === 0) return null;
+  
+  return {
+    before: Object.fromEntries(changedKeys.map(key => [key, previous[key]])),
+    after: Object.fromEntries(changedKeys.map(key => [key, current[key]])),
+  };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Inserta una entrada de auditoría dentro de la transacción de la operación
+async function recordAudit(
+  tx: Transaction,
+  entityType: AuditEntityType,
+  entityId: number,
+  action: AuditAction,
+  before: object | null,
+  after: object | null,
+  changedBy?: number
+) {
+  const changes = auditChanges(before, after);
+  if (!changes) return;
+  
+  await tx.insert(auditLog).values({
+    actorId: changedBy ?? null,
+    entityType,
+    entityId,
+    action,
+    changes,
+  });
+}
+
+// Totales de una orden sin partidas: el costo capturado se toma como total
+function totalsFromCost(cost: number | null | undefined) {
+  if (cost === null || cost === undefined) {
+    return { subtotal: null, taxAmount: null, total: null };
+  }
+  const amount = fromCents(cost * 100);
+  return { subtotal: amount, taxAmount: '0.00', total: amount };
+}
+
+// Totales de una orden con partidas. Las órdenes en garantía no tienen costo.
+function totalsFromLineItems(items: LineItemInput[], status: OrderStatus) {
+  if (status === 'warranty') return totalsFromCost(0);
+  return calculateTotals(items);
+}
+
+type NewStockMovement = Omit<typeof partStockMovements.$inferInsert, 'id' | 'createdAt'>;
+
+// Unidades de cada refacción del inventario en un conjunto de partidas
+function partQuantities(items: { partId?: number | null; quantity: string | number }[]): Map<number, number> {
+  const quantities = new Map<number, number>();
+  items.forEach(item => {
+    if (item.partId) {
+      quantities.set(item.partId, (quantities.get(item.partId) ?? 0) + Number(item.quantity));
+    }
+  });
+  return quantities;
+}
+
+// Movimientos de inventario al cambiar las partidas de una orden: consumo si
+// aumentan las unidades de una refacción y devolución si disminuyen.
+function orderStockMovements(
+  serviceOrderId: number,
+  before: { partId?: number | null; quantity: string | number }[],
+  after: { partId?: number | null; quantity: string | number }[],
+  changedBy?: number
+): NewStockMovement[] {
+  const previous = partQuantities(before);
+  const current = partQuantities(after);
+  const partIds = Array.from(new Set([...Array.from(previous.keys()), ...Array.from(current.keys())]));
+  
+  return partIds
+    .map(partId => ({ partId, consumed: (current.get(partId) ?? 0) - (previous.get(partId) ?? 0) }))
+    .filter(({ consumed }) => consumed !== 0)
+    .map(({ partId, consumed }) => ({
+      partId,
+      type: consumed > 0 ? 'consumption' as const : 'return' as const,
+      quantity: -consumed,
+      serviceOrderId,
+      createdBy: changedBy ?? null,
+    }));
+}
+
+// Aplica un movimiento (cantidad con signo) dentro de la transacción. La condición
+// del UPDATE impide que la existencia quede negativa aunque haya escrituras concurrentes.
+async function applyStockMovement(tx: Transaction, movement: NewStockMovement): Promise<Part> {
+  const [updatedPart] = await tx.update(parts)
+    .set({ stockQuantity: sql`${parts.stockQuantity} + ${movement.quantity}` })
+    .where(and(eq(parts.id, movement.partId), gte(parts.stockQuantity, -movement.quantity)))
+    .returning();
+  
+  if (!updatedPart) {
+    const [part] = await tx.select().from(parts).where(eq(parts.id, movement.partId));
+    if (!part) throw new Error(`La refacción ${movement.partId} no existe`);
+    throw new InsufficientStockError(part, -movement.quantity);
+  }
+  
+  await tx.insert(partStockMovements).values(movement);
+  return updatedPart;
+}
+
+// Citas del técnico que se traslapan con el horario indicado (los extremos pueden tocarse).
+// Las citas de órdenes cerradas ya no ocupan el horario.
+function appointmentConflictsQuery(executor: Transaction | typeof db, technicianId: number, startsAt: Date, endsAt: Date, excludeId?: number) {
+  return executor.select({ appointment: appointments })
+    .from(appointments)
+    .innerJoin(serviceOrders, eq(appointments.serviceOrderId, serviceOrders.id))
+    .where(and(
+      eq(appointments.technicianId, technicianId),
+      lt(appointments.startsAt, endsAt),
+      gt(appointments.endsAt, startsAt),
+      notInArray(serviceOrders.status, closedOrderStatuses),
+      excludeId !== undefined ? ne(appointments.id, excludeId) : undefined
+    ))
+    .orderBy(appointments.startsAt);
+}
+
+// Bloquea al técnico durante la transacción para que dos citas simultáneas no se
+// validen a la vez, y falla si el horario se traslapa con otra de sus citas
+async function assertNoAppointmentConflicts(tx: Transaction, technicianId: number, startsAt: Date, endsAt: Date, excludeId?: number) {
+  await tx.select({ id: technicians.id }).from(technicians).where(eq(technicians.id, technicianId)).for('update');
+  const conflicts = await appointmentConflictsQuery(tx, technicianId, startsAt, endsAt, excludeId);
+  if (conflicts.length > 0) throw new AppointmentConflictError(conflicts.map(({ appointment }) => appointment));
+}
+
+// Actualiza la orden dentro de la transacción validando el cambio de estado contra la fila bloqueada
+async function updateServiceOrderRecord(tx: Transaction, id: number, serviceOrderData: Partial<UpdateServiceOrder>, changedBy?: number): Promise<ServiceOrder | undefined> {
+  // La orden se bloquea para que dos cambios de estado simultáneos no partan de la misma copia
+  const [currentOrder] = await tx.select().from(serviceOrders).where(eq(serviceOrders.id, id)).for('update');
+  if (!currentOrder) return undefined;
+  
+  const newStatus = serviceOrderData.status;
+  const statusChanged = newStatus !== undefined && newStatus !== currentOrder.status;
+  
+  if (statusChanged && !canTransitionOrderStatus(currentOrder.status, newStatus)) {
+    throw new InvalidStatusTransitionError(currentOrder.status, newStatus);
+  }
+  
+  // Si se está cambiando el estado a warranty (garantía), establecer costo a 0
+  if (serviceOrderData.status === 'warranty') {
+    serviceOrderData.cost = 0;
+  }
+  
+  // Al cerrar la orden registramos la fecha de finalización si no viene
+  if (statusChanged && (newStatus === 'completed' || newStatus === 'warranty') && !serviceOrderData.completionDate) {
+    serviceOrderData.completionDate = new Date();
+  }
+  
+  // Con partidas el total se calcula a partir de ellas; sin partidas, del costo capturado
+  const [lineItem] = await tx.select({ id: serviceOrderLineItems.id })
+    .from(serviceOrderLineItems)
+    .where(eq(serviceOrderLineItems.serviceOrderId, id))
+    .limit(1);
+  const totals = serviceOrderData.status === 'warranty'
+    ? totalsFromCost(0)
+    : serviceOrderData.cost !== undefined && !lineItem
+      ? totalsFromCost(serviceOrderData.cost)
+      : {};
+  
+  // Cambiar el cliente o la prioridad recalcula los plazos desde la fecha de solicitud
+  const next = orderAfterUpdate(currentOrder, serviceOrderData);
+  const sla = next.clientId !== currentOrder.clientId || next.priority !== currentOrder.priority
+    ? await resolveOrderSla(tx, next, currentOrder.requestDate)
+    : {};
+  const response = !currentOrder.respondedAt && isOrderResponded(next) ? { respondedAt: new Date() } : {};
+  
+  const [updatedServiceOrder] = await tx.update(serviceOrders)
+    .set({ ...serviceOrderData, ...totals, ...sla, ...response })
+    .where(eq(serviceOrders.id, id))
+    .returning();
+  
+  if (statusChanged) {
+    await tx.insert(serviceOrderStatusHistory).values({
+      serviceOrderId: id,
+      fromStatus: currentOrder.status,
+      toStatus: newStatus,
+      changedBy: changedBy ?? null,
+    });
+  }
+  
+  await recordAudit(tx, 'service_order', id, 'update', currentOrder, updatedServiceOrder, changedBy);
+  for (const revenueMonth of affectedRevenueMonths(currentOrder, updatedServiceOrder)) {
+    await recalculateRevenueMonth(tx, revenueMonth);
+  }
+  return updatedServiceOrder;
+}
+
+// Reemplaza las partidas de la orden dentro de la transacción, con los movimientos de inventario
+async function replaceLineItemRecords(tx: Transaction, serviceOrderId: number, items: LineItemInput[], changedBy?: number): Promise<ServiceOrder | undefined> {
+  const [currentOrder] = await tx.select().from(serviceOrders).where(eq(serviceOrders.id, serviceOrderId)).for('update');
+  if (!currentOrder) return undefined;
+  
+  const totals = items.length > 0
+    ? totalsFromLineItems(items, currentOrder.status)
+    : totalsFromCost(currentOrder.cost);
+  const previousItems = await tx.select()
+    .from(serviceOrderLineItems)
+    .where(eq(serviceOrderLineItems.serviceOrderId, serviceOrderId));
+  
+  for (const movement of orderStockMovements(serviceOrderId, previousItems, items, changedBy)) {
+    await applyStockMovement(tx, movement);
+  }
+  
+  await tx.delete(serviceOrderLineItems).where(eq(serviceOrderLineItems.serviceOrderId, serviceOrderId));
+  
+  if (items.length > 0) {
+    await tx.insert(serviceOrderLineItems).values(items.map((item, index) => ({
+      serviceOrderId,
+      partId: item.partId ?? null,
+      type: item.type,
+      description: item.description,
+      quantity: item.quantity.toFixed(2),
+      unitPrice: item.unitPrice.toFixed(2),
+      taxRate: item.taxRate.toFixed(2),
+      position: index,
+    })));
+  }
+  
+  // El costo entero se mantiene como el total redondeado para las vistas que aún lo usan
+  const [updatedServiceOrder] = await tx.update(serviceOrders)
+    .set({
+      ...totals,
+      cost: items.length > 0 ? Math.round(toCents(totals.total) / 100) : currentOrder.cost,
+    })
+    .where(eq(serviceOrders.id, serviceOrderId))
+    .returning();
+  
+  await recordAudit(tx, 'service_order', serviceOrderId, 'update', currentOrder, updatedServiceOrder, changedBy);
+  for (const revenueMonth of affectedRevenueMonths(currentOrder, updatedServiceOrder)) {
+    await recalculateRevenueMonth(tx, revenueMonth);
+  }
+  return updatedServiceOrder;
+}
+
+// Alta de un equipo con la asignación inicial de propietario en su historial
+async function insertEquipmentRecord(tx: Transaction, insertEquipment: InsertEquipment, changedBy?: number): Promise<Equipment> {
+  // Asegurarnos de que description, location y company son null si no vienen
+  const equipmentData = {
+    ...insertEquipment,
+    description: insertEquipment.description ?? null,
+    location: insertEquipment.location ?? null,
+    company: insertEquipment.company ?? null,
+    clientId: insertEquipment.clientId ?? null,
+  };
+  
+  const [newEquipment] = await tx.insert(equipment).values(equipmentData).returning();
+  if (newEquipment.clientId !== null) {
+    await tx.insert(equipmentOwnershipHistory).values({
+      equipmentId: newEquipment.id,
+      fromClientId: null,
+      toClientId: newEquipment.clientId,
+      changedBy: changedBy ?? null,
+    });
+  }
+  await recordAudit(tx, 'equipment', newEquipment.id, 'create', null, newEquipment, changedBy);
+  return newEquipment;
+}
+
+// Plazos SLA de una orden según las políticas activas y el calendario de la que le aplica
+async function resolveOrderSla(tx: Transaction, order: { clientId: number; priority: OrderPriority }, requestDate: Date) {
+  const policies = await tx.select().from(slaPolicies).where(eq(slaPolicies.active, true));
+  const policy = selectSlaPolicy(policies, order);
+  const [calendar] = policy?.businessCalendarId
+    ? await tx.select().from(businessCalendars).where(eq(businessCalendars.id, policy.businessCalendarId))
+    : [];
+  return calculateSlaDueDates(requestDate, policy, calendar);
+}
+
+// Datos de la orden después de aplicar un cambio parcial, para decidir si se recalculan sus plazos
+function orderAfterUpdate(order: ServiceOrder, data: Partial<UpdateServiceOrder>) {
+  return {
+    clientId: data.clientId ?? order.clientId,
+    priority: data.priority ?? order.priority,
+    status: data.status ?? order.status,
+    technicianId: data.technicianId !== undefined ? data.technicianId : order.technicianId,
+  };
+}
+
+// Próxima visita de un contrato al crearlo o editarlo: la primera a partir de hoy que
+// sea posterior a la última visita generada, para no repetir ni recuperar visitas pasadas
+function pendingContractVisit(contract: InsertMaintenanceContract, lastVisitAt: Date | null, now: Date = new Date()) {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const from = lastVisitAt && lastVisitAt >= today ? new Date(lastVisitAt.getTime() + 1) : today;
+  return nextContractVisit({
+    frequency: contract.frequency,
+    interval: contract.interval,
+    startDate: contract.startDate,
+    endDate: contract.endDate ?? null,
+  }, from);
+}
+
+type RevenueMonth = { year: number; month: number };
+
+// Mes al que se asignan los ingresos de una orden: el de su fecha de finalización,
+// solo si está completada o en garantía
+function revenueMonthOf(order: ServiceOrder | null | undefined): RevenueMonth | null {
+  if (!order?.completionDate || (order.status !== 'completed' && order.status !== 'warranty')) return null;
+  const completionDate = new Date(order.completionDate);
+  return { year: completionDate.getFullYear(), month: completionDate.getMonth() + 1 };
+}
+
+// Meses cuyos ingresos cambian con una operación sobre una orden: el mes en que
+// contaba antes y el mes en que cuenta ahora, si cambió su estado, total o fecha de finalización
+function affectedRevenueMonths(before: ServiceOrder | null, after: ServiceOrder | null): RevenueMonth[] {
+  const changed = !before || !after ||
+    before.status !== after.status ||
+    before.total !== after.total ||
+    before.completionDate?.getTime() !== after.completionDate?.getTime();
+  if (!changed) return [];
+  
+  const previous = revenueMonthOf(before);
+  const current = revenueMonthOf(after);
+  if (previous && current && previous.year === current.year && previous.month === current.month) {
+    return [current];
+  }
+  return [previous, current].filter((month): month is RevenueMonth => month !== null);
+}
+
+// Rango [inicio, fin) de un mes en la zona horaria del servidor
+function monthRange({ year, month }: RevenueMonth) {
+  return { start: new Date(year, month - 1, 1), end: new Date(year, month, 1) };
+}
+
+// Totales de un mes a partir de los importes de sus órdenes (en centavos para no acumular redondeos)
+function revenueTotals(amounts: (string | null)[]) {
+  const orderCount = amounts.length;
+  const totalCents = amounts.reduce((sum, amount) => sum + toCents(amount), 0);
+  const averageCents = orderCount > 0 ? Math.round(totalCents / orderCount) : 0;
+  return {
+    totalAmount: fromCents(totalCents),
+    orderCount,
+    averageOrderValue: fromCents(averageCents),
+  };
+}
+
+// Recalcula y guarda los ingresos de un mes dentro de la transacción de la operación
+async function recalculateRevenueMonth(tx: Transaction, revenueMonth: RevenueMonth): Promise<MonthlyRevenue> {
+  const { start, end } = monthRange(revenueMonth);
+  const orders = await tx.select({ total: serviceOrders.total })
+    .from(serviceOrders)
+    .where(and(
+      inArray(serviceOrders.status, ['completed', 'warranty']),
+      isNotNull(serviceOrders.total),
+      gte(serviceOrders.completionDate, start),
+      lt(serviceOrders.completionDate, end)
+    ));
+  const totals = revenueTotals(orders.map(order => order.total));
+  
+  const [revenue] = await tx.insert(monthlyRevenue)
+    .values({ ...revenueMonth, ...totals })
+    .onConflictDoUpdate({
+      target: [monthlyRevenue.year, monthlyRevenue.month],
+      set: { ...totals, updatedAt: new Date() },
+    })
+    .returning();
+  return revenue;
+}
+
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
@@ -39,53 +559,165 @@ export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUserDb): Promise<User>;
-  updateUser(id: number, userData: Partial<InsertUserDb>): Promise<User | undefined>;
-  deleteUser(id: number): Promise<boolean>;
+  createUser(user: InsertUserDb, changedBy?: number): Promise<User>;
+  updateUser(id: number, userData: Partial<InsertUserDb>, changedBy?: number): Promise<User | undefined>;
+  deleteUser(id: number, changedBy?: number): Promise<boolean>;
   listUsers(): Promise<User[]>;
+  queryUsers(query: ListQuery): Promise<PaginatedResult<User>>;
 
   // Client operations
   getClient(id: number): Promise<Client | undefined>;
-  createClient(client: InsertClient): Promise<Client>;
-  updateClient(id: number, clientData: Partial<InsertClient>): Promise<Client | undefined>;
-  deleteClient(id: number): Promise<boolean>;
+  createClient(client: InsertClient, changedBy?: number): Promise<Client>;
+  updateClient(id: number, clientData: Partial<InsertClient>, changedBy?: number): Promise<Client | undefined>;
+  deleteClient(id: number, changedBy?: number): Promise<boolean>;
   listClients(): Promise<Client[]>;
+  queryClients(query: ListQuery): Promise<PaginatedResult<Client>>;
 
   // Technician operations
   getTechnician(id: number): Promise<Technician | undefined>;
   getTechnicianByUserId(userId: number): Promise<Technician | undefined>;
-  createTechnician(technician: InsertTechnician): Promise<Technician>;
-  updateTechnician(id: number, technicianData: Partial<InsertTechnician>): Promise<Technician | undefined>;
-  deleteTechnician(id: number): Promise<boolean>;
+  createTechnician(technician: InsertTechnician, changedBy?: number): Promise<Technician>;
+  updateTechnician(id: number, technicianData: Omit<Partial<InsertTechnician>, 'status'> & { status?: TechnicianStatus }, changedBy?: number): Promise<Technician | undefined>;
+  deleteTechnician(id: number, changedBy?: number): Promise<boolean>;
   listTechnicians(): Promise<Technician[]>;
 
   // Equipment operations
   getEquipment(id: number): Promise<Equipment | undefined>;
-  createEquipment(equipment: InsertEquipment): Promise<Equipment>;
-  updateEquipment(id: number, equipmentData: Partial<InsertEquipment>): Promise<Equipment | undefined>;
-  deleteEquipment(id: number): Promise<boolean>;
+  createEquipment(equipment: InsertEquipment, changedBy?: number): Promise<Equipment>;
+  // Si cambia el cliente propietario se registra en el historial de propietarios con la nota indicada
+  updateEquipment(id: number, equipmentData: Partial<InsertEquipment>, changedBy?: number, ownershipNote?: string): Promise<Equipment | undefined>;
+  deleteEquipment(id: number, changedBy?: number): Promise<boolean>;
   listEquipment(): Promise<Equipment[]>;
+  queryEquipment(query: ListQuery): Promise<PaginatedResult<Equipment>>;
   listEquipmentByClient(clientId: number): Promise<Equipment[]>;
+  listEquipmentOwnershipHistory(equipmentId: number): Promise<EquipmentOwnershipChange[]>;
+
+  // Import operations. Todas las filas se guardan en una sola transacción: si una falla no se importa ninguna.
+  importClients(clients: InsertClient[], changedBy?: number): Promise<Client[]>;
+  importEquipment(items: InsertEquipment[], changedBy?: number): Promise<Equipment[]>;
 
   // Service Order operations
   getServiceOrder(id: number): Promise<ServiceOrder | undefined>;
-  createServiceOrder(serviceOrder: InsertServiceOrder): Promise<ServiceOrder>;
-  updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>): Promise<ServiceOrder | undefined>;
-  deleteServiceOrder(id: number): Promise<boolean>;
+  // maintenanceContractId solo lo indica el programador de visitas de los contratos
+  createServiceOrder(serviceOrder: InsertServiceOrder & { maintenanceContractId?: number | null }, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder>;
+  // Con `lineItems` también reemplaza las partidas, todo en una sola transacción
+  updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder | undefined>;
+  deleteServiceOrder(id: number, changedBy?: number): Promise<boolean>;
   listServiceOrders(): Promise<ServiceOrder[]>;
+  queryServiceOrders(query: ListQuery): Promise<PaginatedResult<ServiceOrder>>;
   listServiceOrdersByClient(clientId: number): Promise<ServiceOrder[]>;
   listServiceOrdersByTechnician(technicianId: number): Promise<ServiceOrder[]>;
+  listServiceOrdersByEquipment(equipmentId: number): Promise<ServiceOrder[]>;
   listServiceOrdersByStatus(status: string): Promise<ServiceOrder[]>;
+  listServiceOrdersByMaintenanceContract(contractId: number): Promise<ServiceOrder[]>;
+  listServiceOrderStatusHistory(serviceOrderId: number): Promise<ServiceOrderStatusHistory[]>;
+  listServiceOrderLineItems(serviceOrderId: number): Promise<ServiceOrderLineItem[]>;
+  replaceServiceOrderLineItems(serviceOrderId: number, items: LineItemInput[], changedBy?: number): Promise<ServiceOrder | undefined>;
+
+  // Attachment operations
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  listAttachments(serviceOrderId: number): Promise<Attachment[]>;
+  createAttachment(attachment: InsertAttachment, changedBy?: number): Promise<Attachment>;
+  deleteAttachment(id: number, changedBy?: number): Promise<boolean>;
+
+  // Inventory operations
+  getPart(id: number): Promise<Part | undefined>;
+  getPartBySku(sku: string): Promise<Part | undefined>;
+  createPart(part: InsertPart, changedBy?: number): Promise<Part>;
+  updatePart(id: number, partData: Partial<InsertPart>, changedBy?: number): Promise<Part | undefined>;
+  deletePart(id: number, changedBy?: number): Promise<boolean>;
+  listParts(): Promise<Part[]>;
+  queryParts(query: ListQuery): Promise<PaginatedResult<Part>>;
+  listLowStockParts(): Promise<Part[]>;
+  listPartStockMovements(partId: number): Promise<PartStockMovement[]>;
+  recordStockMovement(partId: number, movement: StockMovementInput, changedBy?: number): Promise<Part | undefined>;
+
+  // Work session operations
+  startWorkSession(serviceOrderId: number, technicianId: number): Promise<ServiceOrderWorkSession>;
+  endWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined>;
+  getOpenWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined>;
+  listOpenWorkSessionsByTechnician(technicianId: number): Promise<ServiceOrderWorkSession[]>;
+
+  // Appointment operations. Crear o reprogramar una cita que se traslapa con otra
+  // del mismo técnico lanza AppointmentConflictError.
+  getAppointment(id: number): Promise<Appointment | undefined>;
+  listAppointments(query: AppointmentQuery): Promise<Appointment[]>;
+  findAppointmentConflicts(technicianId: number, startsAt: Date, endsAt: Date, excludeId?: number): Promise<Appointment[]>;
+  createAppointment(appointment: InsertAppointment, changedBy?: number): Promise<Appointment>;
+  updateAppointment(id: number, appointmentData: UpdateAppointment, changedBy?: number): Promise<Appointment | undefined>;
+  deleteAppointment(id: number, changedBy?: number): Promise<boolean>;
+
+  // SLA operations. Los plazos de las órdenes se calculan al crearlas o al cambiar su
+  // cliente o prioridad; editar una política no modifica los compromisos ya adquiridos.
+  listSlaPolicies(): Promise<SlaPolicy[]>;
+  getSlaPolicy(id: number): Promise<SlaPolicy | undefined>;
+  createSlaPolicy(policy: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy>;
+  updateSlaPolicy(id: number, policyData: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy | undefined>;
+  deleteSlaPolicy(id: number, changedBy?: number): Promise<boolean>;
+  listBusinessCalendars(): Promise<BusinessCalendar[]>;
+  getBusinessCalendar(id: number): Promise<BusinessCalendar | undefined>;
+  createBusinessCalendar(calendar: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar>;
+  updateBusinessCalendar(id: number, calendarData: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar | undefined>;
+  deleteBusinessCalendar(id: number, changedBy?: number): Promise<boolean>;
+
+  // Maintenance contract operations. La próxima visita se calcula al crear o editar el
+  // contrato y avanza cada vez que el programador genera las órdenes de una visita.
+  listMaintenanceContracts(): Promise<MaintenanceContract[]>;
+  getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined>;
+  createMaintenanceContract(contract: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract>;
+  updateMaintenanceContract(id: number, contractData: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract | undefined>;
+  deleteMaintenanceContract(id: number, changedBy?: number): Promise<boolean>;
+  listDueMaintenanceContracts(now: Date): Promise<MaintenanceContract[]>;
+  recordMaintenanceVisit(id: number, visitAt: Date, nextVisitAt: Date | null): Promise<void>;
+
+  // Calendar feed operations. Las suscripciones revocadas no se listan ni se encuentran por token.
+  listCalendarFeedsByUser(userId: number): Promise<CalendarFeed[]>;
+  getCalendarFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  revokeCalendarFeed(id: number, userId: number): Promise<boolean>;
+  touchCalendarFeed(id: number, usedAt: Date): Promise<void>;
+
+  // Audit log operations
+  listAuditLog(query: AuditQuery): Promise<PaginatedResult<AuditLogEntry>>;
+
+  // Search operations
+  search(q: string, limit: number): Promise<SearchResults>;
 
   // Company Settings operations
   getCompanySettings(): Promise<CompanySettings | undefined>;
-  updateCompanySettings(settingsData: InsertCompanySettings): Promise<CompanySettings>;
+  updateCompanySettings(settingsData: InsertCompanySettings, changedBy?: number): Promise<CompanySettings>;
+
+  // Backup Settings operations
+  getBackupSettings(): Promise<BackupSettings>;
+  updateBackupSettings(settingsData: UpdateBackupSettings, changedBy?: number): Promise<BackupSettings>;
+  recordBackupRun(runAt: Date): Promise<void>;
+
+  // Notification Settings operations
+  getNotificationSettings(): Promise<NotificationSettings>;
+  updateNotificationSettings(settingsData: UpdateNotificationSettings, changedBy?: number): Promise<NotificationSettings>;
+
+  // Email outbox operations
+  enqueueEmail(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage>;
+  getEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined>;
+  listEmailOutbox(query: EmailOutboxQuery): Promise<PaginatedResult<EmailOutboxMessage>>;
+  listEmailsByServiceOrder(serviceOrderId: number): Promise<EmailOutboxMessage[]>;
+  claimDueEmails(now: Date, limit: number): Promise<EmailOutboxMessage[]>;
+  updateEmailOutboxMessage(id: number, data: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage | undefined>;
+  requeueInterruptedEmails(): Promise<number>;
+
+  // Email template operations
+  getEmailTemplate(event: EmailTemplateEvent): Promise<EmailTemplate | undefined>;
+  listEmailTemplates(): Promise<EmailTemplate[]>;
+  saveEmailTemplate(event: EmailTemplateEvent, data: UpdateEmailTemplate, changedBy?: number): Promise<EmailTemplate>;
+  deleteEmailTemplate(event: EmailTemplateEvent, changedBy?: number): Promise<boolean>;
 
   // Monthly Revenue operations
   getMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue | undefined>;
   getMonthlyRevenuesByYear(year: number): Promise<MonthlyRevenue[]>;
   updateMonthlyRevenue(year: number, month: number, data: Partial<InsertMonthlyRevenue>): Promise<MonthlyRevenue>;
   calculateCurrentMonthRevenue(): Promise<MonthlyRevenue>;
+  recalculateMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue>;
+  rebuildMonthlyRevenue(): Promise<MonthlyRevenue[]>;
   getRevenueHistory(limit: number): Promise<MonthlyRevenue[]>;
 
   // Session store
@@ -156,37 +788,52 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUserDb): Promise<User> {
+  async createUser(insertUser: InsertUserDb, changedBy?: number): Promise<User> {
     // Hash password if it's not already hashed
     let hashedPassword = insertUser.password;
     if (!insertUser.password.includes('.')) {
       hashedPassword = await hashPassword(insertUser.password);
     }
     
-    const [user] = await db.insert(users).values({
-      ...insertUser,
-      password: hashedPassword
-    }).returning();
-    
-    return user;
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values({
+        ...insertUser,
+        password: hashedPassword
+      }).returning();
+      
+      await recordAudit(tx, 'user', user.id, 'create', null, user, changedBy);
+      return user;
+    });
   }
 
-  async updateUser(id: number, userData: Partial<InsertUserDb>): Promise<User | undefined> {
+  async updateUser(id: number, userData: Partial<InsertUserDb>, changedBy?: number): Promise<User | undefined> {
     // Hash password if it's being updated and not already hashed
     if (userData.password && !userData.password.includes('.')) {
       userData.password = await hashPassword(userData.password);
     }
     
-    const [updatedUser] = await db.update(users)
-      .set(userData)
-      .where(eq(users.id, id))
-      .returning();
-    
-    return updatedUser;
+    return await db.transaction(async (tx) => {
+      // La fila se lee bloqueada dentro de la transacción para auditar los valores vigentes
+      const [currentUser] = await tx.select().from(users).where(eq(users.id, id)).for('update');
+      if (!currentUser) return undefined;
+      
+      const [updatedUser] = await tx.update(users)
+        .set(userData)
+        .where(eq(users.id, id))
+        .returning();
+      
+      await recordAudit(tx, 'user', id, 'update', currentUser, updatedUser, changedBy);
+      return updatedUser;
+    });
   }
 
-  async deleteUser(id: number): Promise<boolean> {
-    await db.delete(users).where(eq(users.id, id));
+  async deleteUser(id: number, changedBy?: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deletedUser] = await tx.delete(users).where(eq(users.id, id)).returning();
+      if (deletedUser) {
+        await recordAudit(tx, 'user', id, 'delete', deletedUser, null, changedBy);
+      }
+    });
     return true;
   }
 
@@ -194,28 +841,57 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async queryUsers(query: ListQuery): Promise<PaginatedResult<User>> {
+    const term = query.q ? `%${query.q}%` : undefined;
+    return paginate(users, query, [
+      term ? or(ilike(users.username, term), ilike(users.fullName, term), ilike(users.email, term)) : undefined,
+      query.from ? gte(users.createdAt, query.from) : undefined,
+      query.to ? lte(users.createdAt, query.to) : undefined,
+    ], buildOrderBy(query.sort, {
+      username: users.username,
+      fullName: users.fullName,
+      email: users.email,
+      role: users.role,
+      createdAt: users.createdAt,
+    }, asc(users.id)));
+  }
+
   // Client methods
   async getClient(id: number): Promise<Client | undefined> {
     const [client] = await db.select().from(clients).where(eq(clients.id, id));
     return client;
   }
 
-  async createClient(insertClient: InsertClient): Promise<Client> {
-    const [client] = await db.insert(clients).values(insertClient).returning();
-    return client;
+  async createClient(insertClient: InsertClient, changedBy?: number): Promise<Client> {
+    return await db.transaction(async (tx) => {
+      const [client] = await tx.insert(clients).values(insertClient).returning();
+      await recordAudit(tx, 'client', client.id, 'create', null, client, changedBy);
+      return client;
+    });
   }
 
-  async updateClient(id: number, clientData: Partial<InsertClient>): Promise<Client | undefined> {
-    const [updatedClient] = await db.update(clients)
-      .set(clientData)
-      .where(eq(clients.id, id))
-      .returning();
-    
-    return updatedClient;
+  async updateClient(id: number, clientData: Partial<InsertClient>, changedBy?: number): Promise<Client | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentClient] = await tx.select().from(clients).where(eq(clients.id, id)).for('update');
+      if (!currentClient) return undefined;
+      
+      const [updatedClient] = await tx.update(clients)
+        .set(clientData)
+        .where(eq(clients.id, id))
+        .returning();
+      
+      await recordAudit(tx, 'client', id, 'update', currentClient, updatedClient, changedBy);
+      return updatedClient;
+    });
   }
 
-  async deleteClient(id: number): Promise<boolean> {
-    await db.delete(clients).where(eq(clients.id, id));
+  async deleteClient(id: number, changedBy?: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deletedClient] = await tx.delete(clients).where(eq(clients.id, id)).returning();
+      if (deletedClient) {
+        await recordAudit(tx, 'client', id, 'delete', deletedClient, null, changedBy);
+      }
+    });
     return true;
   }
 
@@ -223,6 +899,25 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(clients);
   }
 
+  async queryClients(query: ListQuery): Promise<PaginatedResult<Client>> {
+    const term = query.q ? `%${query.q}%` : undefined;
+    return paginate(clients, query, [
+      term ? or(
+        ilike(clients.name, term),
+        ilike(clients.contactName, term),
+        ilike(clients.email, term),
+        ilike(clients.phone, term)
+      ) : undefined,
+      query.from ? gte(clients.createdAt, query.from) : undefined,
+      query.to ? lte(clients.createdAt, query.to) : undefined,
+    ], buildOrderBy(query.sort, {
+      name: clients.name,
+      contactName: clients.contactName,
+      email: clients.email,
+      createdAt: clients.createdAt,
+    }, asc(clients.name)));
+  }
+
   // Technician methods
   async getTechnician(id: number): Promise<Technician | undefined> {
     const [technician] = await db.select().from(technicians).where(eq(technicians.id, id));
@@ -234,22 +929,36 @@ export class DatabaseStorage implements IStorage {
     return technician;
   }
 
-  async createTechnician(insertTechnician: InsertTechnician): Promise<Technician> {
-    const [technician] = await db.insert(technicians).values(insertTechnician).returning();
-    return technician;
+  async createTechnician(insertTechnician: InsertTechnician, changedBy?: number): Promise<Technician> {
+    return await db.transaction(async (tx) => {
+      const [technician] = await tx.insert(technicians).values(insertTechnician).returning();
+      await recordAudit(tx, 'technician', technician.id, 'create', null, technician, changedBy);
+      return technician;
+    });
   }
 
-  async updateTechnician(id: number, technicianData: Partial<InsertTechnician>): Promise<Technician | undefined> {
-    const [updatedTechnician] = await db.update(technicians)
-      .set(technicianData)
-      .where(eq(technicians.id, id))
-      .returning();
-    
-    return updatedTechnician;
+  async updateTechnician(id: number, technicianData: Omit<Partial<InsertTechnician>, 'status'> & { status?: TechnicianStatus }, changedBy?: number): Promise<Technician | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentTechnician] = await tx.select().from(technicians).where(eq(technicians.id, id)).for('update');
+      if (!currentTechnician) return undefined;
+      
+      const [updatedTechnician] = await tx.update(technicians)
+        .set(technicianData)
+        .where(eq(technicians.id, id))
+        .returning();
+      
+      await recordAudit(tx, 'technician', id, 'update', currentTechnician, updatedTechnician, changedBy);
+      return updatedTechnician;
+    });
   }
 
-  async deleteTechnician(id: number): Promise<boolean> {
-    await db.delete(technicians).where(eq(technicians.id, id));
+  async deleteTechnician(id: number, changedBy?: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deletedTechnician] = await tx.delete(technicians).where(eq(technicians.id, id)).returning();
+      if (deletedTechnician) {
+        await recordAudit(tx, 'technician', id, 'delete', deletedTechnician, null, changedBy);
+      }
+    });
     return true;
   }
 
@@ -263,30 +972,41 @@ export class DatabaseStorage implements IStorage {
     return equipmentItem;
   }
 
-  async createEquipment(insertEquipment: InsertEquipment): Promise<Equipment> {
-    // Asegurarnos de que description, location y company son null si no vienen
-    const equipmentData = {
-      ...insertEquipment,
-      description: insertEquipment.description ?? null,
-      location: insertEquipment.location ?? null,
-      company: insertEquipment.company ?? null,
-    };
-    
-    const [newEquipment] = await db.insert(equipment).values(equipmentData).returning();
-    return newEquipment;
+  async createEquipment(insertEquipment: InsertEquipment, changedBy?: number): Promise<Equipment> {
+    return await db.transaction(async (tx) => insertEquipmentRecord(tx, insertEquipment, changedBy));
   }
 
-  async updateEquipment(id: number, equipmentData: Partial<InsertEquipment>): Promise<Equipment | undefined> {
-    const [updatedEquipment] = await db.update(equipment)
-      .set(equipmentData)
-      .where(eq(equipment.id, id))
-      .returning();
-    
-    return updatedEquipment;
+  async updateEquipment(id: number, equipmentData: Partial<InsertEquipment>, changedBy?: number, ownershipNote?: string): Promise<Equipment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentEquipment] = await tx.select().from(equipment).where(eq(equipment.id, id)).for('update');
+      if (!currentEquipment) return undefined;
+      
+      const [updatedEquipment] = await tx.update(equipment)
+        .set(equipmentData)
+        .where(eq(equipment.id, id))
+        .returning();
+      
+      if (updatedEquipment.clientId !== currentEquipment.clientId) {
+        await tx.insert(equipmentOwnershipHistory).values({
+          equipmentId: id,
+          fromClientId: currentEquipment.clientId,
+          toClientId: updatedEquipment.clientId,
+          note: ownershipNote ?? null,
+          changedBy: changedBy ?? null,
+        });
+      }
+      await recordAudit(tx, 'equipment', id, 'update', currentEquipment, updatedEquipment, changedBy);
+      return updatedEquipment;
+    });
   }
 
-  async deleteEquipment(id: number): Promise<boolean> {
-    await db.delete(equipment).where(eq(equipment.id, id));
+  async deleteEquipment(id: number, changedBy?: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deletedEquipment] = await tx.delete(equipment).where(eq(equipment.id, id)).returning();
+      if (deletedEquipment) {
+        await recordAudit(tx, 'equipment', id, 'delete', deletedEquipment, null, changedBy);
+      }
+    });
     return true;
   }
 
@@ -294,17 +1014,60 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(equipment);
   }
 
+  async queryEquipment(query: ListQuery): Promise<PaginatedResult<Equipment>> {
+    const term = query.q ? `%${query.q}%` : undefined;
+    return paginate(equipment, query, [
+      term ? or(
+        ilike(equipment.brand, term),
+        ilike(equipment.model, term),
+        ilike(equipment.serialNumber, term),
+        ilike(equipment.company, term),
+        ilike(equipment.location, term)
+      ) : undefined,
+      query.from ? gte(equipment.createdAt, query.from) : undefined,
+      query.to ? lte(equipment.createdAt, query.to) : undefined,
+    ], buildOrderBy(query.sort, {
+      type: equipment.type,
+      brand: equipment.brand,
+      model: equipment.model,
+      serialNumber: equipment.serialNumber,
+      warrantyExpiresAt: equipment.warrantyExpiresAt,
+      createdAt: equipment.createdAt,
+    }, desc(equipment.id)));
+  }
+
   async listEquipmentByClient(clientId: number): Promise<Equipment[]> {
-    // Primero obtenemos el cliente para conocer su nombre
-    const [client] = await db.select().from(clients).where(eq(clients.id, clientId));
-    if (!client) return [];
-    
-    // Si tenemos el cliente, buscamos equipos que coincidan con su nombre en el campo company
-    if (client.name) {
-      return await db.select().from(equipment).where(eq(equipment.company, client.name));
-    }
-    
-    return [];
+    return await db.select().from(equipment).where(eq(equipment.clientId, clientId));
+  }
+
+  async listEquipmentOwnershipHistory(equipmentId: number): Promise<EquipmentOwnershipChange[]> {
+    return await db.select()
+      .from(equipmentOwnershipHistory)
+      .where(eq(equipmentOwnershipHistory.equipmentId, equipmentId))
+      .orderBy(equipmentOwnershipHistory.changedAt, equipmentOwnershipHistory.id);
+  }
+
+  // Import methods
+  async importClients(insertClients: InsertClient[], changedBy?: number): Promise<Client[]> {
+    return await db.transaction(async (tx) => {
+      const created: Client[] = [];
+      for (const insertClient of insertClients) {
+        const [client] = await tx.insert(clients).values(insertClient).returning();
+        await recordAudit(tx, 'client', client.id, 'create', null, client, changedBy);
+        created.push(client);
+      }
+      return created;
+    });
+  }
+
+  async importEquipment(items: InsertEquipment[], changedBy?: number): Promise<Equipment[]> {
+    return await db.transaction(async (tx) => {
+      const created: Equipment[] = [];
+      for (const item of items) {
+        created.push(await insertEquipmentRecord(tx, item, changedBy));
+      }
+      return created;
+    });
   }
 
   // Service Order methods
@@ -313,7 +1076,7 @@ export class DatabaseStorage implements IStorage {
     return order;
   }
 
-  async createServiceOrder(insertServiceOrder: InsertServiceOrder): Promise<ServiceOrder> {
+  async createServiceOrder(insertServiceOrder: InsertServiceOrder & { maintenanceContractId?: number | null }, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder> {
     // Generate an order number
     const year = new Date().getFullYear();
     
@@ -332,38 +1095,107 @@ export class DatabaseStorage implements IStorage {
       orderNumber = `ORD-${year}-${lastNumber + 1}`;
     }
     
-    const [serviceOrder] = await db.insert(serviceOrders).values({
-      ...insertServiceOrder,
-      orderNumber,
-      requestDate: new Date()
-    }).returning();
-    
-    return serviceOrder;
+    return await db.transaction(async (tx) => {
+      const requestDate = new Date();
+      const sla = await resolveOrderSla(tx, {
+        clientId: insertServiceOrder.clientId,
+        priority: insertServiceOrder.priority ?? 'normal',
+      }, requestDate);
+      const responded = isOrderResponded({
+        status: insertServiceOrder.status ?? 'pending',
+        technicianId: insertServiceOrder.technicianId ?? null,
+      });
+      
+      const [serviceOrder] = await tx.insert(serviceOrders).values({
+        ...insertServiceOrder,
+        ...totalsFromCost(insertServiceOrder.cost),
+        ...sla,
+        respondedAt: responded ? requestDate : null,
+        orderNumber,
+        requestDate
+      }).returning();
+      
+      // Registrar el estado inicial en el historial
+      await tx.insert(serviceOrderStatusHistory).values({
+        serviceOrderId: serviceOrder.id,
+        fromStatus: null,
+        toStatus: serviceOrder.status,
+        changedBy: changedBy ?? null,
+      });
+      
+      await recordAudit(tx, 'service_order', serviceOrder.id, 'create', null, serviceOrder, changedBy);
+      for (const revenueMonth of affectedRevenueMonths(null, serviceOrder)) {
+        await recalculateRevenueMonth(tx, revenueMonth);
+      }
+      
+      // La orden y sus partidas se guardan juntas: si falta existencia no se crea la orden
+      if (!lineItems || lineItems.length === 0) return serviceOrder;
+      return await replaceLineItemRecords(tx, serviceOrder.id, lineItems, changedBy) ?? serviceOrder;
+    });
   }
 
-  async updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>): Promise<ServiceOrder | undefined> {
-    // Si se está cambiando el estado a warranty (garantía), establecer costo a 0
-    if (serviceOrderData.status === 'warranty') {
-      serviceOrderData.cost = 0;
-    }
-    
-    const [updatedServiceOrder] = await db.update(serviceOrders)
-      .set(serviceOrderData)
-      .where(eq(serviceOrders.id, id))
-      .returning();
-    
-    return updatedServiceOrder;
+  async updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder | undefined> {
+    // Los datos de la orden y sus partidas se guardan juntos: si falta existencia no se aplica nada
+    return await db.transaction(async (tx) => {
+      const updatedServiceOrder = await updateServiceOrderRecord(tx, id, serviceOrderData, changedBy);
+      if (!updatedServiceOrder || !lineItems) return updatedServiceOrder;
+      return await replaceLineItemRecords(tx, id, lineItems, changedBy);
+    });
   }
 
-  async deleteServiceOrder(id: number): Promise<boolean> {
-    await db.delete(serviceOrders).where(eq(serviceOrders.id, id));
-    return true;
+  async deleteServiceOrder(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // La orden se bloquea para que dos eliminaciones simultáneas no devuelvan dos veces las refacciones
+      const [currentOrder] = await tx.select({ id: serviceOrders.id }).from(serviceOrders).where(eq(serviceOrders.id, id)).for('update');
+      if (!currentOrder) return false;
+      
+      // Las refacciones de la orden regresan al inventario
+      const lineItems = await tx.select()
+        .from(serviceOrderLineItems)
+        .where(eq(serviceOrderLineItems.serviceOrderId, id));
+      for (const movement of orderStockMovements(id, lineItems, [], changedBy)) {
+        await applyStockMovement(tx, movement);
+      }
+      
+      const [deletedOrder] = await tx.delete(serviceOrders).where(eq(serviceOrders.id, id)).returning();
+      await recordAudit(tx, 'service_order', id, 'delete', deletedOrder, null, changedBy);
+      for (const revenueMonth of affectedRevenueMonths(deletedOrder, null)) {
+        await recalculateRevenueMonth(tx, revenueMonth);
+      }
+      return true;
+    });
   }
 
   async listServiceOrders(): Promise<ServiceOrder[]> {
     return await db.select().from(serviceOrders);
   }
 
+  async queryServiceOrders(query: ListQuery): Promise<PaginatedResult<ServiceOrder>> {
+    const statuses = parseStatusFilter(query.status);
+    const term = query.q ? `%${query.q}%` : undefined;
+    return paginate(serviceOrders, query, [
+      statuses.length > 0 ? inArray(serviceOrders.status, statuses) : undefined,
+      query.clientId !== undefined ? eq(serviceOrders.clientId, query.clientId) : undefined,
+      query.technicianId !== undefined ? eq(serviceOrders.technicianId, query.technicianId) : undefined,
+      query.from ? gte(serviceOrders.requestDate, query.from) : undefined,
+      query.to ? lte(serviceOrders.requestDate, query.to) : undefined,
+      term ? or(
+        ilike(serviceOrders.orderNumber, term),
+        ilike(serviceOrders.description, term),
+        inArray(serviceOrders.clientId, db.select({ id: clients.id }).from(clients).where(ilike(clients.name, term)))
+      ) : undefined,
+    ], buildOrderBy(query.sort, {
+      orderNumber: serviceOrders.orderNumber,
+      status: serviceOrders.status,
+      requestDate: serviceOrders.requestDate,
+      expectedDeliveryDate: serviceOrders.expectedDeliveryDate,
+      completionDate: serviceOrders.completionDate,
+      cost: serviceOrders.cost,
+      priority: serviceOrders.priority,
+      resolutionDueAt: serviceOrders.resolutionDueAt,
+    }, desc(serviceOrders.requestDate)));
+  }
+
   async listServiceOrdersByClient(clientId: number): Promise<ServiceOrder[]> {
     return await db.select().from(serviceOrders).where(eq(serviceOrders.clientId, clientId));
   }
@@ -371,58 +1203,704 @@ export class DatabaseStorage implements IStorage {
   async listServiceOrdersByTechnician(technicianId: number): Promise<ServiceOrder[]> {
     return await db.select().from(serviceOrders).where(eq(serviceOrders.technicianId, technicianId));
   }
+
+  async listServiceOrdersByEquipment(equipmentId: number): Promise<ServiceOrder[]> {
+    return await db.select()
+      .from(serviceOrders)
+      .where(eq(serviceOrders.equipmentId, equipmentId))
+      .orderBy(asc(serviceOrders.requestDate), asc(serviceOrders.id));
+  }
   
   async listServiceOrdersByStatus(status: string): Promise<ServiceOrder[]> {
     // Usar el operador 'eq' de drizzle-orm para mayor seguridad en la comparación de enums
     return await db.select().from(serviceOrders).where(eq(serviceOrders.status, status as any));
   }
 
-  // Company Settings methods
-  async getCompanySettings(): Promise<CompanySettings | undefined> {
-    const [settings] = await db.select().from(companySettings).limit(1);
-    return settings;
+  async listServiceOrdersByMaintenanceContract(contractId: number): Promise<ServiceOrder[]> {
+    return await db.select().from(serviceOrders).where(eq(serviceOrders.maintenanceContractId, contractId));
   }
 
-  async updateCompanySettings(settingsData: InsertCompanySettings): Promise<CompanySettings> {
-    const existingSettings = await this.getCompanySettings();
-    
-    if (existingSettings) {
-      // Update existing settings
-      const [updatedSettings] = await db.update(companySettings)
-        .set({
-          ...settingsData,
-          updatedAt: new Date()
-        })
-        .where(eq(companySettings.id, existingSettings.id))
-        .returning();
+  async listServiceOrderStatusHistory(serviceOrderId: number): Promise<ServiceOrderStatusHistory[]> {
+    return await db.select()
+      .from(serviceOrderStatusHistory)
+      .where(eq(serviceOrderStatusHistory.serviceOrderId, serviceOrderId))
+      .orderBy(serviceOrderStatusHistory.changedAt, serviceOrderStatusHistory.id);
+  }
+
+  async listServiceOrderLineItems(serviceOrderId: number): Promise<ServiceOrderLineItem[]> {
+    return await db.select()
+      .from(serviceOrderLineItems)
+      .where(eq(serviceOrderLineItems.serviceOrderId, serviceOrderId))
+      .orderBy(serviceOrderLineItems.position, serviceOrderLineItems.id);
+  }
+
+  async replaceServiceOrderLineItems(serviceOrderId: number, items: LineItemInput[], changedBy?: number): Promise<ServiceOrder | undefined> {
+    return await db.transaction(async (tx) => replaceLineItemRecords(tx, serviceOrderId, items, changedBy));
+  }
+
+  // Inventory methods
+  async getPart(id: number): Promise<Part | undefined> {
+    const [part] = await db.select().from(parts).where(eq(parts.id, id));
+    return part;
+  }
+
+  async getPartBySku(sku: string): Promise<Part | undefined> {
+    const [part] = await db.select().from(parts).where(eq(parts.sku, sku));
+    return part;
+  }
+
+  async createPart(insertPart: InsertPart, changedBy?: number): Promise<Part> {
+    return await db.transaction(async (tx) => {
+      const [newPart] = await tx.insert(parts).values(insertPart).returning();
+      await recordAudit(tx, 'part', newPart.id, 'create', null, newPart, changedBy);
+      return newPart;
+    });
+  }
+
+  async updatePart(id: number, partData: Partial<InsertPart>, changedBy?: number): Promise<Part | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentPart] = await tx.select().from(parts).where(eq(parts.id, id)).for('update');
+      if (!currentPart) return undefined;
       
-      return updatedSettings;
-    } else {
-      // Create new settings
-      const [newSettings] = await db.insert(companySettings)
-        .values({
-          ...settingsData
-        })
+      const [updatedPart] = await tx.update(parts)
+        .set(partData)
+        .where(eq(parts.id, id))
         .returning();
       
-      return newSettings;
-    }
+      await recordAudit(tx, 'part', id, 'update', currentPart, updatedPart, changedBy);
+      return updatedPart;
+    });
   }
-  
-  // Monthly Revenue methods
-  async getMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue | undefined> {
-    const [revenue] = await db.select()
-      .from(monthlyRevenue)
-      .where(and(
-        eq(monthlyRevenue.year, year),
-        eq(monthlyRevenue.month, month)
-      ));
-    return revenue;
+
+  async deletePart(id: number, changedBy?: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deletedPart] = await tx.delete(parts).where(eq(parts.id, id)).returning();
+      if (deletedPart) {
+        await recordAudit(tx, 'part', id, 'delete', deletedPart, null, changedBy);
+      }
+    });
+    return true;
   }
-  
-  async getMonthlyRevenuesByYear(year: number): Promise<MonthlyRevenue[]> {
-    // Obtener los datos existentes en la tabla
-    const existingRecords = await db.select()
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async listAttachments(serviceOrderId: number): Promise<Attachment[]> {
+    return await db.select()
+      .from(attachments)
+      .where(eq(attachments.serviceOrderId, serviceOrderId))
+      .orderBy(asc(attachments.createdAt), asc(attachments.id));
+  }
+
+  async createAttachment(attachment: InsertAttachment, changedBy?: number): Promise<Attachment> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(attachments).values(attachment).returning();
+      await recordAudit(tx, 'attachment', created.id, 'create', null, created, changedBy);
+      return created;
+    });
+  }
+
+  async deleteAttachment(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(attachments).where(eq(attachments.id, id)).returning();
+      if (!deleted) return false;
+      await recordAudit(tx, 'attachment', id, 'delete', deleted, null, changedBy);
+      return true;
+    });
+  }
+
+  async listParts(): Promise<Part[]> {
+    return await db.select().from(parts).orderBy(asc(parts.name));
+  }
+
+  async queryParts(query: ListQuery): Promise<PaginatedResult<Part>> {
+    const term = query.q ? `%${query.q}%` : undefined;
+    return paginate(parts, query, [
+      term ? or(
+        ilike(parts.sku, term),
+        ilike(parts.name, term),
+        ilike(parts.description, term)
+      ) : undefined,
+    ], buildOrderBy(query.sort, {
+      sku: parts.sku,
+      name: parts.name,
+      salePrice: parts.salePrice,
+      stockQuantity: parts.stockQuantity,
+    }, asc(parts.name)));
+  }
+
+  async listLowStockParts(): Promise<Part[]> {
+    return await db.select().from(parts)
+      .where(lte(parts.stockQuantity, parts.minStock))
+      .orderBy(asc(parts.stockQuantity));
+  }
+
+  async listPartStockMovements(partId: number): Promise<PartStockMovement[]> {
+    return await db.select().from(partStockMovements)
+      .where(eq(partStockMovements.partId, partId))
+      .orderBy(desc(partStockMovements.createdAt), desc(partStockMovements.id));
+  }
+
+  async recordStockMovement(partId: number, movement: StockMovementInput, changedBy?: number): Promise<Part | undefined> {
+    const part = await this.getPart(partId);
+    if (!part) return undefined;
+    
+    return await db.transaction(async (tx) => {
+      return await applyStockMovement(tx, {
+        partId,
+        type: movement.type,
+        quantity: movement.quantity,
+        note: movement.note || null,
+        createdBy: changedBy ?? null,
+      });
+    });
+  }
+
+  // Work session methods
+  async startWorkSession(serviceOrderId: number, technicianId: number): Promise<ServiceOrderWorkSession> {
+    const [session] = await db.insert(serviceOrderWorkSessions)
+      .values({ serviceOrderId, technicianId })
+      .returning();
+    return session;
+  }
+
+  async endWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined> {
+    const [session] = await db.update(serviceOrderWorkSessions)
+      .set({ endedAt: new Date() })
+      .where(and(
+        eq(serviceOrderWorkSessions.serviceOrderId, serviceOrderId),
+        isNull(serviceOrderWorkSessions.endedAt)
+      ))
+      .returning();
+    return session;
+  }
+
+  async getOpenWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined> {
+    const [session] = await db.select()
+      .from(serviceOrderWorkSessions)
+      .where(and(
+        eq(serviceOrderWorkSessions.serviceOrderId, serviceOrderId),
+        isNull(serviceOrderWorkSessions.endedAt)
+      ));
+    return session;
+  }
+
+  async listOpenWorkSessionsByTechnician(technicianId: number): Promise<ServiceOrderWorkSession[]> {
+    return await db.select()
+      .from(serviceOrderWorkSessions)
+      .where(and(
+        eq(serviceOrderWorkSessions.technicianId, technicianId),
+        isNull(serviceOrderWorkSessions.endedAt)
+      ));
+  }
+
+  // Appointment methods
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async listAppointments(query: AppointmentQuery): Promise<Appointment[]> {
+    return await db.select()
+      .from(appointments)
+      .where(and(
+        lt(appointments.startsAt, query.to),
+        gt(appointments.endsAt, query.from),
+        query.technicianId !== undefined ? eq(appointments.technicianId, query.technicianId) : undefined
+      ))
+      .orderBy(appointments.startsAt, appointments.id);
+  }
+
+  async findAppointmentConflicts(technicianId: number, startsAt: Date, endsAt: Date, excludeId?: number): Promise<Appointment[]> {
+    const conflicts = await appointmentConflictsQuery(db, technicianId, startsAt, endsAt, excludeId);
+    return conflicts.map(({ appointment }) => appointment);
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment, changedBy?: number): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      await assertNoAppointmentConflicts(tx, insertAppointment.technicianId, insertAppointment.startsAt, insertAppointment.endsAt);
+      const [appointment] = await tx.insert(appointments)
+        .values({ ...insertAppointment, notes: insertAppointment.notes ?? null, createdBy: changedBy ?? null })
+        .returning();
+      await recordAudit(tx, 'appointment', appointment.id, 'create', null, appointment, changedBy);
+      return appointment;
+    });
+  }
+
+  async updateAppointment(id: number, appointmentData: UpdateAppointment, changedBy?: number): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentAppointment] = await tx.select().from(appointments).where(eq(appointments.id, id)).for('update');
+      if (!currentAppointment) return undefined;
+      
+      const merged = { ...currentAppointment, ...appointmentData };
+      await assertNoAppointmentConflicts(tx, merged.technicianId, merged.startsAt, merged.endsAt, id);
+      const [updatedAppointment] = await tx.update(appointments)
+        .set(appointmentData)
+        .where(eq(appointments.id, id))
+        .returning();
+      await recordAudit(tx, 'appointment', id, 'update', currentAppointment, updatedAppointment, changedBy);
+      return updatedAppointment;
+    });
+  }
+
+  async deleteAppointment(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deletedAppointment] = await tx.delete(appointments).where(eq(appointments.id, id)).returning();
+      if (!deletedAppointment) return false;
+      await recordAudit(tx, 'appointment', id, 'delete', deletedAppointment, null, changedBy);
+      return true;
+    });
+  }
+
+  // SLA methods
+  async listSlaPolicies(): Promise<SlaPolicy[]> {
+    return await db.select().from(slaPolicies).orderBy(slaPolicies.name, slaPolicies.id);
+  }
+
+  async getSlaPolicy(id: number): Promise<SlaPolicy | undefined> {
+    const [policy] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    return policy;
+  }
+
+  async createSlaPolicy(policy: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy> {
+    return await db.transaction(async (tx) => {
+      const [newPolicy] = await tx.insert(slaPolicies).values(policy).returning();
+      await recordAudit(tx, 'sla_policy', newPolicy.id, 'create', null, newPolicy, changedBy);
+      return newPolicy;
+    });
+  }
+
+  async updateSlaPolicy(id: number, policyData: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentPolicy] = await tx.select().from(slaPolicies).where(eq(slaPolicies.id, id)).for('update');
+      if (!currentPolicy) return undefined;
+      
+      const [updatedPolicy] = await tx.update(slaPolicies).set(policyData).where(eq(slaPolicies.id, id)).returning();
+      await recordAudit(tx, 'sla_policy', id, 'update', currentPolicy, updatedPolicy, changedBy);
+      return updatedPolicy;
+    });
+  }
+
+  async deleteSlaPolicy(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deletedPolicy] = await tx.delete(slaPolicies).where(eq(slaPolicies.id, id)).returning();
+      if (!deletedPolicy) return false;
+      await recordAudit(tx, 'sla_policy', id, 'delete', deletedPolicy, null, changedBy);
+      return true;
+    });
+  }
+
+  async listBusinessCalendars(): Promise<BusinessCalendar[]> {
+    return await db.select().from(businessCalendars).orderBy(businessCalendars.name);
+  }
+
+  async getBusinessCalendar(id: number): Promise<BusinessCalendar | undefined> {
+    const [calendar] = await db.select().from(businessCalendars).where(eq(businessCalendars.id, id));
+    return calendar;
+  }
+
+  async createBusinessCalendar(calendar: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar> {
+    return await db.transaction(async (tx) => {
+      const [newCalendar] = await tx.insert(businessCalendars).values(calendar).returning();
+      await recordAudit(tx, 'business_calendar', newCalendar.id, 'create', null, newCalendar, changedBy);
+      return newCalendar;
+    });
+  }
+
+  async updateBusinessCalendar(id: number, calendarData: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentCalendar] = await tx.select().from(businessCalendars).where(eq(businessCalendars.id, id)).for('update');
+      if (!currentCalendar) return undefined;
+      
+      const [updatedCalendar] = await tx.update(businessCalendars)
+        .set(calendarData)
+        .where(eq(businessCalendars.id, id))
+        .returning();
+      await recordAudit(tx, 'business_calendar', id, 'update', currentCalendar, updatedCalendar, changedBy);
+      return updatedCalendar;
+    });
+  }
+
+  async deleteBusinessCalendar(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deletedCalendar] = await tx.delete(businessCalendars).where(eq(businessCalendars.id, id)).returning();
+      if (!deletedCalendar) return false;
+      await recordAudit(tx, 'business_calendar', id, 'delete', deletedCalendar, null, changedBy);
+      return true;
+    });
+  }
+
+  // Maintenance contract methods
+  async listMaintenanceContracts(): Promise<MaintenanceContract[]> {
+    return await db.select().from(maintenanceContracts).orderBy(maintenanceContracts.name, maintenanceContracts.id);
+  }
+
+  async getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined> {
+    const [contract] = await db.select().from(maintenanceContracts).where(eq(maintenanceContracts.id, id));
+    return contract;
+  }
+
+  async createMaintenanceContract(contract: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract> {
+    return await db.transaction(async (tx) => {
+      const [newContract] = await tx.insert(maintenanceContracts).values({
+        ...contract,
+        nextVisitAt: pendingContractVisit(contract, null),
+      }).returning();
+      await recordAudit(tx, 'maintenance_contract', newContract.id, 'create', null, newContract, changedBy);
+      return newContract;
+    });
+  }
+
+  async updateMaintenanceContract(id: number, contractData: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract | undefined> {
+    return await db.transaction(async (tx) => {
+      const [currentContract] = await tx.select().from(maintenanceContracts).where(eq(maintenanceContracts.id, id)).for('update');
+      if (!currentContract) return undefined;
+      
+      const [updatedContract] = await tx.update(maintenanceContracts)
+        .set({
+          ...contractData,
+          nextVisitAt: pendingContractVisit(contractData, currentContract.lastVisitAt),
+        })
+        .where(eq(maintenanceContracts.id, id))
+        .returning();
+      await recordAudit(tx, 'maintenance_contract', id, 'update', currentContract, updatedContract, changedBy);
+      return updatedContract;
+    });
+  }
+
+  async deleteMaintenanceContract(id: number, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deletedContract] = await tx.delete(maintenanceContracts).where(eq(maintenanceContracts.id, id)).returning();
+      if (!deletedContract) return false;
+      await recordAudit(tx, 'maintenance_contract', id, 'delete', deletedContract, null, changedBy);
+      return true;
+    });
+  }
+
+  async listDueMaintenanceContracts(now: Date): Promise<MaintenanceContract[]> {
+    return await db.select().from(maintenanceContracts)
+      .where(and(eq(maintenanceContracts.active, true), lte(maintenanceContracts.nextVisitAt, now)))
+      .orderBy(maintenanceContracts.nextVisitAt);
+  }
+
+  async recordMaintenanceVisit(id: number, visitAt: Date, nextVisitAt: Date | null): Promise<void> {
+    await db.update(maintenanceContracts)
+      .set({ lastVisitAt: visitAt, nextVisitAt })
+      .where(eq(maintenanceContracts.id, id));
+  }
+
+  // Calendar feed methods
+  async listCalendarFeedsByUser(userId: number): Promise<CalendarFeed[]> {
+    return await db.select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+      .orderBy(calendarFeeds.createdAt, calendarFeeds.id);
+  }
+
+  async getCalendarFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.tokenHash, tokenHash), isNull(calendarFeeds.revokedAt)));
+    return feed;
+  }
+
+  async createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [newFeed] = await db.insert(calendarFeeds).values(feed).returning();
+    return newFeed;
+  }
+
+  async revokeCalendarFeed(id: number, userId: number): Promise<boolean> {
+    const [revokedFeed] = await db.update(calendarFeeds)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.userId, userId), isNull(calendarFeeds.revokedAt)))
+      .returning();
+    return !!revokedFeed;
+  }
+
+  async touchCalendarFeed(id: number, usedAt: Date): Promise<void> {
+    await db.update(calendarFeeds).set({ lastUsedAt: usedAt }).where(eq(calendarFeeds.id, id));
+  }
+
+  // Search methods
+  async search(q: string, limit: number): Promise<SearchResults> {
+    const terms = searchTerms(q);
+    if (terms.length === 0) {
+      return { orders: [], clients: [], equipment: [] };
+    }
+    
+    // Cada término se busca como prefijo para que funcione mientras se escribe
+    const tsQuery = sql`to_tsquery('spanish', ${terms.map(term => `${term}:*`).join(' & ')})`;
+    
+    const orderDocument = searchDocument(serviceOrders.orderNumber, serviceOrders.description, serviceOrders.notes, serviceOrders.materialsUsed);
+    const orderRank = sql<number>`ts_rank(${orderDocument}, ${tsQuery})`;
+    const orderResults = await db.select({
+      id: serviceOrders.id,
+      orderNumber: serviceOrders.orderNumber,
+      description: serviceOrders.description,
+      status: serviceOrders.status,
+      rank: orderRank,
+    })
+      .from(serviceOrders)
+      .where(sql`${orderDocument} @@ ${tsQuery}`)
+      .orderBy(desc(orderRank))
+      .limit(limit);
+    
+    const clientDocument = searchDocument(clients.name, clients.contactName, clients.email);
+    const clientRank = sql<number>`ts_rank(${clientDocument}, ${tsQuery})`;
+    const clientResults = await db.select({
+      id: clients.id,
+      name: clients.name,
+      contactName: clients.contactName,
+      email: clients.email,
+      rank: clientRank,
+    })
+      .from(clients)
+      .where(sql`${clientDocument} @@ ${tsQuery}`)
+      .orderBy(desc(clientRank))
+      .limit(limit);
+    
+    const equipmentDocument = searchDocument(equipment.brand, equipment.model, equipment.serialNumber);
+    const equipmentRank = sql<number>`ts_rank(${equipmentDocument}, ${tsQuery})`;
+    const equipmentResults = await db.select({
+      id: equipment.id,
+      brand: equipment.brand,
+      model: equipment.model,
+      serialNumber: equipment.serialNumber,
+      rank: equipmentRank,
+    })
+      .from(equipment)
+      .where(sql`${equipmentDocument} @@ ${tsQuery}`)
+      .orderBy(desc(equipmentRank))
+      .limit(limit);
+    
+    return { orders: orderResults, clients: clientResults, equipment: equipmentResults };
+  }
+
+  // Company Settings methods
+  async getCompanySettings(): Promise<CompanySettings | undefined> {
+    const [settings] = await db.select().from(companySettings).limit(1);
+    return settings;
+  }
+
+  async updateCompanySettings(settingsData: InsertCompanySettings, changedBy?: number): Promise<CompanySettings> {
+    return await db.transaction(async (tx) => {
+      const [existingSettings] = await tx.select().from(companySettings).limit(1).for('update');
+      if (existingSettings) {
+        // Update existing settings
+        const [updatedSettings] = await tx.update(companySettings)
+          .set({
+            ...settingsData,
+            updatedAt: new Date()
+          })
+          .where(eq(companySettings.id, existingSettings.id))
+          .returning();
+        
+        // updatedAt cambia siempre; no cuenta como cambio para la auditoría
+        await recordAudit(
+          tx, 'company_settings', updatedSettings.id, 'update',
+          { ...existingSettings, updatedAt: null }, { ...updatedSettings, updatedAt: null }, changedBy
+        );
+        return updatedSettings;
+      } else {
+        // Create new settings
+        const [newSettings] = await tx.insert(companySettings)
+          .values({
+            ...settingsData
+          })
+          .returning();
+        
+        await recordAudit(tx, 'company_settings', newSettings.id, 'create', null, newSettings, changedBy);
+        return newSettings;
+      }
+    });
+  }
+
+  // Backup Settings methods
+  async getBackupSettings(): Promise<BackupSettings> {
+    const [settings] = await db.select().from(backupSettings).limit(1);
+    if (settings) return settings;
+    
+    // Primer acceso: se crea el registro con los valores por defecto de la tabla
+    const [defaultSettings] = await db.insert(backupSettings).values({}).returning();
+    return defaultSettings;
+  }
+
+  async updateBackupSettings(settingsData: UpdateBackupSettings, changedBy?: number): Promise<BackupSettings> {
+    const { id } = await this.getBackupSettings();
+    
+    return await db.transaction(async (tx) => {
+      const [existingSettings] = await tx.select().from(backupSettings).where(eq(backupSettings.id, id)).for('update');
+      const [updatedSettings] = await tx.update(backupSettings)
+        .set({ ...settingsData, updatedAt: new Date() })
+        .where(eq(backupSettings.id, existingSettings.id))
+        .returning();
+      
+      // Las marcas de tiempo no cuentan como cambio para la auditoría
+      await recordAudit(
+        tx, 'backup_settings', updatedSettings.id, 'update',
+        { ...existingSettings, updatedAt: null, lastRunAt: null },
+        { ...updatedSettings, updatedAt: null, lastRunAt: null },
+        changedBy
+      );
+      return updatedSettings;
+    });
+  }
+
+  async recordBackupRun(runAt: Date): Promise<void> {
+    const settings = await this.getBackupSettings();
+    await db.update(backupSettings).set({ lastRunAt: runAt }).where(eq(backupSettings.id, settings.id));
+  }
+
+  // Notification Settings methods
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    const [settings] = await db.select().from(notificationSettings).limit(1);
+    if (settings) return settings;
+    
+    const [defaultSettings] = await db.insert(notificationSettings).values({}).returning();
+    return defaultSettings;
+  }
+
+  async updateNotificationSettings(settingsData: UpdateNotificationSettings, changedBy?: number): Promise<NotificationSettings> {
+    const { id } = await this.getNotificationSettings();
+    
+    return await db.transaction(async (tx) => {
+      const [existingSettings] = await tx.select().from(notificationSettings).where(eq(notificationSettings.id, id)).for('update');
+      const [updatedSettings] = await tx.update(notificationSettings)
+        .set({ ...settingsData, updatedAt: new Date() })
+        .where(eq(notificationSettings.id, existingSettings.id))
+        .returning();
+      
+      await recordAudit(
+        tx, 'notification_settings', updatedSettings.id, 'update',
+        { ...existingSettings, updatedAt: null }, { ...updatedSettings, updatedAt: null }, changedBy
+      );
+      return updatedSettings;
+    });
+  }
+
+  // Email outbox methods
+  async enqueueEmail(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage> {
+    const [created] = await db.insert(emailOutbox).values(message).returning();
+    return created;
+  }
+
+  async getEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+    const [message] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return message;
+  }
+
+  async listEmailOutbox(query: EmailOutboxQuery): Promise<PaginatedResult<EmailOutboxMessage>> {
+    return paginate(emailOutbox, query, [
+      query.status ? eq(emailOutbox.status, query.status) : undefined,
+      query.serviceOrderId !== undefined ? eq(emailOutbox.serviceOrderId, query.serviceOrderId) : undefined,
+    ], desc(emailOutbox.createdAt));
+  }
+
+  async listEmailsByServiceOrder(serviceOrderId: number): Promise<EmailOutboxMessage[]> {
+    return await db.select()
+      .from(emailOutbox)
+      .where(eq(emailOutbox.serviceOrderId, serviceOrderId))
+      .orderBy(desc(emailOutbox.createdAt));
+  }
+
+  // Toma los mensajes pendientes cuyo siguiente intento ya venció y los marca como
+  // "sending". SKIP LOCKED evita que dos procesos envíen el mismo mensaje.
+  async claimDueEmails(now: Date, limit: number): Promise<EmailOutboxMessage[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx.select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.nextAttemptAt, now)))
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return await tx.update(emailOutbox)
+        .set({ status: 'sending', attempts: sql`${emailOutbox.attempts} + 1` })
+        .where(inArray(emailOutbox.id, due.map(({ id }) => id)))
+        .returning();
+    });
+  }
+
+  async updateEmailOutboxMessage(id: number, data: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage | undefined> {
+    const [updated] = await db.update(emailOutbox).set(data).where(eq(emailOutbox.id, id)).returning();
+    return updated;
+  }
+
+  // Los mensajes que quedaron en "sending" por un reinicio del servidor vuelven a la cola
+  async requeueInterruptedEmails(): Promise<number> {
+    const requeued = await db.update(emailOutbox)
+      .set({ status: 'pending' })
+      .where(eq(emailOutbox.status, 'sending'))
+      .returning({ id: emailOutbox.id });
+    return requeued.length;
+  }
+
+  // Email template methods
+  async getEmailTemplate(event: EmailTemplateEvent): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplates).where(eq(emailTemplates.event, event));
+    return template;
+  }
+
+  async listEmailTemplates(): Promise<EmailTemplate[]> {
+    return await db.select().from(emailTemplates);
+  }
+
+  async saveEmailTemplate(event: EmailTemplateEvent, data: UpdateEmailTemplate, changedBy?: number): Promise<EmailTemplate> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(emailTemplates).where(eq(emailTemplates.event, event)).for('update');
+      const [saved] = await tx.insert(emailTemplates)
+        .values({ event, ...data })
+        .onConflictDoUpdate({ target: emailTemplates.event, set: { ...data, updatedAt: new Date() } })
+        .returning();
+
+      await recordAudit(
+        tx, 'email_template', saved.id, existing ? 'update' : 'create',
+        existing ? { ...existing, updatedAt: null } : null, { ...saved, updatedAt: null }, changedBy
+      );
+      return saved;
+    });
+  }
+
+  // Al eliminar la plantilla guardada el evento vuelve a la predeterminada
+  async deleteEmailTemplate(event: EmailTemplateEvent, changedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(emailTemplates).where(eq(emailTemplates.event, event)).returning();
+      if (!deleted) return false;
+
+      await recordAudit(tx, 'email_template', deleted.id, 'delete', { ...deleted, updatedAt: null }, null, changedBy);
+      return true;
+    });
+  }
+
+  // Audit log methods
+  async listAuditLog(query: AuditQuery): Promise<PaginatedResult<AuditLogEntry>> {
+    return paginate(auditLog, query, [
+      query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+      query.entityId !== undefined ? eq(auditLog.entityId, query.entityId) : undefined,
+      query.actorId !== undefined ? eq(auditLog.actorId, query.actorId) : undefined,
+      query.action ? eq(auditLog.action, query.action) : undefined,
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lte(auditLog.createdAt, query.to) : undefined,
+    ], desc(auditLog.createdAt));
+  }
+  
+  // Monthly Revenue methods
+  async getMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue | undefined> {
+    const [revenue] = await db.select()
+      .from(monthlyRevenue)
+      .where(and(
+        eq(monthlyRevenue.year, year),
+        eq(monthlyRevenue.month, month)
+      ));
+    return revenue;
+  }
+  
+  async getMonthlyRevenuesByYear(year: number): Promise<MonthlyRevenue[]> {
+    // Obtener los datos existentes en la tabla
+    const existingRecords = await db.select()
       .from(monthlyRevenue)
       .where(eq(monthlyRevenue.year, year))
       .orderBy(monthlyRevenue.month);
@@ -484,63 +1962,36 @@ export class DatabaseStorage implements IStorage {
   
   async calculateCurrentMonthRevenue(): Promise<MonthlyRevenue> {
     const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1; // JavaScript months are 0-indexed
-    
-    console.log("Calculando ingresos para", currentYear, currentMonth);
-    
-    try {
-      // Obtener órdenes completadas y de garantía con costo
-      const orders = await db.select({
-        id: serviceOrders.id,
-        cost: serviceOrders.cost,
-        status: serviceOrders.status
-      })
-      .from(serviceOrders)
-      .where(
-        and(
-          or(
-            eq(serviceOrders.status, 'completed'),
-            eq(serviceOrders.status, 'warranty')
-          ),
-          sql`${serviceOrders.cost} IS NOT NULL`
-        )
-      );
-      
-      console.log("Total de órdenes con costo:", orders.length);
-      
-      // Calcular totales
-      const orderCount = orders.length;
-      let totalAmount = 0;
-      
-      for (const order of orders) {
-        if (typeof order.cost === 'number') {
-          totalAmount += order.cost;
-        }
-      }
-      
-      const averageOrderValue = orderCount > 0 ? totalAmount / orderCount : 0;
-      
-      console.log("Monto total:", totalAmount);
-      console.log("Cantidad de órdenes:", orderCount);
-      console.log("Valor promedio:", averageOrderValue);
-      
-      // Update or create monthly revenue record
-      return this.updateMonthlyRevenue(currentYear, currentMonth, {
-        totalAmount: totalAmount.toString(), // Convert to string for decimal
-        orderCount,
-        averageOrderValue: averageOrderValue.toString() // Convert to string for decimal
+    return this.recalculateMonthlyRevenue(now.getFullYear(), now.getMonth() + 1);
+  }
+  
+  async recalculateMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue> {
+    return await db.transaction(tx => recalculateRevenueMonth(tx, { year, month }));
+  }
+  
+  // Reconstruye la tabla completa a partir de las órdenes cerradas: los meses sin
+  // órdenes desaparecen y cada mes con órdenes se recalcula desde cero
+  async rebuildMonthlyRevenue(): Promise<MonthlyRevenue[]> {
+    return await db.transaction(async (tx) => {
+      const closedOrders = await tx.select()
+        .from(serviceOrders)
+        .where(and(
+          inArray(serviceOrders.status, ['completed', 'warranty']),
+          isNotNull(serviceOrders.completionDate)
+        ));
+      const revenueMonths = new Map<string, RevenueMonth>();
+      closedOrders.forEach(order => {
+        const revenueMonth = revenueMonthOf(order);
+        if (revenueMonth) revenueMonths.set(`${revenueMonth.year}-${revenueMonth.month}`, revenueMonth);
       });
-    } catch (error) {
-      console.error("Error al calcular ingresos:", error);
       
-      // En caso de error, simplemente devolver datos de ejemplo
-      return this.updateMonthlyRevenue(currentYear, currentMonth, {
-        totalAmount: "0",
-        orderCount: 0,
-        averageOrderValue: "0"
-      });
-    }
+      await tx.delete(monthlyRevenue);
+      const rebuilt: MonthlyRevenue[] = [];
+      for (const revenueMonth of Array.from(revenueMonths.values())) {
+        rebuilt.push(await recalculateRevenueMonth(tx, revenueMonth));
+      }
+      return rebuilt;
+    });
   }
   
   async getRevenueHistory(limit: number): Promise<MonthlyRevenue[]> {
@@ -577,6 +2028,36 @@ export class MemStorage implements IStorage {
   private equipmentData: Map<number, Equipment>;
   private serviceOrdersData: Map<number, ServiceOrder>;
   private companySettingsData: Map<number, CompanySettings>;
+  private backupSettingsData: BackupSettings = {
+    id: 1,
+    enabled: false,
+    frequency: 'daily',
+    time: '02:00',
+    retentionDays: 30,
+    lastRunAt: null,
+    updatedAt: new Date()
+  };
+  private notificationSettingsData: NotificationSettings = {
+    id: 1,
+    notifyStatuses: ['approved', 'in_progress', 'completed', 'cancelled', 'warranty'],
+    attachPdfOnCompletion: true,
+    updatedAt: new Date()
+  };
+  private statusHistoryData: ServiceOrderStatusHistory[];
+  private workSessionsData: ServiceOrderWorkSession[];
+  private attachmentsData: Map<number, Attachment>;
+  private ownershipHistoryData: EquipmentOwnershipChange[];
+  private appointmentsData: Map<number, Appointment>;
+  private calendarFeedsData: CalendarFeed[];
+  private slaPoliciesData: Map<number, SlaPolicy>;
+  private businessCalendarsData: Map<number, BusinessCalendar>;
+  private maintenanceContractsData: Map<number, MaintenanceContract>;
+  private auditLogData: AuditLogEntry[];
+  private lineItemsData: ServiceOrderLineItem[];
+  private partsData: Map<number, Part>;
+  private stockMovementsData: PartStockMovement[];
+  private emailOutboxData: EmailOutboxMessage[];
+  private emailTemplatesData: Map<EmailTemplateEvent, EmailTemplate>;
   
   sessionStore: session.Store;
   
@@ -585,6 +2066,14 @@ export class MemStorage implements IStorage {
   technicianCurrentId: number;
   equipmentCurrentId: number;
   serviceOrderCurrentId: number;
+  partCurrentId: number;
+  emailOutboxCurrentId: number;
+  emailTemplateCurrentId: number;
+  attachmentCurrentId: number;
+  appointmentCurrentId: number;
+  slaPolicyCurrentId: number;
+  businessCalendarCurrentId: number;
+  maintenanceContractCurrentId: number;
   orderNumber: number;
 
   constructor() {
@@ -594,12 +2083,35 @@ export class MemStorage implements IStorage {
     this.equipmentData = new Map();
     this.serviceOrdersData = new Map();
     this.companySettingsData = new Map();
+    this.statusHistoryData = [];
+    this.workSessionsData = [];
+    this.attachmentsData = new Map();
+    this.ownershipHistoryData = [];
+    this.appointmentsData = new Map();
+    this.calendarFeedsData = [];
+    this.slaPoliciesData = new Map();
+    this.businessCalendarsData = new Map();
+    this.maintenanceContractsData = new Map();
+    this.auditLogData = [];
+    this.lineItemsData = [];
+    this.partsData = new Map();
+    this.stockMovementsData = [];
+    this.emailOutboxData = [];
+    this.emailTemplatesData = new Map();
     
     this.userCurrentId = 1;
     this.clientCurrentId = 1;
     this.technicianCurrentId = 1;
     this.equipmentCurrentId = 1;
     this.serviceOrderCurrentId = 1;
+    this.partCurrentId = 1;
+    this.emailOutboxCurrentId = 1;
+    this.emailTemplateCurrentId = 1;
+    this.attachmentCurrentId = 1;
+    this.appointmentCurrentId = 1;
+    this.slaPolicyCurrentId = 1;
+    this.businessCalendarCurrentId = 1;
+    this.maintenanceContractCurrentId = 1;
     this.orderNumber = 1000;
     
     this.sessionStore = new MemoryStore({
@@ -675,7 +2187,7 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUserDb): Promise<User> {
+  async createUser(insertUser: InsertUserDb, changedBy?: number): Promise<User> {
     const id = this.userCurrentId++;
     
     // Si se está creando un usuario desde el constructor, la contraseña ya estará hasheada
@@ -696,10 +2208,11 @@ export class MemStorage implements IStorage {
       createdAt: new Date() 
     };
     this.usersData.set(id, user);
+    this.recordAudit('user', id, 'create', null, user, changedBy);
     return user;
   }
 
-  async updateUser(id: number, userData: Partial<InsertUserDb>): Promise<User | undefined> {
+  async updateUser(id: number, userData: Partial<InsertUserDb>, changedBy?: number): Promise<User | undefined> {
     const user = await this.getUser(id);
     if (!user) return undefined;
     
@@ -710,10 +2223,13 @@ export class MemStorage implements IStorage {
     
     const updatedUser = { ...user, ...userData };
     this.usersData.set(id, updatedUser);
+    this.recordAudit('user', id, 'update', user, updatedUser, changedBy);
     return updatedUser;
   }
 
-  async deleteUser(id: number): Promise<boolean> {
+  async deleteUser(id: number, changedBy?: number): Promise<boolean> {
+    const user = this.usersData.get(id);
+    if (user) this.recordAudit('user', id, 'delete', user, null, changedBy);
     return this.usersData.delete(id);
   }
 
@@ -721,28 +2237,61 @@ export class MemStorage implements IStorage {
     return Array.from(this.usersData.values());
   }
 
+  async queryUsers(query: ListQuery): Promise<PaginatedResult<User>> {
+    const rows = Array.from(this.usersData.values()).filter(user =>
+      matchesSearch(query.q, user.username, user.fullName, user.email) &&
+      (!query.from || user.createdAt >= query.from) &&
+      (!query.to || user.createdAt <= query.to)
+    );
+    return paginateInMemory(rows, query, ['username', 'fullName', 'email', 'role', 'createdAt'], 'id');
+  }
+
   // Client methods
   async getClient(id: number): Promise<Client | undefined> {
     return this.clientsData.get(id);
   }
 
-  async createClient(insertClient: InsertClient): Promise<Client> {
+  async createClient(insertClient: InsertClient, changedBy?: number): Promise<Client> {
     const id = this.clientCurrentId++;
-    const client: Client = { ...insertClient, id, createdAt: new Date() };
+    const client: Client = {
+      ...insertClient,
+      emailNotifications: insertClient.emailNotifications ?? true,
+      id,
+      createdAt: new Date()
+    };
     this.clientsData.set(id, client);
+    this.recordAudit('client', id, 'create', null, client, changedBy);
     return client;
   }
 
-  async updateClient(id: number, clientData: Partial<InsertClient>): Promise<Client | undefined> {
+  async updateClient(id: number, clientData: Partial<InsertClient>, changedBy?: number): Promise<Client | undefined> {
     const client = await this.getClient(id);
     if (!client) return undefined;
     
     const updatedClient = { ...client, ...clientData };
     this.clientsData.set(id, updatedClient);
+    this.recordAudit('client', id, 'update', client, updatedClient, changedBy);
     return updatedClient;
   }
 
-  async deleteClient(id: number): Promise<boolean> {
+  async deleteClient(id: number, changedBy?: number): Promise<boolean> {
+    const client = this.clientsData.get(id);
+    if (client) this.recordAudit('client', id, 'delete', client, null, changedBy);
+    // Igual que la clave foránea: los equipos del cliente quedan sin propietario
+    this.equipmentData.forEach((item, equipmentId) => {
+      if (item.clientId === id) this.equipmentData.set(equipmentId, { ...item, clientId: null });
+    });
+    this.ownershipHistoryData = this.ownershipHistoryData.map(change => ({
+      ...change,
+      fromClientId: change.fromClientId === id ? null : change.fromClientId,
+      toClientId: change.toClientId === id ? null : change.toClientId,
+    }));
+    this.slaPoliciesData.forEach((policy, policyId) => {
+      if (policy.clientId === id) this.slaPoliciesData.delete(policyId);
+    });
+    this.maintenanceContractsData.forEach((contract, contractId) => {
+      if (contract.clientId === id) this.maintenanceContractsData.delete(contractId);
+    });
     return this.clientsData.delete(id);
   }
 
@@ -750,6 +2299,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.clientsData.values());
   }
 
+  async queryClients(query: ListQuery): Promise<PaginatedResult<Client>> {
+    const rows = Array.from(this.clientsData.values()).filter(client =>
+      matchesSearch(query.q, client.name, client.contactName, client.email, client.phone) &&
+      (!query.from || client.createdAt >= query.from) &&
+      (!query.to || client.createdAt <= query.to)
+    );
+    return paginateInMemory(rows, query, ['name', 'contactName', 'email', 'createdAt'], 'name');
+  }
+
   // Technician methods
   async getTechnician(id: number): Promise<Technician | undefined> {
     return this.techniciansData.get(id);
@@ -761,31 +2319,40 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createTechnician(insertTechnician: InsertTechnician): Promise<Technician> {
+  async createTechnician(insertTechnician: InsertTechnician, changedBy?: number): Promise<Technician> {
     const id = this.technicianCurrentId++;
-    // Asegurarnos de que status tiene un valor por defecto
-    const status = insertTechnician.status || "available";
     
+    // Disponible salvo que se cree marcado como no disponible; después se calcula a partir de la agenda
     const technician: Technician = { 
       ...insertTechnician, 
-      status,
+      status: insertTechnician.status ?? "available",
       id, 
       createdAt: new Date() 
     };
     this.techniciansData.set(id, technician);
+    this.recordAudit('technician', id, 'create', null, technician, changedBy);
     return technician;
   }
 
-  async updateTechnician(id: number, technicianData: Partial<InsertTechnician>): Promise<Technician | undefined> {
+  async updateTechnician(id: number, technicianData: Omit<Partial<InsertTechnician>, 'status'> & { status?: TechnicianStatus }, changedBy?: number): Promise<Technician | undefined> {
     const technician = await this.getTechnician(id);
     if (!technician) return undefined;
     
     const updatedTechnician = { ...technician, ...technicianData };
     this.techniciansData.set(id, updatedTechnician);
+    this.recordAudit('technician', id, 'update', technician, updatedTechnician, changedBy);
     return updatedTechnician;
   }
 
-  async deleteTechnician(id: number): Promise<boolean> {
+  async deleteTechnician(id: number, changedBy?: number): Promise<boolean> {
+    const technician = this.techniciansData.get(id);
+    if (technician) this.recordAudit('technician', id, 'delete', technician, null, changedBy);
+    Array.from(this.appointmentsData.values())
+      .filter(appointment => appointment.technicianId === id)
+      .forEach(appointment => this.appointmentsData.delete(appointment.id));
+    this.maintenanceContractsData.forEach((contract, contractId) => {
+      if (contract.technicianId === id) this.maintenanceContractsData.set(contractId, { ...contract, technicianId: null });
+    });
     return this.techniciansData.delete(id);
   }
 
@@ -798,7 +2365,7 @@ export class MemStorage implements IStorage {
     return this.equipmentData.get(id);
   }
 
-  async createEquipment(insertEquipment: InsertEquipment): Promise<Equipment> {
+  async createEquipment(insertEquipment: InsertEquipment, changedBy?: number): Promise<Equipment> {
     const id = this.equipmentCurrentId++;
     // Asegurarnos de que description es null si no viene
     const description = insertEquipment.description ?? null;
@@ -811,23 +2378,48 @@ export class MemStorage implements IStorage {
       description,
       location,
       company,
+      clientId: insertEquipment.clientId ?? null,
+      warrantyExpiresAt: insertEquipment.warrantyExpiresAt ?? null,
       id, 
       createdAt: new Date() 
     };
     this.equipmentData.set(id, equipment);
+    if (equipment.clientId !== null) {
+      this.recordOwnershipChange(id, null, equipment.clientId, null, changedBy);
+    }
+    this.recordAudit('equipment', id, 'create', null, equipment, changedBy);
     return equipment;
   }
 
-  async updateEquipment(id: number, equipmentData: Partial<InsertEquipment>): Promise<Equipment | undefined> {
+  async updateEquipment(id: number, equipmentData: Partial<InsertEquipment>, changedBy?: number, ownershipNote?: string): Promise<Equipment | undefined> {
     const equipment = await this.getEquipment(id);
     if (!equipment) return undefined;
     
     const updatedEquipment = { ...equipment, ...equipmentData };
     this.equipmentData.set(id, updatedEquipment);
+    if (updatedEquipment.clientId !== equipment.clientId) {
+      this.recordOwnershipChange(id, equipment.clientId, updatedEquipment.clientId, ownershipNote ?? null, changedBy);
+    }
+    this.recordAudit('equipment', id, 'update', equipment, updatedEquipment, changedBy);
     return updatedEquipment;
   }
 
-  async deleteEquipment(id: number): Promise<boolean> {
+  private recordOwnershipChange(equipmentId: number, fromClientId: number | null, toClientId: number | null, note: string | null, changedBy?: number) {
+    this.ownershipHistoryData.push({
+      id: this.ownershipHistoryData.length + 1,
+      equipmentId,
+      fromClientId,
+      toClientId,
+      note,
+      changedBy: changedBy ?? null,
+      changedAt: new Date(),
+    });
+  }
+
+  async deleteEquipment(id: number, changedBy?: number): Promise<boolean> {
+    const equipment = this.equipmentData.get(id);
+    if (equipment) this.recordAudit('equipment', id, 'delete', equipment, null, changedBy);
+    this.ownershipHistoryData = this.ownershipHistoryData.filter(change => change.equipmentId !== id);
     return this.equipmentData.delete(id);
   }
 
@@ -835,19 +2427,40 @@ export class MemStorage implements IStorage {
     return Array.from(this.equipmentData.values());
   }
 
-  async listEquipmentByClient(clientId: number): Promise<Equipment[]> {
-    // Primero obtenemos el cliente para conocer su nombre
-    const client = this.clientsData.get(clientId);
-    if (!client) return [];
-    
-    // Si tenemos el cliente, buscamos equipos que coincidan con su nombre en el campo company
-    if (client.name) {
-      return Array.from(this.equipmentData.values()).filter(
-        (equipment) => equipment.company === client.name
-      );
+  async queryEquipment(query: ListQuery): Promise<PaginatedResult<Equipment>> {
+    const rows = Array.from(this.equipmentData.values()).filter(item =>
+      matchesSearch(query.q, item.brand, item.model, item.serialNumber, item.company, item.location) &&
+      (!query.from || item.createdAt >= query.from) &&
+      (!query.to || item.createdAt <= query.to)
+    );
+    return paginateInMemory(rows, query, ['type', 'brand', 'model', 'serialNumber', 'warrantyExpiresAt', 'createdAt'], '-id');
+  }
+
+  async listEquipmentByClient(clientId: number): Promise<Equipment[]> {
+    return Array.from(this.equipmentData.values()).filter(
+      (equipment) => equipment.clientId === clientId
+    );
+  }
+
+  async listEquipmentOwnershipHistory(equipmentId: number): Promise<EquipmentOwnershipChange[]> {
+    return this.ownershipHistoryData.filter(change => change.equipmentId === equipmentId);
+  }
+
+  // Import methods
+  async importClients(insertClients: InsertClient[], changedBy?: number): Promise<Client[]> {
+    const created: Client[] = [];
+    for (const insertClient of insertClients) {
+      created.push(await this.createClient(insertClient, changedBy));
     }
-    
-    return [];
+    return created;
+  }
+
+  async importEquipment(items: InsertEquipment[], changedBy?: number): Promise<Equipment[]> {
+    const created: Equipment[] = [];
+    for (const item of items) {
+      created.push(await this.createEquipment(item, changedBy));
+    }
+    return created;
   }
 
   // Service Order methods
@@ -855,8 +2468,12 @@ export class MemStorage implements IStorage {
     return this.serviceOrdersData.get(id);
   }
 
-  async createServiceOrder(insertServiceOrder: InsertServiceOrder): Promise<ServiceOrder> {
+  async createServiceOrder(insertServiceOrder: InsertServiceOrder & { maintenanceContractId?: number | null }, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder> {
     const id = this.serviceOrderCurrentId++;
+    // Las existencias se revisan antes de crear la orden, como en la transacción de la base de datos
+    if (lineItems && lineItems.length > 0) {
+      this.assertStockAvailable(orderStockMovements(id, [], lineItems));
+    }
     const orderNumber = `ORD-${new Date().getFullYear()}-${this.orderNumber++}`;
     
     // Establecer valores por defecto para campos requeridos
@@ -870,8 +2487,10 @@ export class MemStorage implements IStorage {
     const clientApproval = insertServiceOrder.clientApproval ?? false;
     const clientApprovalDate = insertServiceOrder.clientApprovalDate ?? null;
     
-    // Si el estado es warranty (garantía), el costo siempre es 0
-    const cost = status === 'warranty' ? 0 : (insertServiceOrder.cost ?? null);
+    const cost = insertServiceOrder.cost ?? null;
+    const priority = insertServiceOrder.priority ?? 'normal';
+    const requestDate = new Date();
+    const sla = this.resolveOrderSla({ clientId: insertServiceOrder.clientId, priority }, requestDate);
     
     const serviceOrder: ServiceOrder = { 
       clientId: insertServiceOrder.clientId,
@@ -889,35 +2508,197 @@ export class MemStorage implements IStorage {
       cost,
       id, 
       orderNumber,
-      requestDate: new Date(),
-      completionDate: null
+      requestDate,
+      completionDate: null,
+      ...totalsFromCost(cost),
+      priority,
+      ...sla,
+      respondedAt: isOrderResponded({ status, technicianId }) ? requestDate : null,
+      maintenanceContractId: insertServiceOrder.maintenanceContractId ?? null
     };
     this.serviceOrdersData.set(id, serviceOrder);
+    this.recordStatusChange(id, null, status, changedBy);
+    this.recordAudit('service_order', id, 'create', null, serviceOrder, changedBy);
+    if (lineItems && lineItems.length > 0) {
+      return await this.replaceServiceOrderLineItems(id, lineItems, changedBy) ?? serviceOrder;
+    }
     return serviceOrder;
   }
 
-  async updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>): Promise<ServiceOrder | undefined> {
+  async updateServiceOrder(id: number, serviceOrderData: Partial<UpdateServiceOrder>, changedBy?: number, lineItems?: LineItemInput[]): Promise<ServiceOrder | undefined> {
     const serviceOrder = await this.getServiceOrder(id);
     if (!serviceOrder) return undefined;
     
+    const newStatus = serviceOrderData.status;
+    const statusChanged = newStatus !== undefined && newStatus !== serviceOrder.status;
+    
+    if (statusChanged && !canTransitionOrderStatus(serviceOrder.status, newStatus)) {
+      throw new InvalidStatusTransitionError(serviceOrder.status, newStatus);
+    }
+    
+    // Las existencias se revisan antes de modificar la orden, como en la transacción de la base de datos
+    if (lineItems) {
+      this.assertStockAvailable(orderStockMovements(id, await this.listServiceOrderLineItems(id), lineItems));
+    }
+    
     // Si se está cambiando el estado a warranty (garantía), establecer costo a 0
     if (serviceOrderData.status === 'warranty') {
       serviceOrderData.cost = 0;
     }
     
-    const updatedServiceOrder = { ...serviceOrder, ...serviceOrderData };
+    // Al cerrar la orden registramos la fecha de finalización si no viene
+    if (statusChanged && (newStatus === 'completed' || newStatus === 'warranty') && !serviceOrderData.completionDate) {
+      serviceOrderData.completionDate = new Date();
+    }
+    
+    // Con partidas el total se calcula a partir de ellas; sin partidas, del costo capturado
+    const hasLineItems = this.lineItemsData.some(item => item.serviceOrderId === id);
+    const totals = serviceOrderData.status === 'warranty'
+      ? totalsFromCost(0)
+      : serviceOrderData.cost !== undefined && !hasLineItems
+        ? totalsFromCost(serviceOrderData.cost)
+        : {};
+    
+    // Cambiar el cliente o la prioridad recalcula los plazos desde la fecha de solicitud
+    const next = orderAfterUpdate(serviceOrder, serviceOrderData);
+    const sla = next.clientId !== serviceOrder.clientId || next.priority !== serviceOrder.priority
+      ? this.resolveOrderSla(next, serviceOrder.requestDate)
+      : {};
+    const response = !serviceOrder.respondedAt && isOrderResponded(next) ? { respondedAt: new Date() } : {};
+    
+    const updatedServiceOrder = { ...serviceOrder, ...serviceOrderData, ...totals, ...sla, ...response };
     this.serviceOrdersData.set(id, updatedServiceOrder);
+    
+    if (statusChanged) {
+      this.recordStatusChange(id, serviceOrder.status, newStatus, changedBy);
+    }
+    
+    this.recordAudit('service_order', id, 'update', serviceOrder, updatedServiceOrder, changedBy);
+    await this.refreshMonthlyRevenue(serviceOrder, updatedServiceOrder);
+    if (lineItems) {
+      return await this.replaceServiceOrderLineItems(id, lineItems, changedBy);
+    }
     return updatedServiceOrder;
   }
 
-  async deleteServiceOrder(id: number): Promise<boolean> {
-    return this.serviceOrdersData.delete(id);
+  async listServiceOrderLineItems(serviceOrderId: number): Promise<ServiceOrderLineItem[]> {
+    return this.lineItemsData
+      .filter(item => item.serviceOrderId === serviceOrderId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceServiceOrderLineItems(serviceOrderId: number, items: LineItemInput[], changedBy?: number): Promise<ServiceOrder | undefined> {
+    const serviceOrder = this.serviceOrdersData.get(serviceOrderId);
+    if (!serviceOrder) return undefined;
+    
+    const totals = items.length > 0
+      ? totalsFromLineItems(items, serviceOrder.status)
+      : totalsFromCost(serviceOrder.cost);
+    const previousItems = await this.listServiceOrderLineItems(serviceOrderId);
+    this.applyStockMovements(orderStockMovements(serviceOrderId, previousItems, items, changedBy));
+    
+    this.lineItemsData = this.lineItemsData.filter(item => item.serviceOrderId !== serviceOrderId);
+    const nextId = Math.max(0, ...this.lineItemsData.map(item => item.id)) + 1;
+    items.forEach((item, index) => {
+      this.lineItemsData.push({
+        id: nextId + index,
+        serviceOrderId,
+        partId: item.partId ?? null,
+        type: item.type,
+        description: item.description,
+        quantity: item.quantity.toFixed(2),
+        unitPrice: item.unitPrice.toFixed(2),
+        taxRate: item.taxRate.toFixed(2),
+        position: index,
+      });
+    });
+    
+    const updatedServiceOrder = {
+      ...serviceOrder,
+      ...totals,
+      cost: items.length > 0 ? Math.round(toCents(totals.total) / 100) : serviceOrder.cost,
+    };
+    this.serviceOrdersData.set(serviceOrderId, updatedServiceOrder);
+    this.recordAudit('service_order', serviceOrderId, 'update', serviceOrder, updatedServiceOrder, changedBy);
+    await this.refreshMonthlyRevenue(serviceOrder, updatedServiceOrder);
+    return updatedServiceOrder;
+  }
+
+  private recordStatusChange(serviceOrderId: number, fromStatus: OrderStatus | null, toStatus: OrderStatus, changedBy?: number) {
+    this.statusHistoryData.push({
+      id: this.statusHistoryData.length + 1,
+      serviceOrderId,
+      fromStatus,
+      toStatus,
+      changedBy: changedBy ?? null,
+      changedAt: new Date()
+    });
+  }
+
+  private recordAudit(
+    entityType: AuditEntityType,
+    entityId: number,
+    action: AuditAction,
+    before: object | null,
+    after: object | null,
+    changedBy?: number
+  ) {
+    const changes = auditChanges(before, after);
+    if (!changes) return;
+    
+    this.auditLogData.push({
+      id: this.auditLogData.length + 1,
+      actorId: changedBy ?? null,
+      entityType,
+      entityId,
+      action,
+      changes,
+      createdAt: new Date()
+    });
+  }
+
+  async deleteServiceOrder(id: number, changedBy?: number): Promise<boolean> {
+    const serviceOrder = this.serviceOrdersData.get(id);
+    if (!serviceOrder) return false;
+    
+    // Se elimina antes de cualquier await para que una segunda eliminación no devuelva otra vez las refacciones
+    this.serviceOrdersData.delete(id);
+    const lineItems = this.lineItemsData.filter(item => item.serviceOrderId === id);
+    this.applyStockMovements(orderStockMovements(id, lineItems, [], changedBy));
+    this.lineItemsData = this.lineItemsData.filter(item => item.serviceOrderId !== id);
+    Array.from(this.attachmentsData.values())
+      .filter(attachment => attachment.serviceOrderId === id)
+      .forEach(attachment => this.attachmentsData.delete(attachment.id));
+    Array.from(this.appointmentsData.values())
+      .filter(appointment => appointment.serviceOrderId === id)
+      .forEach(appointment => this.appointmentsData.delete(appointment.id));
+    this.recordAudit('service_order', id, 'delete', serviceOrder, null, changedBy);
+    await this.refreshMonthlyRevenue(serviceOrder, null);
+    return true;
   }
 
   async listServiceOrders(): Promise<ServiceOrder[]> {
     return Array.from(this.serviceOrdersData.values());
   }
 
+  async queryServiceOrders(query: ListQuery): Promise<PaginatedResult<ServiceOrder>> {
+    const statuses = parseStatusFilter(query.status);
+    const rows = Array.from(this.serviceOrdersData.values()).filter(order =>
+      (statuses.length === 0 || statuses.includes(order.status)) &&
+      (query.clientId === undefined || order.clientId === query.clientId) &&
+      (query.technicianId === undefined || order.technicianId === query.technicianId) &&
+      (!query.from || order.requestDate >= query.from) &&
+      (!query.to || order.requestDate <= query.to) &&
+      matchesSearch(query.q, order.orderNumber, order.description, this.clientsData.get(order.clientId)?.name)
+    );
+    return paginateInMemory(
+      rows,
+      query,
+      ['orderNumber', 'status', 'requestDate', 'expectedDeliveryDate', 'completionDate', 'cost', 'priority', 'resolutionDueAt'],
+      '-requestDate'
+    );
+  }
+
   async listServiceOrdersByClient(clientId: number): Promise<ServiceOrder[]> {
     return Array.from(this.serviceOrdersData.values()).filter(
       (serviceOrder) => serviceOrder.clientId === clientId,
@@ -929,6 +2710,12 @@ export class MemStorage implements IStorage {
       (serviceOrder) => serviceOrder.technicianId === technicianId,
     );
   }
+
+  async listServiceOrdersByEquipment(equipmentId: number): Promise<ServiceOrder[]> {
+    return Array.from(this.serviceOrdersData.values())
+      .filter(serviceOrder => serviceOrder.equipmentId === equipmentId)
+      .sort((a, b) => a.requestDate.getTime() - b.requestDate.getTime() || a.id - b.id);
+  }
   
   async listServiceOrdersByStatus(status: string): Promise<ServiceOrder[]> {
     return Array.from(this.serviceOrdersData.values()).filter(
@@ -936,12 +2723,520 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async listServiceOrdersByMaintenanceContract(contractId: number): Promise<ServiceOrder[]> {
+    return Array.from(this.serviceOrdersData.values()).filter(
+      (serviceOrder) => serviceOrder.maintenanceContractId === contractId,
+    );
+  }
+
+  async listServiceOrderStatusHistory(serviceOrderId: number): Promise<ServiceOrderStatusHistory[]> {
+    return this.statusHistoryData.filter(
+      (entry) => entry.serviceOrderId === serviceOrderId,
+    );
+  }
+
+  // Inventory methods
+  async getPart(id: number): Promise<Part | undefined> {
+    return this.partsData.get(id);
+  }
+
+  async getPartBySku(sku: string): Promise<Part | undefined> {
+    return Array.from(this.partsData.values()).find(part => part.sku === sku);
+  }
+
+  async createPart(insertPart: InsertPart, changedBy?: number): Promise<Part> {
+    const id = this.partCurrentId++;
+    const part: Part = {
+      ...insertPart,
+      description: insertPart.description ?? null,
+      minStock: insertPart.minStock ?? 0,
+      id,
+      stockQuantity: 0,
+      createdAt: new Date()
+    };
+    this.partsData.set(id, part);
+    this.recordAudit('part', id, 'create', null, part, changedBy);
+    return part;
+  }
+
+  async updatePart(id: number, partData: Partial<InsertPart>, changedBy?: number): Promise<Part | undefined> {
+    const part = this.partsData.get(id);
+    if (!part) return undefined;
+    
+    const updatedPart = { ...part, ...partData };
+    this.partsData.set(id, updatedPart);
+    this.recordAudit('part', id, 'update', part, updatedPart, changedBy);
+    return updatedPart;
+  }
+
+  async deletePart(id: number, changedBy?: number): Promise<boolean> {
+    const part = this.partsData.get(id);
+    if (part) {
+      this.recordAudit('part', id, 'delete', part, null, changedBy);
+      this.stockMovementsData = this.stockMovementsData.filter(movement => movement.partId !== id);
+      this.lineItemsData.forEach(item => {
+        if (item.partId === id) item.partId = null;
+      });
+    }
+    return this.partsData.delete(id);
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachmentsData.get(id);
+  }
+
+  async listAttachments(serviceOrderId: number): Promise<Attachment[]> {
+    return Array.from(this.attachmentsData.values())
+      .filter(attachment => attachment.serviceOrderId === serviceOrderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createAttachment(attachment: InsertAttachment, changedBy?: number): Promise<Attachment> {
+    const id = this.attachmentCurrentId++;
+    const created: Attachment = {
+      id,
+      serviceOrderId: attachment.serviceOrderId,
+      url: attachment.url,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      caption: attachment.caption ?? null,
+      uploadedBy: attachment.uploadedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.attachmentsData.set(id, created);
+    this.recordAudit('attachment', id, 'create', null, created, changedBy);
+    return created;
+  }
+
+  async deleteAttachment(id: number, changedBy?: number): Promise<boolean> {
+    const attachment = this.attachmentsData.get(id);
+    if (!attachment) return false;
+    this.recordAudit('attachment', id, 'delete', attachment, null, changedBy);
+    return this.attachmentsData.delete(id);
+  }
+
+  async listParts(): Promise<Part[]> {
+    return Array.from(this.partsData.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async queryParts(query: ListQuery): Promise<PaginatedResult<Part>> {
+    const rows = Array.from(this.partsData.values()).filter(part =>
+      matchesSearch(query.q, part.sku, part.name, part.description)
+    );
+    return paginateInMemory(rows, query, ['sku', 'name', 'salePrice', 'stockQuantity'], 'name');
+  }
+
+  async listLowStockParts(): Promise<Part[]> {
+    return Array.from(this.partsData.values())
+      .filter(part => part.stockQuantity <= part.minStock)
+      .sort((a, b) => a.stockQuantity - b.stockQuantity);
+  }
+
+  async listPartStockMovements(partId: number): Promise<PartStockMovement[]> {
+    return this.stockMovementsData
+      .filter(movement => movement.partId === partId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async recordStockMovement(partId: number, movement: StockMovementInput, changedBy?: number): Promise<Part | undefined> {
+    if (!this.partsData.has(partId)) return undefined;
+    
+    this.applyStockMovements([{
+      partId,
+      type: movement.type,
+      quantity: movement.quantity,
+      note: movement.note || null,
+      createdBy: changedBy ?? null,
+    }]);
+    return this.partsData.get(partId);
+  }
+
+  // Valida todos los movimientos antes de aplicar alguno, como la transacción en base de datos
+  private assertStockAvailable(movements: NewStockMovement[]) {
+    const available = new Map<number, number>();
+    movements.forEach(movement => {
+      const part = this.partsData.get(movement.partId);
+      if (!part) throw new Error(`La refacción ${movement.partId} no existe`);
+      const stock = (available.get(part.id) ?? part.stockQuantity) + movement.quantity;
+      if (stock < 0) throw new InsufficientStockError(part, -movement.quantity);
+      available.set(part.id, stock);
+    });
+  }
+
+  private applyStockMovements(movements: NewStockMovement[]) {
+    this.assertStockAvailable(movements);
+    
+    movements.forEach(movement => {
+      const part = this.partsData.get(movement.partId)!;
+      this.partsData.set(part.id, { ...part, stockQuantity: part.stockQuantity + movement.quantity });
+      this.stockMovementsData.push({
+        id: this.stockMovementsData.length + 1,
+        partId: movement.partId,
+        type: movement.type,
+        quantity: movement.quantity,
+        serviceOrderId: movement.serviceOrderId ?? null,
+        note: movement.note ?? null,
+        createdBy: movement.createdBy ?? null,
+        createdAt: new Date()
+      });
+    });
+  }
+
+  // Work session methods
+  async startWorkSession(serviceOrderId: number, technicianId: number): Promise<ServiceOrderWorkSession> {
+    const session: ServiceOrderWorkSession = {
+      id: this.workSessionsData.length + 1,
+      serviceOrderId,
+      technicianId,
+      startedAt: new Date(),
+      endedAt: null
+    };
+    this.workSessionsData.push(session);
+    return session;
+  }
+
+  async endWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined> {
+    const session = await this.getOpenWorkSession(serviceOrderId);
+    if (session) {
+      session.endedAt = new Date();
+    }
+    return session;
+  }
+
+  async getOpenWorkSession(serviceOrderId: number): Promise<ServiceOrderWorkSession | undefined> {
+    return this.workSessionsData.find(
+      (session) => session.serviceOrderId === serviceOrderId && !session.endedAt,
+    );
+  }
+
+  async listOpenWorkSessionsByTechnician(technicianId: number): Promise<ServiceOrderWorkSession[]> {
+    return this.workSessionsData.filter(
+      (session) => session.technicianId === technicianId && !session.endedAt,
+    );
+  }
+
+  // Appointment methods
+  async getAppointment(id: number): Promise<Appointment | undefined> {
+    return this.appointmentsData.get(id);
+  }
+
+  async listAppointments(query: AppointmentQuery): Promise<Appointment[]> {
+    return Array.from(this.appointmentsData.values())
+      .filter(appointment =>
+        appointment.startsAt < query.to &&
+        appointment.endsAt > query.from &&
+        (query.technicianId === undefined || appointment.technicianId === query.technicianId)
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async findAppointmentConflicts(technicianId: number, startsAt: Date, endsAt: Date, excludeId?: number): Promise<Appointment[]> {
+    return (await this.listAppointments({ from: startsAt, to: endsAt, technicianId }))
+      .filter(appointment => {
+        const order = this.serviceOrdersData.get(appointment.serviceOrderId);
+        return appointment.id !== excludeId && !!order && !closedOrderStatuses.includes(order.status);
+      });
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment, changedBy?: number): Promise<Appointment> {
+    const conflicts = await this.findAppointmentConflicts(insertAppointment.technicianId, insertAppointment.startsAt, insertAppointment.endsAt);
+    if (conflicts.length > 0) throw new AppointmentConflictError(conflicts);
+    
+    const id = this.appointmentCurrentId++;
+    const appointment: Appointment = {
+      ...insertAppointment,
+      location: insertAppointment.location ?? 'in_shop',
+      notes: insertAppointment.notes ?? null,
+      id,
+      createdBy: changedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.appointmentsData.set(id, appointment);
+    this.recordAudit('appointment', id, 'create', null, appointment, changedBy);
+    return appointment;
+  }
+
+  async updateAppointment(id: number, appointmentData: UpdateAppointment, changedBy?: number): Promise<Appointment | undefined> {
+    const appointment = this.appointmentsData.get(id);
+    if (!appointment) return undefined;
+    
+    const updatedAppointment = { ...appointment, ...appointmentData };
+    const conflicts = await this.findAppointmentConflicts(updatedAppointment.technicianId, updatedAppointment.startsAt, updatedAppointment.endsAt, id);
+    if (conflicts.length > 0) throw new AppointmentConflictError(conflicts);
+    
+    this.appointmentsData.set(id, updatedAppointment);
+    this.recordAudit('appointment', id, 'update', appointment, updatedAppointment, changedBy);
+    return updatedAppointment;
+  }
+
+  async deleteAppointment(id: number, changedBy?: number): Promise<boolean> {
+    const appointment = this.appointmentsData.get(id);
+    if (!appointment) return false;
+    this.recordAudit('appointment', id, 'delete', appointment, null, changedBy);
+    return this.appointmentsData.delete(id);
+  }
+
+  // SLA methods
+  private resolveOrderSla(order: { clientId: number; priority: OrderPriority }, requestDate: Date) {
+    const policy = selectSlaPolicy(Array.from(this.slaPoliciesData.values()), order);
+    const calendar = policy?.businessCalendarId ? this.businessCalendarsData.get(policy.businessCalendarId) : undefined;
+    return calculateSlaDueDates(requestDate, policy, calendar);
+  }
+
+  async listSlaPolicies(): Promise<SlaPolicy[]> {
+    return Array.from(this.slaPoliciesData.values()).sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getSlaPolicy(id: number): Promise<SlaPolicy | undefined> {
+    return this.slaPoliciesData.get(id);
+  }
+
+  async createSlaPolicy(policy: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy> {
+    const id = this.slaPolicyCurrentId++;
+    const newPolicy: SlaPolicy = {
+      id,
+      name: policy.name,
+      clientId: policy.clientId ?? null,
+      priority: policy.priority ?? null,
+      responseHours: policy.responseHours,
+      resolutionHours: policy.resolutionHours,
+      businessCalendarId: policy.businessCalendarId ?? null,
+      active: policy.active ?? true,
+      createdAt: new Date(),
+    };
+    this.slaPoliciesData.set(id, newPolicy);
+    this.recordAudit('sla_policy', id, 'create', null, newPolicy, changedBy);
+    return newPolicy;
+  }
+
+  async updateSlaPolicy(id: number, policyData: InsertSlaPolicy, changedBy?: number): Promise<SlaPolicy | undefined> {
+    const policy = this.slaPoliciesData.get(id);
+    if (!policy) return undefined;
+    
+    const updatedPolicy: SlaPolicy = {
+      ...policy,
+      ...policyData,
+      clientId: policyData.clientId ?? null,
+      priority: policyData.priority ?? null,
+      businessCalendarId: policyData.businessCalendarId ?? null,
+      active: policyData.active ?? policy.active,
+    };
+    this.slaPoliciesData.set(id, updatedPolicy);
+    this.recordAudit('sla_policy', id, 'update', policy, updatedPolicy, changedBy);
+    return updatedPolicy;
+  }
+
+  async deleteSlaPolicy(id: number, changedBy?: number): Promise<boolean> {
+    const policy = this.slaPoliciesData.get(id);
+    if (!policy) return false;
+    this.recordAudit('sla_policy', id, 'delete', policy, null, changedBy);
+    // Igual que la clave foránea: las órdenes conservan sus plazos pero pierden la referencia
+    this.serviceOrdersData.forEach((order, orderId) => {
+      if (order.slaPolicyId === id) this.serviceOrdersData.set(orderId, { ...order, slaPolicyId: null });
+    });
+    return this.slaPoliciesData.delete(id);
+  }
+
+  async listBusinessCalendars(): Promise<BusinessCalendar[]> {
+    return Array.from(this.businessCalendarsData.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getBusinessCalendar(id: number): Promise<BusinessCalendar | undefined> {
+    return this.businessCalendarsData.get(id);
+  }
+
+  async createBusinessCalendar(calendar: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar> {
+    const id = this.businessCalendarCurrentId++;
+    const newCalendar: BusinessCalendar = {
+      id,
+      name: calendar.name,
+      hours: calendar.hours,
+      holidays: calendar.holidays,
+      createdAt: new Date(),
+    };
+    this.businessCalendarsData.set(id, newCalendar);
+    this.recordAudit('business_calendar', id, 'create', null, newCalendar, changedBy);
+    return newCalendar;
+  }
+
+  async updateBusinessCalendar(id: number, calendarData: InsertBusinessCalendar, changedBy?: number): Promise<BusinessCalendar | undefined> {
+    const calendar = this.businessCalendarsData.get(id);
+    if (!calendar) return undefined;
+    
+    const updatedCalendar = { ...calendar, ...calendarData };
+    this.businessCalendarsData.set(id, updatedCalendar);
+    this.recordAudit('business_calendar', id, 'update', calendar, updatedCalendar, changedBy);
+    return updatedCalendar;
+  }
+
+  async deleteBusinessCalendar(id: number, changedBy?: number): Promise<boolean> {
+    const calendar = this.businessCalendarsData.get(id);
+    if (!calendar) return false;
+    this.recordAudit('business_calendar', id, 'delete', calendar, null, changedBy);
+    // Las políticas que lo usaban pasan a contar los plazos de forma continua
+    this.slaPoliciesData.forEach((policy, policyId) => {
+      if (policy.businessCalendarId === id) this.slaPoliciesData.set(policyId, { ...policy, businessCalendarId: null });
+    });
+    return this.businessCalendarsData.delete(id);
+  }
+
+  // Maintenance contract methods
+  async listMaintenanceContracts(): Promise<MaintenanceContract[]> {
+    return Array.from(this.maintenanceContractsData.values()).sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getMaintenanceContract(id: number): Promise<MaintenanceContract | undefined> {
+    return this.maintenanceContractsData.get(id);
+  }
+
+  async createMaintenanceContract(contract: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract> {
+    const id = this.maintenanceContractCurrentId++;
+    const newContract: MaintenanceContract = {
+      id,
+      name: contract.name,
+      clientId: contract.clientId,
+      equipmentIds: contract.equipmentIds,
+      frequency: contract.frequency,
+      interval: contract.interval,
+      description: contract.description,
+      technicianId: contract.technicianId ?? null,
+      value: contract.value ?? null,
+      startDate: contract.startDate,
+      endDate: contract.endDate ?? null,
+      active: contract.active ?? true,
+      nextVisitAt: pendingContractVisit(contract, null),
+      lastVisitAt: null,
+      createdAt: new Date(),
+    };
+    this.maintenanceContractsData.set(id, newContract);
+    this.recordAudit('maintenance_contract', id, 'create', null, newContract, changedBy);
+    return newContract;
+  }
+
+  async updateMaintenanceContract(id: number, contractData: InsertMaintenanceContract, changedBy?: number): Promise<MaintenanceContract | undefined> {
+    const contract = this.maintenanceContractsData.get(id);
+    if (!contract) return undefined;
+    
+    const updatedContract: MaintenanceContract = {
+      ...contract,
+      ...contractData,
+      technicianId: contractData.technicianId ?? null,
+      value: contractData.value ?? null,
+      endDate: contractData.endDate ?? null,
+      active: contractData.active ?? contract.active,
+      nextVisitAt: pendingContractVisit(contractData, contract.lastVisitAt),
+    };
+    this.maintenanceContractsData.set(id, updatedContract);
+    this.recordAudit('maintenance_contract', id, 'update', contract, updatedContract, changedBy);
+    return updatedContract;
+  }
+
+  async deleteMaintenanceContract(id: number, changedBy?: number): Promise<boolean> {
+    const contract = this.maintenanceContractsData.get(id);
+    if (!contract) return false;
+    this.recordAudit('maintenance_contract', id, 'delete', contract, null, changedBy);
+    // Igual que la clave foránea: las órdenes generadas se conservan sin la referencia
+    this.serviceOrdersData.forEach((order, orderId) => {
+      if (order.maintenanceContractId === id) this.serviceOrdersData.set(orderId, { ...order, maintenanceContractId: null });
+    });
+    return this.maintenanceContractsData.delete(id);
+  }
+
+  async listDueMaintenanceContracts(now: Date): Promise<MaintenanceContract[]> {
+    return Array.from(this.maintenanceContractsData.values())
+      .filter(contract => contract.active && contract.nextVisitAt !== null && contract.nextVisitAt <= now)
+      .sort((a, b) => a.nextVisitAt!.getTime() - b.nextVisitAt!.getTime());
+  }
+
+  async recordMaintenanceVisit(id: number, visitAt: Date, nextVisitAt: Date | null): Promise<void> {
+    const contract = this.maintenanceContractsData.get(id);
+    if (contract) this.maintenanceContractsData.set(id, { ...contract, lastVisitAt: visitAt, nextVisitAt });
+  }
+
+  // Calendar feed methods
+  async listCalendarFeedsByUser(userId: number): Promise<CalendarFeed[]> {
+    return this.calendarFeedsData.filter(feed => feed.userId === userId && !feed.revokedAt);
+  }
+
+  async getCalendarFeedByTokenHash(tokenHash: string): Promise<CalendarFeed | undefined> {
+    return this.calendarFeedsData.find(feed => feed.tokenHash === tokenHash && !feed.revokedAt);
+  }
+
+  async createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const newFeed: CalendarFeed = {
+      id: this.calendarFeedsData.length + 1,
+      userId: feed.userId,
+      scope: feed.scope,
+      technicianId: feed.technicianId ?? null,
+      clientId: feed.clientId ?? null,
+      tokenHash: feed.tokenHash,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.calendarFeedsData.push(newFeed);
+    return newFeed;
+  }
+
+  async revokeCalendarFeed(id: number, userId: number): Promise<boolean> {
+    const feed = this.calendarFeedsData.find(feed => feed.id === id && feed.userId === userId && !feed.revokedAt);
+    if (!feed) return false;
+    feed.revokedAt = new Date();
+    return true;
+  }
+
+  async touchCalendarFeed(id: number, usedAt: Date): Promise<void> {
+    const feed = this.calendarFeedsData.find(feed => feed.id === id);
+    if (feed) feed.lastUsedAt = usedAt;
+  }
+
+  // Search methods
+  async search(q: string, limit: number): Promise<SearchResults> {
+    const terms = searchTerms(q);
+    if (terms.length === 0) {
+      return { orders: [], clients: [], equipment: [] };
+    }
+    
+    // Relevancia aproximada: número de términos encontrados, todos obligatorios
+    const rankOf = (...values: (string | null)[]) => {
+      const text = values.filter(Boolean).join(' ').toLowerCase();
+      return terms.every(term => text.includes(term)) ? terms.length : 0;
+    };
+    const topResults = <T extends { rank: number }>(rows: T[]) =>
+      rows.filter(row => row.rank > 0).sort((a, b) => b.rank - a.rank).slice(0, limit);
+    
+    return {
+      orders: topResults(Array.from(this.serviceOrdersData.values()).map(order => ({
+        id: order.id,
+        orderNumber: order.orderNumber,
+        description: order.description,
+        status: order.status,
+        rank: rankOf(order.orderNumber, order.description, order.notes, order.materialsUsed),
+      }))),
+      clients: topResults(Array.from(this.clientsData.values()).map(client => ({
+        id: client.id,
+        name: client.name,
+        contactName: client.contactName,
+        email: client.email,
+        rank: rankOf(client.name, client.contactName, client.email),
+      }))),
+      equipment: topResults(Array.from(this.equipmentData.values()).map(item => ({
+        id: item.id,
+        brand: item.brand,
+        model: item.model,
+        serialNumber: item.serialNumber,
+        rank: rankOf(item.brand, item.model, item.serialNumber),
+      }))),
+    };
+  }
+
   // Company Settings methods
   async getCompanySettings(): Promise<CompanySettings | undefined> {
     return this.companySettingsData.get(1);
   }
 
-  async updateCompanySettings(settingsData: InsertCompanySettings): Promise<CompanySettings> {
+  async updateCompanySettings(settingsData: InsertCompanySettings, changedBy?: number): Promise<CompanySettings> {
     const settings = this.companySettingsData.get(1);
     
     // Asegurar que los campos opcionales son null si no están definidos
@@ -973,9 +3268,177 @@ export class MemStorage implements IStorage {
     };
     
     this.companySettingsData.set(1, updatedSettings);
+    this.recordAudit(
+      'company_settings', 1, settings ? 'update' : 'create',
+      settings ? { ...settings, updatedAt: null } : null, { ...updatedSettings, updatedAt: null }, changedBy
+    );
     return updatedSettings;
   }
 
+  // Backup Settings methods
+  async getBackupSettings(): Promise<BackupSettings> {
+    return this.backupSettingsData;
+  }
+
+  async updateBackupSettings(settingsData: UpdateBackupSettings, changedBy?: number): Promise<BackupSettings> {
+    const existingSettings = this.backupSettingsData;
+    const updatedSettings: BackupSettings = {
+      ...existingSettings,
+      ...settingsData,
+      enabled: settingsData.enabled ?? existingSettings.enabled,
+      frequency: settingsData.frequency ?? existingSettings.frequency,
+      updatedAt: new Date()
+    };
+    this.backupSettingsData = updatedSettings;
+    this.recordAudit(
+      'backup_settings', updatedSettings.id, 'update',
+      { ...existingSettings, updatedAt: null, lastRunAt: null },
+      { ...updatedSettings, updatedAt: null, lastRunAt: null },
+      changedBy
+    );
+    return updatedSettings;
+  }
+
+  async recordBackupRun(runAt: Date): Promise<void> {
+    this.backupSettingsData = { ...this.backupSettingsData, lastRunAt: runAt };
+  }
+
+  // Notification Settings methods
+  async getNotificationSettings(): Promise<NotificationSettings> {
+    return this.notificationSettingsData;
+  }
+
+  async updateNotificationSettings(settingsData: UpdateNotificationSettings, changedBy?: number): Promise<NotificationSettings> {
+    const existingSettings = this.notificationSettingsData;
+    const updatedSettings: NotificationSettings = {
+      ...existingSettings,
+      ...settingsData,
+      updatedAt: new Date()
+    };
+    this.notificationSettingsData = updatedSettings;
+    this.recordAudit(
+      'notification_settings', updatedSettings.id, 'update',
+      { ...existingSettings, updatedAt: null }, { ...updatedSettings, updatedAt: null }, changedBy
+    );
+    return updatedSettings;
+  }
+
+  // Email outbox methods
+  async enqueueEmail(message: InsertEmailOutboxMessage): Promise<EmailOutboxMessage> {
+    const created: EmailOutboxMessage = {
+      id: this.emailOutboxCurrentId++,
+      to: message.to,
+      subject: message.subject,
+      html: message.html ?? null,
+      text: message.text ?? null,
+      attachments: message.attachments ?? [],
+      status: message.status ?? 'pending',
+      attempts: message.attempts ?? 0,
+      maxAttempts: message.maxAttempts ?? 5,
+      nextAttemptAt: message.nextAttemptAt ?? new Date(),
+      lastError: message.lastError ?? null,
+      sentAt: message.sentAt ?? null,
+      serviceOrderId: message.serviceOrderId ?? null,
+      event: message.event ?? null,
+      createdAt: new Date()
+    };
+    this.emailOutboxData.push(created);
+    return created;
+  }
+
+  async getEmailOutboxMessage(id: number): Promise<EmailOutboxMessage | undefined> {
+    return this.emailOutboxData.find(message => message.id === id);
+  }
+
+  async listEmailOutbox(query: EmailOutboxQuery): Promise<PaginatedResult<EmailOutboxMessage>> {
+    const rows = this.emailOutboxData.filter(message =>
+      (!query.status || message.status === query.status) &&
+      (query.serviceOrderId === undefined || message.serviceOrderId === query.serviceOrderId)
+    );
+    return paginateInMemory(rows, query, [], '-id');
+  }
+
+  async listEmailsByServiceOrder(serviceOrderId: number): Promise<EmailOutboxMessage[]> {
+    return this.emailOutboxData
+      .filter(message => message.serviceOrderId === serviceOrderId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async claimDueEmails(now: Date, limit: number): Promise<EmailOutboxMessage[]> {
+    const due = this.emailOutboxData
+      .filter(message => message.status === 'pending' && message.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    due.forEach(message => {
+      message.status = 'sending';
+      message.attempts++;
+    });
+    return due.map(message => ({ ...message }));
+  }
+
+  async updateEmailOutboxMessage(id: number, data: Partial<InsertEmailOutboxMessage>): Promise<EmailOutboxMessage | undefined> {
+    const index = this.emailOutboxData.findIndex(message => message.id === id);
+    if (index === -1) return undefined;
+    const updated = { ...this.emailOutboxData[index], ...data, id } as EmailOutboxMessage;
+    this.emailOutboxData[index] = updated;
+    return updated;
+  }
+
+  async requeueInterruptedEmails(): Promise<number> {
+    const interrupted = this.emailOutboxData.filter(message => message.status === 'sending');
+    interrupted.forEach(message => {
+      message.status = 'pending';
+    });
+    return interrupted.length;
+  }
+
+  // Email template methods
+  async getEmailTemplate(event: EmailTemplateEvent): Promise<EmailTemplate | undefined> {
+    return this.emailTemplatesData.get(event);
+  }
+
+  async listEmailTemplates(): Promise<EmailTemplate[]> {
+    return Array.from(this.emailTemplatesData.values());
+  }
+
+  async saveEmailTemplate(event: EmailTemplateEvent, data: UpdateEmailTemplate, changedBy?: number): Promise<EmailTemplate> {
+    const existing = this.emailTemplatesData.get(event);
+    const saved: EmailTemplate = {
+      id: existing?.id ?? this.emailTemplateCurrentId++,
+      event,
+      ...data,
+      updatedAt: new Date()
+    };
+    this.emailTemplatesData.set(event, saved);
+    this.recordAudit(
+      'email_template', saved.id, existing ? 'update' : 'create',
+      existing ? { ...existing, updatedAt: null } : null, { ...saved, updatedAt: null }, changedBy
+    );
+    return saved;
+  }
+
+  async deleteEmailTemplate(event: EmailTemplateEvent, changedBy?: number): Promise<boolean> {
+    const existing = this.emailTemplatesData.get(event);
+    if (!existing) return false;
+
+    this.emailTemplatesData.delete(event);
+    this.recordAudit('email_template', existing.id, 'delete', { ...existing, updatedAt: null }, null, changedBy);
+    return true;
+  }
+
+  // Audit log methods
+  async listAuditLog(query: AuditQuery): Promise<PaginatedResult<AuditLogEntry>> {
+    const rows = this.auditLogData.filter(entry =>
+      (!query.entityType || entry.entityType === query.entityType) &&
+      (query.entityId === undefined || entry.entityId === query.entityId) &&
+      (query.actorId === undefined || entry.actorId === query.actorId) &&
+      (!query.action || entry.action === query.action) &&
+      (!query.from || entry.createdAt >= query.from) &&
+      (!query.to || entry.createdAt <= query.to)
+    );
+    return paginateInMemory(rows, query, [], '-id');
+  }
+
   // Monthly Revenue methods (implementation for in-memory storage)
   private monthlyRevenueData: Map<string, MonthlyRevenue> = new Map();
   private monthlyRevenueCurrentId: number = 1;
@@ -986,32 +3449,20 @@ export class MemStorage implements IStorage {
   }
   
   async getMonthlyRevenuesByYear(year: number): Promise<MonthlyRevenue[]> {
-    // Obtener los datos existentes en la tabla
-    const existingRecords = await db.select()
-      .from(monthlyRevenue)
-      .where(eq(monthlyRevenue.year, year))
-      .orderBy(monthlyRevenue.month);
-    
     const monthlyData: MonthlyRevenue[] = [];
     
     // Siempre devolver los 12 meses
     for (let month = 1; month <= 12; month++) {
-      // Buscar si ya existe un registro para este mes
-      let record = existingRecords.find(r => r.month === month);
-      if (!record) {
-        // Si no existe, crear un objeto vacío
-        record = {
-          id: 0,
-          year,
-          month,
-          totalAmount: "0",
-          orderCount: 0,
-          averageOrderValue: "0",
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-      }
-      monthlyData.push(record);
+      monthlyData.push(this.monthlyRevenueData.get(`${year}-${month}`) ?? {
+        id: 0,
+        year,
+        month,
+        totalAmount: "0",
+        orderCount: 0,
+        averageOrderValue: "0",
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
     }
     return monthlyData;
   }
@@ -1052,34 +3503,40 @@ export class MemStorage implements IStorage {
   
   async calculateCurrentMonthRevenue(): Promise<MonthlyRevenue> {
     const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1;
-    
-    // Get all completed orders for current month with a cost
-    const startOfMonth = new Date(currentYear, currentMonth - 1, 1);
-    const endOfMonth = new Date(currentYear, currentMonth, 0, 23, 59, 59);
-    
-    const orders = Array.from(this.serviceOrdersData.values())
-      .filter(order => 
-        // Incluimos órdenes completadas y de garantía
-        (order.status === 'completed' || order.status === 'warranty') && 
-        order.completionDate &&
-        order.completionDate >= startOfMonth &&
-        order.completionDate <= endOfMonth &&
-        // Las órdenes de garantía ya tienen costo = 0, pero verificamos que sea un valor válido
-        order.cost !== null && 
-        order.cost !== undefined
-      );
-    
-    const orderCount = orders.length;
-    const totalAmount = orders.reduce((sum, order) => sum + (order.cost || 0), 0);
-    const averageOrderValue = orderCount > 0 ? totalAmount / orderCount : 0;
-    
-    return this.updateMonthlyRevenue(currentYear, currentMonth, {
-      totalAmount: totalAmount.toString(),
-      orderCount,
-      averageOrderValue: averageOrderValue.toString()
+    return this.recalculateMonthlyRevenue(now.getFullYear(), now.getMonth() + 1);
+  }
+  
+  async recalculateMonthlyRevenue(year: number, month: number): Promise<MonthlyRevenue> {
+    const { start, end } = monthRange({ year, month });
+    const orders = Array.from(this.serviceOrdersData.values()).filter(order =>
+      (order.status === 'completed' || order.status === 'warranty') &&
+      order.total !== null &&
+      order.completionDate !== null &&
+      order.completionDate >= start &&
+      order.completionDate < end
+    );
+    return this.updateMonthlyRevenue(year, month, revenueTotals(orders.map(order => order.total)));
+  }
+  
+  async rebuildMonthlyRevenue(): Promise<MonthlyRevenue[]> {
+    const revenueMonths = new Map<string, RevenueMonth>();
+    this.serviceOrdersData.forEach(order => {
+      const revenueMonth = revenueMonthOf(order);
+      if (revenueMonth) revenueMonths.set(`${revenueMonth.year}-${revenueMonth.month}`, revenueMonth);
     });
+    
+    this.monthlyRevenueData.clear();
+    const rebuilt: MonthlyRevenue[] = [];
+    for (const { year, month } of Array.from(revenueMonths.values())) {
+      rebuilt.push(await this.recalculateMonthlyRevenue(year, month));
+    }
+    return rebuilt;
+  }
+  
+  private async refreshMonthlyRevenue(before: ServiceOrder | null, after: ServiceOrder | null) {
+    for (const { year, month } of affectedRevenueMonths(before, after)) {
+      await this.recalculateMonthlyRevenue(year, month);
+    }
   }
   
   async getRevenueHistory(limit: number): Promise<MonthlyRevenue[]> {
@@ -0,0 +1,118 @@
+import { sql } from 'drizzle-orm';
+import type { SystemInfo } from '@shared/schema';
+import { db } from './db';
+import { getEmailStatus } from './email';
+import { getPdfStatus } from './pdf-generator';
+
+// Cantidad de peticiones recientes sobre las que se calculan los percentiles de latencia
+const LATENCY_WINDOW = 1000;
+
+const startedAt = new Date();
+const recentDurations: number[] = [];
+let totalRequests = 0;
+let serverErrors = 0;
+
+// Registra la duración de una petición a la API (lo llama el middleware de logging)
+export function recordRequest(durationMs: number, statusCode: number) {
+  totalRequests++;
+  if (statusCode >= 500) serverErrors++;
+
+  recentDurations.push(durationMs);
+  if (recentDurations.length > LATENCY_WINDOW) {
+    recentDurations.shift();
+  }
+}
+
+// Percentil por el método del rango más cercano sobre una lista ordenada
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.max(0, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[index];
+}
+
+function getLatencyStats(): SystemInfo['latency'] {
+  const sorted = [...recentDurations].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, duration) => total + duration, 0);
+
+  return {
+    totalRequests,
+    serverErrors,
+    sampleSize: sorted.length,
+    averageMs: sorted.length > 0 ? Math.round(sum / sorted.length) : null,
+    p50Ms: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+  };
+}
+
+async function getDatabaseInfo(): Promise<SystemInfo['database']> {
+  try {
+    const sizeResult = await db.execute<{ size: string }>(
+      sql`SELECT pg_database_size(current_database()) AS size`
+    );
+    const tablesResult = await db.execute<{ name: string }>(
+      sql`SELECT relname AS name FROM pg_stat_user_tables WHERE schemaname = 'public' ORDER BY relname`
+    );
+
+    const tables: SystemInfo['database']['tables'] = [];
+    for (const { name } of tablesResult.rows) {
+      const countResult = await db.execute<{ total: number }>(
+        sql`SELECT count(*)::int AS total FROM ${sql.identifier(name)}`
+      );
+      tables.push({ table: name, rows: countResult.rows[0].total });
+    }
+
+    // La tabla de sesiones la crea connect-pg-simple al primer inicio de sesión
+    let activeSessions: number | null = null;
+    if (tables.some(({ table }) => table === 'session')) {
+      const sessionsResult = await db.execute<{ total: number }>(
+        sql`SELECT count(*)::int AS total FROM "session" WHERE expire > now()`
+      );
+      activeSessions = sessionsResult.rows[0].total;
+    }
+
+    return {
+      connected: true,
+      error: null,
+      sizeBytes: Number(sizeResult.rows[0].size),
+      totalRows: tables.reduce((total, { rows }) => total + rows, 0),
+      tables,
+      activeSessions,
+    };
+  } catch (error) {
+    return {
+      connected: false,
+      error: error instanceof Error ? error.message : String(error),
+      sizeBytes: null,
+      totalRows: 0,
+      tables: [],
+      activeSessions: null,
+    };
+  }
+}
+
+export async function getSystemInfo(): Promise<SystemInfo> {
+  const email = getEmailStatus();
+
+  return {
+    generatedAt: new Date().toISOString(),
+    server: {
+      startedAt: startedAt.toISOString(),
+      uptimeSeconds: Math.floor(process.uptime()),
+      nodeVersion: process.version,
+      platform: `${process.platform} ${process.arch}`,
+      environment: process.env.NODE_ENV || 'development',
+      memoryRssBytes: process.memoryUsage().rss,
+    },
+    database: await getDatabaseInfo(),
+    latency: getLatencyStats(),
+    email: {
+      configured: email.configured,
+      host: email.host,
+      lastSuccessAt: email.lastSuccessAt?.toISOString() ?? null,
+      lastFailureAt: email.lastFailureAt?.toISOString() ?? null,
+      lastError: email.lastError,
+    },
+    pdf: getPdfStatus(),
+  };
+}
@@ -0,0 +1,67 @@
+import type { EquipmentType, ImportEntity } from "./schema";
+
+// Campo importable: `aliases` son encabezados habituales que se asignan automáticamente
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const importFields: Record<ImportEntity, ImportField[]> = {
+  clients: [
+    { key: 'name', label: 'Nombre', required: true, aliases: ['cliente', 'razon social', 'name'] },
+    { key: 'contactName', label: 'Contacto', required: true, aliases: ['nombre de contacto', 'persona de contacto', 'contact', 'contact name'] },
+    { key: 'email', label: 'Correo', required: true, aliases: ['email', 'e mail', 'correo electronico', 'mail'] },
+    { key: 'phone', label: 'Teléfono', required: true, aliases: ['tel', 'celular', 'movil', 'phone'] },
+    { key: 'address', label: 'Dirección', required: true, aliases: ['domicilio', 'address'] },
+    { key: 'emailNotifications', label: 'Recibe avisos', required: false, aliases: ['avisos', 'notificaciones', 'email notifications'] },
+  ],
+  equipment: [
+    { key: 'type', label: 'Tipo', required: true, aliases: ['tipo de equipo', 'type'] },
+    { key: 'brand', label: 'Marca', required: true, aliases: ['fabricante', 'brand'] },
+    { key: 'model', label: 'Modelo', required: true, aliases: ['model'] },
+    { key: 'serialNumber', label: 'Número de serie', required: true, aliases: ['serie', 'no de serie', 'n de serie', 'num serie', 'serial', 'serial number', 'sn'] },
+    { key: 'description', label: 'Descripción', required: false, aliases: ['notas', 'description'] },
+    { key: 'location', label: 'Ubicación', required: false, aliases: ['sitio', 'location'] },
+    { key: 'company', label: 'Empresa', required: false, aliases: ['compania', 'company'] },
+    // Se resuelve al cliente existente con ese correo o nombre
+    { key: 'client', label: 'Cliente (correo o nombre)', required: false, aliases: ['cliente', 'correo del cliente', 'email del cliente', 'client'] },
+    { key: 'warrantyExpiresAt', label: 'Fin de garantía', required: false, aliases: ['garantia', 'garantia hasta', 'vencimiento de garantia', 'warranty'] },
+  ],
+};
+
+// Nombres con los que se reconoce cada tipo de equipo en el archivo
+export const equipmentTypeAliases: Record<EquipmentType, string[]> = {
+  desktop: ['pc escritorio', 'escritorio', 'pc', 'desktop'],
+  laptop: ['portatil', 'laptop', 'notebook'],
+  server: ['servidor', 'server'],
+  printer: ['impresora', 'multifuncional', 'printer'],
+  network: ['equipo de red', 'red', 'switch', 'router', 'network'],
+  other: ['otro', 'other'],
+};
+
+// Texto en minúsculas, sin acentos ni signos, para comparar encabezados y valores
+export function normalizeImportText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Columna sugerida para cada campo según el encabezado (null si ninguna coincide)
+export function suggestImportMapping(entity: ImportEntity, headers: string[]): Record<string, number | null> {
+  const normalized = headers.map(normalizeImportText);
+  const used = new Set<number>();
+  const mapping: Record<string, number | null> = {};
+
+  for (const field of importFields[entity]) {
+    const names = [normalizeImportText(field.label), normalizeImportText(field.key), ...field.aliases];
+    const index = normalized.findIndex((header, i) => !used.has(i) && names.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+}
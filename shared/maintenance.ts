@@ -0,0 +1,47 @@
+import type { MaintenanceContract } from "./schema";
+
+// Límite de visitas que se recorren al buscar la siguiente (contratos semanales de varios años)
+const MAX_OCCURRENCES = 5000;
+
+type ContractSchedule = Pick<MaintenanceContract, 'frequency' | 'interval' | 'startDate' | 'endDate'>;
+
+// Visita número `n` del contrato (la 0 es la fecha de inicio). Se calcula siempre desde
+// el inicio para que un día 31 no se vaya recorriendo a fin de mes en cada periodo.
+export function contractOccurrence(contract: ContractSchedule, n: number): Date {
+  const start = new Date(contract.startDate);
+  const steps = n * contract.interval;
+
+  if (contract.frequency === 'weekly') {
+    const date = new Date(start);
+    date.setDate(date.getDate() + steps * 7);
+    return date;
+  }
+
+  const months = contract.frequency === 'yearly' ? steps * 12 : steps;
+  const target = new Date(start.getFullYear(), start.getMonth() + months, 1,
+    start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(start.getDate(), lastDay));
+  return target;
+}
+
+// Primera visita en o después de `from`, o null si el contrato termina antes
+export function nextContractVisit(contract: ContractSchedule, from: Date): Date | null {
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const visit = contractOccurrence(contract, n);
+    if (contract.endDate && visit.getTime() > new Date(contract.endDate).getTime()) return null;
+    if (visit.getTime() >= from.getTime()) return visit;
+  }
+  return null;
+}
+
+// Visitas del contrato entre `from` y `to` (ambos incluidos)
+export function contractVisitsBetween(contract: ContractSchedule, from: Date, to: Date): Date[] {
+  const visits: Date[] = [];
+  let visit = nextContractVisit(contract, from);
+  while (visit && visit.getTime() <= to.getTime()) {
+    visits.push(visit);
+    visit = nextContractVisit(contract, new Date(visit.getTime() + 1));
+  }
+  return visits;
+}
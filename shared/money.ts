@@ -0,0 +1,44 @@
+// Importes monetarios. Los cálculos se hacen en centavos (enteros) para evitar
+// errores de redondeo; en la base de datos se guardan como decimal (string).
+
+export function toCents(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === '') return 0;
+  return Math.round(Number(value) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function formatMoney(value: string | number | null | undefined): string {
+  return `$${(toCents(value) / 100).toLocaleString('es-MX', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export interface LineItemAmounts {
+  quantity: string | number;
+  unitPrice: string | number;
+  taxRate: string | number;
+}
+
+// Importe de una partida en centavos: cantidad × precio unitario, más el impuesto (tasa en %)
+export function calculateLineItem(item: LineItemAmounts) {
+  const subtotal = Math.round(Number(item.quantity) * toCents(item.unitPrice));
+  const tax = Math.round(subtotal * Number(item.taxRate) / 100);
+  return { subtotal, tax, total: subtotal + tax };
+}
+
+// Subtotal, impuestos y total de un conjunto de partidas
+export function calculateTotals(items: LineItemAmounts[]) {
+  let subtotal = 0;
+  let tax = 0;
+  for (const item of items) {
+    const amounts = calculateLineItem(item);
+    subtotal += amounts.subtotal;
+    tax += amounts.tax;
+  }
+  return {
+    subtotal: fromCents(subtotal),
+    taxAmount: fromCents(tax),
+    total: fromCents(subtotal + tax),
+  };
+}
@@ -0,0 +1,73 @@
+import { userRoleEnum } from "./schema";
+
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+
+// Catálogo de permisos del sistema (recurso:acción)
+export const permissions = [
+  'dashboard:read',
+  'orders:read',
+  'orders:write',
+  'orders:delete',
+  // Registrar el trabajo (inicio, pausa, materiales, fotos y firma) solo en las órdenes asignadas
+  'orders:field',
+  'clients:read',
+  'clients:write',
+  'clients:delete',
+  'technicians:read',
+  'technicians:write',
+  'technicians:delete',
+  'equipment:read',
+  'equipment:write',
+  'equipment:delete',
+  'inventory:read',
+  'inventory:write',
+  'contracts:read',
+  'contracts:write',
+  'contracts:delete',
+  'finance:read',
+  'users:read',
+  'users:manage',
+  'settings:read',
+  'settings:write',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+// Matriz de permisos por rol. Se usa tanto en el servidor (middleware)
+// como en el cliente (para ocultar acciones no permitidas).
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: permissions,
+  manager: [
+    'dashboard:read',
+    'orders:read', 'orders:write', 'orders:delete', 'orders:field',
+    'clients:read', 'clients:write', 'clients:delete',
+    'technicians:read', 'technicians:write', 'technicians:delete',
+    'equipment:read', 'equipment:write', 'equipment:delete',
+    'inventory:read', 'inventory:write',
+    'contracts:read', 'contracts:write', 'contracts:delete',
+    'finance:read',
+    'users:read',
+    'settings:read',
+  ],
+  technician: [
+    'dashboard:read',
+    'orders:read', 'orders:field',
+    'clients:read',
+    'technicians:read',
+    'equipment:read', 'equipment:write',
+    'inventory:read',
+    'contracts:read',
+    'settings:read',
+  ],
+  // Rol de las cuentas creadas con el registro público: no ve datos hasta que un
+  // administrador le asigne otro rol
+  user: [
+    'dashboard:read',
+  ],
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return rolePermissions[role]?.includes(permission) ?? false;
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, timestamp, boolean, pgEnum, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, pgEnum, decimal, index, uniqueIndex, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,9 +14,72 @@ export const orderStatusEnum = pgEnum('order_status', [
   'cancelled',
   'warranty'
 ]);
+
+// Transiciones permitidas entre estados de una orden de servicio.
+// Los estados sin transiciones salientes son terminales.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['waiting_approval', 'cancelled'],
+  waiting_approval: ['approved', 'cancelled'],
+  approved: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'warranty', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  warranty: [],
+};
+
+// Órdenes cerradas: sus citas ya no ocupan la agenda del técnico
+export const closedOrderStatuses: OrderStatus[] = ['completed', 'cancelled'];
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || orderStatusTransitions[from].includes(to);
+}
+
+export const lineItemTypeEnum = pgEnum('line_item_type', ['labor', 'part']);
+// Entrada por compra, salida por consumo en una orden, devolución al quitarla de la orden y ajuste manual
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', ['purchase', 'consumption', 'return', 'adjustment']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'update', 'delete']);
+
+// Entidades registradas en la auditoría
+export const auditEntityTypes = ['user', 'client', 'technician', 'equipment', 'service_order', 'part', 'company_settings', 'backup_settings', 'email_template', 'notification_settings', 'attachment', 'appointment', 'sla_policy', 'business_calendar', 'maintenance_contract'] as const;
+
+export const backupFrequencyEnum = pgEnum('backup_frequency', ['daily', 'weekly', 'monthly']);
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'sending', 'sent', 'failed']);
+export const emailTemplateEventEnum = pgEnum('email_template_event', [
+  'order_created',
+  'status_changed',
+  'waiting_approval',
+  'order_completed',
+  'warranty_opened'
+]);
+
+// Variables disponibles en todas las plantillas de correo
+const companyPlaceholders = ['companyName', 'companyAddress', 'companyPhone', 'companyEmail', 'companyWebsite', 'year'];
+const orderPlaceholders = ['orderNumber', 'clientName', 'equipmentName', 'description', 'status', 'technicianName'];
+
+// Variables ({{nombre}}) que cada evento proporciona a su plantilla
+export const emailTemplatePlaceholders: Record<EmailTemplateEvent, string[]> = {
+  order_created: [...orderPlaceholders, ...companyPlaceholders],
+  status_changed: [...orderPlaceholders, 'previousStatus', ...companyPlaceholders],
+  waiting_approval: [...orderPlaceholders, 'cost', 'approvalUrl', 'expiresAt', ...companyPlaceholders],
+  order_completed: [...orderPlaceholders, 'cost', 'completionDate', ...companyPlaceholders],
+  warranty_opened: [...orderPlaceholders, ...companyPlaceholders],
+};
+
 export const technicianStatusEnum = pgEnum('technician_status', ['available', 'in_service', 'unavailable']);
+export const appointmentLocationEnum = pgEnum('appointment_location', ['on_site', 'in_shop']);
+export const calendarFeedScopeEnum = pgEnum('calendar_feed_scope', ['technician', 'client']);
+export const orderPriorityEnum = pgEnum('order_priority', ['low', 'normal', 'high', 'urgent']);
+export const contractFrequencyEnum = pgEnum('contract_frequency', ['weekly', 'monthly', 'yearly']);
 export const equipmentTypeEnum = pgEnum('equipment_type', ['desktop', 'laptop', 'server', 'printer', 'network', 'other']);
 
+// Documento de búsqueda de texto completo a partir de varias columnas de texto.
+// Se usa la misma expresión en los índices GIN y en las consultas de /api/search
+// para que PostgreSQL pueda aprovechar el índice.
+export function searchDocument(...columns: AnyPgColumn[]) {
+  const text = sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `);
+  return sql`to_tsvector('spanish', ${text})`;
+}
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -35,8 +99,12 @@ export const clients = pgTable("clients", {
   email: text("email").notNull(),
   phone: text("phone").notNull(),
   address: text("address").notNull(),
+  // Si es false el cliente no recibe avisos automáticos de cambio de estado
+  emailNotifications: boolean("email_notifications").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("clients_search_idx").using("gin", searchDocument(table.name, table.contactName, table.email)),
+]);
 
 // Technicians table
 export const technicians = pgTable("technicians", {
@@ -57,8 +125,26 @@ export const equipment = pgTable("equipment", {
   description: text("description"),
   location: text("location"),  // Ubicación física del equipo (opcional)
   company: text("company"),    // Empresa a la que pertenece (opcional, para referencia)
+  clientId: integer("client_id").references(() => clients.id, { onDelete: 'set null' }), // Cliente propietario
+  warrantyExpiresAt: timestamp("warranty_expires_at"), // Fin de la garantía del fabricante
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("equipment_search_idx").using("gin", searchDocument(table.brand, table.model, table.serialNumber)),
+  index("equipment_client_idx").on(table.clientId),
+]);
+
+// Cambios de propietario de cada equipo (el primero registra la asignación inicial)
+export const equipmentOwnershipHistory = pgTable("equipment_ownership_history", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").references(() => equipment.id, { onDelete: 'cascade' }).notNull(),
+  fromClientId: integer("from_client_id").references(() => clients.id, { onDelete: 'set null' }),
+  toClientId: integer("to_client_id").references(() => clients.id, { onDelete: 'set null' }),
+  note: text("note"),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: 'set null' }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => [
+  index("equipment_ownership_history_equipment_idx").on(table.equipmentId),
+]);
 
 // Service Orders table
 export const serviceOrders = pgTable("service_orders", {
@@ -79,8 +165,179 @@ export const serviceOrders = pgTable("service_orders", {
   clientApproval: boolean("client_approval").default(false),
   clientApprovalDate: timestamp("client_approval_date"),
   cost: integer("cost"),
+  // Totales calculados a partir de las partidas (o del costo en órdenes sin partidas)
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }),
+  total: decimal("total", { precision: 12, scale: 2 }),
+  priority: orderPriorityEnum("priority").notNull().default('normal'),
+  // Compromisos de servicio calculados al crear la orden con la política SLA que le corresponde
+  slaPolicyId: integer("sla_policy_id").references(() => slaPolicies.id, { onDelete: 'set null' }),
+  responseDueAt: timestamp("response_due_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  // Primera atención: asignación de técnico o salida del estado pendiente
+  respondedAt: timestamp("responded_at"),
+  // Contrato de mantenimiento que generó la orden, si la generó el programador de visitas
+  maintenanceContractId: integer("maintenance_contract_id").references(() => maintenanceContracts.id, { onDelete: 'set null' }),
+}, (table) => [
+  index("service_orders_search_idx").using(
+    "gin",
+    searchDocument(table.orderNumber, table.description, table.notes, table.materialsUsed)
+  ),
+]);
+
+// Horario laboral con el que se cuentan los plazos de las políticas SLA
+export const businessCalendars = pgTable("business_calendars", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  hours: jsonb("hours").$type<BusinessHoursWindow[]>().notNull(),
+  // Días feriados (YYYY-MM-DD) sin horario laboral
+  holidays: text("holidays").array().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Políticas SLA: tiempos de respuesta y resolución por cliente, por prioridad o ambos.
+// Sin calendario los plazos corren las 24 horas.
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  clientId: integer("client_id").references(() => clients.id, { onDelete: 'cascade' }),
+  priority: orderPriorityEnum("priority"),
+  responseHours: integer("response_hours").notNull(),
+  resolutionHours: integer("resolution_hours").notNull(),
+  businessCalendarId: integer("business_calendar_id").references(() => businessCalendars.id, { onDelete: 'set null' }),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Contratos de mantenimiento preventivo: en cada visita programada se genera una
+// orden pendiente por cada equipo del contrato
+export const maintenanceContracts = pgTable("maintenance_contracts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  clientId: integer("client_id").references(() => clients.id, { onDelete: 'cascade' }).notNull(),
+  equipmentIds: integer("equipment_ids").array().notNull(),
+  // Recurrencia: cada `interval` semanas, meses o años a partir de la fecha de inicio
+  frequency: contractFrequencyEnum("frequency").notNull(),
+  interval: integer("recurrence_interval").notNull().default(1),
+  description: text("description").notNull(),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: 'set null' }),
+  value: decimal("value", { precision: 12, scale: 2 }),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  active: boolean("active").notNull().default(true),
+  // Próxima visita pendiente de generar (null cuando el contrato ya no tiene más visitas)
+  nextVisitAt: timestamp("next_visit_at"),
+  lastVisitAt: timestamp("last_visit_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("maintenance_contracts_next_visit_idx").on(table.nextVisitAt),
+]);
+
+// Parts table - catálogo de refacciones y consumibles con su existencia
+export const parts = pgTable("parts", {
+  id: serial("id").primaryKey(),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }).notNull().default('0'),
+  salePrice: decimal("sale_price", { precision: 12, scale: 2 }).notNull().default('0'),
+  stockQuantity: integer("stock_quantity").notNull().default(0),
+  minStock: integer("min_stock").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Part Stock Movements table - cada entrada o salida de inventario (cantidad con signo)
+export const partStockMovements = pgTable("part_stock_movements", {
+  id: serial("id").primaryKey(),
+  partId: integer("part_id").references(() => parts.id, { onDelete: 'cascade' }).notNull(),
+  type: stockMovementTypeEnum("type").notNull(),
+  quantity: integer("quantity").notNull(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'set null' }),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("part_stock_movements_part_idx").on(table.partId),
+]);
+
+// Service Order Line Items table - partidas de la cotización (mano de obra y refacciones)
+export const serviceOrderLineItems = pgTable("service_order_line_items", {
+  id: serial("id").primaryKey(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'cascade' }).notNull(),
+  // Refacción del inventario; al guardarla se descuenta de la existencia
+  partId: integer("part_id").references(() => parts.id, { onDelete: 'set null' }),
+  type: lineItemTypeEnum("type").notNull().default('labor'),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default('1'),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default('0'),
+  position: integer("position").notNull().default(0),
+});
+
+// Service Order Status History table - registro de cada cambio de estado
+export const serviceOrderStatusHistory = pgTable("service_order_status_history", {
+  id: serial("id").primaryKey(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'cascade' }).notNull(),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  changedBy: integer("changed_by").references(() => users.id, { onDelete: 'set null' }),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// Service Order Work Sessions table - periodos de trabajo del técnico (inicio/pausa/fin)
+export const serviceOrderWorkSessions = pgTable("service_order_work_sessions", {
+  id: serial("id").primaryKey(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'cascade' }).notNull(),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: 'cascade' }).notNull(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Citas de la agenda: cuándo y dónde trabajará un técnico en una orden
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'cascade' }).notNull(),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: 'cascade' }).notNull(),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  location: appointmentLocationEnum("location").notNull().default('in_shop'),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("appointments_technician_starts_idx").on(table.technicianId, table.startsAt),
+  index("appointments_service_order_idx").on(table.serviceOrderId),
+]);
+
+// Archivos adjuntos a una orden (fotos y documentos PDF) guardados en el almacenamiento de archivos
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'cascade' }).notNull(),
+  url: text("url").notNull(),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  caption: text("caption"),
+  uploadedBy: integer("uploaded_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("attachments_service_order_idx").on(table.serviceOrderId),
+]);
+
+// Audit Log table - quién creó, modificó o eliminó cada registro
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id, { onDelete: 'set null' }),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: auditActionEnum("action").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  index("audit_log_created_at_idx").on(table.createdAt),
+]);
+
 // Company Settings table
 export const companySettings = pgTable("company_settings", {
   id: serial("id").primaryKey(),
@@ -102,7 +359,75 @@ export const companySettings = pgTable("company_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Backup Settings table - programación de los respaldos automáticos (un solo registro)
+export const backupSettings = pgTable("backup_settings", {
+  id: serial("id").primaryKey(),
+  enabled: boolean("enabled").notNull().default(false),
+  frequency: backupFrequencyEnum("frequency").notNull().default('daily'),
+  time: text("time").notNull().default('02:00'),
+  retentionDays: integer("retention_days").notNull().default(30),
+  lastRunAt: timestamp("last_run_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Email Outbox table - correos salientes; un proceso en segundo plano los envía y reintenta
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html"),
+  text: text("text"),
+  attachments: jsonb("attachments").$type<EmailOutboxAttachment[]>().notNull().default([]),
+  status: emailStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  serviceOrderId: integer("service_order_id").references(() => serviceOrders.id, { onDelete: 'set null' }),
+  // Evento que originó el correo; null en los envíos manuales
+  event: emailTemplateEventEnum("event"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_outbox_service_order_idx").on(table.serviceOrderId),
+  index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
+// Notification Settings table - estados de la orden que generan aviso automático al cliente
+export const notificationSettings = pgTable("notification_settings", {
+  id: serial("id").primaryKey(),
+  notifyStatuses: orderStatusEnum("notify_statuses").array().notNull().default(['approved', 'in_progress', 'completed', 'cancelled', 'warranty']),
+  attachPdfOnCompletion: boolean("attach_pdf_on_completion").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Calendar Feeds table - suscripciones iCalendar de solo lectura de un técnico o un cliente.
+// Solo se guarda el hash del token; la URL completa se muestra una única vez al crearla.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  scope: calendarFeedScopeEnum("scope").notNull(),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: 'cascade' }),
+  clientId: integer("client_id").references(() => clients.id, { onDelete: 'cascade' }),
+  tokenHash: text("token_hash").notNull().unique(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("calendar_feeds_user_idx").on(table.userId),
+]);
+
+// Email Templates table - plantillas editables; los eventos sin fila usan la plantilla predeterminada
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  event: emailTemplateEventEnum("event").notNull().unique(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Monthly Revenue table - to track financial data by month
+// Cada fila acumula las órdenes cerradas (completadas o en garantía) según su fecha de finalización
 export const monthlyRevenue = pgTable("monthly_revenue", {
   id: serial("id").primaryKey(),
   year: integer("year").notNull(),
@@ -112,7 +437,9 @@ export const monthlyRevenue = pgTable("monthly_revenue", {
   averageOrderValue: decimal("average_order_value", { precision: 10, scale: 2 }).default("0"),
   createdAt: timestamp("created_at", { mode: "date" }).defaultNow(),
   updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("monthly_revenue_year_month_idx").on(table.year, table.month),
+]);
 
 // Insert Schemas
 // Esquema para crear/validar usuario con confirmPassword para el frontend
@@ -141,19 +468,34 @@ export const loginUserSchema = z.object({
 
 export const insertClientSchema = createInsertSchema(clients).omit({ id: true, createdAt: true });
 
-export const insertTechnicianSchema = createInsertSchema(technicians).omit({ id: true, createdAt: true });
+// "En servicio" se calcula a partir de la agenda y los trabajos en curso; solo se puede
+// marcar manualmente al técnico como no disponible (o volver a disponible)
+export const insertTechnicianSchema = createInsertSchema(technicians).omit({ id: true, createdAt: true }).extend({
+  status: z.enum(['available', 'unavailable']).optional(),
+});
 
 export const insertEquipmentSchema = createInsertSchema(equipment).omit({ id: true, createdAt: true }).extend({
   location: z.string().optional(),
   company: z.string().optional(),
+  warrantyExpiresAt: z.coerce.date().nullable().optional(),
 });
 
 export const insertServiceOrderSchema = createInsertSchema(serviceOrders).omit({ 
   id: true, 
   orderNumber: true, 
   completionDate: true,
-  requestDate: true
+  requestDate: true,
+  subtotal: true,
+  taxAmount: true,
+  total: true,
+  slaPolicyId: true,
+  responseDueAt: true,
+  resolutionDueAt: true,
+  respondedAt: true,
+  maintenanceContractId: true
 }).extend({
+  // Toda orden nueva empieza pendiente; los demás estados se alcanzan con las transiciones permitidas
+  status: z.literal('pending', { errorMap: () => ({ message: "Las órdenes nuevas se crean en estado pendiente" }) }).default('pending'),
   photos: z.array(z.string()).optional(),
   clientSignature: z.string().optional()
 });
@@ -161,17 +503,257 @@ export const insertServiceOrderSchema = createInsertSchema(serviceOrders).omit({
 export const updateServiceOrderSchema = createInsertSchema(serviceOrders).omit({ 
   id: true, 
   orderNumber: true,
-  requestDate: true 
+  requestDate: true,
+  subtotal: true,
+  taxAmount: true,
+  total: true,
+  slaPolicyId: true,
+  responseDueAt: true,
+  resolutionDueAt: true,
+  respondedAt: true,
+  maintenanceContractId: true
 }).extend({
   photos: z.array(z.string()).optional(),
   clientSignature: z.string().optional()
 });
 
+// Partida capturada en el editor de la orden (importes numéricos, tasa de impuesto en %)
+export const lineItemInputSchema = z.object({
+  type: z.enum(lineItemTypeEnum.enumValues),
+  description: z.string().trim().min(1, "La descripción es obligatoria"),
+  quantity: z.coerce.number().positive("La cantidad debe ser mayor a 0"),
+  unitPrice: z.coerce.number().min(0, "El precio no puede ser negativo"),
+  taxRate: z.coerce.number().min(0).max(100),
+  partId: z.number().int().nullable().optional(),
+}).refine((item) => !item.partId || (item.type === 'part' && Number.isInteger(item.quantity)), {
+  message: "Las refacciones del inventario se registran en unidades enteras",
+  path: ["quantity"],
+});
+
+export const lineItemListSchema = z.array(lineItemInputSchema).max(100);
+
+// Respuesta del cliente desde el portal público de aprobación
+export const clientApprovalResponseSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  signature: z.string().optional(),
+  reason: z.string().max(1000).optional(),
+}).refine((data) => data.decision === 'reject' || (data.signature && data.signature.startsWith('data:image')), {
+  message: "La firma es requerida para aprobar la orden",
+  path: ["signature"],
+});
+
+// Campos que un técnico puede registrar desde su vista de campo
+export const technicianOrderUpdateSchema = z.object({
+  materialsUsed: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  photos: z.array(z.string()).optional(),
+  clientSignature: z.string().optional(),
+});
+
+const appointmentFieldsSchema = createInsertSchema(appointments).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  notes: z.string().trim().max(500).nullable().optional(),
+});
+
+// Una cita termina después de empezar. Al reprogramar solo se validan los campos
+// recibidos; la ruta compara el horario resultante con el de la cita guardada.
+export const insertAppointmentSchema = appointmentFieldsSchema.refine((data) => data.endsAt > data.startsAt, {
+  message: "La cita debe terminar después de empezar",
+  path: ["endsAt"],
+});
+
+export const updateAppointmentSchema = appointmentFieldsSchema.partial();
+
+// Rango de la agenda a consultar; se devuelven las citas que se traslapan con él
+export const appointmentQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  technicianId: z.coerce.number().int().optional(),
+});
+
+// Campos de texto que acompañan a la subida de adjuntos
+export const attachmentUploadSchema = z.object({
+  caption: z.string().trim().max(200).optional(),
+});
+
+// Parámetros de consulta de los listados paginados. El orden se indica con
+// el nombre del campo ("requestDate") o con un guion para orden descendente ("-requestDate").
+export const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.string().regex(/^-?[A-Za-z]+$/, "Ordenamiento inválido").optional(),
+  status: z.string().optional(),
+  clientId: z.coerce.number().int().optional(),
+  technicianId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().optional(),
+});
+
+export const auditQuerySchema = listQuerySchema.pick({ page: true, pageSize: true, from: true, to: true }).extend({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.enum(auditActionEnum.enumValues).optional(),
+});
+
+export const updateNotificationSettingsSchema = createInsertSchema(notificationSettings).pick({
+  attachPdfOnCompletion: true,
+}).extend({
+  // "waiting_approval" no se configura: el enlace de aprobación se envía siempre
+  notifyStatuses: z.array(z.enum(orderStatusEnum.enumValues).exclude(['waiting_approval'])),
+});
+
+export const updateEmailTemplateSchema = createInsertSchema(emailTemplates).pick({
+  subject: true,
+  html: true,
+}).extend({
+  subject: z.string().trim().min(1, "El asunto es requerido").max(200),
+  html: z.string().trim().min(1, "El contenido es requerido"),
+});
+
+// En la vista previa se puede enviar el texto que se está editando, aún sin guardar
+export const emailTemplatePreviewSchema = z.object({
+  subject: z.string().optional(),
+  html: z.string().optional(),
+});
+
+export const calendarFeedInputSchema = z.discriminatedUnion('scope', [
+  z.object({ scope: z.literal('technician'), technicianId: z.coerce.number().int().positive() }),
+  z.object({ scope: z.literal('client'), clientId: z.coerce.number().int().positive() }),
+]);
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Hora inválida (HH:MM)");
+
+export const businessHoursWindowSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  start: timeOfDay,
+  end: timeOfDay,
+}).refine((window) => window.end > window.start, {
+  message: "La hora de fin debe ser posterior a la de inicio",
+  path: ["end"],
+});
+
+export const insertBusinessCalendarSchema = createInsertSchema(businessCalendars).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "El nombre es obligatorio").max(100),
+  hours: z.array(businessHoursWindowSchema).min(1, "Indique al menos un horario laboral").max(21),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida (AAAA-MM-DD)")).max(100).default([]),
+});
+
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "El nombre es obligatorio").max(100),
+  clientId: z.number().int().positive().nullable().optional(),
+  priority: z.enum(orderPriorityEnum.enumValues).nullable().optional(),
+  responseHours: z.coerce.number().int().min(1, "Mínimo 1 hora").max(8760),
+  resolutionHours: z.coerce.number().int().min(1, "Mínimo 1 hora").max(8760),
+  businessCalendarId: z.number().int().positive().nullable().optional(),
+}).refine((policy) => policy.resolutionHours >= policy.responseHours, {
+  message: "La resolución no puede comprometerse antes que la respuesta",
+  path: ["resolutionHours"],
+});
+
+// Periodo del reporte de cumplimiento (por fecha de solicitud de la orden)
+export const slaReportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+});
+
+export const emailOutboxQuerySchema = listQuerySchema.pick({ page: true, pageSize: true }).extend({
+  status: z.enum(emailStatusEnum.enumValues).optional(),
+  serviceOrderId: z.coerce.number().int().optional(),
+});
+
+// Importe decimal no negativo con hasta dos decimales
+const moneyPattern = /^\d+(\.\d{1,2})?$/;
+
+// La existencia solo cambia mediante movimientos de inventario
+export const insertPartSchema = createInsertSchema(parts).omit({
+  id: true,
+  stockQuantity: true,
+  createdAt: true
+}).extend({
+  sku: z.string().trim().min(1, "El SKU es obligatorio"),
+  name: z.string().trim().min(1, "El nombre es obligatorio"),
+  unitCost: z.string().regex(moneyPattern, "Importe inválido"),
+  salePrice: z.string().regex(moneyPattern, "Importe inválido"),
+  minStock: z.coerce.number().int().min(0),
+});
+
+export const insertMaintenanceContractSchema = createInsertSchema(maintenanceContracts).omit({
+  id: true,
+  nextVisitAt: true,
+  lastVisitAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "El nombre es obligatorio").max(100),
+  clientId: z.coerce.number().int().positive("Seleccione un cliente"),
+  equipmentIds: z.array(z.number().int().positive()).min(1, "Seleccione al menos un equipo").max(200),
+  interval: z.coerce.number().int().min(1, "Mínimo 1").max(52),
+  description: z.string().trim().min(1, "La descripción es obligatoria").max(1000),
+  technicianId: z.number().int().positive().nullable().optional(),
+  value: z.string().regex(moneyPattern, "Importe inválido").nullable().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+}).refine((contract) => !contract.endDate || contract.endDate >= contract.startDate, {
+  message: "La fecha de fin no puede ser anterior a la de inicio",
+  path: ["endDate"],
+});
+
+// Importación masiva desde CSV/XLSX: entidades importables y límite de filas por archivo
+export const importEntities = ['clients', 'equipment'] as const;
+export const MAX_IMPORT_ROWS = 2000;
+
+// Filas del archivo ya leído y columna asignada a cada campo (índice o null si no se importa)
+export const importRequestSchema = z.object({
+  mapping: z.record(z.string(), z.number().int().min(0).nullable()),
+  rows: z.array(z.array(z.string())).min(1, "El archivo no tiene filas").max(MAX_IMPORT_ROWS),
+  // Cliente al que se asignan los equipos sin columna de cliente
+  defaultClientId: z.number().int().positive().nullable().optional(),
+});
+
+// Horizonte (en días) de la lista de próximas visitas
+export const upcomingVisitsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).default(60),
+});
+
+// Movimiento manual: compras (entradas) y ajustes de inventario (positivos o negativos)
+export const stockMovementInputSchema = z.object({
+  type: z.enum(['purchase', 'adjustment']),
+  quantity: z.coerce.number().int().refine((quantity) => quantity !== 0, "La cantidad no puede ser 0"),
+  note: z.string().trim().max(500).optional(),
+}).refine((movement) => movement.type !== 'purchase' || movement.quantity > 0, {
+  message: "Las compras deben tener cantidad positiva",
+  path: ["quantity"],
+});
+
 export const insertCompanySettingsSchema = createInsertSchema(companySettings).omit({ 
   id: true, 
   updatedAt: true 
 });
 
+export const updateBackupSettingsSchema = createInsertSchema(backupSettings).pick({
+  enabled: true,
+  frequency: true,
+}).extend({
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Hora inválida (HH:MM)"),
+  retentionDays: z.coerce.number().int().min(1, "Mínimo 1 día").max(365, "Máximo 365 días"),
+});
+
+export const smtpTestRequestSchema = z.object({
+  testEmail: z.string().trim().email("Correo de prueba inválido"),
+});
+
 export const insertMonthlyRevenueSchema = createInsertSchema(monthlyRevenue).omit({
   id: true,
   createdAt: true, 
@@ -189,16 +771,349 @@ export type Client = typeof clients.$inferSelect;
 
 export type InsertTechnician = z.infer<typeof insertTechnicianSchema>;
 export type Technician = typeof technicians.$inferSelect;
+export type TechnicianStatus = (typeof technicianStatusEnum.enumValues)[number];
 
 export type InsertEquipment = z.infer<typeof insertEquipmentSchema>;
 export type Equipment = typeof equipment.$inferSelect;
+export type EquipmentType = (typeof equipmentTypeEnum.enumValues)[number];
+export type EquipmentOwnershipChange = typeof equipmentOwnershipHistory.$inferSelect;
+// Cambio de propietario con los nombres de los clientes y de quien lo registró, como lo devuelve la API
+export type EquipmentOwnershipChangeWithNames = EquipmentOwnershipChange & {
+  fromClientName: string | null;
+  toClientName: string | null;
+  changedByName: string | null;
+};
 
 export type InsertServiceOrder = z.infer<typeof insertServiceOrderSchema>;
 export type UpdateServiceOrder = z.infer<typeof updateServiceOrderSchema>;
 export type ServiceOrder = typeof serviceOrders.$inferSelect;
+export type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
+export type OrderPriority = (typeof orderPriorityEnum.enumValues)[number];
+
+// Ventana de horario laboral de un día de la semana (0 = domingo), en hora local
+export interface BusinessHoursWindow {
+  day: number;
+  start: string;
+  end: string;
+}
+export type BusinessCalendar = typeof businessCalendars.$inferSelect;
+export type InsertBusinessCalendar = z.infer<typeof insertBusinessCalendarSchema>;
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+export type SlaReportQuery = z.infer<typeof slaReportQuerySchema>;
+// Situación de un compromiso: cumplido, incumplido, en riesgo o en tiempo
+export type SlaState = 'met' | 'breached' | 'at_risk' | 'on_track';
+export interface OrderSlaStatus {
+  response: SlaState | null;
+  resolution: SlaState | null;
+}
+// Orden con la situación de sus compromisos SLA, como la devuelve /api/service-orders
+export type ServiceOrderWithSla = ServiceOrder & { sla: OrderSlaStatus };
+
+// Cumplimiento de los compromisos de las órdenes de un grupo (política o prioridad)
+export interface SlaComplianceRow {
+  key: string;
+  label: string;
+  orders: number;
+  responseMet: number;
+  responseBreached: number;
+  resolutionMet: number;
+  resolutionBreached: number;
+}
+export interface SlaComplianceReport {
+  from: string;
+  to: string;
+  totals: SlaComplianceRow;
+  byPolicy: SlaComplianceRow[];
+  byPriority: SlaComplianceRow[];
+}
+
+export type MaintenanceContract = typeof maintenanceContracts.$inferSelect;
+export type InsertMaintenanceContract = z.infer<typeof insertMaintenanceContractSchema>;
+export type ContractFrequency = (typeof contractFrequencyEnum.enumValues)[number];
+export type UpcomingVisitsQuery = z.infer<typeof upcomingVisitsQuerySchema>;
+
+// Visita programada de un contrato, como la devuelve /api/maintenance-contracts/upcoming
+export interface UpcomingMaintenanceVisit {
+  contractId: number;
+  contractName: string;
+  clientId: number;
+  clientName: string;
+  technicianName: string | null;
+  equipmentCount: number;
+  dueAt: string;
+}
+
+export type ImportEntity = (typeof importEntities)[number];
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+// Encabezados y filas (como texto) de un archivo de importación
+export interface ImportParseResult {
+  filename: string;
+  headers: string[];
+  rows: string[][];
+}
+export interface ImportRowIssue {
+  field: string;
+  message: string;
+}
+// Resultado de cada fila: `rowNumber` es la fila del archivo (la 1 son los encabezados)
+export interface ImportRowResult {
+  rowNumber: number;
+  status: 'valid' | 'invalid' | 'duplicate' | 'created';
+  label: string;
+  errors: ImportRowIssue[];
+  duplicateOf: string | null;
+  createdId: number | null;
+}
+export interface ImportPreview {
+  entity: ImportEntity;
+  rows: ImportRowResult[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+export interface ImportReport extends ImportPreview {
+  created: number;
+}
+
+export type ServiceOrderLineItem = typeof serviceOrderLineItems.$inferSelect;
+export type LineItemInput = z.infer<typeof lineItemInputSchema>;
+export type LineItemType = (typeof lineItemTypeEnum.enumValues)[number];
+
+export type InsertPart = z.infer<typeof insertPartSchema>;
+export type Part = typeof parts.$inferSelect;
+export type PartStockMovement = typeof partStockMovements.$inferSelect;
+export type StockMovementType = (typeof stockMovementTypeEnum.enumValues)[number];
+export type StockMovementInput = z.infer<typeof stockMovementInputSchema>;
+
+export type ServiceOrderStatusHistory = typeof serviceOrderStatusHistory.$inferSelect;
+export type ServiceOrderWorkSession = typeof serviceOrderWorkSessions.$inferSelect;
+export type TechnicianOrderUpdate = z.infer<typeof technicianOrderUpdateSchema>;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+// Adjunto con el nombre de quien lo subió, tal como lo devuelve la API
+export type AttachmentWithUploader = Attachment & { uploaderName: string | null };
+
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type UpdateAppointment = z.infer<typeof updateAppointmentSchema>;
+export type AppointmentLocation = (typeof appointmentLocationEnum.enumValues)[number];
+export type AppointmentQuery = z.infer<typeof appointmentQuerySchema>;
+// Cita con los datos de la orden y el técnico que muestra el calendario
+export type AppointmentWithDetails = Appointment & {
+  orderNumber: string | null;
+  orderStatus: OrderStatus | null;
+  orderDescription: string | null;
+  clientName: string | null;
+  technicianName: string | null;
+};
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+// Respuesta de los listados paginados
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Resultados de la búsqueda global agrupados por entidad y ordenados por relevancia
+export interface SearchResults {
+  orders: { id: number; orderNumber: string; description: string; status: OrderStatus; rank: number }[];
+  clients: { id: number; name: string; contactName: string; email: string; rank: number }[];
+  equipment: { id: number; brand: string; model: string; serialNumber: string; rank: number }[];
+}
+
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+export type AuditAction = (typeof auditActionEnum.enumValues)[number];
+// Valores anteriores y nuevos de los campos afectados (null en altas y bajas respectivamente)
+export interface AuditChanges {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export type ClientApprovalResponse = z.infer<typeof clientApprovalResponseSchema>;
 
 export type InsertCompanySettings = z.infer<typeof insertCompanySettingsSchema>;
 export type CompanySettings = typeof companySettings.$inferSelect;
 
+export type BackupSettings = typeof backupSettings.$inferSelect;
+export type UpdateBackupSettings = z.infer<typeof updateBackupSettingsSchema>;
+export type BackupFrequency = (typeof backupFrequencyEnum.enumValues)[number];
+
+// Adjunto guardado en la cola de correo; el contenido va codificado en base64
+export interface EmailOutboxAttachment {
+  filename: string;
+  contentType?: string;
+  content: string;
+}
+
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
+export type EmailStatus = (typeof emailStatusEnum.enumValues)[number];
+export type EmailOutboxQuery = z.infer<typeof emailOutboxQuerySchema>;
+
+export type NotificationSettings = typeof notificationSettings.$inferSelect;
+export type UpdateNotificationSettings = z.infer<typeof updateNotificationSettingsSchema>;
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = typeof calendarFeeds.$inferInsert;
+export type CalendarFeedInput = z.infer<typeof calendarFeedInputSchema>;
+export type CalendarFeedScope = (typeof calendarFeedScopeEnum.enumValues)[number];
+// Suscripción tal como la lista la API: sin el hash y con el nombre del técnico o cliente
+export type CalendarFeedSummary = Omit<CalendarFeed, 'tokenHash'> & { targetName: string | null };
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type UpdateEmailTemplate = z.infer<typeof updateEmailTemplateSchema>;
+export type EmailTemplateEvent = (typeof emailTemplateEventEnum.enumValues)[number];
+
+// Plantilla vigente de un evento: la guardada o, si no existe, la predeterminada
+export interface EmailTemplateInfo {
+  event: EmailTemplateEvent;
+  subject: string;
+  html: string;
+  customized: boolean;
+  updatedAt: string | null;
+  placeholders: string[];
+}
+
+export interface EmailTemplatePreview {
+  subject: string;
+  html: string;
+}
+
+// Mensaje de la cola tal como se lista en administración: sin el contenido de los adjuntos
+export type EmailOutboxSummary = Omit<EmailOutboxMessage, 'attachments'> & { attachments: string[] };
+
+// Días de garantía que cubre cada servicio completado y aviso previo al vencimiento
+export const SERVICE_WARRANTY_DAYS = 90;
+export const WARRANTY_EXPIRING_DAYS = 30;
+
+export type WarrantyStatus = 'active' | 'expiring' | 'expired' | 'none';
+
+export function getWarrantyStatus(expiresAt: Date | string | null, now: Date = new Date()): WarrantyStatus {
+  if (!expiresAt) return 'none';
+  const remainingMs = new Date(expiresAt).getTime() - now.getTime();
+  if (remainingMs < 0) return 'expired';
+  return remainingMs <= WARRANTY_EXPIRING_DAYS * 24 * 60 * 60 * 1000 ? 'expiring' : 'active';
+}
+
+// Historial de un equipo (GET /api/equipment/:id/history)
+export interface EquipmentHistoryOrder {
+  id: number;
+  orderNumber: string;
+  status: OrderStatus;
+  description: string;
+  requestDate: string;
+  completionDate: string | null;
+  total: string | null;
+  clientName: string | null;
+  technicianName: string | null;
+}
+
+// Periodo de garantía: la del fabricante o la que deja cada servicio completado
+export interface EquipmentWarrantyPeriod {
+  source: 'manufacturer' | 'service';
+  serviceOrderId: number | null;
+  orderNumber: string | null;
+  startsAt: string | null;
+  endsAt: string;
+  status: WarrantyStatus;
+}
+
+// Falla que se repite: palabra clave presente en la descripción de varias órdenes
+export interface RecurringFailure {
+  keyword: string;
+  orderNumbers: string[];
+}
+
+export interface EquipmentHistory {
+  equipment: Equipment;
+  orders: EquipmentHistoryOrder[];
+  totalSpent: string;
+  recurringFailures: RecurringFailure[];
+  warrantyPeriods: EquipmentWarrantyPeriod[];
+  // Fin de la cobertura más lejana (fabricante o servicio) y su estado
+  warrantyEndsAt: string | null;
+  warrantyStatus: WarrantyStatus;
+}
+
+// Copia de seguridad guardada en el servidor
+export interface BackupFileInfo {
+  filename: string;
+  size: number;
+  createdAt: string;
+}
+
+// Resultado de validar (o aplicar) la restauración de un respaldo
+export interface RestorePreview {
+  valid: boolean;
+  createdAt: string | null;
+  errors: string[];
+  tables: { table: string; current: number; incoming: number }[];
+}
+
+// Resultado de la prueba de conexión SMTP (POST /api/email/test-connection)
+export interface SmtpDiagnostic {
+  step: 'config' | 'dns' | 'connection' | 'tls' | 'auth' | 'send';
+  status: 'ok' | 'warning' | 'error';
+  message: string;
+  durationMs: number;
+}
+
+export interface SmtpTestResult {
+  success: boolean;
+  message: string;
+  detail?: string;
+  banner?: string;
+  diagnostics: SmtpDiagnostic[];
+}
+
+// Estado del servidor y sus subsistemas (GET /api/admin/system-info)
+export interface SystemInfo {
+  generatedAt: string;
+  server: {
+    startedAt: string;
+    uptimeSeconds: number;
+    nodeVersion: string;
+    platform: string;
+    environment: string;
+    memoryRssBytes: number;
+  };
+  database: {
+    connected: boolean;
+    error: string | null;
+    sizeBytes: number | null;
+    totalRows: number;
+    tables: { table: string; rows: number }[];
+    activeSessions: number | null;
+  };
+  latency: {
+    totalRequests: number;
+    serverErrors: number;
+    sampleSize: number;
+    averageMs: number | null;
+    p50Ms: number | null;
+    p95Ms: number | null;
+    p99Ms: number | null;
+  };
+  email: {
+    configured: boolean;
+    host: string | null;
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    lastError: string | null;
+  };
+  pdf: {
+    templateAvailable: boolean;
+    pdfshiftConfigured: boolean;
+    chromiumAvailable: boolean;
+  };
+}
+
 export type InsertMonthlyRevenue = z.infer<typeof insertMonthlyRevenueSchema>;
 export type MonthlyRevenue = typeof monthlyRevenue.$inferSelect;
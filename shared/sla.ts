@@ -0,0 +1,119 @@
+import type {
+  BusinessCalendar, OrderPriority, OrderSlaStatus, ServiceOrder, SlaPolicy, SlaState,
+} from "./schema";
+
+const MINUTE_MS = 60 * 1000;
+// Un compromiso está en riesgo cuando le queda menos de esta fracción de su plazo
+export const SLA_AT_RISK_RATIO = 0.25;
+// Límite de días que se recorren buscando horario laboral (calendarios casi vacíos)
+const MAX_CALENDAR_DAYS = 3 * 366;
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Ventanas laborales [inicio, fin) del día de `date`, en hora local del servidor
+function businessWindows(calendar: Pick<BusinessCalendar, 'hours' | 'holidays'>, date: Date): [Date, Date][] {
+  if (calendar.holidays.includes(dayKey(date))) return [];
+  return calendar.hours
+    .filter(window => window.day === date.getDay())
+    .map(window => {
+      const [start, end] = [minutesOfDay(window.start), minutesOfDay(window.end)];
+      return [
+        new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, start),
+        new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, end),
+      ] as [Date, Date];
+    })
+    .sort((a, b) => a[0].getTime() - b[0].getTime());
+}
+
+// Fecha en la que se cumplen `hours` horas laborales contadas desde `start`.
+// Sin calendario el plazo corre de forma continua.
+export function addBusinessHours(
+  start: Date,
+  hours: number,
+  calendar: Pick<BusinessCalendar, 'hours' | 'holidays'> | null,
+): Date {
+  if (!calendar || calendar.hours.length === 0) {
+    return new Date(start.getTime() + hours * 60 * MINUTE_MS);
+  }
+
+  let remaining = hours * 60 * MINUTE_MS;
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    for (const [windowStart, windowEnd] of businessWindows(calendar, day)) {
+      const from = Math.max(windowStart.getTime(), start.getTime());
+      if (from >= windowEnd.getTime()) continue;
+      const available = windowEnd.getTime() - from;
+      if (remaining <= available) return new Date(from + remaining);
+      remaining -= available;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return new Date(start.getTime() + hours * 60 * MINUTE_MS);
+}
+
+// Política aplicable a una orden: la más específica entre las activas
+// (cliente y prioridad, solo cliente, solo prioridad y, por último, la general)
+export function selectSlaPolicy(
+  policies: SlaPolicy[],
+  order: { clientId: number; priority: OrderPriority },
+): SlaPolicy | undefined {
+  const specificity = (policy: SlaPolicy) => (policy.clientId !== null ? 2 : 0) + (policy.priority !== null ? 1 : 0);
+  return policies
+    .filter(policy => policy.active
+      && (policy.clientId === null || policy.clientId === order.clientId)
+      && (policy.priority === null || policy.priority === order.priority))
+    .sort((a, b) => specificity(b) - specificity(a) || a.id - b.id)[0];
+}
+
+// Plazos de respuesta y resolución de una orden según la política y su calendario
+export function calculateSlaDueDates(
+  requestDate: Date,
+  policy: SlaPolicy | undefined,
+  calendar: BusinessCalendar | null | undefined,
+) {
+  if (!policy) {
+    return { slaPolicyId: null, responseDueAt: null, resolutionDueAt: null };
+  }
+  return {
+    slaPolicyId: policy.id,
+    responseDueAt: addBusinessHours(requestDate, policy.responseHours, calendar ?? null),
+    resolutionDueAt: addBusinessHours(requestDate, policy.resolutionHours, calendar ?? null),
+  };
+}
+
+function slaState(startedAt: Date, dueAt: Date, doneAt: Date | null, now: Date): SlaState {
+  if (doneAt) return doneAt.getTime() <= dueAt.getTime() ? 'met' : 'breached';
+  if (now.getTime() > dueAt.getTime()) return 'breached';
+  const window = dueAt.getTime() - startedAt.getTime();
+  return dueAt.getTime() - now.getTime() < window * SLA_AT_RISK_RATIO ? 'at_risk' : 'on_track';
+}
+
+// Situación de los compromisos de una orden. La resolución se cumple al completarla
+// (o pasarla a garantía); las órdenes canceladas dejan de contar para la resolución.
+export function orderSlaStatus(order: ServiceOrder, now: Date = new Date()): OrderSlaStatus {
+  const requestDate = new Date(order.requestDate);
+  const resolvedAt = order.status === 'completed' || order.status === 'warranty'
+    ? new Date(order.completionDate ?? now)
+    : null;
+  const respondedAt = order.respondedAt ? new Date(order.respondedAt) : null;
+
+  return {
+    response: order.responseDueAt
+      ? slaState(requestDate, new Date(order.responseDueAt), respondedAt ?? resolvedAt, now)
+      : null,
+    resolution: order.resolutionDueAt && order.status !== 'cancelled'
+      ? slaState(requestDate, new Date(order.resolutionDueAt), resolvedAt, now)
+      : null,
+  };
+}
+
+// La orden se considera atendida cuando tiene técnico asignado o deja de estar pendiente
+export function isOrderResponded(order: Pick<ServiceOrder, 'status' | 'technicianId'>): boolean {
+  return order.technicianId !== null || order.status !== 'pending';
+}
@@ -0,0 +1,21 @@
+// Prefijo de las URLs de los archivos guardados por el servidor
+export const UPLOADS_URL_PREFIX = '/uploads/';
+
+export function isStoredFileUrl(url: string): boolean {
+  return url.startsWith(UPLOADS_URL_PREFIX);
+}
+
+// Miniatura de una imagen guardada: "/uploads/fotos/a.jpg" -> "/uploads/fotos/a.thumb.jpg".
+// Las URLs externas o en base64 se devuelven sin cambios.
+export function thumbnailUrl(url: string): string {
+  return isStoredFileUrl(url) ? url.replace(/\.(\w+)$/, '.thumb.$1') : url;
+}
+
+// Tipos de archivo que se aceptan como adjuntos de una orden y tamaño máximo por archivo
+export const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'] as const;
+export const MAX_UPLOAD_SIZE_BYTES = 15 * 1024 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+
+export function isImageMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}